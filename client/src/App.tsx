@@ -8,8 +8,11 @@ import CalendarPage from "@/pages/calendar-page";
 import TeamPage from "@/pages/team-page";
 import ReportsPage from "@/pages/reports-page";
 import SettingsPage from "@/pages/settings-page";
+import NotificationsPage from "@/pages/notifications-page";
+import TwoFactorSetupPage from "@/pages/two-factor-setup-page";
 import { AuthProvider, useAuth } from "./hooks/use-auth";
 import { WebSocketProvider } from "./hooks/use-websocket";
+import { ProjectProvider } from "./context/project-context";
 import { TaskProvider } from "./context/task-context";
 import { Loader2 } from "lucide-react";
 
@@ -62,6 +65,11 @@ const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
     return null;
   }
   
+  // The API refuses everything else until a required 2FA setup is done
+  if (user.twoFactorSetupRequired) {
+    return <TwoFactorSetupPage />;
+  }
+  
   return <>{children}</>;
 };
 
@@ -104,6 +112,10 @@ function Router() {
         {!user ? <Redirect to="/auth" /> : <SettingsPage />}
       </Route>
       
+      <Route path="/notifications">
+        {!user ? <Redirect to="/auth" /> : <NotificationsPage />}
+      </Route>
+      
       <Route>
         <NotFound />
       </Route>
@@ -115,10 +127,12 @@ function App() {
   return (
     <AuthProvider>
       <WebSocketProvider>
-        <TaskProvider>
-          <Router />
-          <Toaster />
-        </TaskProvider>
+        <ProjectProvider>
+          <TaskProvider>
+            <Router />
+            <Toaster />
+          </TaskProvider>
+        </ProjectProvider>
       </WebSocketProvider>
     </AuthProvider>
   );
@@ -0,0 +1,100 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2, MailCheck } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Invalid email address"),
+});
+
+type ForgotPasswordValues = z.infer<typeof forgotPasswordSchema>;
+
+interface ForgotPasswordFormProps {
+  onBack: () => void;
+}
+
+export default function ForgotPasswordForm({ onBack }: ForgotPasswordFormProps) {
+  const { toast } = useToast();
+
+  const form = useForm<ForgotPasswordValues>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: { email: "" },
+  });
+
+  const requestResetMutation = useMutation({
+    mutationFn: async (data: ForgotPasswordValues) => {
+      await apiRequest("POST", "/api/password-reset", data);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to request a reset link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The server answers the same for unknown emails, so this is all we can say
+  if (requestResetMutation.isSuccess) {
+    return (
+      <div className="py-6 text-center">
+        <MailCheck className="mx-auto h-10 w-10 text-green-500" />
+        <p className="mt-3 text-sm text-gray-600">
+          If an account uses {form.getValues("email")}, a link to reset its password is on its way.
+        </p>
+        <Button variant="link" className="mt-2" onClick={onBack}>
+          Back to sign in
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(data => requestResetMutation.mutate(data))} className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Enter the email of your account and we'll send you a link to choose a new password.
+        </p>
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email</FormLabel>
+              <FormControl>
+                <Input type="email" placeholder="Enter your email" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" className="w-full" disabled={requestResetMutation.isPending}>
+          {requestResetMutation.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Sending...
+            </>
+          ) : (
+            'Send reset link'
+          )}
+        </Button>
+        <div className="text-center text-sm">
+          <button
+            type="button"
+            className="text-primary-600 hover:text-primary-500 font-medium"
+            onClick={onBack}
+          >
+            Back to sign in
+          </button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { ApiError } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+
+interface TwoFactorLoginFormProps {
+  // Back to the password form, also used when the pending sign-in expires
+  onCancel: () => void;
+}
+
+export default function TwoFactorLoginForm({ onCancel }: TwoFactorLoginFormProps) {
+  const { twoFactorLoginMutation } = useAuth();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+
+  const submit = (value: string) => {
+    if (!value.trim()) return;
+    twoFactorLoginMutation.mutate({ code: value }, {
+      onError: (error) => {
+        setCode("");
+        if (error instanceof ApiError && error.body?.code === "twoFactorExpired") onCancel();
+      },
+    });
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        submit(code);
+      }}
+      className="space-y-4"
+    >
+      <div className="text-center">
+        <ShieldCheck className="mx-auto h-10 w-10 text-primary-500" />
+        <p className="mt-3 text-sm text-gray-600">
+          {useRecoveryCode
+            ? "Enter one of the recovery codes you saved when you turned on two-factor authentication"
+            : "Enter the 6-digit code from your authenticator app"}
+        </p>
+      </div>
+
+      {useRecoveryCode ? (
+        <div className="space-y-2">
+          <Label htmlFor="recovery-code">Recovery code</Label>
+          <Input
+            id="recovery-code"
+            autoComplete="off"
+            placeholder="xxxxx-xxxxx"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            autoFocus
+          />
+        </div>
+      ) : (
+        <div className="flex justify-center">
+          <InputOTP
+            maxLength={6}
+            value={code}
+            onChange={setCode}
+            onComplete={submit}
+            autoFocus
+            disabled={twoFactorLoginMutation.isPending}
+          >
+            <InputOTPGroup>
+              {Array.from({ length: 6 }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      )}
+
+      <Button type="submit" className="w-full" disabled={twoFactorLoginMutation.isPending}>
+        {twoFactorLoginMutation.isPending ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Verifying...
+          </>
+        ) : (
+          "Verify"
+        )}
+      </Button>
+
+      <div className="flex justify-between text-sm">
+        <button
+          type="button"
+          className="text-primary-600 hover:text-primary-500"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setCode("");
+          }}
+        >
+          {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+        </button>
+        <button type="button" className="text-gray-500 hover:text-gray-700" onClick={onCancel}>
+          Back to sign in
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { CalendarDays, Check, Copy, Loader2, X } from "lucide-react";
+import { PublicCalendarFeed } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useProjectContext } from "@/context/project-context";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DialogHeader,
+  DialogTitle,
+  DialogDescription
+} from "@/components/ui/dialog";
+
+interface CalendarFeedsDialogProps {
+  onClose: () => void;
+}
+
+// Subscription URLs for calendar apps, which then show tasks on their due dates
+export default function CalendarFeedsDialog({ onClose }: CalendarFeedsDialogProps) {
+  const { toast } = useToast();
+  const { projects } = useProjectContext();
+  const [source, setSource] = useState("mine");
+  const [kind, setKind] = useState("event");
+  // The feed URL can only be shown right after creation, the server keeps a hash
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const { data: feeds = [], isLoading } = useQuery<PublicCalendarFeed[]>({
+    queryKey: ["/api/calendar-feeds"],
+  });
+
+  const getFeedName = (feed: PublicCalendarFeed) => feed.projectId === null
+    ? "My assigned tasks"
+    : projects.find(project => project.id === feed.projectId)?.name ?? "Project";
+
+  const createFeedMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/calendar-feeds", {
+        projectId: source === "mine" ? null : parseInt(source),
+      });
+      return await res.json() as PublicCalendarFeed & { path: string };
+    },
+    onSuccess: (feed) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar-feeds"] });
+      const url = new URL(feed.path, window.location.origin);
+      if (kind === "todo") url.searchParams.set("kind", "todo");
+      setFeedUrl(url.toString());
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create calendar feed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeFeedMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/calendar-feeds/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar-feeds"] });
+      toast({
+        title: "Calendar feed revoked",
+        description: "Calendars subscribed to it stop updating",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to revoke calendar feed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyFeedUrl = async () => {
+    if (!feedUrl) return;
+    await navigator.clipboard.writeText(feedUrl);
+    setCopied(true);
+  };
+
+  if (feedUrl) {
+    return (
+      <>
+        <DialogHeader>
+          <DialogTitle>Calendar Feed Created</DialogTitle>
+          <DialogDescription>
+            Copy the URL now, it cannot be shown again. Add it in your calendar app as a subscription
+            ("From URL" or "Subscribe to calendar"). Anyone with the URL can see these tasks.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex space-x-2 mt-4">
+          <Input value={feedUrl} readOnly className="font-mono" onFocus={(e) => e.target.select()} />
+          <Button type="button" variant="outline" onClick={copyFeedUrl} aria-label="Copy feed URL">
+            {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+          </Button>
+        </div>
+
+        <div className="flex justify-end pt-4">
+          <Button type="button" onClick={onClose}>Done</Button>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Subscribe in a Calendar App</DialogTitle>
+        <DialogDescription>
+          Tasks with a due date show up in your calendar and stay in sync
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4 mt-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label>Tasks</Label>
+            <Select value={source} onValueChange={setSource}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="mine">My assigned tasks</SelectItem>
+                {projects.map((project) => (
+                  <SelectItem key={project.id} value={project.id.toString()}>
+                    {project.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Show as</Label>
+            <Select value={kind} onValueChange={setKind}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="event">All-day events</SelectItem>
+                <SelectItem value="todo">To-dos</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+        ) : feeds.length > 0 && (
+          <div>
+            <Label>Your feeds</Label>
+            <ul className="mt-2 divide-y divide-gray-200">
+              {feeds.map((feed) => (
+                <li key={feed.id} className="py-2 flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <CalendarDays className="h-4 w-4 text-gray-400" />
+                    <div>
+                      <span className="text-sm text-gray-900">{getFeedName(feed)}</span>
+                      <p className="text-xs text-gray-500">
+                        {feed.lastUsedAt
+                          ? `Last fetched ${formatDistanceToNow(new Date(feed.lastUsedAt), { addSuffix: true })}`
+                          : "Never fetched"}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => revokeFeedMutation.mutate(feed.id)}
+                    disabled={revokeFeedMutation.isPending}
+                    aria-label={`Revoke feed ${getFeedName(feed)}`}
+                  >
+                    {revokeFeedMutation.isPending && revokeFeedMutation.variables === feed.id
+                      ? <Loader2 className="h-4 w-4 animate-spin" />
+                      : <X className="h-4 w-4" />}
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <Button type="button" variant="outline" onClick={onClose} disabled={createFeedMutation.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={() => createFeedMutation.mutate()} disabled={createFeedMutation.isPending}>
+            {createFeedMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Create Feed URL
+          </Button>
+        </div>
+      </div>
+    </>
+  );
+}
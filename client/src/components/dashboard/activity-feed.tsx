@@ -1,102 +1,75 @@
-import { useQuery } from "@tanstack/react-query";
-import { Comment, Task, User } from "@shared/schema";
+import { useState } from "react";
+import { useInfiniteQuery, useQuery, InfiniteData } from "@tanstack/react-query";
+import { ActivityItem, User } from "@shared/schema";
+import { defaultWorkflow, getWorkflowStatus } from "@shared/workflow";
+import { apiRequest } from "@/lib/queryClient";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { formatDistanceToNow } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { useWorkflows } from "@/hooks/use-workflows";
+import { useProjectContext } from "@/context/project-context";
 
-interface ActivityItem {
-  id: number;
-  type: "task_created" | "task_completed" | "comment_added" | "task_assigned";
-  userId: number;
-  timestamp: Date;
-  taskId?: number;
-  taskTitle?: string;
-  commentId?: number;
-  commentContent?: string;
-}
+const PAGE_SIZE = 10;
+
+type ActivityPage = {
+  items: ActivityItem[];
+  nextCursor: string | null;
+};
 
 export default function ActivityFeed() {
+  const { getWorkflow } = useWorkflows();
+  const { selectedProjectId } = useProjectContext();
+  const [userFilter, setUserFilter] = useState("all");
+
   // Fetch users for displaying user info
   const { data: users = [], isLoading: isLoadingUsers } = useQuery<User[]>({
     queryKey: ["/api/users"],
   });
-  
-  // Fetch tasks for creating the activity feed
-  const { data: tasks = [], isLoading: isLoadingTasks } = useQuery<Task[]>({
-    queryKey: ["/api/tasks"],
-  });
-  
-  // Fetch comments
-  const { data: allComments = [], isLoading: isLoadingComments } = useQuery<Comment[]>({
-    queryKey: ["/api/tasks/comments"],
-    queryFn: async () => {
-      try {
-        // Since we don't have a global comments endpoint, we'll return an empty array
-        // In a real app, you would fetch comments from each task or have a dedicated endpoint
-        return [];
-      } catch (error) {
-        console.error("Error fetching comments:", error);
-        return [];
-      }
+
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+  if (selectedProjectId !== null) params.set("projectId", String(selectedProjectId));
+  if (userFilter !== "all") params.set("userId", userFilter);
+
+  // New events arrive over the WebSocket, which invalidates this query
+  const {
+    data,
+    isLoading: isLoadingActivity,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useInfiniteQuery<ActivityPage, Error, InfiniteData<ActivityPage>, string[], string | null>({
+    queryKey: ["/api/activity", params.toString()],
+    queryFn: async ({ pageParam }) => {
+      const pageParams = new URLSearchParams(params);
+      if (pageParam) pageParams.set("cursor", pageParam);
+
+      const res = await apiRequest("GET", `/api/activity?${pageParams}`);
+      return {
+        items: await res.json(),
+        nextCursor: res.headers.get("X-Next-Cursor"),
+      };
     },
+    initialPageParam: null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
   });
-  
-  const isLoading = isLoadingUsers || isLoadingTasks || isLoadingComments;
-  
-  // Create a synthetic activity feed based on tasks and comments
-  // In a real app, this would likely be a dedicated API endpoint
-  const createActivityFeed = (): ActivityItem[] => {
-    const activities: ActivityItem[] = [];
-    
-    // Add task creation activities
-    tasks.forEach(task => {
-      activities.push({
-        id: task.id * 10000, // Use a multiplier to avoid ID collisions
-        type: "task_created",
-        userId: task.createdById,
-        timestamp: new Date(task.createdAt),
-        taskId: task.id,
-        taskTitle: task.title,
-      });
-      
-      // Add task completion activities for completed tasks
-      if (task.status === "completed") {
-        activities.push({
-          id: task.id * 10000 + 1,
-          type: "task_completed",
-          userId: task.createdById, // In a real app, this would be the user who completed the task
-          timestamp: new Date(task.createdAt), // This should be the completion date in a real app
-          taskId: task.id,
-          taskTitle: task.title,
-        });
-      }
-    });
-    
-    // Add comment activities
-    allComments.forEach(comment => {
-      activities.push({
-        id: comment.id * 10000 + 2,
-        type: "comment_added",
-        userId: comment.userId,
-        timestamp: new Date(comment.createdAt),
-        taskId: comment.taskId,
-        taskTitle: tasks.find(t => t.id === comment.taskId)?.title,
-        commentId: comment.id,
-        commentContent: comment.content,
-      });
-    });
-    
-    // Sort by timestamp (newest first)
-    return activities.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-  };
-  
-  const activities = createActivityFeed();
-  
+
+  const activities = data?.pages.flatMap(page => page.items) ?? [];
+  const isLoading = isLoadingUsers || isLoadingActivity;
+
   // Get user info by ID
-  const getUserById = (userId: number) => {
+  const getUserById = (userId: unknown) => {
     return users.find(user => user.id === userId);
   };
-  
+
   // Get user initials for avatar fallback
   const getUserInitials = (fullName: string) => {
     return fullName
@@ -105,56 +78,72 @@ export default function ActivityFeed() {
       .join("")
       .toUpperCase();
   };
-  
-  // Format the activity message based on type
-  const getActivityMessage = (activity: ActivityItem) => {
-    const user = getUserById(activity.userId);
-    
-    if (!user) return null;
-    
+
+  const getStatusName = (activity: ActivityItem, key: string) => {
+    const status = getWorkflowStatus(getWorkflow(activity.projectId), key)
+      ?? getWorkflowStatus(defaultWorkflow, key);
+    return status?.name ?? key;
+  };
+
+  // What happened, phrased to be followed by the task title
+  const describeActivity = (activity: ActivityItem) => {
+    const details = activity.details ?? {};
     switch (activity.type) {
-      case "task_created":
-        return (
-          <p className="text-sm text-gray-900">
-            <span className="font-medium">{user.fullName}</span> created the task{" "}
-            <span className="font-medium">{activity.taskTitle}</span>
-          </p>
-        );
-      case "task_completed":
-        return (
-          <p className="text-sm text-gray-900">
-            <span className="font-medium">{user.fullName}</span> completed the task{" "}
-            <span className="font-medium">{activity.taskTitle}</span>
-          </p>
-        );
-      case "comment_added":
-        return (
-          <p className="text-sm text-gray-900">
-            <span className="font-medium">{user.fullName}</span> commented on{" "}
-            <span className="font-medium">{activity.taskTitle}</span>
-          </p>
-        );
-      case "task_assigned":
-        return (
-          <p className="text-sm text-gray-900">
-            <span className="font-medium">{user.fullName}</span> was assigned to{" "}
-            <span className="font-medium">{activity.taskTitle}</span>
-          </p>
-        );
+      case "created":
+        return "created the task";
+      case "updated": {
+        const statusChange = activity.changes?.find(change => change.field === "status");
+        if (statusChange && activity.changes?.length === 1) {
+          return `moved to ${getStatusName(activity, String(statusChange.to))}`;
+        }
+        return "updated";
+      }
+      case "deleted":
+        return "deleted the task";
+      case "assigned":
+        return `assigned ${getUserById(details.assigneeId)?.fullName ?? "someone"} to`;
+      case "unassigned":
+        return `unassigned ${getUserById(details.assigneeId)?.fullName ?? "someone"} from`;
+      case "commented":
+        return "commented on";
+      case "timeLogged":
+        return "logged time on";
+      case "labelAdded":
+        return `added label ${details.labelName ?? ""} to`;
+      case "labelRemoved":
+        return `removed label ${details.labelName ?? ""} from`;
+      case "dependencyAdded":
+        return `marked task #${details.blockingTaskId} as blocking`;
+      case "dependencyRemoved":
+        return `removed blocker #${details.blockingTaskId} from`;
+      case "attachmentAdded":
+        return `attached ${details.fileName} to`;
+      case "attachmentRemoved":
+        return `removed attachment ${details.fileName} from`;
       default:
-        return null;
+        return activity.type;
     }
   };
-  
+
   return (
     <>
       <div className="px-5 py-4 border-b border-gray-200 flex justify-between items-center">
         <h3 className="text-lg font-medium text-gray-900">Recent Activity</h3>
-        <a href="#" className="text-sm text-primary-600 hover:text-primary-500">
-          View all
-        </a>
+        <Select value={userFilter} onValueChange={setUserFilter}>
+          <SelectTrigger className="h-8 w-[160px] text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Everyone</SelectItem>
+            {users.map(user => (
+              <SelectItem key={user.id} value={String(user.id)}>
+                {user.fullName}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
       </div>
-      
+
       <div className="divide-y divide-gray-200">
         {isLoading ? (
           Array(4)
@@ -173,21 +162,23 @@ export default function ActivityFeed() {
             No recent activity found
           </div>
         ) : (
-          activities.slice(0, 5).map((activity) => {
+          activities.map((activity) => {
             const user = getUserById(activity.userId);
-            
-            if (!user) return null;
-            
+            const fullName = user?.fullName ?? "Someone";
+
             return (
               <div key={activity.id} className="px-5 py-4 flex items-start">
                 <Avatar>
-                  <AvatarImage src={user.avatar} alt={user.fullName} />
-                  <AvatarFallback>{getUserInitials(user.fullName)}</AvatarFallback>
+                  <AvatarImage src={user?.avatar} alt={fullName} />
+                  <AvatarFallback>{getUserInitials(fullName)}</AvatarFallback>
                 </Avatar>
                 <div className="ml-3">
-                  {getActivityMessage(activity)}
+                  <p className="text-sm text-gray-900">
+                    <span className="font-medium">{fullName}</span> {describeActivity(activity)}{" "}
+                    <span className="font-medium">{activity.taskTitle ?? `task #${activity.taskId}`}</span>
+                  </p>
                   <p className="mt-1 text-xs text-gray-500">
-                    {formatDistanceToNow(new Date(activity.timestamp), { addSuffix: true })}
+                    {formatDistanceToNow(new Date(activity.createdAt), { addSuffix: true })}
                   </p>
                 </div>
               </div>
@@ -195,6 +186,20 @@ export default function ActivityFeed() {
           })
         )}
       </div>
+
+      {hasNextPage && (
+        <div className="px-5 py-3 border-t border-gray-200 text-center">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+          >
+            {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Load more
+          </Button>
+        </div>
+      )}
     </>
   );
 }
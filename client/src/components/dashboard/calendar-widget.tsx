@@ -1,6 +1,6 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { Task } from "@shared/schema";
+import { useWorkflows } from "@/hooks/use-workflows";
+import { useTasksInRange } from "@/hooks/use-tasks-in-range";
 import { 
   format, 
   startOfMonth, 
@@ -9,27 +9,29 @@ import {
   isSameMonth, 
   isSameDay, 
   parseISO,
+  addDays,
   addMonths,
-  subMonths
+  subMonths,
+  startOfDay,
+  endOfDay
 } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ChevronLeft, ChevronRight } from "lucide-react";
 
 export default function CalendarWidget() {
+  const { isTaskDone } = useWorkflows();
   const [currentDate, setCurrentDate] = useState(new Date());
   
-  // Fetch tasks
-  const { data: tasks = [], isLoading } = useQuery<Task[]>({
-    queryKey: ["/api/tasks"],
-  });
-  
-  // Filter tasks with due dates
-  const tasksWithDueDate = tasks.filter(task => task.dueDate);
-  
   // Generate days for the current month
   const monthStart = startOfMonth(currentDate);
   const monthEnd = endOfMonth(currentDate);
+  
+  // Fetch the tasks due this month, and those due within a week
+  const startOfToday = startOfDay(new Date());
+  const { data: tasksWithDueDate = [], isLoading } = useTasksInRange({ dueFrom: monthStart, dueTo: monthEnd });
+  const { data: dueSoon = [] } = useTasksInRange({ dueFrom: startOfToday, dueTo: endOfDay(addDays(startOfToday, 7)) });
+  
   const calendarDays = eachDayOfInterval({ start: monthStart, end: monthEnd });
   
   // Navigate through months
@@ -51,11 +53,11 @@ export default function CalendarWidget() {
     const in7Days = new Date();
     in7Days.setDate(today.getDate() + 7);
     
-    return tasksWithDueDate
+    return dueSoon
       .filter(task => {
         if (!task.dueDate) return false;
         const dueDate = parseISO(task.dueDate.toString());
-        return dueDate >= today && dueDate <= in7Days && task.status !== "completed";
+        return dueDate >= today && dueDate <= in7Days && !isTaskDone(task);
       })
       .sort((a, b) => {
         const dateA = parseISO(a.dueDate!.toString());
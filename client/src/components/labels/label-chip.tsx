@@ -0,0 +1,16 @@
+import { Label } from "@shared/schema";
+
+interface LabelChipProps {
+  label: Label;
+}
+
+export default function LabelChip({ label }: LabelChipProps) {
+  return (
+    <span
+      className="inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium text-white"
+      style={{ backgroundColor: label.color }}
+    >
+      {label.name}
+    </span>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Plus, Tag } from "lucide-react";
+import { Label } from "@shared/schema";
+import { apiRequest, queryClient, ApiError } from "@/lib/queryClient";
+import { useLabels } from "@/hooks/use-labels";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+
+// Colors offered for new labels
+const LABEL_COLORS = ["#EF4444", "#F97316", "#EAB308", "#22C55E", "#3B82F6", "#8B5CF6", "#64748B"];
+
+interface LabelPickerProps {
+  taskId: number;
+}
+
+export default function LabelPicker({ taskId }: LabelPickerProps) {
+  const { toast } = useToast();
+  const { labels, getLabelIdsForTask } = useLabels();
+  const [newLabelName, setNewLabelName] = useState("");
+  const [newLabelColor, setNewLabelColor] = useState(LABEL_COLORS[0]);
+  const attachedIds = getLabelIdsForTask(taskId);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Failed to update labels",
+      description: (error instanceof ApiError && error.body?.message) || error.message,
+      variant: "destructive",
+    });
+  };
+
+  // Attach or detach a label
+  const toggleLabelMutation = useMutation({
+    mutationFn: async ({ labelId, attach }: { labelId: number; attach: boolean }) => {
+      if (attach) {
+        await apiRequest("POST", `/api/tasks/${taskId}/labels`, { labelId });
+      } else {
+        await apiRequest("DELETE", `/api/tasks/${taskId}/labels/${labelId}`);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/task-labels"] });
+    },
+    onError,
+  });
+
+  // Create a label and put it on this task right away
+  const createLabelMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/labels", {
+        name: newLabelName.trim(),
+        color: newLabelColor,
+      });
+      const label: Label = await res.json();
+      await apiRequest("POST", `/api/tasks/${taskId}/labels`, { labelId: label.id });
+      return label;
+    },
+    onSuccess: () => {
+      setNewLabelName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/labels"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/task-labels"] });
+    },
+    onError,
+  });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Tag className="h-4 w-4 mr-1.5" />
+          Label
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64" align="start">
+        <div className="space-y-2">
+          {labels.length === 0 && (
+            <div className="text-sm text-gray-500">No labels yet</div>
+          )}
+          {labels.map(label => (
+            <label key={label.id} className="flex items-center space-x-2 text-sm cursor-pointer">
+              <Checkbox
+                checked={attachedIds.includes(label.id)}
+                onCheckedChange={(checked) =>
+                  toggleLabelMutation.mutate({ labelId: label.id, attach: checked === true })
+                }
+                disabled={toggleLabelMutation.isPending}
+              />
+              <span
+                className="w-2 h-2 rounded-full"
+                style={{ backgroundColor: label.color }}
+              ></span>
+              <span className="text-gray-700">{label.name}</span>
+            </label>
+          ))}
+        </div>
+
+        <div className="mt-3 pt-3 border-t border-gray-200 space-y-2">
+          <div className="flex space-x-2">
+            <Input
+              placeholder="New label..."
+              className="h-8 text-sm"
+              value={newLabelName}
+              onChange={(e) => setNewLabelName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && newLabelName.trim()) {
+                  e.preventDefault();
+                  createLabelMutation.mutate();
+                }
+              }}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => createLabelMutation.mutate()}
+              disabled={createLabelMutation.isPending || !newLabelName.trim()}
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex space-x-1.5">
+            {LABEL_COLORS.map(color => (
+              <button
+                key={color}
+                type="button"
+                className={`h-5 w-5 rounded-full border-2 ${
+                  newLabelColor === color ? "border-gray-900" : "border-transparent"
+                }`}
+                style={{ backgroundColor: color }}
+                onClick={() => setNewLabelColor(color)}
+                aria-label={`Use color ${color}`}
+              />
+            ))}
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
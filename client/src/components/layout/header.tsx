@@ -40,8 +40,11 @@ export default function Header() {
     },
   });
   
-  // Count unread notifications
-  const unreadCount = notifications.filter(notif => !notif.isRead).length;
+  // Kept current over the WebSocket
+  const { data: unread } = useQuery<{ count: number }>({
+    queryKey: ["/api/notifications/unread-count"],
+  });
+  const unreadCount = unread?.count ?? 0;
   
   // Get notification icon based on type
   const getNotificationIcon = (type: string) => {
@@ -111,7 +114,9 @@ export default function Header() {
               <Button variant="ghost" size="icon" className="relative">
                 <Bell className="h-5 w-5 text-gray-600" />
                 {unreadCount > 0 && (
-                  <span className="absolute top-0 right-0 block h-2 w-2 rounded-full bg-red-500"></span>
+                  <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-medium text-white">
+                    {unreadCount > 99 ? "99+" : unreadCount}
+                  </span>
                 )}
               </Button>
             </DropdownMenuTrigger>
@@ -126,13 +131,13 @@ export default function Header() {
                 <div className="max-h-72 overflow-y-auto">
                   {notifications.slice(0, 5).map((notification) => (
                     <DropdownMenuItem key={notification.id} className="p-0">
-                      <Link href={`/tasks/${notification.relatedId}`}>
+                      <Link href="/notifications">
                         <a className="block px-4 py-3 hover:bg-gray-100 transition duration-150 ease-in-out w-full">
                           <div className="flex items-start">
                             {getNotificationIcon(notification.type)}
                             <div className="ml-3 w-0 flex-1">
                               <p className="text-sm font-medium text-gray-900">{notification.title}</p>
-                              <p className="mt-1 text-sm text-gray-500">{notification.content}</p>
+                              <p className="mt-1 text-sm text-gray-500">{notification.message}</p>
                               <p className="mt-1 text-xs text-gray-400">
                                 {getNotificationTime(notification.createdAt)}
                               </p>
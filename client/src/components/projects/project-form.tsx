@@ -0,0 +1,159 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { useProjectContext } from "@/context/project-context";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  DialogHeader,
+  DialogTitle,
+  DialogDescription
+} from "@/components/ui/dialog";
+
+// Colors offered for new projects
+const PROJECT_COLORS = ["#3B82F6", "#22C55E", "#EAB308", "#EF4444", "#8B5CF6", "#EC4899"];
+
+const projectFormSchema = z.object({
+  name: z.string().trim().min(1, "Project name is required"),
+  description: z.string().optional().nullable(),
+  color: z.string().optional().nullable(),
+});
+
+type ProjectFormValues = z.infer<typeof projectFormSchema>;
+
+interface ProjectFormProps {
+  onClose: () => void;
+}
+
+export default function ProjectForm({ onClose }: ProjectFormProps) {
+  const { createProject } = useProjectContext();
+
+  const form = useForm<ProjectFormValues>({
+    resolver: zodResolver(projectFormSchema),
+    defaultValues: {
+      name: "",
+      description: "",
+      color: PROJECT_COLORS[0],
+    },
+  });
+
+  const onSubmit = async (data: ProjectFormValues) => {
+    try {
+      await createProject({
+        name: data.name,
+        description: data.description || null,
+        color: data.color || null,
+      });
+      onClose();
+    } catch (error) {
+      // The context already reports the failure with a toast
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Create New Project</DialogTitle>
+        <DialogDescription>
+          Projects group related tasks on the board, calendar and reports
+        </DialogDescription>
+      </DialogHeader>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6 mt-4">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="Project name" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="description"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Description</FormLabel>
+                <FormControl>
+                  <Textarea
+                    placeholder="What is this project about?"
+                    rows={3}
+                    value={field.value || ""}
+                    onChange={field.onChange}
+                    onBlur={field.onBlur}
+                    name={field.name}
+                    ref={field.ref}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="color"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Color</FormLabel>
+                <div className="flex space-x-2">
+                  {PROJECT_COLORS.map((color) => (
+                    <button
+                      key={color}
+                      type="button"
+                      className={`h-6 w-6 rounded-full border-2 ${
+                        field.value === color ? "border-gray-900" : "border-transparent"
+                      }`}
+                      style={{ backgroundColor: color }}
+                      onClick={() => field.onChange(color)}
+                      aria-label={`Use color ${color}`}
+                    />
+                  ))}
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={form.formState.isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={form.formState.isSubmitting}>
+              {form.formState.isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Create Project"
+              )}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </>
+  );
+}
@@ -0,0 +1,43 @@
+import { useProjectContext } from "@/context/project-context";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface ProjectSelectProps {
+  className?: string;
+}
+
+export default function ProjectSelect({ className }: ProjectSelectProps) {
+  const { projects, selectedProjectId, setSelectedProjectId } = useProjectContext();
+
+  return (
+    <Select
+      value={selectedProjectId === null ? "all" : selectedProjectId.toString()}
+      onValueChange={(value) =>
+        setSelectedProjectId(value === "all" ? null : parseInt(value))
+      }
+    >
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="Project" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">All Projects</SelectItem>
+        {projects.map((project) => (
+          <SelectItem key={project.id} value={project.id.toString()}>
+            <div className="flex items-center">
+              <div
+                className="w-2 h-2 rounded-full mr-2"
+                style={{ backgroundColor: project.color || "#94A3B8" }}
+              ></div>
+              {project.name}
+            </div>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,285 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2 } from "lucide-react";
+import {
+  Project,
+  StatusCategory,
+  WorkflowStatus,
+  WorkflowTransition,
+  statusCategories,
+} from "@shared/schema";
+import {
+  allTransitions,
+  getOrderedStatuses,
+  statusCategoryLabels,
+} from "@shared/workflow";
+import { apiRequest, queryClient, ApiError } from "@/lib/queryClient";
+import { useWorkflows } from "@/hooks/use-workflows";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DialogHeader,
+  DialogTitle,
+  DialogDescription
+} from "@/components/ui/dialog";
+
+interface WorkflowEditorProps {
+  project: Project;
+  onClose: () => void;
+}
+
+const transitionId = (from: string, to: string) => `${from}->${to}`;
+
+export default function WorkflowEditor({ project, onClose }: WorkflowEditorProps) {
+  const { toast } = useToast();
+  const { workflows, getWorkflow } = useWorkflows();
+  const initialWorkflow = getWorkflow(project.id);
+  const isDefault = !workflows.some(workflow => workflow.projectId === project.id);
+
+  const [statuses, setStatuses] = useState<WorkflowStatus[]>(() => getOrderedStatuses(initialWorkflow));
+  const [transitions, setTransitions] = useState<Set<string>>(
+    () => new Set(initialWorkflow.transitions.map(t => transitionId(t.from, t.to)))
+  );
+
+  const onSaved = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/workflows"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    toast({ title, description: `Workflow for "${project.name}" has been updated` });
+    onClose();
+  };
+
+  const onFailed = (error: Error) => {
+    toast({
+      title: "Failed to update workflow",
+      description: (error instanceof ApiError && error.body?.message) || error.message,
+      variant: "destructive",
+    });
+  };
+
+  // Save workflow mutation
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload: { statuses: WorkflowStatus[]; transitions: WorkflowTransition[] } = {
+        statuses: statuses.map((status, position) => ({ ...status, position })),
+        transitions: allTransitions(statuses).filter(t => transitions.has(transitionId(t.from, t.to))),
+      };
+      const res = await apiRequest("PUT", `/api/projects/${project.id}/workflow`, payload);
+      return await res.json();
+    },
+    onSuccess: () => onSaved("Workflow saved"),
+    onError: onFailed,
+  });
+
+  // Reset to default workflow mutation
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/projects/${project.id}/workflow`);
+    },
+    onSuccess: () => onSaved("Workflow reset"),
+    onError: onFailed,
+  });
+
+  const updateStatus = (index: number, changes: Partial<WorkflowStatus>) => {
+    setStatuses(statuses.map((status, i) => (i === index ? { ...status, ...changes } : status)));
+  };
+
+  const moveStatus = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= statuses.length) return;
+    const reordered = [...statuses];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setStatuses(reordered);
+  };
+
+  const removeStatus = (index: number) => {
+    const removed = statuses[index];
+    setStatuses(statuses.filter((_, i) => i !== index));
+    setTransitions(new Set(
+      Array.from(transitions).filter(id => !id.startsWith(`${removed.key}->`) && !id.endsWith(`->${removed.key}`))
+    ));
+  };
+
+  // New statuses get a generated key; only the display name is editable
+  const addStatus = () => {
+    let n = statuses.length + 1;
+    while (statuses.some(status => status.key === `status${n}`)) n++;
+    const key = `status${n}`;
+
+    setStatuses([...statuses, { key, name: "New Status", category: "active", position: statuses.length }]);
+    // Start out reachable from and to every existing status
+    const next = new Set(transitions);
+    statuses.forEach(status => {
+      next.add(transitionId(status.key, key));
+      next.add(transitionId(key, status.key));
+    });
+    setTransitions(next);
+  };
+
+  const toggleTransition = (from: string, to: string, allowed: boolean) => {
+    const next = new Set(transitions);
+    if (allowed) {
+      next.add(transitionId(from, to));
+    } else {
+      next.delete(transitionId(from, to));
+    }
+    setTransitions(next);
+  };
+
+  const isBusy = saveMutation.isPending || resetMutation.isPending;
+  const hasEmptyName = statuses.some(status => !status.name.trim());
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Workflow for {project.name}</DialogTitle>
+        <DialogDescription>
+          {isDefault
+            ? "This project uses the default workflow. Saving creates a custom one."
+            : "Statuses become board columns; transitions control which moves are allowed."}
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-6 mt-4">
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Statuses</h4>
+          <div className="space-y-2">
+            {statuses.map((status, index) => (
+              <div key={status.key} className="flex items-center space-x-2">
+                <Input
+                  className="h-8 text-sm"
+                  value={status.name}
+                  onChange={(e) => updateStatus(index, { name: e.target.value })}
+                />
+                <Select
+                  value={status.category}
+                  onValueChange={(value) => updateStatus(index, { category: value as StatusCategory })}
+                >
+                  <SelectTrigger className="h-8 w-[140px] text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {statusCategories.map((category) => (
+                      <SelectItem key={category} value={category}>
+                        {statusCategoryLabels[category]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => moveStatus(index, -1)}
+                  disabled={index === 0}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => moveStatus(index, 1)}
+                  disabled={index === statuses.length - 1}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-gray-400 hover:text-red-600"
+                  onClick={() => removeStatus(index)}
+                  disabled={statuses.length === 1}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+          <Button variant="outline" size="sm" className="mt-2" onClick={addStatus}>
+            <Plus className="h-4 w-4 mr-1.5" />
+            Add Status
+          </Button>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-medium text-gray-700">Allowed transitions</h4>
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs"
+              onClick={() => setTransitions(new Set(allTransitions(statuses).map(t => transitionId(t.from, t.to))))}
+            >
+              Allow all
+            </Button>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="text-xs">
+              <thead>
+                <tr>
+                  <th className="p-1 text-left font-normal text-gray-500">From \ To</th>
+                  {statuses.map((to) => (
+                    <th key={to.key} className="p-1 font-medium text-gray-700">{to.name}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {statuses.map((from) => (
+                  <tr key={from.key}>
+                    <td className="p-1 pr-3 font-medium text-gray-700">{from.name}</td>
+                    {statuses.map((to) => (
+                      <td key={to.key} className="p-1 text-center">
+                        {from.key === to.key ? (
+                          <span className="text-gray-300">-</span>
+                        ) : (
+                          <Checkbox
+                            checked={transitions.has(transitionId(from.key, to.key))}
+                            onCheckedChange={(checked) => toggleTransition(from.key, to.key, checked === true)}
+                          />
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="flex justify-between pt-2">
+          <Button
+            variant="ghost"
+            onClick={() => resetMutation.mutate()}
+            disabled={isBusy || isDefault}
+          >
+            Reset to Default
+          </Button>
+          <div className="flex space-x-3">
+            <Button variant="outline" onClick={onClose} disabled={isBusy}>
+              Cancel
+            </Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={isBusy || hasEmptyName}>
+              {saveMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save Workflow"
+              )}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
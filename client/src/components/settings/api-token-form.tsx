@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import { Check, Copy, Loader2 } from "lucide-react";
+import { ApiTokenScope, PublicApiToken, apiTokenScopes } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DialogHeader,
+  DialogTitle,
+  DialogDescription
+} from "@/components/ui/dialog";
+
+export const apiTokenScopeLabels: Record<ApiTokenScope, string> = {
+  "tasks:read": "Read tasks and projects",
+  "tasks:write": "Create and change tasks and projects",
+  "timeEntries:read": "Read time entries",
+  "timeEntries:write": "Log time",
+  "admin": "Everything else your role allows, such as managing users",
+};
+
+// Expiry choices in days; "never" keeps the token until it is revoked
+const expiryOptions = [
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "No expiry" },
+];
+
+const apiTokenFormSchema = z.object({
+  name: z.string().trim().min(1, "A name is required").max(100),
+  scopes: z.array(z.enum(apiTokenScopes)).min(1, "Pick at least one scope"),
+  expiry: z.string(),
+});
+
+type ApiTokenFormValues = z.infer<typeof apiTokenFormSchema>;
+
+interface ApiTokenFormProps {
+  onClose: () => void;
+}
+
+export default function ApiTokenForm({ onClose }: ApiTokenFormProps) {
+  const { toast } = useToast();
+  // The token can only be shown right after creation, the server keeps a hash
+  const [token, setToken] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const form = useForm<ApiTokenFormValues>({
+    resolver: zodResolver(apiTokenFormSchema),
+    defaultValues: {
+      name: "",
+      scopes: ["tasks:read"],
+      expiry: "90",
+    },
+  });
+
+  const createTokenMutation = useMutation({
+    mutationFn: async ({ name, scopes, expiry }: ApiTokenFormValues) => {
+      const res = await apiRequest("POST", "/api/api-tokens", {
+        name,
+        scopes,
+        expiresInDays: expiry === "never" ? null : parseInt(expiry),
+      });
+      return await res.json() as PublicApiToken & { token: string };
+    },
+    onSuccess: (apiToken) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-tokens"] });
+      setToken(apiToken.token);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create API token",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyToken = async () => {
+    if (!token) return;
+    await navigator.clipboard.writeText(token);
+    setCopied(true);
+  };
+
+  if (token) {
+    return (
+      <>
+        <DialogHeader>
+          <DialogTitle>API Token Created</DialogTitle>
+          <DialogDescription>
+            Copy it now, it cannot be shown again. Send it as "Authorization: Bearer &lt;token&gt;".
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex space-x-2 mt-4">
+          <Input value={token} readOnly className="font-mono" onFocus={(e) => e.target.select()} />
+          <Button type="button" variant="outline" onClick={copyToken} aria-label="Copy API token">
+            {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+          </Button>
+        </div>
+
+        <div className="flex justify-end pt-4">
+          <Button type="button" onClick={onClose}>Done</Button>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>New API Token</DialogTitle>
+        <DialogDescription>
+          Scripts using the token act as you, limited to the scopes you pick
+        </DialogDescription>
+      </DialogHeader>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(data => createTokenMutation.mutate(data))} className="space-y-6 mt-4">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. CI deploy script" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="scopes"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Scopes</FormLabel>
+                <div className="space-y-2">
+                  {apiTokenScopes.map((scope) => (
+                    <div key={scope} className="flex items-start space-x-2">
+                      <Checkbox
+                        id={`scope-${scope}`}
+                        checked={field.value.includes(scope)}
+                        onCheckedChange={(checked) => field.onChange(checked === true
+                          ? [...field.value, scope]
+                          : field.value.filter(other => other !== scope))}
+                      />
+                      <label htmlFor={`scope-${scope}`} className="text-sm leading-none">
+                        <span className="font-mono">{scope}</span>
+                        <span className="block text-gray-500 mt-1">{apiTokenScopeLabels[scope]}</span>
+                      </label>
+                    </div>
+                  ))}
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="expiry"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Expires after</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {expiryOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>Tokens that never expire stay valid until you revoke them</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={createTokenMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={createTokenMutation.isPending}>
+              {createTokenMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Creating...
+                </>
+              ) : (
+                "Create Token"
+              )}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </>
+  );
+}
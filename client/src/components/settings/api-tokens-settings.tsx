@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow, isPast } from "date-fns";
+import { KeyRound, Loader2, Plus, X } from "lucide-react";
+import { PublicApiToken } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import ApiTokenForm from "@/components/settings/api-token-form";
+
+// The signed-in user's API tokens, for scripts that cannot use the session cookie
+export default function ApiTokensSettings() {
+  const { toast } = useToast();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+
+  const { data: tokens = [], isLoading } = useQuery<PublicApiToken[]>({
+    queryKey: ["/api/api-tokens"],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/api-tokens/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-tokens"] });
+      toast({
+        title: "API token revoked",
+        description: "Requests using it are now refused",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to revoke API token",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>API Tokens</CardTitle>
+          <CardDescription className="mt-1.5">
+            Let scripts and integrations call the API as you with an "Authorization: Bearer" header
+          </CardDescription>
+        </div>
+        <Button onClick={() => setIsCreateOpen(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Token
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : tokens.length === 0 ? (
+          <div className="py-6 text-center text-sm text-gray-500">
+            You have no API tokens
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {tokens.map((token) => {
+              const expired = !!token.expiresAt && isPast(new Date(token.expiresAt));
+              return (
+                <li key={token.id} className="py-3 flex items-start justify-between">
+                  <div className="flex items-start space-x-3">
+                    <KeyRound className="h-4 w-4 mt-0.5 text-gray-400" />
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <span className="text-sm font-medium text-gray-900">{token.name}</span>
+                        <code className="text-xs text-gray-500">{token.tokenPrefix}…</code>
+                      </div>
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {token.scopes.map((scope) => (
+                          <Badge key={scope} variant="outline" className="font-mono text-xs">
+                            {scope}
+                          </Badge>
+                        ))}
+                      </div>
+                      <p className="mt-1 text-xs text-gray-500">
+                        {token.lastUsedAt
+                          ? `Last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}`
+                          : "Never used"}
+                        {" · "}
+                        <span className={expired ? "text-red-600" : undefined}>
+                          {!token.expiresAt
+                            ? "No expiry"
+                            : `${expired ? "Expired" : "Expires"} ${formatDistanceToNow(new Date(token.expiresAt), { addSuffix: true })}`}
+                        </span>
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => revokeMutation.mutate(token.id)}
+                    disabled={revokeMutation.isPending}
+                    aria-label={`Revoke API token ${token.name}`}
+                  >
+                    {revokeMutation.isPending && revokeMutation.variables === token.id
+                      ? <Loader2 className="h-4 w-4 animate-spin" />
+                      : <X className="h-4 w-4" />}
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          {isCreateOpen && <ApiTokenForm onClose={() => setIsCreateOpen(false)} />}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
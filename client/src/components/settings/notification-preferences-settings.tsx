@@ -0,0 +1,199 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, Save } from "lucide-react";
+import { format } from "date-fns";
+import {
+  DigestFrequency,
+  DigestSettings,
+  NotificationChannel,
+  NotificationPreferences,
+  NotificationType,
+  digestFrequencies,
+  notificationChannels,
+  notificationTypes,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+const typeLabels: Record<NotificationType, string> = {
+  task_assigned: "I am assigned to a task",
+  comment_added: "Someone comments on my task",
+  time_tracked: "Time is logged on my task",
+  task_due_soon: "My task is due soon",
+  task_overdue: "My task is overdue",
+  task_escalated: "An overdue task is escalated to me",
+};
+
+const channelLabels: Record<NotificationChannel, string> = {
+  inApp: "In-app",
+  toast: "Pop-up",
+  email: "Email",
+  digest: "Digest",
+};
+
+// Pop-ups and the digest show in-app notifications
+const needsInApp: NotificationChannel[] = ["toast", "digest"];
+
+const frequencyLabels: Record<DigestFrequency, string> = {
+  off: "Never",
+  daily: "Daily",
+  weekly: "Weekly, on Mondays",
+};
+
+type DigestSchedule = Pick<DigestSettings, "frequency" | "timeZone" | "lastSentAt">;
+
+// Which notifications the signed-in user gets, and how
+export default function NotificationPreferencesSettings() {
+  const { toast } = useToast();
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [frequency, setFrequency] = useState<DigestFrequency>("daily");
+
+  const { data: saved, isLoading } = useQuery<NotificationPreferences>({
+    queryKey: ["/api/notification-preferences"],
+  });
+
+  const { data: digestSchedule, isLoading: isLoadingDigest } = useQuery<DigestSchedule>({
+    queryKey: ["/api/digest-settings"],
+  });
+
+  useEffect(() => {
+    if (saved) setPreferences(saved);
+  }, [saved]);
+
+  useEffect(() => {
+    if (digestSchedule) setFrequency(digestSchedule.frequency);
+  }, [digestSchedule]);
+
+  const savePreferencesMutation = useMutation({
+    mutationFn: async (data: { preferences: NotificationPreferences; frequency: DigestFrequency }) => {
+      const preferencesRes = await apiRequest("PUT", "/api/notification-preferences", data.preferences);
+      // Digests follow the clock of the browser the settings were saved from
+      const digestRes = await apiRequest("PUT", "/api/digest-settings", {
+        frequency: data.frequency,
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+      return {
+        preferences: await preferencesRes.json() as NotificationPreferences,
+        digestSchedule: await digestRes.json() as DigestSchedule,
+      };
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/notification-preferences"], updated.preferences);
+      queryClient.setQueryData(["/api/digest-settings"], updated.digestSchedule);
+      toast({
+        title: "Notification settings updated",
+        description: "Your notification preferences have been updated",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setChannel = (type: NotificationType, channel: NotificationChannel, enabled: boolean) => {
+    if (!preferences) return;
+    setPreferences({ ...preferences, [type]: { ...preferences[type], [channel]: enabled } });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notifications</CardTitle>
+        <CardDescription>
+          Choose how you hear about each kind of notification. Pop-ups appear while TaskFlow is
+          open and the digest is a regular email of unread notifications.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || isLoadingDigest || !preferences ? (
+          <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+        ) : (
+          <div className="space-y-6">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="pb-2 font-medium">Notify me when</th>
+                  {notificationChannels.map((channel) => (
+                    <th key={channel} className="pb-2 px-2 font-medium text-center">
+                      {channelLabels[channel]}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {notificationTypes.map((type) => (
+                  <tr key={type}>
+                    <td className="py-3 text-gray-900">{typeLabels[type]}</td>
+                    {notificationChannels.map((channel) => (
+                      <td key={channel} className="py-3 px-2 text-center">
+                        <Switch
+                          checked={preferences[type][channel]}
+                          disabled={needsInApp.includes(channel) && !preferences[type].inApp}
+                          onCheckedChange={(checked) => setChannel(type, channel, checked)}
+                          aria-label={`${channelLabels[channel]}: ${typeLabels[type]}`}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Email digest</h3>
+              <p className="text-sm text-gray-500">
+                Unread notifications, newly assigned tasks and upcoming due dates in one email.
+                Sent after 8:00 in {digestSchedule?.timeZone ?? "UTC"}. Nothing is sent when there is nothing new.
+                {digestSchedule?.lastSentAt && ` Last checked ${format(new Date(digestSchedule.lastSentAt), "MMM d, HH:mm")}.`}
+              </p>
+              <Select value={frequency} onValueChange={(value) => setFrequency(value as DigestFrequency)}>
+                <SelectTrigger className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {digestFrequencies.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {frequencyLabels[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Button
+              onClick={() => savePreferencesMutation.mutate({ preferences, frequency })}
+              disabled={savePreferencesMutation.isPending}
+            >
+              {savePreferencesMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="mr-2 h-4 w-4" />
+              )}
+              Save Preferences
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
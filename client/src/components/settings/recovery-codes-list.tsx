@@ -0,0 +1,35 @@
+import { useState } from "react";
+import { Check, Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface RecoveryCodesListProps {
+  codes: string[];
+}
+
+// Codes are only returned once, right after they are generated
+export default function RecoveryCodesList({ codes }: RecoveryCodesListProps) {
+  const [copied, setCopied] = useState(false);
+
+  const copyCodes = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    setCopied(true);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        Each code signs you in once if you lose your authenticator. Keep them somewhere safe,
+        they cannot be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 rounded-md bg-gray-50 p-4 font-mono text-sm">
+        {codes.map(code => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <Button type="button" variant="outline" size="sm" onClick={copyCodes}>
+        {copied ? <Check className="mr-2 h-4 w-4" /> : <Copy className="mr-2 h-4 w-4" />}
+        {copied ? "Copied" : "Copy codes"}
+      </Button>
+    </div>
+  );
+}
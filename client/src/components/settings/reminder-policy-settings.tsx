@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, Save } from "lucide-react";
+import { ReminderPolicy } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const leadMinuteChoices = [15, 60, 3 * 60, 24 * 60, 2 * 24 * 60, 7 * 24 * 60];
+const escalationHourChoices = [4, 12, 24, 48, 72, 7 * 24];
+
+function formatMinutes(minutes: number): string {
+  if (minutes % (24 * 60) === 0) return minutes === 24 * 60 ? "1 day" : `${minutes / (24 * 60)} days`;
+  if (minutes % 60 === 0) return minutes === 60 ? "1 hour" : `${minutes / 60} hours`;
+  return `${minutes} minutes`;
+}
+
+// Choices plus whatever the saved policy uses, in ascending order
+function withCurrent(choices: number[], current: number[]): number[] {
+  return Array.from(new Set([...choices, ...current])).sort((a, b) => a - b);
+}
+
+// When due date reminders and escalations go out, only shown to admins
+export default function ReminderPolicySettings() {
+  const { toast } = useToast();
+  const [leadMinutes, setLeadMinutes] = useState<number[]>([]);
+  const [escalationHours, setEscalationHours] = useState<number | null>(null);
+
+  const { data: policy, isLoading } = useQuery<ReminderPolicy>({
+    queryKey: ["/api/reminder-policy"],
+  });
+
+  useEffect(() => {
+    if (policy) {
+      setLeadMinutes(policy.leadMinutes);
+      setEscalationHours(policy.escalationHours);
+    }
+  }, [policy]);
+
+  const savePolicyMutation = useMutation({
+    mutationFn: async (data: ReminderPolicy) => {
+      const res = await apiRequest("PUT", "/api/reminder-policy", data);
+      return await res.json() as ReminderPolicy;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(["/api/reminder-policy"], saved);
+      toast({
+        title: "Reminder settings saved",
+        description: "Tasks are checked for due reminders every minute",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save reminder settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleLead = (minutes: number, checked: boolean) => {
+    setLeadMinutes(checked
+      ? [...leadMinutes, minutes]
+      : leadMinutes.filter(other => other !== minutes));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Due Date Reminders</CardTitle>
+        <CardDescription>
+          Assignees are reminded before a task is due and told once it is overdue. Unassigned
+          tasks remind their creator.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <h3 className="text-sm font-medium">Remind before the due date</h3>
+              <div className="mt-3 grid grid-cols-2 gap-3">
+                {withCurrent(leadMinuteChoices, policy?.leadMinutes ?? []).map((minutes) => (
+                  <div key={minutes} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`reminder-lead-${minutes}`}
+                      checked={leadMinutes.includes(minutes)}
+                      onCheckedChange={(checked) => toggleLead(minutes, checked === true)}
+                    />
+                    <Label htmlFor={`reminder-lead-${minutes}`}>{formatMinutes(minutes)} before</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Escalate overdue tasks</h3>
+              <p className="text-sm text-gray-500">
+                The task's creator and the manager who created its project are told once a task has been overdue this long
+              </p>
+              <Select
+                value={escalationHours === null ? "off" : escalationHours.toString()}
+                onValueChange={(value) => setEscalationHours(value === "off" ? null : parseInt(value))}
+              >
+                <SelectTrigger className="w-60">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="off">Never</SelectItem>
+                  {withCurrent(escalationHourChoices, policy?.escalationHours ? [policy.escalationHours] : []).map((hours) => (
+                    <SelectItem key={hours} value={hours.toString()}>
+                      After {formatMinutes(hours * 60)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Button
+              variant="outline"
+              onClick={() => savePolicyMutation.mutate({ leadMinutes, escalationHours })}
+              disabled={savePolicyMutation.isPending}
+            >
+              {savePolicyMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="mr-2 h-4 w-4" />
+              )}
+              Save Reminders
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
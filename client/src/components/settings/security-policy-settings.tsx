@@ -0,0 +1,93 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, Save } from "lucide-react";
+import { Role, SecurityPolicy, roles } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+
+// Instance-wide security rules, only shown to admins
+export default function SecurityPolicySettings() {
+  const { toast } = useToast();
+  const [requiredRoles, setRequiredRoles] = useState<Role[]>([]);
+
+  const { data: policy, isLoading } = useQuery<SecurityPolicy>({
+    queryKey: ["/api/security-policy"],
+  });
+
+  useEffect(() => {
+    if (policy) setRequiredRoles(policy.twoFactorRequiredRoles);
+  }, [policy]);
+
+  const savePolicyMutation = useMutation({
+    mutationFn: async (data: SecurityPolicy) => {
+      const res = await apiRequest("PUT", "/api/security-policy", data);
+      return await res.json() as SecurityPolicy;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(["/api/security-policy"], saved);
+      // The policy may now cover the admin saving it
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/2fa"] });
+      toast({
+        title: "Security policy saved",
+        description: "The new rules apply from the next request",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save security policy",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleRole = (role: Role, checked: boolean) => {
+    setRequiredRoles(checked
+      ? [...requiredRoles, role]
+      : requiredRoles.filter(other => other !== role));
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium">Two-Factor Policy</h3>
+      <p className="text-sm text-gray-500 mt-1">
+        People in these roles must turn on two-factor authentication before they can keep working
+      </p>
+
+      {isLoading ? (
+        <Loader2 className="mt-2 h-4 w-4 animate-spin text-gray-400" />
+      ) : (
+        <div className="mt-3 space-y-3">
+          {roles.map((role) => (
+            <div key={role} className="flex items-center space-x-2">
+              <Checkbox
+                id={`require-2fa-${role}`}
+                checked={requiredRoles.includes(role)}
+                onCheckedChange={(checked) => toggleRole(role, checked === true)}
+              />
+              <Label htmlFor={`require-2fa-${role}`}>
+                {role.charAt(0).toUpperCase() + role.slice(1)}s
+              </Label>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            onClick={() => savePolicyMutation.mutate({ twoFactorRequiredRoles: requiredRoles })}
+            disabled={savePolicyMutation.isPending}
+          >
+            {savePolicyMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="mr-2 h-4 w-4" />
+            )}
+            Save Policy
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { TaskTemplate, TaskTemplateBundle, insertTaskTemplateBundleSchema } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  DialogHeader,
+  DialogTitle,
+  DialogDescription
+} from "@/components/ui/dialog";
+
+const taskTemplateBundleFormSchema = insertTaskTemplateBundleSchema.pick({ name: true, templateIds: true }).extend({
+  description: z.string().max(200),
+});
+
+type TaskTemplateBundleFormValues = z.infer<typeof taskTemplateBundleFormSchema>;
+
+interface TaskTemplateBundleFormProps {
+  // Edits this bundle, creates a new one when omitted
+  bundle?: TaskTemplateBundle;
+  templates: TaskTemplate[];
+  onClose: () => void;
+}
+
+export default function TaskTemplateBundleForm({ bundle, templates, onClose }: TaskTemplateBundleFormProps) {
+  const { toast } = useToast();
+
+  const form = useForm<TaskTemplateBundleFormValues>({
+    resolver: zodResolver(taskTemplateBundleFormSchema),
+    defaultValues: {
+      name: bundle?.name ?? "",
+      description: bundle?.description ?? "",
+      templateIds: bundle?.templateIds ?? [],
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ name, description, templateIds }: TaskTemplateBundleFormValues) => {
+      const body = { name, description: description.trim() || null, templateIds };
+      const res = bundle
+        ? await apiRequest("PUT", `/api/task-template-bundles/${bundle.id}`, body)
+        : await apiRequest("POST", "/api/task-template-bundles", body);
+      return await res.json() as TaskTemplateBundle;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/task-template-bundles"] });
+      toast({
+        title: bundle ? "Bundle updated" : "Bundle created",
+        description: "It can be used from the task board",
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save bundle",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>{bundle ? "Edit Bundle" : "New Bundle"}</DialogTitle>
+        <DialogDescription>
+          Using a bundle creates the tasks of all its templates at once
+        </DialogDescription>
+      </DialogHeader>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(data => saveMutation.mutate(data))} className="space-y-4 mt-4">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. Onboarding" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="description"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Description</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="templateIds"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Templates</FormLabel>
+                <div className="space-y-2 max-h-48 overflow-y-auto">
+                  {templates.map((template) => (
+                    <div key={template.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`bundle-template-${template.id}`}
+                        checked={field.value.includes(template.id)}
+                        onCheckedChange={(checked) => field.onChange(checked === true
+                          ? [...field.value, template.id]
+                          : field.value.filter(id => id !== template.id))}
+                      />
+                      <label htmlFor={`bundle-template-${template.id}`} className="text-sm leading-none">
+                        {template.name}
+                      </label>
+                    </div>
+                  ))}
+                </div>
+                <FormDescription>Tasks are created in the order the templates are ticked</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <Button type="button" variant="outline" onClick={onClose} disabled={saveMutation.isPending}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {bundle ? "Save Bundle" : "Create Bundle"}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </>
+  );
+}
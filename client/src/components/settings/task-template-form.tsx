@@ -0,0 +1,323 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import {
+  MAX_TEMPLATE_CHECKLIST_ITEMS,
+  MAX_TEMPLATE_DUE_OFFSET_DAYS,
+  PublicUser,
+  TaskTemplate,
+  insertTaskTemplateSchema,
+  taskPriority,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useProjectContext } from "@/context/project-context";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DialogHeader,
+  DialogTitle,
+  DialogDescription
+} from "@/components/ui/dialog";
+
+// Numbers and the checklist are edited as text and converted on submit
+const taskTemplateFormSchema = insertTaskTemplateSchema.pick({
+  name: true,
+  title: true,
+  priority: true,
+  projectId: true,
+  assigneeIds: true,
+}).extend({
+  description: z.string(),
+  estimatedHours: z.string().regex(/^\d*$/, "Enter whole hours"),
+  dueOffsetDays: z.string().regex(/^\d*$/, "Enter a number of days").refine(
+    value => value === "" || Number(value) <= MAX_TEMPLATE_DUE_OFFSET_DAYS,
+    `At most ${MAX_TEMPLATE_DUE_OFFSET_DAYS} days`
+  ),
+  checklist: z.string().refine(
+    value => toChecklist(value).length <= MAX_TEMPLATE_CHECKLIST_ITEMS,
+    `At most ${MAX_TEMPLATE_CHECKLIST_ITEMS} checklist items`
+  ),
+});
+
+type TaskTemplateFormValues = z.infer<typeof taskTemplateFormSchema>;
+
+// One item per non-empty line
+function toChecklist(text: string): string[] {
+  return text.split("\n").map(line => line.trim()).filter(line => line.length > 0);
+}
+
+interface TaskTemplateFormProps {
+  // Edits this template, creates a new one when omitted
+  template?: TaskTemplate;
+  onClose: () => void;
+}
+
+export default function TaskTemplateForm({ template, onClose }: TaskTemplateFormProps) {
+  const { toast } = useToast();
+  const { projects } = useProjectContext();
+
+  const { data: users = [] } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const form = useForm<TaskTemplateFormValues>({
+    resolver: zodResolver(taskTemplateFormSchema),
+    defaultValues: {
+      name: template?.name ?? "",
+      title: template?.title ?? "",
+      description: template?.description ?? "",
+      priority: template?.priority ?? "medium",
+      estimatedHours: template?.estimatedHours?.toString() ?? "",
+      projectId: template?.projectId ?? null,
+      assigneeIds: template?.assigneeIds ?? [],
+      checklist: template?.checklist.join("\n") ?? "",
+      dueOffsetDays: template?.dueOffsetDays?.toString() ?? "",
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: TaskTemplateFormValues) => {
+      const body = {
+        ...data,
+        description: data.description.trim() || null,
+        estimatedHours: data.estimatedHours ? Number(data.estimatedHours) : null,
+        dueOffsetDays: data.dueOffsetDays ? Number(data.dueOffsetDays) : null,
+        checklist: toChecklist(data.checklist),
+      };
+      const res = template
+        ? await apiRequest("PUT", `/api/task-templates/${template.id}`, body)
+        : await apiRequest("POST", "/api/task-templates", body);
+      return await res.json() as TaskTemplate;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/task-templates"] });
+      toast({
+        title: template ? "Template updated" : "Template created",
+        description: "It can be used from the task board",
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save template",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>{template ? "Edit Template" : "New Template"}</DialogTitle>
+        <DialogDescription>
+          Tasks made from the template get these fields, assignees and checklist
+        </DialogDescription>
+      </DialogHeader>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(data => saveMutation.mutate(data))} className="space-y-4 mt-4">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Template name</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. New hire: accounts" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="title"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Task title</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. Set up accounts for the new hire" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="description"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Description</FormLabel>
+                <FormControl>
+                  <Textarea rows={3} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <FormField
+              control={form.control}
+              name="priority"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Priority</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {taskPriority.map((priority) => (
+                        <SelectItem key={priority} value={priority}>
+                          {priority.charAt(0).toUpperCase() + priority.slice(1)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="estimatedHours"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Estimated hours</FormLabel>
+                  <FormControl>
+                    <Input type="number" min="0" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="dueOffsetDays"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Due after (days)</FormLabel>
+                  <FormControl>
+                    <Input type="number" min="0" placeholder="No due date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <FormField
+            control={form.control}
+            name="projectId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Project</FormLabel>
+                <Select
+                  onValueChange={(value) => field.onChange(value === "none" ? null : parseInt(value))}
+                  defaultValue={field.value ? field.value.toString() : "none"}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="none">No Project</SelectItem>
+                    {projects.map((project) => (
+                      <SelectItem key={project.id} value={project.id.toString()}>
+                        {project.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>Can be changed each time the template is used</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="assigneeIds"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Assignees</FormLabel>
+                <div className="grid grid-cols-2 gap-2 max-h-32 overflow-y-auto">
+                  {users.map((user) => (
+                    <div key={user.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`template-assignee-${user.id}`}
+                        checked={field.value?.includes(user.id)}
+                        onCheckedChange={(checked) => field.onChange(checked === true
+                          ? [...(field.value ?? []), user.id]
+                          : (field.value ?? []).filter(id => id !== user.id))}
+                      />
+                      <label htmlFor={`template-assignee-${user.id}`} className="text-sm leading-none">
+                        {user.fullName}
+                      </label>
+                    </div>
+                  ))}
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="checklist"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Checklist</FormLabel>
+                <FormControl>
+                  <Textarea rows={4} placeholder={"Create email account\nOrder laptop"} {...field} />
+                </FormControl>
+                <FormDescription>One item per line, each becomes a subtask</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <Button type="button" variant="outline" onClick={onClose} disabled={saveMutation.isPending}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {template ? "Save Template" : "Create Template"}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </>
+  );
+}
@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Layers, LayoutTemplate, Loader2, Pencil, Plus, X } from "lucide-react";
+import { TaskTemplate, TaskTemplateBundle } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import TaskTemplateForm from "@/components/settings/task-template-form";
+import TaskTemplateBundleForm from "@/components/settings/task-template-bundle-form";
+
+// The dialog being shown; without a template or bundle it creates one
+type Editing =
+  | { kind: "template"; template?: TaskTemplate }
+  | { kind: "bundle"; bundle?: TaskTemplateBundle };
+
+// Task templates and bundles, only shown to managers
+export default function TaskTemplatesSettings() {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<Editing | null>(null);
+
+  const { data: templates = [], isLoading: isLoadingTemplates } = useQuery<TaskTemplate[]>({
+    queryKey: ["/api/task-templates"],
+  });
+  const { data: bundles = [], isLoading: isLoadingBundles } = useQuery<TaskTemplateBundle[]>({
+    queryKey: ["/api/task-template-bundles"],
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/task-templates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/task-templates"] });
+      // Bundles drop deleted templates
+      queryClient.invalidateQueries({ queryKey: ["/api/task-template-bundles"] });
+      toast({ title: "Template deleted" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete template",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteBundleMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/task-template-bundles/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/task-template-bundles"] });
+      toast({ title: "Bundle deleted", description: "Its templates are kept" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete bundle",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getTemplateNames = (bundle: TaskTemplateBundle) => bundle.templateIds
+    .map(id => templates.find(template => template.id === id)?.name)
+    .filter(name => name !== undefined)
+    .join(", ");
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Task Templates</CardTitle>
+            <CardDescription className="mt-1.5">
+              Blueprints for tasks that are created again and again
+            </CardDescription>
+          </div>
+          <Button onClick={() => setEditing({ kind: "template" })}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Template
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoadingTemplates ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : templates.length === 0 ? (
+            <div className="py-6 text-center text-sm text-gray-500">
+              No templates have been set up
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {templates.map((template) => (
+                <li key={template.id} className="py-3 flex items-start justify-between">
+                  <div className="flex items-start space-x-3 min-w-0">
+                    <LayoutTemplate className="h-4 w-4 mt-0.5 text-gray-400" />
+                    <div className="min-w-0">
+                      <span className="block text-sm font-medium text-gray-900">{template.name}</span>
+                      <span className="block text-xs text-gray-500">
+                        {template.title}
+                        {template.checklist.length > 0 && ` · ${template.checklist.length} checklist items`}
+                        {template.dueOffsetDays !== null && ` · due after ${template.dueOffsetDays} days`}
+                      </span>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-1 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEditing({ kind: "template", template })}
+                      aria-label="Edit template"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteTemplateMutation.mutate(template.id)}
+                      disabled={deleteTemplateMutation.isPending}
+                      aria-label="Delete template"
+                    >
+                      {deleteTemplateMutation.isPending && deleteTemplateMutation.variables === template.id
+                        ? <Loader2 className="h-4 w-4 animate-spin" />
+                        : <X className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Template Bundles</CardTitle>
+            <CardDescription className="mt-1.5">
+              Templates used together, such as all tasks of onboarding someone
+            </CardDescription>
+          </div>
+          <Button onClick={() => setEditing({ kind: "bundle" })} disabled={templates.length === 0}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Bundle
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoadingBundles ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : bundles.length === 0 ? (
+            <div className="py-6 text-center text-sm text-gray-500">
+              No bundles have been set up
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {bundles.map((bundle) => (
+                <li key={bundle.id} className="py-3 flex items-start justify-between">
+                  <div className="flex items-start space-x-3 min-w-0">
+                    <Layers className="h-4 w-4 mt-0.5 text-gray-400" />
+                    <div className="min-w-0">
+                      <span className="block text-sm font-medium text-gray-900">{bundle.name}</span>
+                      <span className="block text-xs text-gray-500">
+                        {getTemplateNames(bundle) || "No templates left"}
+                      </span>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-1 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEditing({ kind: "bundle", bundle })}
+                      aria-label="Edit bundle"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteBundleMutation.mutate(bundle.id)}
+                      disabled={deleteBundleMutation.isPending}
+                      aria-label="Delete bundle"
+                    >
+                      {deleteBundleMutation.isPending && deleteBundleMutation.variables === bundle.id
+                        ? <Loader2 className="h-4 w-4 animate-spin" />
+                        : <X className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+          {editing?.kind === "template" && (
+            <TaskTemplateForm template={editing.template} onClose={() => setEditing(null)} />
+          )}
+          {editing?.kind === "bundle" && (
+            <TaskTemplateBundleForm bundle={editing.bundle} templates={templates} onClose={() => setEditing(null)} />
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { TwoFactorStatus } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import TwoFactorSetupForm from "@/components/settings/two-factor-setup-form";
+import RecoveryCodesList from "@/components/settings/recovery-codes-list";
+
+const passwordConfirmationSchema = z.object({
+  password: z.string().min(1, "Enter your password"),
+});
+
+type PasswordConfirmationValues = z.infer<typeof passwordConfirmationSchema>;
+
+type PasswordAction = "disable" | "recoveryCodes";
+
+interface PasswordActionFormProps {
+  action: PasswordAction;
+  onClose: () => void;
+}
+
+// Turning 2FA off and replacing recovery codes both ask for the password again
+function PasswordActionForm({ action, onClose }: PasswordActionFormProps) {
+  const { toast } = useToast();
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const form = useForm<PasswordConfirmationValues>({
+    resolver: zodResolver(passwordConfirmationSchema),
+    defaultValues: { password: "" },
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async (data: PasswordConfirmationValues) => {
+      if (action === "disable") {
+        await apiRequest("POST", "/api/user/2fa/disable", data);
+        return null;
+      }
+      const res = await apiRequest("POST", "/api/user/2fa/recovery-codes", data);
+      return (await res.json() as { recoveryCodes: string[] }).recoveryCodes;
+    },
+    onSuccess: (codes) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/2fa"] });
+      if (codes) {
+        setRecoveryCodes(codes);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      toast({
+        title: "Two-factor authentication off",
+        description: "Signing in now only needs your password",
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: action === "disable"
+          ? "Failed to turn off two-factor authentication"
+          : "Failed to create recovery codes",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>
+          {action === "disable" ? "Turn Off Two-Factor Authentication" : "New Recovery Codes"}
+        </DialogTitle>
+        <DialogDescription>
+          {action === "disable"
+            ? "Enter your password to stop asking for codes at sign-in"
+            : "Enter your password to replace your recovery codes. The old ones stop working."}
+        </DialogDescription>
+      </DialogHeader>
+
+      {recoveryCodes ? (
+        <div className="space-y-4 mt-4">
+          <RecoveryCodesList codes={recoveryCodes} />
+          <div className="flex justify-end">
+            <Button type="button" onClick={onClose}>Done</Button>
+          </div>
+        </div>
+      ) : (
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(data => actionMutation.mutate(data))}
+            className="space-y-4 mt-4"
+          >
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Password</FormLabel>
+                  <FormControl>
+                    <Input type="password" autoComplete="current-password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end space-x-3 pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onClose}
+                disabled={actionMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant={action === "disable" ? "destructive" : "default"}
+                disabled={actionMutation.isPending}
+              >
+                {actionMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {action === "disable" ? "Turn Off" : "Create Codes"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      )}
+    </>
+  );
+}
+
+// The Two-Factor Authentication section of the security settings
+export default function TwoFactorSettings() {
+  const [isSetupOpen, setIsSetupOpen] = useState(false);
+  const [passwordAction, setPasswordAction] = useState<PasswordAction | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/user/2fa"],
+  });
+
+  return (
+    <div>
+      <div className="flex items-center space-x-2">
+        <h3 className="text-lg font-medium">Two-Factor Authentication</h3>
+        {status?.enabled && <Badge variant="secondary">On</Badge>}
+        {status?.required && <Badge variant="outline">Required for your role</Badge>}
+      </div>
+      <p className="text-sm text-gray-500 mt-1">
+        {status?.enabled
+          ? `Sign-in asks for a code from your authenticator app. ${status.recoveryCodesRemaining} recovery codes left.`
+          : "Add an extra layer of security to your account"}
+      </p>
+
+      {isLoading ? (
+        <Loader2 className="mt-2 h-4 w-4 animate-spin text-gray-400" />
+      ) : status?.enabled ? (
+        <div className="flex space-x-2 mt-2">
+          <Button variant="outline" onClick={() => setPasswordAction("recoveryCodes")}>
+            New Recovery Codes
+          </Button>
+          {!status.required && (
+            <Button variant="outline" onClick={() => setPasswordAction("disable")}>
+              Turn Off
+            </Button>
+          )}
+        </div>
+      ) : (
+        <Button variant="outline" className="mt-2" onClick={() => setIsSetupOpen(true)}>
+          Enable 2FA
+        </Button>
+      )}
+
+      <Dialog open={isSetupOpen} onOpenChange={setIsSetupOpen}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>Enable Two-Factor Authentication</DialogTitle>
+            <DialogDescription>
+              Sign-in will ask for a code from your phone as well as your password
+            </DialogDescription>
+          </DialogHeader>
+          {isSetupOpen && (
+            <TwoFactorSetupForm
+              onDone={() => setIsSetupOpen(false)}
+              onCancel={() => setIsSetupOpen(false)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={passwordAction !== null} onOpenChange={(open) => !open && setPasswordAction(null)}>
+        <DialogContent className="sm:max-w-[450px]">
+          {passwordAction && (
+            <PasswordActionForm action={passwordAction} onClose={() => setPasswordAction(null)} />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
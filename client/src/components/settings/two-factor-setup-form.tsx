@@ -0,0 +1,170 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import RecoveryCodesList from "@/components/settings/recovery-codes-list";
+
+type TwoFactorSetup = {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+};
+
+interface TwoFactorSetupFormProps {
+  // Called after the recovery codes were shown
+  onDone: () => void;
+  onCancel?: () => void;
+}
+
+// Enrolment: scan the secret, confirm with a code, then save the recovery codes
+export default function TwoFactorSetupForm({ onDone, onCancel }: TwoFactorSetupFormProps) {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  // Each setup request issues a new secret, so only ask once per mount
+  const started = useRef(false);
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/2fa/setup");
+      return await res.json() as TwoFactorSetup;
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to start two-factor setup",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/user/2fa/enable", { code });
+      return await res.json() as { recoveryCodes: string[] };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/2fa"] });
+      setRecoveryCodes(data.recoveryCodes);
+      toast({
+        title: "Two-factor authentication on",
+        description: "You'll be asked for a code each time you sign in",
+      });
+    },
+    onError: (error: Error) => {
+      setCode("");
+      toast({
+        title: "Failed to turn on two-factor authentication",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+    setupMutation.mutate();
+  }, []);
+
+  // Refreshing the signed-in user can replace the page this form is on, so
+  // wait until the recovery codes were seen
+  const finish = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    onDone();
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodesList codes={recoveryCodes} />
+        <div className="flex justify-end">
+          <Button type="button" onClick={finish}>Done</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const setup = setupMutation.data;
+  if (!setup) {
+    return (
+      <div className="flex justify-center py-8">
+        {setupMutation.isError ? (
+          <Button type="button" variant="outline" onClick={() => setupMutation.mutate()}>
+            Try again
+          </Button>
+        ) : (
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (code.length === 6) enableMutation.mutate(code);
+      }}
+      className="space-y-4"
+    >
+      <p className="text-sm text-gray-600">
+        Scan this QR code with an authenticator app such as Google Authenticator, 1Password or Authy.
+      </p>
+      <div className="flex justify-center">
+        <img src={setup.qrCode} alt="Two-factor authentication QR code" className="h-48 w-48" />
+      </div>
+      <p className="text-sm text-gray-600">
+        Can't scan it? Enter this key instead:
+      </p>
+      <code className="block break-all rounded-md bg-gray-50 p-2 text-center text-sm">
+        {setup.secret}
+      </code>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Enter the 6-digit code the app shows</p>
+        <div className="flex justify-center">
+          <InputOTP
+            maxLength={6}
+            value={code}
+            onChange={setCode}
+            onComplete={(value) => enableMutation.mutate(value)}
+            disabled={enableMutation.isPending}
+          >
+            <InputOTPGroup>
+              {Array.from({ length: 6 }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      </div>
+
+      <div className="flex justify-end space-x-3 pt-2">
+        {onCancel && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={enableMutation.isPending}
+          >
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" disabled={enableMutation.isPending || code.length !== 6}>
+          {enableMutation.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Verifying...
+            </>
+          ) : (
+            "Turn On"
+          )}
+        </Button>
+      </div>
+    </form>
+  );
+}
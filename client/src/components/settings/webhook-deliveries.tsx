@@ -0,0 +1,104 @@
+import { useInfiniteQuery, InfiniteData } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { CheckCircle2, Clock, Loader2, XCircle } from "lucide-react";
+import { WebhookDelivery } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+
+const PAGE_SIZE = 10;
+
+type DeliveryPage = {
+  items: WebhookDelivery[];
+  nextCursor: string | null;
+};
+
+const statusIcons = {
+  succeeded: <CheckCircle2 className="h-4 w-4 text-green-600" />,
+  failed: <XCircle className="h-4 w-4 text-red-600" />,
+  pending: <Clock className="h-4 w-4 text-amber-500" />,
+};
+
+interface WebhookDeliveriesProps {
+  webhookId: number;
+}
+
+// Recent deliveries of one webhook, newest first
+export default function WebhookDeliveries({ webhookId }: WebhookDeliveriesProps) {
+  const {
+    data,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useInfiniteQuery<DeliveryPage, Error, InfiniteData<DeliveryPage>, (string | number)[], string | null>({
+    // Under "/api/webhooks" so refreshing the list refreshes the log too
+    queryKey: ["/api/webhooks", webhookId, "deliveries"],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (pageParam) params.set("cursor", pageParam);
+
+      const res = await apiRequest("GET", `/api/webhooks/${webhookId}/deliveries?${params}`);
+      return {
+        items: await res.json(),
+        nextCursor: res.headers.get("X-Next-Cursor"),
+      };
+    },
+    initialPageParam: null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const deliveries = data?.pages.flatMap(page => page.items) ?? [];
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-3">
+        <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (deliveries.length === 0) {
+    return <p className="py-3 text-sm text-gray-500">Nothing has been sent yet</p>;
+  }
+
+  return (
+    <div className="mt-2">
+      <ul className="space-y-2">
+        {deliveries.map((delivery) => (
+          <li key={delivery.id} className="flex items-start space-x-2 text-sm">
+            <span className="mt-0.5">{statusIcons[delivery.status]}</span>
+            <div className="min-w-0">
+              <div className="flex items-center space-x-2">
+                <span className="font-mono text-gray-900">{delivery.event}</span>
+                <span className="text-xs text-gray-500">#{delivery.id}</span>
+              </div>
+              <p className="text-xs text-gray-500">
+                {formatDistanceToNow(new Date(delivery.createdAt), { addSuffix: true })}
+                {" · "}
+                {delivery.attempts === 1 ? "1 attempt" : `${delivery.attempts} attempts`}
+                {delivery.responseStatus !== null && ` · HTTP ${delivery.responseStatus}`}
+                {delivery.status === "pending" && delivery.nextAttemptAt &&
+                  ` · next try ${formatDistanceToNow(new Date(delivery.nextAttemptAt), { addSuffix: true })}`}
+              </p>
+              {delivery.error && (
+                <p className="text-xs text-red-600 break-words">{delivery.error}</p>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+      {hasNextPage && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="mt-2"
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+        >
+          {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Load older deliveries
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import { Check, Copy, Loader2 } from "lucide-react";
+import { PublicWebhook, insertWebhookSchema, webhookEvents } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  DialogHeader,
+  DialogTitle,
+  DialogDescription
+} from "@/components/ui/dialog";
+
+export const webhookEventLabels: Record<typeof webhookEvents[number], string> = {
+  "task.created": "A task or subtask is created",
+  "task.updated": "A task is changed",
+  "task.deleted": "A task is deleted",
+  "task.assigned": "Someone is assigned to a task",
+  "comment.created": "A comment is posted",
+  "timeEntry.created": "Time is logged",
+  "attachment.created": "A file is attached",
+};
+
+const webhookFormSchema = insertWebhookSchema.pick({ url: true, events: true }).extend({
+  description: z.string().max(200),
+});
+
+type WebhookFormValues = z.infer<typeof webhookFormSchema>;
+
+interface WebhookFormProps {
+  onClose: () => void;
+}
+
+export default function WebhookForm({ onClose }: WebhookFormProps) {
+  const { toast } = useToast();
+  // Receivers need the secret to check signatures; it is only returned once
+  const [secret, setSecret] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const form = useForm<WebhookFormValues>({
+    resolver: zodResolver(webhookFormSchema),
+    defaultValues: {
+      url: "",
+      description: "",
+      events: ["task.created", "task.updated", "task.deleted"],
+    },
+  });
+
+  const createWebhookMutation = useMutation({
+    mutationFn: async ({ url, description, events }: WebhookFormValues) => {
+      const res = await apiRequest("POST", "/api/webhooks", {
+        url,
+        description: description.trim() || null,
+        events,
+      });
+      return await res.json() as PublicWebhook & { secret: string };
+    },
+    onSuccess: (webhook) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+      setSecret(webhook.secret);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create webhook",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copySecret = async () => {
+    if (!secret) return;
+    await navigator.clipboard.writeText(secret);
+    setCopied(true);
+  };
+
+  if (secret) {
+    return (
+      <>
+        <DialogHeader>
+          <DialogTitle>Webhook Created</DialogTitle>
+          <DialogDescription>
+            Copy the signing secret now, it cannot be shown again. Each request carries an
+            X-TaskFlow-Signature header: "sha256=" and the HMAC-SHA256 of "&lt;timestamp&gt;.&lt;body&gt;".
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex space-x-2 mt-4">
+          <Input value={secret} readOnly className="font-mono" onFocus={(e) => e.target.select()} />
+          <Button type="button" variant="outline" onClick={copySecret} aria-label="Copy signing secret">
+            {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+          </Button>
+        </div>
+
+        <div className="flex justify-end pt-4">
+          <Button type="button" onClick={onClose}>Done</Button>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>New Webhook</DialogTitle>
+        <DialogDescription>
+          TaskFlow will POST a JSON payload to this URL whenever one of the events happens
+        </DialogDescription>
+      </DialogHeader>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(data => createWebhookMutation.mutate(data))} className="space-y-6 mt-4">
+          <FormField
+            control={form.control}
+            name="url"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Payload URL</FormLabel>
+                <FormControl>
+                  <Input placeholder="https://example.com/hooks/taskflow" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="description"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Description</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. Sync to the reporting service" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="events"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Events</FormLabel>
+                <div className="space-y-2">
+                  {webhookEvents.map((event) => (
+                    <div key={event} className="flex items-start space-x-2">
+                      <Checkbox
+                        id={`event-${event}`}
+                        checked={field.value.includes(event)}
+                        onCheckedChange={(checked) => field.onChange(checked === true
+                          ? [...field.value, event]
+                          : field.value.filter(other => other !== event))}
+                      />
+                      <label htmlFor={`event-${event}`} className="text-sm leading-none">
+                        <span className="font-mono">{event}</span>
+                        <span className="block text-gray-500 mt-1">{webhookEventLabels[event]}</span>
+                      </label>
+                    </div>
+                  ))}
+                </div>
+                <FormDescription>Failed deliveries are retried with increasing delays for about an hour</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={createWebhookMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={createWebhookMutation.isPending}>
+              {createWebhookMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Creating...
+                </>
+              ) : (
+                "Create Webhook"
+              )}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </>
+  );
+}
@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ChevronDown, ChevronRight, Loader2, Plus, Send, Webhook as WebhookIcon, X } from "lucide-react";
+import { PublicWebhook, WebhookDelivery } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import { Switch } from "@/components/ui/switch";
+import WebhookForm from "@/components/settings/webhook-form";
+import WebhookDeliveries from "@/components/settings/webhook-deliveries";
+
+// Outgoing webhooks, only shown to admins
+export default function WebhooksSettings() {
+  const { toast } = useToast();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const { data: webhooks = [], isLoading } = useQuery<PublicWebhook[]>({
+    queryKey: ["/api/webhooks"],
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, active }: { id: number; active: boolean }) => {
+      await apiRequest("PUT", `/api/webhooks/${id}`, { active });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update webhook",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/webhooks/${id}/test`);
+      return await res.json() as WebhookDelivery;
+    },
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks", delivery.webhookId, "deliveries"] });
+      setExpandedId(delivery.webhookId);
+      toast(delivery.status === "succeeded"
+        ? { title: "Test event delivered", description: `The receiver answered with HTTP ${delivery.responseStatus}` }
+        : { title: "Test event failed", description: delivery.error ?? undefined, variant: "destructive" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to send test event",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/webhooks/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+      toast({
+        title: "Webhook deleted",
+        description: "No more events will be sent to it",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete webhook",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Webhooks</CardTitle>
+          <CardDescription className="mt-1.5">
+            Send task events to other services as signed HTTP requests
+          </CardDescription>
+        </div>
+        <Button onClick={() => setIsCreateOpen(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Webhook
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : webhooks.length === 0 ? (
+          <div className="py-6 text-center text-sm text-gray-500">
+            No webhooks have been set up
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {webhooks.map((webhook) => {
+              const expanded = expandedId === webhook.id;
+              return (
+                <li key={webhook.id} className="py-3">
+                  <div className="flex items-start justify-between">
+                    <div className="flex items-start space-x-3 min-w-0">
+                      <WebhookIcon className="h-4 w-4 mt-0.5 text-gray-400" />
+                      <div className="min-w-0">
+                        <span className="block text-sm font-medium text-gray-900 break-all">{webhook.url}</span>
+                        {webhook.description && (
+                          <span className="block text-xs text-gray-500">{webhook.description}</span>
+                        )}
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          {webhook.events.map((event) => (
+                            <Badge key={event} variant="outline" className="font-mono text-xs">
+                              {event}
+                            </Badge>
+                          ))}
+                        </div>
+                        <button
+                          type="button"
+                          className="mt-1 flex items-center text-xs text-gray-500 hover:text-gray-700"
+                          onClick={() => setExpandedId(expanded ? null : webhook.id)}
+                        >
+                          {expanded ? <ChevronDown className="mr-1 h-3 w-3" /> : <ChevronRight className="mr-1 h-3 w-3" />}
+                          Recent deliveries
+                        </button>
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-1 shrink-0">
+                      <Switch
+                        checked={webhook.active}
+                        onCheckedChange={(active) => toggleMutation.mutate({ id: webhook.id, active })}
+                        disabled={toggleMutation.isPending}
+                        aria-label={webhook.active ? "Pause webhook" : "Resume webhook"}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => testMutation.mutate(webhook.id)}
+                        disabled={testMutation.isPending}
+                        aria-label="Send test event"
+                      >
+                        {testMutation.isPending && testMutation.variables === webhook.id
+                          ? <Loader2 className="h-4 w-4 animate-spin" />
+                          : <Send className="h-4 w-4" />}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteMutation.mutate(webhook.id)}
+                        disabled={deleteMutation.isPending}
+                        aria-label="Delete webhook"
+                      >
+                        {deleteMutation.isPending && deleteMutation.variables === webhook.id
+                          ? <Loader2 className="h-4 w-4 animate-spin" />
+                          : <X className="h-4 w-4" />}
+                      </Button>
+                    </div>
+                  </div>
+                  {expanded && (
+                    <div className="ml-7">
+                      <WebhookDeliveries webhookId={webhook.id} />
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          {isCreateOpen && <WebhookForm onClose={() => setIsCreateOpen(false)} />}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -3,9 +3,14 @@ import { Task } from "@shared/schema";
 import { useQuery } from "@tanstack/react-query";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
-import { MoreHorizontal, Paperclip } from "lucide-react";
+import { AlarmClock, ListChecks, Lock, MoreHorizontal, Paperclip, Repeat } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { format, parseISO } from "date-fns";
+import { getSubtaskProgress } from "@/lib/task-progress";
+import { apiRequest } from "@/lib/queryClient";
+import { useWorkflows } from "@/hooks/use-workflows";
+import { useLabels } from "@/hooks/use-labels";
+import LabelChip from "@/components/labels/label-chip";
 
 interface TaskCardProps {
   task: Task;
@@ -13,6 +18,12 @@ interface TaskCardProps {
 }
 
 export default function TaskCard({ task, onClick }: TaskCardProps) {
+  const { isTaskDone } = useWorkflows();
+  const isDone = isTaskDone(task);
+  const isOverdue = !isDone && task.dueDate !== null && new Date(task.dueDate) < new Date();
+  const { getLabelsForTask } = useLabels();
+  const labels = getLabelsForTask(task.id);
+  
   // Fetch assignees for this task
   const { data: assignees = [] } = useQuery({
     queryKey: ["/api/tasks", task.id, "assignees"],
@@ -33,6 +44,25 @@ export default function TaskCard({ task, onClick }: TaskCardProps) {
     },
   });
   
+  // Fetch subtasks for the progress roll-up
+  const { data: subtasks = [] } = useQuery<Task[]>({
+    queryKey: ["/api/tasks", task.id, "subtasks"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/tasks/${task.id}/subtasks`);
+      return await res.json();
+    },
+  });
+  
+  // Fetch dependencies to flag blocked tasks
+  const { data: dependencies } = useQuery<{ blockedBy: Task[]; blocking: Task[] }>({
+    queryKey: ["/api/tasks", task.id, "dependencies"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/tasks/${task.id}/dependencies`);
+      return await res.json();
+    },
+  });
+  const openBlockers = (dependencies?.blockedBy || []).filter(blocker => !isTaskDone(blocker));
+  
   // Fetch attachments count
   const { data: attachmentsCount = 0 } = useQuery({
     queryKey: ["/api/tasks", task.id, "attachments", "count"],
@@ -66,19 +96,23 @@ export default function TaskCard({ task, onClick }: TaskCardProps) {
     }
   };
   
-  // Get progress bar for in-progress tasks
+  // Get progress bar rolled up from subtasks
   const getProgressBar = () => {
-    if (task.status !== "inProgress") return null;
-    
-    // In a real app, you'd calculate this based on completed subtasks or time tracking
-    const progressPercent = 50;
+    const progress = getSubtaskProgress(subtasks, isTaskDone);
+    if (progress.total === 0) return null;
     
     return (
-      <div className="mt-2 w-full bg-gray-200 rounded-full h-1.5">
-        <div 
-          className="bg-primary-500 h-1.5 rounded-full" 
-          style={{ width: `${progressPercent}%` }}
-        ></div>
+      <div className="mt-2">
+        <div className="flex items-center text-xs text-gray-500 mb-1">
+          <ListChecks className="h-3 w-3 mr-1" />
+          {progress.completed}/{progress.total} subtasks
+        </div>
+        <div className="w-full bg-gray-200 rounded-full h-1.5">
+          <div 
+            className="bg-primary h-1.5 rounded-full" 
+            style={{ width: `${progress.percent}%` }}
+          ></div>
+        </div>
       </div>
     );
   };
@@ -89,7 +123,7 @@ export default function TaskCard({ task, onClick }: TaskCardProps) {
     
     const dueDate = parseISO(task.dueDate.toString());
     
-    if (task.status === "completed") {
+    if (isDone) {
       return `Completed ${format(dueDate, "MMM d")}`;
     }
     
@@ -108,12 +142,30 @@ export default function TaskCard({ task, onClick }: TaskCardProps) {
   return (
     <div 
       className={`bg-white border border-gray-200 rounded-md shadow-sm p-4 task-card cursor-pointer hover:shadow-md transition-shadow ${
-        task.status === "completed" ? "opacity-75" : ""
+        isDone ? "opacity-75" : ""
       }`}
       onClick={handleTaskClick}
     >
       <div className="flex justify-between items-start">
-        {getPriorityBadge()}
+        <div className="flex items-center space-x-1">
+          {getPriorityBadge()}
+          {openBlockers.length > 0 && (
+            <Badge
+              variant="outline"
+              className="bg-gray-100 text-gray-700 border-gray-200"
+              title={`Blocked by ${openBlockers.map(blocker => blocker.title).join(", ")}`}
+            >
+              <Lock className="h-3 w-3 mr-1" />
+              Blocked
+            </Badge>
+          )}
+          {isOverdue && (
+            <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
+              <AlarmClock className="h-3 w-3 mr-1" />
+              Overdue
+            </Badge>
+          )}
+        </div>
         
         <div className="flex space-x-2">
           {attachmentsCount > 0 && (
@@ -132,7 +184,7 @@ export default function TaskCard({ task, onClick }: TaskCardProps) {
         </div>
       </div>
       
-      <h4 className={`mt-2 text-sm font-medium text-gray-900 ${task.status === "completed" ? "line-through" : ""}`}>
+      <h4 className={`mt-2 text-sm font-medium text-gray-900 ${isDone ? "line-through" : ""}`}>
         {task.title}
       </h4>
       
@@ -140,6 +192,14 @@ export default function TaskCard({ task, onClick }: TaskCardProps) {
         <p className="mt-1 text-sm text-gray-600 line-clamp-2">{task.description}</p>
       )}
       
+      {labels.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-1">
+          {labels.map(label => (
+            <LabelChip key={label.id} label={label} />
+          ))}
+        </div>
+      )}
+      
       {getProgressBar()}
       
       <div className="mt-4 flex items-center justify-between">
@@ -158,7 +218,14 @@ export default function TaskCard({ task, onClick }: TaskCardProps) {
           )}
         </div>
         
-        <div className="text-xs text-gray-500">{getFormattedDate()}</div>
+        <div className="flex items-center text-xs text-gray-500">
+          {task.recurrenceId !== null && (
+            <span title="Repeating task">
+              <Repeat className="h-3 w-3 mr-1" />
+            </span>
+          )}
+          {getFormattedDate()}
+        </div>
       </div>
     </div>
   );
@@ -1,8 +1,18 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
+import { useTaskContext } from "@/context/task-context";
+import { getSubtaskProgress } from "@/lib/task-progress";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Task, Comment, User, InsertComment } from "@shared/schema";
+import { Task, Comment, User, InsertComment, Attachment, TaskRecurrence } from "@shared/schema";
+import { describeRecurrenceRule, parseRecurrenceRule } from "@shared/recurrence";
 import { useAuth } from "@/hooks/use-auth";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useWorkflows } from "@/hooks/use-workflows";
+import { useLabels } from "@/hooks/use-labels";
+import LabelChip from "@/components/labels/label-chip";
+import LabelPicker from "@/components/labels/label-picker";
+import TaskHistory from "@/components/tasks/task-history";
+import { getAllowedTargetStatuses, getFirstStatusInCategory, getInitialStatus } from "@shared/workflow";
+import { can } from "@shared/permissions";
+import { apiRequest, queryClient, ApiError } from "@/lib/queryClient";
 import { format, parseISO } from "date-fns";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
@@ -24,15 +34,31 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   AlertTriangle,
   Calendar,
   Check,
   Clock,
   Download,
+  FileText,
+  ListChecks,
   Loader2,
+  Lock,
   Paperclip,
-  Tag,
+  Pencil,
+  Plus,
+  Repeat,
+  Trash2,
   UserPlus,
   X,
 } from "lucide-react";
@@ -44,15 +70,26 @@ interface TaskDetailModalProps {
   task: Task;
   isOpen: boolean;
   onClose: () => void;
+  onEdit?: (task: Task) => void;
 }
 
 export default function TaskDetailModal({
-  task,
+  task: initialTask,
   isOpen,
   onClose,
+  onEdit,
 }: TaskDetailModalProps) {
   const { toast } = useToast();
   const { user } = useAuth();
+  const { tasks, getTaskById, updateTaskStatus } = useTaskContext();
+  const { getWorkflow, getTaskStatusName, isTaskDone } = useWorkflows();
+  const { getLabelsForTask } = useLabels();
+  const [newSubtaskTitle, setNewSubtaskTitle] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  
+  // Prefer the live copy from the task list so status changes show up immediately
+  const task = getTaskById(initialTask.id) ?? initialTask;
+  const workflow = getWorkflow(task.projectId);
   
   // Fetch task assignees
   const { data: assignees = [], isLoading: isLoadingAssignees } = useQuery<User[]>({
@@ -88,6 +125,17 @@ export default function TaskDetailModal({
     },
   });
   
+  // Fetch the series of a repeating task
+  const { data: recurrence } = useQuery<TaskRecurrence>({
+    queryKey: ["/api/tasks", task.id, "recurrence"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/tasks/${task.id}/recurrence`);
+      return await res.json();
+    },
+    enabled: task.recurrenceId !== null,
+  });
+  const parsedRecurrence = recurrence?.endedAt === null ? parseRecurrenceRule(recurrence.rule) : null;
+
   // Fetch task comments
   const { data: comments = [], isLoading: isLoadingComments } = useQuery<Comment[]>({
     queryKey: ["/api/tasks", task.id, "comments"],
@@ -106,6 +154,152 @@ export default function TaskDetailModal({
     enabled: isOpen,
   });
   
+  // Fetch subtasks
+  const { data: subtasks = [], isLoading: isLoadingSubtasks } = useQuery<Task[]>({
+    queryKey: ["/api/tasks", task.id, "subtasks"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/tasks/${task.id}/subtasks`);
+      return await res.json();
+    },
+    enabled: isOpen,
+  });
+  
+  const subtaskProgress = getSubtaskProgress(subtasks, isTaskDone);
+  
+  // Add subtask mutation
+  const addSubtaskMutation = useMutation({
+    mutationFn: async (title: string) => {
+      const res = await apiRequest("POST", `/api/tasks/${task.id}/subtasks`, { title });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      setNewSubtaskTitle("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to add subtask",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const handleAddSubtask = () => {
+    const title = newSubtaskTitle.trim();
+    if (!title) return;
+    addSubtaskMutation.mutate(title);
+  };
+  
+  // Fetch dependencies
+  const { data: dependencies = { blockedBy: [], blocking: [] } } = useQuery<{ blockedBy: Task[]; blocking: Task[] }>({
+    queryKey: ["/api/tasks", task.id, "dependencies"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/tasks/${task.id}/dependencies`);
+      return await res.json();
+    },
+    enabled: isOpen,
+  });
+  
+  // Tasks that could still be declared as blockers
+  const candidateBlockers = tasks.filter(t =>
+    t.id !== task.id && !dependencies.blockedBy.some(blocker => blocker.id === t.id)
+  );
+  
+  const invalidateDependencies = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dependencies"] });
+  };
+  
+  // Add/remove blocker mutations
+  const addBlockerMutation = useMutation({
+    mutationFn: async (blockingTaskId: number) => {
+      const res = await apiRequest("POST", `/api/tasks/${task.id}/dependencies`, { blockingTaskId });
+      return await res.json();
+    },
+    onSuccess: invalidateDependencies,
+    onError: (error) => {
+      toast({
+        title: "Failed to add dependency",
+        description: (error instanceof ApiError && error.body?.message) || error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const removeBlockerMutation = useMutation({
+    mutationFn: async (blockingTaskId: number) => {
+      await apiRequest("DELETE", `/api/tasks/${task.id}/dependencies/${blockingTaskId}`);
+    },
+    onSuccess: invalidateDependencies,
+    onError: (error) => {
+      toast({
+        title: "Failed to remove dependency",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // Fetch attachments
+  const { data: attachments = [], isLoading: isLoadingAttachments } = useQuery<Attachment[]>({
+    queryKey: ["/api/tasks", task.id, "attachments"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/tasks/${task.id}/attachments`);
+      return await res.json();
+    },
+    enabled: isOpen,
+  });
+  
+  // Upload/delete attachment mutations
+  const uploadAttachmentMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      const res = await apiRequest("POST", `/api/tasks/${task.id}/attachments`, formData);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks", task.id, "attachments"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to upload file",
+        description: (error instanceof ApiError && error.body?.message) || error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const deleteAttachmentMutation = useMutation({
+    mutationFn: async (attachmentId: number) => {
+      await apiRequest("DELETE", `/api/tasks/${task.id}/attachments/${attachmentId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks", task.id, "attachments"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to delete file",
+        description: (error instanceof ApiError && error.body?.message) || error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) uploadAttachmentMutation.mutate(file);
+    // Allow picking the same file again
+    e.target.value = "";
+  };
+  
+  const formatFileSize = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  };
+  
   // Fetch comment authors
   const { data: users = [], isLoading: isLoadingUsers } = useQuery<User[]>({
     queryKey: ["/api/users"],
@@ -195,9 +389,7 @@ export default function TaskDetailModal({
             <div className="flex items-center space-x-2">
               {getPriorityBadge()}
               <Badge variant="outline" className="bg-gray-100 text-gray-800">
-                {task.status === "todo" ? "To Do" : 
-                 task.status === "inProgress" ? "In Progress" : 
-                 "Completed"}
+                {getTaskStatusName(task)}
               </Badge>
             </div>
             <Button 
@@ -210,6 +402,13 @@ export default function TaskDetailModal({
             </Button>
           </div>
           <DialogTitle className="text-xl mt-2">{task.title}</DialogTitle>
+          {getLabelsForTask(task.id).length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-2">
+              {getLabelsForTask(task.id).map(label => (
+                <LabelChip key={label.id} label={label} />
+              ))}
+            </div>
+          )}
         </DialogHeader>
         
         <div className="mt-4 space-y-6">
@@ -258,6 +457,12 @@ export default function TaskDetailModal({
                   "No due date set"
                 )}
               </div>
+              {parsedRecurrence && 'rule' in parsedRecurrence && (
+                <div className="flex items-center text-sm text-gray-600 mt-1">
+                  <Repeat className="h-4 w-4 mr-2 text-gray-400" />
+                  {describeRecurrenceRule(parsedRecurrence.rule)}
+                </div>
+              )}
             </div>
             
             <div>
@@ -273,14 +478,213 @@ export default function TaskDetailModal({
             </div>
           </div>
           
-          {/* Attachments section could go here */}
+          {/* Subtasks (only top-level tasks can have them) */}
+          {task.parentId === null && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-medium text-gray-700 flex items-center">
+                  <ListChecks className="h-4 w-4 mr-2 text-gray-400" />
+                  Subtasks
+                </h4>
+                {subtaskProgress.total > 0 && (
+                  <span className="text-xs text-gray-500">
+                    {subtaskProgress.completed}/{subtaskProgress.total} done ({subtaskProgress.percent}%)
+                  </span>
+                )}
+              </div>
+              
+              {subtaskProgress.total > 0 && (
+                <div className="w-full bg-gray-200 rounded-full h-1.5 mb-3">
+                  <div
+                    className="bg-primary h-1.5 rounded-full"
+                    style={{ width: `${subtaskProgress.percent}%` }}
+                  ></div>
+                </div>
+              )}
+              
+              <div className="space-y-2">
+                {isLoadingSubtasks ? (
+                  <Skeleton className="h-6 w-full" />
+                ) : (
+                  subtasks.map(subtask => (
+                    <div key={subtask.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        checked={isTaskDone(subtask)}
+                        onCheckedChange={(checked) =>
+                          updateTaskStatus(
+                            subtask.id,
+                            checked
+                              ? getFirstStatusInCategory(workflow, "done")!.key
+                              : getInitialStatus(workflow).key
+                          )
+                        }
+                      />
+                      <span
+                        className={`text-sm ${
+                          isTaskDone(subtask) ? "line-through text-gray-400" : "text-gray-700"
+                        }`}
+                      >
+                        {subtask.title}
+                      </span>
+                    </div>
+                  ))
+                )}
+                
+                <div className="flex space-x-2 pt-1">
+                  <Input
+                    placeholder="Add a subtask..."
+                    className="h-8 text-sm"
+                    value={newSubtaskTitle}
+                    onChange={(e) => setNewSubtaskTitle(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        e.preventDefault();
+                        handleAddSubtask();
+                      }
+                    }}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleAddSubtask}
+                    disabled={addSubtaskMutation.isPending || !newSubtaskTitle.trim()}
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
           
-          <Separator />
+          {/* Dependencies */}
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2 flex items-center">
+              <Lock className="h-4 w-4 mr-2 text-gray-400" />
+              Blocked by
+            </h4>
+            <div className="space-y-2">
+              {dependencies.blockedBy.length === 0 ? (
+                <div className="text-sm text-gray-500">Not blocked by any task</div>
+              ) : (
+                dependencies.blockedBy.map(blocker => (
+                  <div key={blocker.id} className="flex items-center justify-between text-sm">
+                    <span className={isTaskDone(blocker) ? "line-through text-gray-400" : "text-gray-700"}>
+                      {blocker.title}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 text-gray-400 hover:text-gray-600"
+                      onClick={() => removeBlockerMutation.mutate(blocker.id)}
+                      disabled={removeBlockerMutation.isPending}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))
+              )}
+              
+              {candidateBlockers.length > 0 && (
+                <Select
+                  value=""
+                  onValueChange={(value) => addBlockerMutation.mutate(parseInt(value))}
+                  disabled={addBlockerMutation.isPending}
+                >
+                  <SelectTrigger className="h-8 text-sm">
+                    <SelectValue placeholder="Add a blocking task..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {candidateBlockers.map(candidate => (
+                      <SelectItem key={candidate.id} value={candidate.id.toString()}>
+                        {candidate.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              
+              {dependencies.blocking.length > 0 && (
+                <div className="text-xs text-gray-500 pt-1">
+                  Blocking: {dependencies.blocking.map(blocked => blocked.title).join(", ")}
+                </div>
+              )}
+            </div>
+          </div>
           
-          {/* Comments */}
+          {/* Attachments */}
           <div>
-            <h4 className="text-sm font-medium text-gray-700 mb-4">Comments</h4>
-            <div className="space-y-4">
+            <h4 className="text-sm font-medium text-gray-700 mb-2 flex items-center">
+              <Paperclip className="h-4 w-4 mr-2 text-gray-400" />
+              Attachments
+            </h4>
+            <div className="space-y-2">
+              {isLoadingAttachments ? (
+                <Skeleton className="h-10 w-full" />
+              ) : attachments.length === 0 ? (
+                <div className="text-sm text-gray-500">No files attached</div>
+              ) : (
+                attachments.map(attachment => {
+                  const baseUrl = `/api/tasks/${task.id}/attachments/${attachment.id}`;
+                  
+                  return (
+                    <div key={attachment.id} className="flex items-center space-x-3 rounded-md border border-gray-200 p-2">
+                      {attachment.thumbnailKey ? (
+                        <img
+                          src={`${baseUrl}/thumbnail`}
+                          alt={attachment.fileName}
+                          className="h-10 w-10 rounded object-cover"
+                        />
+                      ) : (
+                        <div className="h-10 w-10 rounded bg-gray-100 flex items-center justify-center">
+                          <FileText className="h-5 w-5 text-gray-400" />
+                        </div>
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm text-gray-700 truncate">{attachment.fileName}</div>
+                        <div className="text-xs text-gray-500">
+                          {formatFileSize(attachment.fileSize)} ·{" "}
+                          {format(parseISO(attachment.createdAt.toString()), "MMM d, yyyy")}
+                        </div>
+                      </div>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" asChild>
+                        <a href={`${baseUrl}/download`} download={attachment.fileName}>
+                          <Download className="h-4 w-4" />
+                        </a>
+                      </Button>
+                      {can(user, "attachments:delete", attachment.userId === user?.id ? ["creator"] : []) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-gray-400 hover:text-red-600"
+                          onClick={() => deleteAttachmentMutation.mutate(attachment.id)}
+                          disabled={deleteAttachmentMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  );
+                })
+              )}
+              {uploadAttachmentMutation.isPending && (
+                <div className="flex items-center text-sm text-gray-500">
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Uploading...
+                </div>
+              )}
+            </div>
+          </div>
+          
+          <Separator />
+          
+          {/* Comments and history */}
+          <Tabs defaultValue="comments">
+            <TabsList className="mb-4">
+              <TabsTrigger value="comments">Comments</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+            </TabsList>
+            
+            <TabsContent value="comments" className="space-y-4">
               {isLoadingComments ? (
                 Array(2)
                   .fill(0)
@@ -372,24 +776,42 @@ export default function TaskDetailModal({
                   </form>
                 </Form>
               </div>
-            </div>
-          </div>
+            </TabsContent>
+            
+            <TabsContent value="history">
+              <TaskHistory task={task} enabled={isOpen} />
+            </TabsContent>
+          </Tabs>
         </div>
         
         <div className="mt-4 border-t border-gray-200 pt-4 flex justify-between">
           <div className="flex space-x-2">
+            {onEdit && (
+              <Button variant="outline" size="sm" onClick={() => onEdit(task)}>
+                <Pencil className="h-4 w-4 mr-1.5" />
+                Edit
+              </Button>
+            )}
             <Button variant="outline" size="sm">
               <UserPlus className="h-4 w-4 mr-1.5" />
               Assign
             </Button>
-            <Button variant="outline" size="sm">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploadAttachmentMutation.isPending}
+            >
               <Paperclip className="h-4 w-4 mr-1.5" />
               Attach
             </Button>
-            <Button variant="outline" size="sm">
-              <Tag className="h-4 w-4 mr-1.5" />
-              Label
-            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              className="hidden"
+              onChange={handleFileSelected}
+            />
+            <LabelPicker taskId={task.id} />
           </div>
           
           <div>
@@ -397,14 +819,13 @@ export default function TaskDetailModal({
               className="rounded-md border border-gray-300 py-1.5 pl-3 pr-8 text-xs font-medium"
               value={task.status}
               onChange={(e) => {
-                // Update task status handler would go here
-                console.log("Status updated:", e.target.value);
+                updateTaskStatus(task.id, e.target.value);
               }}
             >
               <option value="" disabled>Move to...</option>
-              <option value="todo">To Do</option>
-              <option value="inProgress">In Progress</option>
-              <option value="completed">Completed</option>
+              {getAllowedTargetStatuses(workflow, task.status).map(status => (
+                <option key={status.key} value={status.key}>{status.name}</option>
+              ))}
             </select>
           </div>
         </div>
@@ -1,6 +1,13 @@
 import { Dispatch, SetStateAction } from "react";
-import { Search } from "lucide-react";
+import { Search, Tag } from "lucide-react";
 import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
 import {
   Select,
   SelectContent,
@@ -8,26 +15,32 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { taskPriority } from "@shared/schema";
+import { useQuery } from "@tanstack/react-query";
+import { taskPriority, User } from "@shared/schema";
+import ProjectSelect from "@/components/projects/project-select";
+import { useLabels } from "@/hooks/use-labels";
+import { TaskFilters, TaskSortOption, taskSortOptions } from "@/context/task-context";
 
 interface FilterProps {
-  filters: {
-    search: string;
-    priority: string;
-    assignee: string;
-    project: string;
-  };
-  setFilters: Dispatch<
-    SetStateAction<{
-      search: string;
-      priority: string;
-      assignee: string;
-      project: string;
-    }>
-  >;
+  filters: TaskFilters;
+  setFilters: Dispatch<SetStateAction<TaskFilters>>;
 }
 
 export default function TaskFilter({ filters, setFilters }: FilterProps) {
+  const { labels } = useLabels();
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const toggleLabel = (labelId: number, selected: boolean) => {
+    setFilters({
+      ...filters,
+      labels: selected
+        ? [...filters.labels, labelId]
+        : filters.labels.filter(id => id !== labelId),
+    });
+  };
+
   return (
     <div className="mb-6 space-y-4">
       <div className="relative">
@@ -65,38 +78,90 @@ export default function TaskFilter({ filters, setFilters }: FilterProps) {
           </Select>
         </div>
 
-        {/* Assignee filter would go here, but will be implemented later */}
         <div className="w-full sm:w-40">
           <Select
             value={filters.assignee}
             onValueChange={(value) =>
               setFilters({ ...filters, assignee: value })
             }
-            disabled
           >
             <SelectTrigger>
               <SelectValue placeholder="Assignee" />
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Assignees</SelectItem>
+              {users.map((user) => (
+                <SelectItem key={user.id} value={user.id.toString()}>
+                  {user.fullName}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
 
-        {/* Project filter would go here, but will be implemented later */}
+        <div className="w-full sm:w-40">
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="w-full justify-start font-normal">
+                <Tag className="mr-2 h-4 w-4 text-gray-400" />
+                {filters.labels.length > 0 ? `${filters.labels.length} label(s)` : "All Labels"}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-56" align="start">
+              {labels.length === 0 ? (
+                <div className="text-sm text-gray-500">No labels yet</div>
+              ) : (
+                <div className="space-y-2">
+                  {labels.map((label) => (
+                    <label key={label.id} className="flex items-center space-x-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={filters.labels.includes(label.id)}
+                        onCheckedChange={(checked) => toggleLabel(label.id, checked === true)}
+                      />
+                      <span
+                        className="w-2 h-2 rounded-full"
+                        style={{ backgroundColor: label.color }}
+                      ></span>
+                      <span className="text-gray-700">{label.name}</span>
+                    </label>
+                  ))}
+                  {filters.labels.length > 0 && (
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0 text-xs"
+                      onClick={() => setFilters({ ...filters, labels: [] })}
+                    >
+                      Clear
+                    </Button>
+                  )}
+                </div>
+              )}
+            </PopoverContent>
+          </Popover>
+        </div>
+
+        {/* The selected project is shared with the calendar and reports pages */}
+        <div className="w-full sm:w-40">
+          <ProjectSelect />
+        </div>
+
         <div className="w-full sm:w-40">
           <Select
-            value={filters.project}
+            value={filters.sort}
             onValueChange={(value) =>
-              setFilters({ ...filters, project: value })
+              setFilters({ ...filters, sort: value as TaskSortOption })
             }
-            disabled
           >
             <SelectTrigger>
-              <SelectValue placeholder="Project" />
+              <SelectValue placeholder="Sort by" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="all">All Projects</SelectItem>
+              {Object.entries(taskSortOptions).map(([value, name]) => (
+                <SelectItem key={value} value={value}>
+                  {name}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
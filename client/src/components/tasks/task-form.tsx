@@ -32,6 +32,8 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { 
   DialogHeader, 
   DialogTitle, 
@@ -41,22 +43,42 @@ import {
   insertTaskSchema, 
   taskPriority, 
   InsertTask, 
-  Task 
+  RecurrenceScope,
+  Task,
+  TaskRecurrence
 } from "@shared/schema";
+import { RepeatSetting, formatRecurrenceRule, parseRecurrenceRule } from "@shared/recurrence";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useProjectContext } from "@/context/project-context";
+import { useWorkflows } from "@/hooks/use-workflows";
+import {
+  getAllowedTargetStatuses,
+  getInitialStatus,
+  getOrderedStatuses,
+  getWorkflowStatus,
+  mapStatusToWorkflow,
+} from "@shared/workflow";
+import TaskRecurrenceFields from "@/components/tasks/task-recurrence-fields";
 
 // Extend the task schema for the form
 const taskFormSchema = insertTaskSchema.extend({
   title: z.string().min(1, "Title is required"),
-  status: z.enum(["todo", "inProgress", "completed"]).default("todo"),
+  status: z.string().min(1, "Status is required"),
   priority: z.enum(["low", "medium", "high"]).default("medium"),
   dueDate: z.date().optional().nullable(),
   description: z.string().optional().nullable(),
   estimatedHours: z.number().optional().nullable(),
+  projectId: z.number().optional().nullable(),
 });
 
 type TaskFormValues = z.infer<typeof taskFormSchema>;
 
+// Repeat fields sent along with the task, see PUT /api/tasks/:id
+type TaskRequest = InsertTask & {
+  recurrence?: RepeatSetting | null;
+  recurrenceScope?: RecurrenceScope;
+};
+
 interface TaskFormProps {
   task?: Task;
   onClose: () => void;
@@ -65,6 +87,8 @@ interface TaskFormProps {
 export default function TaskForm({ task, onClose }: TaskFormProps) {
   const { toast } = useToast();
   const { user } = useAuth();
+  const { projects, selectedProjectId } = useProjectContext();
+  const { getWorkflow } = useWorkflows();
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(
     task?.dueDate ? new Date(task.dueDate) : undefined
   );
@@ -75,14 +99,55 @@ export default function TaskForm({ task, onClose }: TaskFormProps) {
     defaultValues: {
       title: task?.title || "",
       description: task?.description || "",
-      status: task?.status || "todo",
+      status: task?.status || getInitialStatus(getWorkflow(selectedProjectId)).key,
       priority: task?.priority || "medium",
       estimatedHours: task?.estimatedHours || undefined,
       dueDate: task?.dueDate ? new Date(task.dueDate) : undefined,
+      // New tasks land in the project currently selected on the board
+      projectId: task ? task.projectId : selectedProjectId,
     },
     mode: "onChange",
   });
 
+  // Status options come from the workflow of the chosen project
+  const formProjectId = form.watch("projectId") ?? null;
+  const formWorkflow = getWorkflow(formProjectId);
+  const statusOptions = task && task.projectId === formProjectId
+    ? getAllowedTargetStatuses(formWorkflow, task.status)
+    : getOrderedStatuses(formWorkflow);
+
+  // Keep the chosen status valid when the project (and so the workflow) changes
+  useEffect(() => {
+    const status = form.getValues("status");
+    if (!getWorkflowStatus(formWorkflow, status)) {
+      const previousCategory = getWorkflowStatus(
+        getWorkflow(task ? task.projectId : selectedProjectId),
+        status
+      )?.category;
+      form.setValue("status", mapStatusToWorkflow(formWorkflow, status, previousCategory).key);
+    }
+  }, [formWorkflow]);
+
+  // The series of a repeating task; only a running one is edited here
+  const { data: recurrence, isLoading: isRecurrenceLoading } = useQuery<TaskRecurrence>({
+    queryKey: ["/api/tasks", task?.id, "recurrence"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/tasks/${task!.id}/recurrence`);
+      return await res.json();
+    },
+    enabled: task?.recurrenceId != null,
+  });
+  const activeRecurrence = recurrence?.endedAt === null ? recurrence : undefined;
+  const initialRule = activeRecurrence?.rule ?? null;
+  // undefined until the repeat settings are touched
+  const [repeatRule, setRepeatRule] = useState<string | null | undefined>(undefined);
+  const [recurrenceScope, setRecurrenceScope] = useState<RecurrenceScope>("occurrence");
+  const currentRule = repeatRule === undefined ? initialRule : repeatRule;
+  const parsedRule = currentRule !== null ? parseRecurrenceRule(currentRule) : null;
+  const repeatChanged = parsedRule !== null && 'rule' in parsedRule
+    ? formatRecurrenceRule(parsedRule.rule) !== initialRule
+    : currentRule !== initialRule;
+
   // Fetch users
   const { data: users = [] } = useQuery({
     queryKey: ["/api/users"],
@@ -91,7 +156,7 @@ export default function TaskForm({ task, onClose }: TaskFormProps) {
 
   // Create/update task
   const taskMutation = useMutation({
-    mutationFn: async (data: InsertTask) => {
+    mutationFn: async (data: TaskRequest) => {
       if (task) {
         // Update existing task
         const res = await apiRequest(
@@ -133,16 +198,36 @@ export default function TaskForm({ task, onClose }: TaskFormProps) {
     if (!user) return;
 
     // Need to ensure we have the minimum required fields for a task(created)
-    const formattedData: InsertTask = {
+    const formattedData: TaskRequest = {
       title: data.title,
       description: data.description || null, 
-      status: data.status || "todo",
+      status: data.status,
       priority: data.priority || "medium",
       dueDate: data.dueDate || null,
       estimatedHours: data.estimatedHours || null,
       createdById: user.id,
+      projectId: data.projectId ?? null,
     };
 
+    if (parsedRule && 'error' in parsedRule) {
+      toast({ title: "Invalid repeat rule", description: parsedRule.error, variant: "destructive" });
+      return;
+    }
+    if (parsedRule && !data.dueDate) {
+      form.setError("dueDate", { message: "A repeating task needs a due date" });
+      return;
+    }
+    // The rule itself always applies to the occurrences to come
+    if (repeatChanged) {
+      formattedData.recurrence = parsedRule && {
+        rule: formatRecurrenceRule(parsedRule.rule),
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      };
+    }
+    if (activeRecurrence) {
+      formattedData.recurrenceScope = repeatChanged ? "future" : recurrenceScope;
+    }
+
     console.log("Submitting task:", formattedData);
     
     // Checking date type for debuggging
@@ -203,6 +288,37 @@ export default function TaskForm({ task, onClose }: TaskFormProps) {
             )}
           />
 
+          <FormField
+            control={form.control}
+            name="projectId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Project</FormLabel>
+                <Select
+                  onValueChange={(value) =>
+                    field.onChange(value === "none" ? null : parseInt(value))
+                  }
+                  defaultValue={field.value ? field.value.toString() : "none"}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a project" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="none">No Project</SelectItem>
+                    {projects.map((project) => (
+                      <SelectItem key={project.id} value={project.id.toString()}>
+                        {project.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <FormField
               control={form.control}
@@ -212,7 +328,7 @@ export default function TaskForm({ task, onClose }: TaskFormProps) {
                   <FormLabel>Status</FormLabel>
                   <Select
                     onValueChange={field.onChange}
-                    defaultValue={field.value}
+                    value={field.value}
                   >
                     <FormControl>
                       <SelectTrigger>
@@ -220,9 +336,11 @@ export default function TaskForm({ task, onClose }: TaskFormProps) {
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      <SelectItem value="todo">To Do</SelectItem>
-                      <SelectItem value="inProgress">In Progress</SelectItem>
-                      <SelectItem value="completed">Completed</SelectItem>
+                      {statusOptions.map((status) => (
+                        <SelectItem key={status.key} value={status.key}>
+                          {status.name}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                   <FormMessage />
@@ -331,6 +449,42 @@ export default function TaskForm({ task, onClose }: TaskFormProps) {
             />
           </div>
 
+          {/* Subtasks follow their parent and cannot repeat */}
+          {task?.parentId == null && (
+            isRecurrenceLoading ? (
+              <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+            ) : (
+              <TaskRecurrenceFields
+                key={initialRule ?? "none"}
+                initialRule={initialRule}
+                dueDate={selectedDate}
+                onChange={setRepeatRule}
+              />
+            )
+          )}
+
+          {activeRecurrence && (
+            <div className="space-y-2">
+              <Label>Apply changes to</Label>
+              <RadioGroup
+                value={repeatChanged ? "future" : recurrenceScope}
+                onValueChange={(value) => setRecurrenceScope(value as RecurrenceScope)}
+              >
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="occurrence" id="recurrence-scope-occurrence" disabled={repeatChanged} />
+                  <Label htmlFor="recurrence-scope-occurrence" className="font-normal">This occurrence only</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="future" id="recurrence-scope-future" />
+                  <Label htmlFor="recurrence-scope-future" className="font-normal">This and future occurrences</Label>
+                </div>
+              </RadioGroup>
+              {repeatChanged && (
+                <p className="text-sm text-gray-500">A new repeat setting always applies to future occurrences</p>
+              )}
+            </div>
+          )}
+
           <div className="flex justify-end space-x-3 pt-2">
             <Button
               type="button"
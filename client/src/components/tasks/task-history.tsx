@@ -0,0 +1,149 @@
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { History } from "lucide-react";
+import { Task, TaskEvent, TaskFieldChange, User } from "@shared/schema";
+import { defaultWorkflow, getWorkflowStatus } from "@shared/workflow";
+import { apiRequest } from "@/lib/queryClient";
+import { useWorkflows } from "@/hooks/use-workflows";
+import { useProjectContext } from "@/context/project-context";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface TaskHistoryProps {
+  task: Task;
+  enabled: boolean;
+}
+
+const fieldLabels: Record<string, string> = {
+  title: "Title",
+  description: "Description",
+  status: "Status",
+  priority: "Priority",
+  dueDate: "Due date",
+  estimatedHours: "Estimate",
+  projectId: "Project",
+  parentId: "Parent task",
+};
+
+export default function TaskHistory({ task, enabled }: TaskHistoryProps) {
+  const { getWorkflow } = useWorkflows();
+  const { projects } = useProjectContext();
+
+  const { data: events = [], isLoading } = useQuery<TaskEvent[]>({
+    queryKey: ["/api/tasks", task.id, "history"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/tasks/${task.id}/history`);
+      return await res.json();
+    },
+    enabled,
+    // Many mutations add history, so refetch whenever the tab is opened
+    staleTime: 0,
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+    enabled: enabled && events.length > 0,
+  });
+
+  const getUserName = (userId: unknown) =>
+    users.find(u => u.id === userId)?.fullName ?? "Someone";
+
+  // Show stored values the way the rest of the UI does
+  const formatValue = (change: TaskFieldChange, value: string | number | null) => {
+    if (value === null || value === "") return "none";
+    switch (change.field) {
+      case "status": {
+        const status = getWorkflowStatus(getWorkflow(task.projectId), String(value))
+          ?? getWorkflowStatus(defaultWorkflow, String(value));
+        return status?.name ?? String(value);
+      }
+      case "projectId":
+        return projects.find(project => project.id === value)?.name ?? `#${value}`;
+      case "dueDate":
+        return format(parseISO(String(value)), "MMM d, yyyy");
+      case "estimatedHours":
+        return `${value}h`;
+      case "description":
+        return String(value).length > 60 ? `${String(value).slice(0, 60)}…` : String(value);
+      default:
+        return String(value);
+    }
+  };
+
+  const describeEvent = (event: TaskEvent) => {
+    const details = event.details ?? {};
+    switch (event.type) {
+      case "created":
+        return "created the task";
+      case "updated":
+        return "updated the task";
+      case "deleted":
+        return "deleted the task";
+      case "assigned":
+        return `assigned ${getUserName(details.assigneeId)}`;
+      case "unassigned":
+        return `unassigned ${getUserName(details.assigneeId)}`;
+      case "commented":
+        return "added a comment";
+      case "timeLogged":
+        return "logged time";
+      case "labelAdded":
+        return `added label ${details.labelName ?? ""}`;
+      case "labelRemoved":
+        return `removed label ${details.labelName ?? ""}`;
+      case "dependencyAdded":
+        return `marked task #${details.blockingTaskId} as a blocker`;
+      case "dependencyRemoved":
+        return `removed blocker #${details.blockingTaskId}`;
+      case "attachmentAdded":
+        return `attached ${details.fileName}`;
+      case "attachmentRemoved":
+        return `removed attachment ${details.fileName}`;
+      default:
+        return event.type;
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    );
+  }
+
+  if (events.length === 0) {
+    return <div className="text-center py-4 text-gray-500">No history yet</div>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+      {[...events].reverse().map(event => (
+        <li key={event.id} className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-300"></span>
+          <div className="flex justify-between items-start">
+            <p className="text-sm text-gray-700">
+              <span className="font-medium text-gray-900">{getUserName(event.userId)}</span>{" "}
+              {describeEvent(event)}
+            </p>
+            <p className="text-xs text-gray-500 whitespace-nowrap ml-3">
+              {format(parseISO(event.createdAt.toString()), "MMM d, yyyy 'at' h:mm a")}
+            </p>
+          </div>
+          {event.changes && event.changes.length > 0 && (
+            <ul className="mt-1 space-y-0.5">
+              {event.changes.map(change => (
+                <li key={change.field} className="text-xs text-gray-500 flex items-center">
+                  <History className="h-3 w-3 mr-1.5 text-gray-400" />
+                  {fieldLabels[change.field] ?? change.field}:{" "}
+                  <span className="line-through mx-1">{formatValue(change, change.from)}</span>
+                  → <span className="ml-1 text-gray-700">{formatValue(change, change.to)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { AlertCircle, CheckCircle2, Loader2 } from "lucide-react";
+import { TaskImportResult } from "@shared/schema";
+import { apiRequest, queryClient, ApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DialogHeader,
+  DialogTitle,
+  DialogDescription
+} from "@/components/ui/dialog";
+
+interface TaskImportFormProps {
+  onClose: () => void;
+}
+
+// Upload a CSV, JSON or iCalendar file, check it with a dry run, then create the tasks
+export default function TaskImportForm({ onClose }: TaskImportFormProps) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  // Result of the last dry run of the selected file
+  const [check, setCheck] = useState<TaskImportResult | null>(null);
+
+  const importMutation = useMutation({
+    mutationFn: async ({ dryRun }: { dryRun: boolean }) => {
+      const formData = new FormData();
+      formData.append("file", file!);
+      try {
+        const res = await apiRequest("POST", `/api/tasks/import?dryRun=${dryRun}`, formData);
+        return await res.json() as TaskImportResult;
+      } catch (error) {
+        // Invalid rows come back as a 400 carrying the full report
+        if (error instanceof ApiError && Array.isArray(error.body?.errors)) {
+          return error.body as TaskImportResult;
+        }
+        throw error;
+      }
+    },
+    onSuccess: (result) => {
+      if (result.dryRun || result.errors.length > 0) {
+        setCheck(result);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      toast({
+        title: "Tasks imported",
+        description: `${result.tasks.length} tasks were created`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to import tasks",
+        description: (error instanceof ApiError && error.body?.message) || error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isReady = check !== null && check.dryRun && check.errors.length === 0;
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Import Tasks</DialogTitle>
+        <DialogDescription>
+          Use a CSV file with a header line, or a JSON array, in the same shape as an export.
+          Assignees are matched by username or email. Events in an iCalendar (.ics) file
+          become tasks due on their start date.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4 mt-4">
+        <Input
+          type="file"
+          accept=".csv,.json,.ics,text/csv,application/json,text/calendar"
+          onChange={(e) => {
+            setFile(e.target.files?.[0] ?? null);
+            setCheck(null);
+          }}
+        />
+
+        {check && (check.errors.length === 0 ? (
+          <div className="flex items-center text-sm text-green-700">
+            <CheckCircle2 className="mr-2 h-4 w-4" />
+            All {check.rowCount} rows are valid
+          </div>
+        ) : (
+          <div className="text-sm">
+            <div className="flex items-center text-red-600">
+              <AlertCircle className="mr-2 h-4 w-4" />
+              {check.errors.length} of {check.rowCount} rows need fixing, nothing was imported
+            </div>
+            <ul className="mt-2 max-h-48 overflow-y-auto space-y-1 text-gray-700">
+              {check.errors.map((error) => (
+                <li key={`${error.row}-${error.message}`}>
+                  <span className="font-medium">Row {error.row}:</span> {error.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <Button type="button" variant="outline" onClick={onClose} disabled={importMutation.isPending}>
+            Cancel
+          </Button>
+          {isReady ? (
+            <Button onClick={() => importMutation.mutate({ dryRun: false })} disabled={importMutation.isPending}>
+              {importMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Import {check.rowCount} Tasks
+            </Button>
+          ) : (
+            <Button onClick={() => importMutation.mutate({ dryRun: true })} disabled={!file || importMutation.isPending}>
+              {importMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Check File
+            </Button>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,279 @@
+import { useState } from "react";
+import {
+  RecurrenceDay,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  Weekday,
+  describeRecurrenceDay,
+  describeRecurrenceRule,
+  formatRecurrenceRule,
+  parseRecurrenceRule,
+  weekdays,
+} from "@shared/recurrence";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+type RepeatMode = "none" | RecurrenceFrequency | "custom";
+type RepeatEnd = "never" | "until" | "count";
+
+// What the simple editor can show; anything else is edited as an RRULE
+type RepeatDraft = {
+  mode: RepeatMode;
+  interval: number;
+  // Weekly only
+  weekdays: Weekday[];
+  // Monthly only: a weekday like "the last Friday", or null for the due date's day
+  monthDay: RecurrenceDay | null;
+  end: RepeatEnd;
+  // yyyy-mm-dd
+  until: string;
+  count: number;
+  customRule: string;
+};
+
+const frequencyUnits: Record<RecurrenceFrequency, string> = {
+  DAILY: "days",
+  WEEKLY: "weeks",
+  MONTHLY: "months",
+  YEARLY: "years",
+};
+
+// Monday first, as calendars show weeks
+const weekdayOrder: Weekday[] = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+
+// The due date's weekday and its place in the month, "last" for the fifth
+function getMonthDayOf(date: Date): RecurrenceDay {
+  const ordinal = Math.ceil(date.getDate() / 7);
+  return { weekday: weekdays[date.getDay()], ordinal: ordinal === 5 ? -1 : ordinal };
+}
+
+function toDraft(rule: string | null): RepeatDraft {
+  const draft: RepeatDraft = {
+    mode: "none",
+    interval: 1,
+    weekdays: [],
+    monthDay: null,
+    end: "never",
+    until: "",
+    count: 10,
+    customRule: rule ?? "",
+  };
+  if (rule === null) return draft;
+
+  const parsed = parseRecurrenceRule(rule);
+  if ('error' in parsed) return { ...draft, mode: "custom" };
+  const { frequency, interval, byDay, byMonthDay, count, until } = parsed.rule;
+  const simple = byMonthDay === undefined && (
+    byDay === undefined ||
+    (frequency === "WEEKLY" && byDay.every(day => day.ordinal === undefined)) ||
+    (frequency === "MONTHLY" && byDay.length === 1 && byDay[0].ordinal !== undefined)
+  );
+  if (!simple) return { ...draft, mode: "custom" };
+
+  return {
+    ...draft,
+    mode: frequency,
+    interval,
+    weekdays: frequency === "WEEKLY" ? (byDay ?? []).map(day => day.weekday) : [],
+    monthDay: frequency === "MONTHLY" && byDay ? byDay[0] : null,
+    end: count !== undefined ? "count" : until ? "until" : "never",
+    until: until ? until.toISOString().slice(0, 10) : "",
+    count: count ?? draft.count,
+  };
+}
+
+function toRule(draft: RepeatDraft): string | null {
+  if (draft.mode === "none") return null;
+  if (draft.mode === "custom") return draft.customRule;
+
+  const rule: RecurrenceRule = { frequency: draft.mode, interval: draft.interval };
+  if (draft.mode === "WEEKLY" && draft.weekdays.length > 0) {
+    rule.byDay = weekdayOrder
+      .filter(weekday => draft.weekdays.includes(weekday))
+      .map(weekday => ({ weekday }));
+  }
+  if (draft.mode === "MONTHLY" && draft.monthDay) rule.byDay = [draft.monthDay];
+  if (draft.end === "count") rule.count = draft.count;
+  if (draft.end === "until" && draft.until) rule.until = new Date(`${draft.until}T00:00:00Z`);
+  return formatRecurrenceRule(rule);
+}
+
+interface TaskRecurrenceFieldsProps {
+  // The rule to start from, null for a task that does not repeat
+  initialRule: string | null;
+  dueDate: Date | null | undefined;
+  // Called with the edited rule (possibly an invalid custom one) or null
+  onChange: (rule: string | null) => void;
+}
+
+// Repeat settings of a task: the common daily to yearly patterns, or any
+// supported RRULE
+export default function TaskRecurrenceFields({ initialRule, dueDate, onChange }: TaskRecurrenceFieldsProps) {
+  const [draft, setDraft] = useState(() => toDraft(initialRule));
+
+  const update = (changes: Partial<RepeatDraft>) => {
+    const next = { ...draft, ...changes };
+    setDraft(next);
+    onChange(toRule(next));
+  };
+
+  const changeMode = (mode: RepeatMode) => {
+    const changes: Partial<RepeatDraft> = { mode };
+    // Start from the due date's weekday; custom rules start from the current pattern
+    if (mode === "WEEKLY" && draft.weekdays.length === 0 && dueDate) {
+      changes.weekdays = [weekdays[dueDate.getDay()]];
+    }
+    if (mode === "custom" && draft.mode !== "none") {
+      changes.customRule = toRule(draft) ?? "";
+    }
+    update(changes);
+  };
+
+  const rule = toRule(draft);
+  const parsed = rule !== null ? parseRecurrenceRule(rule) : null;
+  const dueMonthDay = dueDate ? getMonthDayOf(dueDate) : null;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Repeat</Label>
+          <Select value={draft.mode} onValueChange={(value) => changeMode(value as RepeatMode)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Does not repeat</SelectItem>
+              <SelectItem value="DAILY">Daily</SelectItem>
+              <SelectItem value="WEEKLY">Weekly</SelectItem>
+              <SelectItem value="MONTHLY">Monthly</SelectItem>
+              <SelectItem value="YEARLY">Yearly</SelectItem>
+              <SelectItem value="custom">Custom rule (RRULE)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {draft.mode !== "none" && draft.mode !== "custom" && (
+          <div className="space-y-2">
+            <Label>Every</Label>
+            <div className="flex items-center space-x-2">
+              <Input
+                type="number"
+                min="1"
+                max="99"
+                className="w-20"
+                value={draft.interval}
+                onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value) || 1) })}
+              />
+              <span className="text-sm text-gray-600">{frequencyUnits[draft.mode]}</span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {draft.mode === "WEEKLY" && (
+        <div className="space-y-2">
+          <Label>On</Label>
+          <ToggleGroup
+            type="multiple"
+            variant="outline"
+            className="justify-start"
+            value={draft.weekdays}
+            onValueChange={(value) => update({ weekdays: value as Weekday[] })}
+          >
+            {weekdayOrder.map((weekday) => (
+              <ToggleGroupItem key={weekday} value={weekday} className="h-8 w-9 text-xs">
+                {weekday.charAt(0) + weekday.charAt(1).toLowerCase()}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+      )}
+
+      {draft.mode === "MONTHLY" && (
+        <div className="space-y-2">
+          <Label>On</Label>
+          <Select
+            value={draft.monthDay ? "weekday" : "date"}
+            onValueChange={(value) => update({ monthDay: value === "weekday" ? draft.monthDay ?? dueMonthDay : null })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="date">
+                {dueDate ? `Day ${dueDate.getDate()} of the month` : "The due date's day of the month"}
+              </SelectItem>
+              {(draft.monthDay ?? dueMonthDay) && (
+                <SelectItem value="weekday">
+                  On {describeRecurrenceDay((draft.monthDay ?? dueMonthDay)!)}
+                </SelectItem>
+              )}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {draft.mode === "custom" && (
+        <div className="space-y-2">
+          <Label>Rule</Label>
+          <Input
+            className="font-mono"
+            placeholder="FREQ=WEEKLY;BYDAY=MO,TH"
+            value={draft.customRule}
+            onChange={(e) => update({ customRule: e.target.value })}
+          />
+        </div>
+      )}
+
+      {draft.mode !== "none" && draft.mode !== "custom" && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Ends</Label>
+            <Select value={draft.end} onValueChange={(value) => update({ end: value as RepeatEnd })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never">Never</SelectItem>
+                <SelectItem value="until">On a date</SelectItem>
+                <SelectItem value="count">After a number of times</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {draft.end === "until" && (
+            <div className="space-y-2">
+              <Label>Last date</Label>
+              <Input type="date" value={draft.until} onChange={(e) => update({ until: e.target.value })} />
+            </div>
+          )}
+          {draft.end === "count" && (
+            <div className="space-y-2">
+              <Label>Occurrences</Label>
+              <Input
+                type="number"
+                min="1"
+                value={draft.count}
+                onChange={(e) => update({ count: Math.max(1, parseInt(e.target.value) || 1) })}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {parsed && (
+        'error' in parsed
+          ? <p className="text-sm text-red-600">{parsed.error}</p>
+          : <p className="text-sm text-gray-500">{describeRecurrenceRule(parsed.rule)}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { Task, TaskTemplate, TaskTemplateBundle } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useProjectContext } from "@/context/project-context";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DialogHeader,
+  DialogTitle,
+  DialogDescription
+} from "@/components/ui/dialog";
+
+interface TaskTemplatePickerProps {
+  onClose: () => void;
+}
+
+// What a template adds to the board, e.g. "Due after 3 days, 4 checklist items"
+function describeTemplate(template: TaskTemplate): string {
+  const parts = [
+    template.dueOffsetDays === null ? "No due date" : `Due after ${template.dueOffsetDays} days`,
+  ];
+  if (template.checklist.length > 0) parts.push(`${template.checklist.length} checklist items`);
+  if (template.assigneeIds.length > 0) parts.push(`${template.assigneeIds.length} assignees`);
+  return parts.join(", ");
+}
+
+// Create the tasks of a template or bundle in one go
+export default function TaskTemplatePicker({ onClose }: TaskTemplatePickerProps) {
+  const { toast } = useToast();
+  const { projects, selectedProjectId } = useProjectContext();
+  // "template:<id>" or "bundle:<id>"
+  const [source, setSource] = useState("");
+  // "template" keeps each template's own project
+  const [project, setProject] = useState(selectedProjectId !== null ? selectedProjectId.toString() : "template");
+  const [startDate, setStartDate] = useState(format(new Date(), "yyyy-MM-dd"));
+
+  const { data: templates = [], isLoading: isLoadingTemplates } = useQuery<TaskTemplate[]>({
+    queryKey: ["/api/task-templates"],
+  });
+  const { data: bundles = [], isLoading: isLoadingBundles } = useQuery<TaskTemplateBundle[]>({
+    queryKey: ["/api/task-template-bundles"],
+  });
+
+  const [kind, id] = source.split(":");
+  const selectedTemplates = kind === "template"
+    ? templates.filter(template => template.id === Number(id))
+    : bundles.find(bundle => bundle.id === Number(id))?.templateIds
+        .map(templateId => templates.find(template => template.id === templateId))
+        .filter((template): template is TaskTemplate => template !== undefined) ?? [];
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/tasks/from-template", {
+        ...(kind === "template" ? { templateId: Number(id) } : { bundleId: Number(id) }),
+        ...(project !== "template" && { projectId: project === "none" ? null : parseInt(project) }),
+        // The start of the chosen day in the user's time zone
+        startDate: startDate ? new Date(`${startDate}T00:00:00`) : undefined,
+      });
+      return await res.json() as Task[];
+    },
+    onSuccess: (tasks) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      toast({
+        title: "Tasks created",
+        description: `${tasks.filter(task => task.parentId === null).length} tasks were created from the template`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create tasks",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isLoading = isLoadingTemplates || isLoadingBundles;
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>New from Template</DialogTitle>
+        <DialogDescription>
+          Create the tasks of a template, with its checklist as subtasks, or of every template in a bundle
+        </DialogDescription>
+      </DialogHeader>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </div>
+      ) : templates.length === 0 ? (
+        <div className="py-6 text-center text-sm text-gray-500">
+          No templates have been set up yet. Managers can add them under Settings.
+        </div>
+      ) : (
+        <div className="space-y-4 mt-4">
+          <div className="space-y-2">
+            <Label>Template</Label>
+            <Select value={source} onValueChange={setSource}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a template" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  <SelectLabel>Templates</SelectLabel>
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={`template:${template.id}`}>
+                      {template.name}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+                {bundles.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>Bundles</SelectLabel>
+                    {bundles.map((bundle) => (
+                      <SelectItem key={bundle.id} value={`bundle:${bundle.id}`}>
+                        {bundle.name} ({bundle.templateIds.length} tasks)
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {selectedTemplates.length > 0 && (
+            <ul className="space-y-1 text-sm">
+              {selectedTemplates.map((template) => (
+                <li key={template.id}>
+                  <span className="font-medium text-gray-900">{template.title}</span>
+                  <span className="block text-xs text-gray-500">{describeTemplate(template)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Project</Label>
+              <Select value={project} onValueChange={setProject}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="template">Template's project</SelectItem>
+                  <SelectItem value="none">No Project</SelectItem>
+                  {projects.map((option) => (
+                    <SelectItem key={option.id} value={option.id.toString()}>
+                      {option.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Start date</Label>
+              <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-3 pt-6">
+        <Button type="button" variant="outline" onClick={onClose} disabled={createMutation.isPending}>
+          Cancel
+        </Button>
+        <Button onClick={() => createMutation.mutate()} disabled={!source || createMutation.isPending}>
+          {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Create Tasks
+        </Button>
+      </div>
+    </>
+  );
+}
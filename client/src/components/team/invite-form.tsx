@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import { Check, Copy, Loader2 } from "lucide-react";
+import { PublicInvitation, roles } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DialogHeader,
+  DialogTitle,
+  DialogDescription
+} from "@/components/ui/dialog";
+
+const inviteFormSchema = z.object({
+  email: z.string().trim().email("A valid email is required"),
+  role: z.enum(roles),
+  expiresInDays: z.coerce.number().int().min(1, "At least 1 day").max(30, "At most 30 days"),
+});
+
+type InviteFormValues = z.infer<typeof inviteFormSchema>;
+
+interface InviteFormProps {
+  onClose: () => void;
+}
+
+export default function InviteForm({ onClose }: InviteFormProps) {
+  const { toast } = useToast();
+  // The link can only be shown right after creation, the server keeps no token
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const form = useForm<InviteFormValues>({
+    resolver: zodResolver(inviteFormSchema),
+    defaultValues: {
+      email: "",
+      role: "employee",
+      expiresInDays: 7,
+    },
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async (data: InviteFormValues) => {
+      const res = await apiRequest("POST", "/api/invitations", data);
+      return await res.json() as PublicInvitation & { token: string };
+    },
+    onSuccess: (invitation) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+      setInviteLink(`${window.location.origin}/auth?invite=${invitation.token}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create invitation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyLink = async () => {
+    if (!inviteLink) return;
+    await navigator.clipboard.writeText(inviteLink);
+    setCopied(true);
+  };
+
+  if (inviteLink) {
+    return (
+      <>
+        <DialogHeader>
+          <DialogTitle>Invitation Created</DialogTitle>
+          <DialogDescription>
+            Send this link to {form.getValues("email")}. It works once and cannot be shown again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex space-x-2 mt-4">
+          <Input value={inviteLink} readOnly onFocus={(e) => e.target.select()} />
+          <Button type="button" variant="outline" onClick={copyLink} aria-label="Copy invite link">
+            {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+          </Button>
+        </div>
+
+        <div className="flex justify-end pt-4">
+          <Button type="button" onClick={onClose}>Done</Button>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Invite Team Member</DialogTitle>
+        <DialogDescription>
+          The invitee registers with this email and role
+        </DialogDescription>
+      </DialogHeader>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(data => inviteMutation.mutate(data))} className="space-y-6 mt-4">
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Email</FormLabel>
+                <FormControl>
+                  <Input type="email" placeholder="name@example.com" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="role"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Role</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {roles.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {role.charAt(0).toUpperCase() + role.slice(1)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="expiresInDays"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Expires after (days)</FormLabel>
+                <FormControl>
+                  <Input type="number" min={1} max={30} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={inviteMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={inviteMutation.isPending}>
+              {inviteMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Creating...
+                </>
+              ) : (
+                "Create Invitation"
+              )}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </>
+  );
+}
@@ -0,0 +1,84 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow, isPast } from "date-fns";
+import { Loader2, Mail, X } from "lucide-react";
+import { PublicInvitation } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+// Invitations nobody has used yet, for admins to follow up on or revoke
+export default function PendingInvitations() {
+  const { toast } = useToast();
+
+  const { data: invitations = [] } = useQuery<PublicInvitation[]>({
+    queryKey: ["/api/invitations"],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/invitations/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+      toast({
+        title: "Invitation revoked",
+        description: "The invite link no longer works",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to revoke invitation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const pending = invitations.filter(invitation => !invitation.acceptedAt);
+  if (pending.length === 0) return null;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg">Pending Invitations</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y divide-gray-200">
+          {pending.map((invitation) => {
+            const expired = isPast(new Date(invitation.expiresAt));
+            return (
+              <li key={invitation.id} className="py-2 flex items-center justify-between">
+                <div className="flex items-center space-x-3">
+                  <Mail className="h-4 w-4 text-gray-400" />
+                  <span className="text-sm text-gray-900">{invitation.email}</span>
+                  <Badge variant="outline">
+                    {invitation.role.charAt(0).toUpperCase() + invitation.role.slice(1)}
+                  </Badge>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <span className={`text-xs ${expired ? "text-red-600" : "text-gray-500"}`}>
+                    {expired ? "Expired " : "Expires "}
+                    {formatDistanceToNow(new Date(invitation.expiresAt), { addSuffix: true })}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => revokeMutation.mutate(invitation.id)}
+                    disabled={revokeMutation.isPending}
+                    aria-label={`Revoke invitation for ${invitation.email}`}
+                  >
+                    {revokeMutation.isPending && revokeMutation.variables === invitation.id
+                      ? <Loader2 className="h-4 w-4 animate-spin" />
+                      : <X className="h-4 w-4" />}
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
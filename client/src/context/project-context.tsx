@@ -0,0 +1,113 @@
+import {
+  createContext,
+  useContext,
+  ReactNode,
+  useState,
+  useEffect
+} from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Project, InsertProject } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+// Key used to remember the selected project between page loads
+const SELECTED_PROJECT_KEY = "taskflow.selectedProjectId";
+
+interface ProjectContextType {
+  projects: Project[];
+  isLoading: boolean;
+  // null means "All Projects"
+  selectedProjectId: number | null;
+  selectedProject: Project | undefined;
+  setSelectedProjectId: (id: number | null) => void;
+  createProject: (project: Omit<InsertProject, "createdById">) => Promise<Project>;
+}
+
+const ProjectContext = createContext<ProjectContextType | undefined>(undefined);
+
+const readStoredProjectId = (): number | null => {
+  const stored = window.localStorage.getItem(SELECTED_PROJECT_KEY);
+  if (!stored) return null;
+  const id = parseInt(stored);
+  return isNaN(id) ? null : id;
+};
+
+export function ProjectProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const [selectedProjectId, setSelectedProjectIdState] = useState<number | null>(readStoredProjectId);
+
+  // Fetch all projects
+  const { data: projects = [], isLoading } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+  });
+
+  // Forget a remembered project that no longer exists
+  useEffect(() => {
+    if (
+      !isLoading &&
+      selectedProjectId !== null &&
+      !projects.some(project => project.id === selectedProjectId)
+    ) {
+      setSelectedProjectId(null);
+    }
+  }, [projects, isLoading, selectedProjectId]);
+
+  const setSelectedProjectId = (id: number | null) => {
+    if (id === null) {
+      window.localStorage.removeItem(SELECTED_PROJECT_KEY);
+    } else {
+      window.localStorage.setItem(SELECTED_PROJECT_KEY, id.toString());
+    }
+    setSelectedProjectIdState(id);
+  };
+
+  // Create project mutation
+  const createProjectMutation = useMutation({
+    mutationFn: async (newProject: Omit<InsertProject, "createdById">) => {
+      const res = await apiRequest("POST", "/api/projects", newProject);
+      return await res.json();
+    },
+    onSuccess: (project: Project) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      setSelectedProjectId(project.id);
+      toast({
+        title: "Project created",
+        description: `Project "${project.name}" has been created`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create project",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createProject = async (project: Omit<InsertProject, "createdById">) => {
+    return await createProjectMutation.mutateAsync(project);
+  };
+
+  return (
+    <ProjectContext.Provider
+      value={{
+        projects,
+        isLoading,
+        selectedProjectId,
+        selectedProject: projects.find(project => project.id === selectedProjectId),
+        setSelectedProjectId,
+        createProject,
+      }}
+    >
+      {children}
+    </ProjectContext.Provider>
+  );
+}
+
+export function useProjectContext() {
+  const context = useContext(ProjectContext);
+  if (context === undefined) {
+    throw new Error("useProjectContext must be used within a ProjectProvider");
+  }
+  return context;
+}
@@ -3,53 +3,153 @@ import {
   useContext, 
   ReactNode, 
   useState, 
-  useEffect 
+  useEffect,
+  Dispatch,
+  SetStateAction
 } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
-import { Task, InsertTask } from "@shared/schema";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useInfiniteQuery, useMutation, keepPreviousData, InfiniteData } from "@tanstack/react-query";
+import { Task, InsertTask, TaskExportFormat } from "@shared/schema";
+import { apiRequest, queryClient, ApiError } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { useProjectContext } from "@/context/project-context";
 
-// Define valid status types using type alias
-type ValidTaskStatus = "todo" | "inProgress" | "completed";
+// Number of tasks fetched per request while scrolling through the board
+const PAGE_SIZE = 50;
+
+export const taskSortOptions = {
+  "createdAt:desc": "Newest first",
+  "createdAt:asc": "Oldest first",
+  "dueDate:asc": "Due date",
+  "title:asc": "Title",
+} as const;
+export type TaskSortOption = keyof typeof taskSortOptions;
+
+export interface TaskFilters {
+  search: string;
+  priority: string;
+  // "all" or a user id
+  assignee: string;
+  // Label ids; a task matches when it has any of them
+  labels: number[];
+  sort: TaskSortOption;
+}
+
+const defaultFilters: TaskFilters = {
+  search: "",
+  priority: "all",
+  assignee: "all",
+  labels: [],
+  sort: "createdAt:desc",
+};
+
+type TaskPage = {
+  tasks: Task[];
+  nextCursor: string | null;
+};
 
 interface TaskContextType {
+  // Top-level tasks of the selected project matching the filters, as loaded so far
   tasks: Task[];
   isLoading: boolean;
   error: Error | null;
+  filters: TaskFilters;
+  setFilters: Dispatch<SetStateAction<TaskFilters>>;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  loadMore: () => void;
+  // Download link for every task matching the filters, subtasks included
+  getExportUrl: (format: TaskExportFormat) => string;
   getTaskById: (id: number) => Task | undefined;
   createTask: (task: InsertTask) => Promise<Task>;
   updateTask: (id: number, task: Partial<Task>) => Promise<Task>;
   deleteTask: (id: number) => Promise<void>;
-  updateTaskStatus: (id: number, status: ValidTaskStatus) => Promise<Task>;
+  updateTaskStatus: (id: number, status: string) => Promise<Task | undefined>;
 }
 
+// The server refuses to complete a parent task while subtasks are open
+const isOpenSubtasksConflict = (error: Error) =>
+  error instanceof ApiError && error.status === 409 && error.body?.code === "open_subtasks";
+
+// Query parameters for GET /api/tasks; filtering and sorting happen on the server
+const buildTaskParams = (filters: TaskFilters, search: string, projectId: number | null) => {
+  const [sort, order] = filters.sort.split(":");
+  const params = new URLSearchParams({
+    parentId: "none",
+    sort,
+    order,
+    limit: PAGE_SIZE.toString(),
+  });
+  if (projectId !== null) params.set("projectId", projectId.toString());
+  if (search) params.set("search", search);
+  if (filters.priority !== "all") params.set("priority", filters.priority);
+  if (filters.assignee !== "all") params.set("assigneeId", filters.assignee);
+  if (filters.labels.length > 0) params.set("label", filters.labels.join(","));
+  return params;
+};
+
+// Convert date strings to Date objects
+const parseTaskDates = (task: Task): Task => ({
+  ...task,
+  dueDate: task.dueDate ? new Date(task.dueDate) : null,
+  createdAt: task.createdAt ? new Date(task.createdAt) : new Date(),
+});
+
 const TaskContext = createContext<TaskContextType | undefined>(undefined);
 
 export function TaskProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
   const { user } = useAuth();
   
-  // Fetch all tasks
-  const { 
-    data: tasks = [], 
+  const { selectedProjectId } = useProjectContext();
+  const [filters, setFilters] = useState<TaskFilters>(defaultFilters);
+  
+  // Wait for typing to settle before searching on the server
+  const [search, setSearch] = useState(filters.search);
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(filters.search.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [filters.search]);
+  
+  const params = buildTaskParams(filters, search, selectedProjectId).toString();
+  
+  const getExportUrl = (format: TaskExportFormat) => {
+    const exportParams = new URLSearchParams(params);
+    exportParams.delete("parentId");
+    exportParams.delete("limit");
+    exportParams.set("format", format);
+    return `/api/tasks/export?${exportParams}`;
+  };
+  
+  // Fetch tasks a page at a time
+  const {
+    data,
     isLoading,
     error,
-  } = useQuery<Task[], Error>({
-    queryKey: ["/api/tasks"],
-    // Add data transform to ensure proper date handling
-    select: (data: Task[]) => {
-      console.log("Raw tasks data:", data);
-      return data.map(task => ({
-        ...task,
-        // Convert date strings to Date objects
-        dueDate: task.dueDate ? new Date(task.dueDate) : null,
-        createdAt: task.createdAt ? new Date(task.createdAt) : new Date(),
-      }));
-    }
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useInfiniteQuery<TaskPage, Error, InfiniteData<TaskPage>, string[], string | null>({
+    queryKey: ["/api/tasks", "page", params],
+    queryFn: async ({ pageParam }) => {
+      const pageParams = new URLSearchParams(params);
+      if (pageParam) pageParams.set("cursor", pageParam);
+      
+      const res = await apiRequest("GET", `/api/tasks?${pageParams}`);
+      const pageTasks: Task[] = await res.json();
+      return {
+        tasks: pageTasks.map(parseTaskDates),
+        nextCursor: res.headers.get("X-Next-Cursor"),
+      };
+    },
+    initialPageParam: null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    // Keep showing the current tasks while a new filter loads
+    placeholderData: keepPreviousData,
   });
   
+  const tasks = data?.pages.flatMap(page => page.tasks) ?? [];
+  
   // Create task mutation
   const createTaskMutation = useMutation({
     mutationFn: async (newTask: InsertTask) => {
@@ -74,11 +174,11 @@ export function TaskProvider({ children }: { children: ReactNode }) {
   
   // Update task mutation
   const updateTaskMutation = useMutation({
-    mutationFn: async ({ id, task }: { id: number; task: Partial<Task> }) => {
+    mutationFn: async ({ id, task, force }: { id: number; task: Partial<Task>; force?: boolean }) => {
       console.log("Updating task:", id, "with data:", task);
       
       // Handle date serialization explicitly
-      const processedTask = { ...task };
+      const processedTask = force ? { ...task, force } : { ...task };
       
       // Process dueDate if present
       if (task.dueDate instanceof Date) {
@@ -98,6 +198,20 @@ export function TaskProvider({ children }: { children: ReactNode }) {
         throw new Error(`Failed to parse response: ${responseText}`);
       }
     },
+    onMutate: async ({ id, task }) => {
+      // Show the change in the loaded pages right away
+      await queryClient.cancelQueries({ queryKey: ["/api/tasks", "page"] });
+      queryClient.setQueriesData<InfiniteData<TaskPage>>(
+        { queryKey: ["/api/tasks", "page"] },
+        (data) => data && {
+          ...data,
+          pages: data.pages.map(page => ({
+            ...page,
+            tasks: page.tasks.map(t => (t.id === id ? { ...t, ...task } : t)),
+          })),
+        }
+      );
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
       toast({
@@ -106,9 +220,15 @@ export function TaskProvider({ children }: { children: ReactNode }) {
       });
     },
     onError: (error: Error) => {
+      // Roll back the optimistic change
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      
+      // Handled by updateTaskStatus, which asks before forcing completion
+      if (isOpenSubtasksConflict(error)) return;
+      
       toast({
         title: "Failed to update task",
-        description: error.message,
+        description: (error instanceof ApiError && error.body?.message) || error.message,
         variant: "destructive",
       });
     },
@@ -156,15 +276,33 @@ export function TaskProvider({ children }: { children: ReactNode }) {
   };
   
   // Update task status
-  const updateTaskStatus = async (id: number, status: ValidTaskStatus) => {
+  const updateTaskStatus = async (id: number, status: string) => {
     console.log("Updating task status:", id, status);
     
-    // No need to validate here as the TypeScript type system ensures
-    // only valid statuses can be passed
-    return await updateTaskMutation.mutateAsync({ 
-      id, 
-      task: { status } 
-    });
+    // The server checks the status and transition against the task's workflow
+    try {
+      return await updateTaskMutation.mutateAsync({ 
+        id, 
+        task: { status } 
+      });
+    } catch (error) {
+      if (!isOpenSubtasksConflict(error as Error)) throw error;
+      
+      const openCount = ((error as ApiError).body.openSubtasks || []).length;
+      const confirmed = window.confirm(
+        `This task still has ${openCount} open subtask(s). Mark it as completed anyway?`
+      );
+      if (!confirmed) {
+        queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+        return undefined;
+      }
+      
+      return await updateTaskMutation.mutateAsync({ 
+        id, 
+        task: { status },
+        force: true
+      });
+    }
   };
   
   return (
@@ -173,6 +311,12 @@ export function TaskProvider({ children }: { children: ReactNode }) {
         tasks,
         isLoading,
         error: error || null,
+        filters,
+        setFilters,
+        hasMore: hasNextPage,
+        isLoadingMore: isFetchingNextPage,
+        loadMore: () => fetchNextPage(),
+        getExportUrl,
         getTaskById,
         createTask,
         updateTask,
@@ -4,7 +4,7 @@ import {
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { insertUserSchema, User as SelectUser, InsertUser } from "@shared/schema";
+import { CurrentUser as SelectUser, InsertUser } from "@shared/schema";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
@@ -12,13 +12,25 @@ type AuthContextType = {
   user: SelectUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<SelectUser, Error, LoginData, unknown>;
+  loginMutation: UseMutationResult<LoginResult, Error, LoginData, unknown>;
+  twoFactorLoginMutation: UseMutationResult<SelectUser, Error, TwoFactorLoginData, unknown>;
   logoutMutation: UseMutationResult<void, Error, void, unknown>;
-  registerMutation: UseMutationResult<SelectUser, Error, InsertUser, unknown>;
+  registerMutation: UseMutationResult<SelectUser, Error, RegisterData, unknown>;
 };
 
 type LoginData = Pick<InsertUser, "username" | "password">;
 
+// Accounts with 2FA get no session until the code step succeeds
+type LoginResult = SelectUser | { twoFactorRequired: true };
+
+// A TOTP code or one of the recovery codes
+type TwoFactorLoginData = { code: string };
+
+// Email and role come from the invitation the token belongs to
+export type RegisterData = Pick<InsertUser, "username" | "password" | "fullName"> & {
+  inviteToken: string;
+};
+
 export const AuthContext = createContext<AuthContextType | null>(null);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
@@ -45,7 +57,29 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     });
   }, [user, isLoading, error]);
 
-  const loginMutation = useMutation<SelectUser, Error, LoginData, unknown>({
+  const onLoggedIn = (user: SelectUser) => {
+    console.log("Login successful, user data:", user);
+    
+    // Ensure the cache is updated with the user data
+    queryClient.setQueryData(["/api/user"], user);
+    
+    // Force a complete refetch of user data
+    queryClient.invalidateQueries({
+      queryKey: ["/api/user"],
+      exact: true,
+      refetchType: "all"
+    });
+    
+    toast({
+      title: "Welcome back!",
+      description: `Logged in as ${user.username}`,
+    });
+
+    // Manually force a window reload to ensure the auth state is completely refreshed
+    window.location.href = "/";
+  };
+
+  const loginMutation = useMutation<LoginResult, Error, LoginData, unknown>({
     mutationFn: async (credentials: LoginData) => {
       console.log("Login attempt:", credentials.username);
       try {
@@ -71,38 +105,37 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         throw new Error(error.message || "Login failed");
       }
     },
-    onSuccess: (user: SelectUser) => {
-      console.log("Login successful, user data:", user);
-      
-      // Ensure the cache is updated with the user data
-      queryClient.setQueryData(["/api/user"], user);
-      
-      // Force a complete refetch of user data
-      queryClient.invalidateQueries({
-        queryKey: ["/api/user"],
-        exact: true,
-        refetchType: "all"
-      });
-      
+    onSuccess: (result: LoginResult) => {
+      // The auth page asks for the code and finishes through twoFactorLoginMutation
+      if ("twoFactorRequired" in result) return;
+      onLoggedIn(result);
+    },
+    onError: (error: Error) => {
       toast({
-        title: "Welcome back!",
-        description: `Logged in as ${user.username}`,
+        title: "Login failed",
+        description: error.message,
+        variant: "destructive",
       });
+    },
+  });
 
-      // Manually force a window reload to ensure the auth state is completely refreshed
-      window.location.href = "/";
+  const twoFactorLoginMutation = useMutation<SelectUser, Error, TwoFactorLoginData, unknown>({
+    mutationFn: async (data: TwoFactorLoginData) => {
+      const res = await apiRequest("POST", "/api/login/2fa", data);
+      return await res.json();
     },
+    onSuccess: onLoggedIn,
     onError: (error: Error) => {
       toast({
-        title: "Login failed",
+        title: "Verification failed",
         description: error.message,
         variant: "destructive",
       });
     },
   });
 
-  const registerMutation = useMutation<SelectUser, Error, InsertUser, unknown>({
-    mutationFn: async (credentials: InsertUser) => {
+  const registerMutation = useMutation<SelectUser, Error, RegisterData, unknown>({
+    mutationFn: async (credentials: RegisterData) => {
       console.log("Register attempt:", credentials.username);
       try {
         const res = await apiRequest("POST", "/api/register", credentials);
@@ -200,6 +233,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         loginMutation,
+        twoFactorLoginMutation,
         logoutMutation,
         registerMutation,
       }}
@@ -0,0 +1,30 @@
+import { useQuery } from "@tanstack/react-query";
+import { Label, TaskLabel } from "@shared/schema";
+
+export function useLabels() {
+  const { data: labels = [], isLoading } = useQuery<Label[]>({
+    queryKey: ["/api/labels"],
+  });
+
+  // All task/label pairs, shared by every card instead of a request per task
+  const { data: taskLabels = [] } = useQuery<TaskLabel[]>({
+    queryKey: ["/api/task-labels"],
+  });
+
+  const getLabelIdsForTask = (taskId: number): number[] =>
+    taskLabels
+      .filter(taskLabel => taskLabel.taskId === taskId)
+      .map(taskLabel => taskLabel.labelId);
+
+  const getLabelsForTask = (taskId: number): Label[] => {
+    const labelIds = getLabelIdsForTask(taskId);
+    return labels.filter(label => labelIds.includes(label.id));
+  };
+
+  return {
+    labels,
+    isLoading,
+    getLabelIdsForTask,
+    getLabelsForTask,
+  };
+}
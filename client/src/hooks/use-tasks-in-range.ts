@@ -0,0 +1,32 @@
+import { useQuery } from "@tanstack/react-query";
+import { Task } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+// Filters for views that show every task of a period at once, like a month
+// of the calendar. The server does the filtering, so pass dates that stay
+// the same between renders (e.g. the start of a day, not "now").
+export type TaskRange = {
+  // null or omitted means all projects
+  projectId?: number | null;
+  dueFrom?: Date;
+  dueTo?: Date;
+  createdFrom?: Date;
+  createdTo?: Date;
+};
+
+export function useTasksInRange(range: TaskRange) {
+  const params = new URLSearchParams({ sort: "dueDate" });
+  if (range.projectId != null) params.set("projectId", range.projectId.toString());
+  for (const field of ["dueFrom", "dueTo", "createdFrom", "createdTo"] as const) {
+    const date = range[field];
+    if (date) params.set(field, date.toISOString());
+  }
+
+  return useQuery<Task[]>({
+    queryKey: ["/api/tasks", "range", params.toString()],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/tasks?${params}`);
+      return await res.json();
+    },
+  });
+}
@@ -1,10 +1,11 @@
 import { useEffect, useRef, useState, useCallback, createContext, useContext, ReactNode } from 'react';
 import { useToast } from './use-toast';
 import { useAuth } from './use-auth';
+import { queryClient } from '@/lib/queryClient';
 import { Notification, Task, Comment } from '@shared/schema';
 
 // WebSocket message types
-type WebSocketMessageType = 'task_update' | 'comment_added' | 'notification' | 'task_assigned' | 'connected';
+type WebSocketMessageType = 'task_update' | 'comment_added' | 'notification' | 'unread_count' | 'task_assigned' | 'activity' | 'connected';
 
 type WebSocketMessage = {
   type: WebSocketMessageType;
@@ -14,7 +15,6 @@ type WebSocketMessage = {
 // WebSocket context
 interface WebSocketContextType {
   connected: boolean;
-  sendMessage: (message: WebSocketMessage) => void;
   lastMessage: WebSocketMessage | null;
 }
 
@@ -107,12 +107,19 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
         
       case 'notification':
         const notification = payload as Notification;
+        queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
         toast({
           title: notification.title,
           description: notification.message,
         });
         break;
         
+      case 'unread_count':
+        // Sent whenever notifications are created, read or deleted, also from other tabs
+        queryClient.setQueryData(['/api/notifications/unread-count'], payload);
+        queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+        break;
+        
       case 'task_update':
         // Handle task updates
         if (payload.action === 'created') {
@@ -151,30 +158,20 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
         });
         break;
         
+      case 'activity':
+        // Refresh the activity feed without a toast, task updates already announce themselves
+        queryClient.invalidateQueries({ queryKey: ['/api/activity'] });
+        break;
+        
       default:
         break;
     }
   }, [toast]);
   
-  // Send message to WebSocket server
-  const sendMessage = useCallback((message: WebSocketMessage) => {
-    if (socketRef.current && socketRef.current.readyState === WebSocket.OPEN) {
-      socketRef.current.send(JSON.stringify(message));
-    } else {
-      console.error('WebSocket not connected');
-      toast({
-        title: 'Connection Error',
-        description: 'Not connected to the real-time service',
-        variant: 'destructive',
-      });
-    }
-  }, [toast]);
-  
   return (
     <WebSocketContext.Provider
       value={{
         connected,
-        sendMessage,
         lastMessage,
       }}
     >
@@ -0,0 +1,40 @@
+import { useQuery } from "@tanstack/react-query";
+import { Task, Workflow, WorkflowStatus } from "@shared/schema";
+import {
+  WorkflowDefinition,
+  defaultWorkflow,
+  getWorkflowStatus,
+  isDoneStatus,
+} from "@shared/workflow";
+
+type TaskStatusFields = Pick<Task, "status" | "projectId">;
+
+export function useWorkflows() {
+  const { data: workflows = [], isLoading } = useQuery<Workflow[]>({
+    queryKey: ["/api/workflows"],
+  });
+
+  // Projects without a stored workflow (and unscoped tasks) use the default one
+  const getWorkflow = (projectId: number | null): WorkflowDefinition => {
+    if (projectId === null) return defaultWorkflow;
+    return workflows.find(workflow => workflow.projectId === projectId) ?? defaultWorkflow;
+  };
+
+  const getTaskStatus = (task: TaskStatusFields): WorkflowStatus | undefined =>
+    getWorkflowStatus(getWorkflow(task.projectId), task.status);
+
+  const getTaskStatusName = (task: TaskStatusFields): string =>
+    getTaskStatus(task)?.name ?? task.status;
+
+  const isTaskDone = (task: TaskStatusFields): boolean =>
+    isDoneStatus(getWorkflow(task.projectId), task.status);
+
+  return {
+    workflows,
+    isLoading,
+    getWorkflow,
+    getTaskStatus,
+    getTaskStatusName,
+    isTaskDone,
+  };
+}
@@ -0,0 +1,19 @@
+import { Task } from "@shared/schema";
+
+export interface SubtaskProgress {
+  completed: number;
+  total: number;
+  percent: number;
+}
+
+// Roll up the completion state of a task's subtasks.
+// isDone decides completion since statuses depend on the project's workflow.
+export function getSubtaskProgress(subtasks: Task[], isDone: (task: Task) => boolean): SubtaskProgress {
+  const total = subtasks.length;
+  const completed = subtasks.filter(isDone).length;
+  return {
+    completed,
+    total,
+    percent: total > 0 ? Math.round((completed / total) * 100) : 0,
+  };
+}
@@ -1,7 +1,9 @@
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { insertUserSchema } from "@shared/schema";
+import { useQuery } from "@tanstack/react-query";
+import { Role } from "@shared/schema";
 import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, ApiError } from "@/lib/queryClient";
 import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { Button } from "@/components/ui/button";
@@ -9,10 +11,11 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Loader2, CheckCircle2 } from "lucide-react";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { roles } from "@shared/schema";
+import { Loader2, CheckCircle2, MailQuestion } from "lucide-react";
 import { useLocation } from "wouter";
+import ForgotPasswordForm from "@/components/auth/forgot-password-form";
+import ResetPasswordForm from "@/components/auth/reset-password-form";
+import TwoFactorLoginForm from "@/components/auth/two-factor-login-form";
 
 // Login form schema
 const loginSchema = z.object({
@@ -20,8 +23,10 @@ const loginSchema = z.object({
   password: z.string().min(6, "Password must be at least 6 characters"),
 });
 
-// Register form schema (extending the insertUserSchema)
-const registerSchema = insertUserSchema.extend({
+// Register form schema; email and role come from the invitation
+const registerSchema = z.object({
+  username: z.string().min(3, "Username must be at least 3 characters"),
+  fullName: z.string().min(1, "Full name is required"),
   password: z.string().min(6, "Password must be at least 6 characters"),
   confirmPassword: z.string(),
 }).refine(data => data.password === data.confirmPassword, {
@@ -32,11 +37,35 @@ const registerSchema = insertUserSchema.extend({
 type LoginFormValues = z.infer<typeof loginSchema>;
 type RegisterFormValues = z.infer<typeof registerSchema>;
 
+type InvitationDetails = {
+  email: string;
+  role: Role;
+  expiresAt: string;
+};
+
 export default function AuthPage() {
   const { user, isLoading, loginMutation, registerMutation } = useAuth();
-  const [activeTab, setActiveTab] = useState<string>("login");
+  // Invite links look like /auth?invite=<token>, reset links /auth?reset=<token>
+  const [inviteToken] = useState(() => new URLSearchParams(window.location.search).get("invite"));
+  const [resetToken, setResetToken] = useState(() => new URLSearchParams(window.location.search).get("reset"));
+  const [activeTab, setActiveTab] = useState<string>(resetToken ? "reset" : inviteToken ? "register" : "login");
   const [_, setLocation] = useLocation();
   
+  // Unknown, used and expired tokens come back as null
+  const { data: invitation, isLoading: isLoadingInvitation } = useQuery<InvitationDetails | null>({
+    queryKey: ["/api/invitations/token", inviteToken],
+    queryFn: async () => {
+      try {
+        const res = await apiRequest("GET", `/api/invitations/token/${encodeURIComponent(inviteToken!)}`);
+        return await res.json();
+      } catch (error) {
+        if (error instanceof ApiError && error.status === 404) return null;
+        throw error;
+      }
+    },
+    enabled: !!inviteToken,
+  });
+  
   // Redirect to home if already authenticated
   useEffect(() => {
     if (user && !isLoading) {
@@ -68,12 +97,9 @@ export default function AuthPage() {
     resolver: zodResolver(registerSchema),
     defaultValues: {
       username: "",
-      email: "",
       password: "",
       confirmPassword: "",
       fullName: "",
-      role: "employee",
-      avatar: "",
     }
   });
   
@@ -83,10 +109,14 @@ export default function AuthPage() {
     loginMutation.mutate(data);
   };
   
+  // The password was right but the account also needs its 2FA code
+  const awaitingTwoFactor = !!loginMutation.data && "twoFactorRequired" in loginMutation.data;
+  
   const onRegisterSubmit = (data: RegisterFormValues) => {
     console.log("Register form submitted", data);
+    if (!inviteToken) return;
     const { confirmPassword, ...registerData } = data;
-    registerMutation.mutate(registerData);
+    registerMutation.mutate({ ...registerData, inviteToken });
   };
   
   return (
@@ -115,175 +145,190 @@ export default function AuthPage() {
               
               {/* Login Form */}
               <TabsContent value="login">
-                <Form {...loginForm}>
-                  <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
-                    <FormField
-                      control={loginForm.control}
-                      name="username"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Username</FormLabel>
-                          <FormControl>
-                            <Input placeholder="Enter your username" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                {awaitingTwoFactor ? (
+                  <TwoFactorLoginForm onCancel={() => loginMutation.reset()} />
+                ) : (
+                  <>
+                    <Form {...loginForm}>
+                      <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
+                        <FormField
+                          control={loginForm.control}
+                          name="username"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Username</FormLabel>
+                              <FormControl>
+                                <Input placeholder="Enter your username" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
                     
-                    <FormField
-                      control={loginForm.control}
-                      name="password"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Password</FormLabel>
-                          <FormControl>
-                            <Input type="password" placeholder="Enter your password" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                        <FormField
+                          control={loginForm.control}
+                          name="password"
+                          render={({ field }) => (
+                            <FormItem>
+                              <div className="flex items-center justify-between">
+                                <FormLabel>Password</FormLabel>
+                                <button
+                                  type="button"
+                                  className="text-sm text-primary-600 hover:text-primary-500"
+                                  onClick={() => setActiveTab("forgot")}
+                                >
+                                  Forgot password?
+                                </button>
+                              </div>
+                              <FormControl>
+                                <Input type="password" placeholder="Enter your password" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
                     
-                    <Button type="submit" className="w-full" disabled={loginMutation.isPending}>
-                      {loginMutation.isPending ? (
-                        <>
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                          Logging in...
-                        </>
-                      ) : (
-                        'Login'
-                      )}
-                    </Button>
-                  </form>
-                </Form>
-                <div className="mt-4 text-center text-sm">
-                  <p>
-                    Don't have an account?{" "}
-                    <button
-                      className="text-primary-600 hover:text-primary-500 font-medium"
-                      onClick={() => setActiveTab("register")}
-                    >
-                      Sign up
-                    </button>
-                  </p>
-                </div>
+                        <Button type="submit" className="w-full" disabled={loginMutation.isPending}>
+                          {loginMutation.isPending ? (
+                            <>
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                              Logging in...
+                            </>
+                          ) : (
+                            'Login'
+                          )}
+                        </Button>
+                      </form>
+                    </Form>
+                    <div className="mt-4 text-center text-sm">
+                      <p>
+                        Don't have an account?{" "}
+                        <button
+                          className="text-primary-600 hover:text-primary-500 font-medium"
+                          onClick={() => setActiveTab("register")}
+                        >
+                          Sign up
+                        </button>
+                      </p>
+                    </div>
+                  </>
+                )}
+              </TabsContent>
+              
+              {/* Password reset, reached from the login form and from emailed links */}
+              <TabsContent value="forgot">
+                <ForgotPasswordForm onBack={() => setActiveTab("login")} />
+              </TabsContent>
+              
+              <TabsContent value="reset">
+                {resetToken && (
+                  <ResetPasswordForm
+                    token={resetToken}
+                    onDone={() => {
+                      window.history.replaceState(null, "", "/auth");
+                      setResetToken(null);
+                      setActiveTab("login");
+                    }}
+                  />
+                )}
               </TabsContent>
               
               {/* Register Form */}
               <TabsContent value="register">
-                <Form {...registerForm}>
-                  <form onSubmit={registerForm.handleSubmit(onRegisterSubmit)} className="space-y-4">
-                    <FormField
-                      control={registerForm.control}
-                      name="username"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Username</FormLabel>
-                          <FormControl>
-                            <Input placeholder="Choose a username" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    
-                    <FormField
-                      control={registerForm.control}
-                      name="fullName"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Full Name</FormLabel>
-                          <FormControl>
-                            <Input placeholder="Enter your full name" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    
-                    <FormField
-                      control={registerForm.control}
-                      name="email"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Email</FormLabel>
-                          <FormControl>
-                            <Input type="email" placeholder="Enter your email" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    
-                    <FormField
-                      control={registerForm.control}
-                      name="role"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Role</FormLabel>
-                          <Select
-                            onValueChange={field.onChange}
-                            defaultValue={field.value}
-                          >
+                {inviteToken && isLoadingInvitation ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+                  </div>
+                ) : !invitation ? (
+                  <div className="py-6 text-center">
+                    <MailQuestion className="mx-auto h-10 w-10 text-gray-400" />
+                    <p className="mt-3 text-sm text-gray-600">
+                      {inviteToken
+                        ? "This invitation is invalid or has expired. Ask an admin to send you a new one."
+                        : "TaskFlow accounts are created by invitation. Ask an admin to send you an invite link."}
+                    </p>
+                  </div>
+                ) : (
+                  <Form {...registerForm}>
+                    <form onSubmit={registerForm.handleSubmit(onRegisterSubmit)} className="space-y-4">
+                      <FormField
+                        control={registerForm.control}
+                        name="username"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Username</FormLabel>
                             <FormControl>
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select your role" />
-                              </SelectTrigger>
+                              <Input placeholder="Choose a username" {...field} />
                             </FormControl>
-                            <SelectContent>
-                              {roles.map((role) => (
-                                <SelectItem key={role} value={role}>
-                                  {role.charAt(0).toUpperCase() + role.slice(1)}
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    
-                    <FormField
-                      control={registerForm.control}
-                      name="password"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Password</FormLabel>
-                          <FormControl>
-                            <Input type="password" placeholder="Create a password" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    
-                    <FormField
-                      control={registerForm.control}
-                      name="confirmPassword"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Confirm Password</FormLabel>
-                          <FormControl>
-                            <Input type="password" placeholder="Confirm your password" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    
-                    <Button type="submit" className="w-full" disabled={registerMutation.isPending}>
-                      {registerMutation.isPending ? (
-                        <>
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                          Creating account...
-                        </>
-                      ) : (
-                        'Register'
-                      )}
-                    </Button>
-                  </form>
-                </Form>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
+                      <FormField
+                        control={registerForm.control}
+                        name="fullName"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Full Name</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Enter your full name" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
+                      <FormItem>
+                        <FormLabel>Email</FormLabel>
+                        <Input type="email" value={invitation?.email ?? ""} disabled />
+                        <p className="text-sm text-gray-500">
+                          You're joining as {invitation ? invitation.role.charAt(0).toUpperCase() + invitation.role.slice(1) : ""}
+                        </p>
+                      </FormItem>
+                      
+                      
+                      <FormField
+                        control={registerForm.control}
+                        name="password"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Password</FormLabel>
+                            <FormControl>
+                              <Input type="password" placeholder="Create a password" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
+                      <FormField
+                        control={registerForm.control}
+                        name="confirmPassword"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Confirm Password</FormLabel>
+                            <FormControl>
+                              <Input type="password" placeholder="Confirm your password" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
+                      <Button type="submit" className="w-full" disabled={registerMutation.isPending}>
+                        {registerMutation.isPending ? (
+                          <>
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            Creating account...
+                          </>
+                        ) : (
+                          'Register'
+                        )}
+                      </Button>
+                    </form>
+                  </Form>
+                )}
                 <div className="mt-4 text-center text-sm">
                   <p>
                     Already have an account?{" "}
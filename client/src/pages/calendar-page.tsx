@@ -1,15 +1,19 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
 import { format, addDays, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, isWeekend, addMonths, subMonths, parseISO } from "date-fns";
 import { Task } from "@shared/schema";
 import Sidebar from "@/components/layout/sidebar";
 import Header from "@/components/layout/header";
+import ProjectSelect from "@/components/projects/project-select";
+import { useProjectContext } from "@/context/project-context";
+import { useWorkflows } from "@/hooks/use-workflows";
+import { useTasksInRange } from "@/hooks/use-tasks-in-range";
 import TaskDetailModal from "@/components/tasks/task-detail-modal";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogTrigger } from "@/components/ui/dialog";
-import { ChevronLeft, ChevronRight, Plus } from "lucide-react";
+import { ChevronLeft, ChevronRight, Plus, Rss } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import TaskForm from "@/components/tasks/task-form";
+import CalendarFeedsDialog from "@/components/calendar/calendar-feeds-dialog";
 import { Skeleton } from "@/components/ui/skeleton";
 
 export default function CalendarPage() {
@@ -18,15 +22,20 @@ export default function CalendarPage() {
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   const [isDetailModalOpen, setIsDetailModalOpen] = useState(false);
   const [isNewTaskOpen, setIsNewTaskOpen] = useState(false);
+  const [isFeedsOpen, setIsFeedsOpen] = useState(false);
   
   // Get calendar days
   const monthStart = startOfMonth(currentDate);
   const monthEnd = endOfMonth(currentDate);
   const calendarDays = eachDayOfInterval({ start: monthStart, end: monthEnd });
   
-  // Fetch tasks
-  const { data: tasks = [], isLoading } = useQuery<Task[]>({
-    queryKey: ["/api/tasks"],
+  // Fetch the selected project's tasks due this month
+  const { selectedProjectId } = useProjectContext();
+  const { isTaskDone } = useWorkflows();
+  const { data: tasks = [], isLoading } = useTasksInRange({
+    projectId: selectedProjectId,
+    dueFrom: monthStart,
+    dueTo: monthEnd,
   });
   
   // Filter tasks with due dates
@@ -81,6 +90,8 @@ export default function CalendarPage() {
               </div>
               
               <div className="mt-4 md:mt-0 flex space-x-3">
+                <ProjectSelect className="w-[160px]" />
+                
                 <Select defaultValue={view} onValueChange={setView}>
                   <SelectTrigger className="w-[120px]">
                     <SelectValue placeholder="View" />
@@ -92,6 +103,18 @@ export default function CalendarPage() {
                   </SelectContent>
                 </Select>
                 
+                <Dialog open={isFeedsOpen} onOpenChange={setIsFeedsOpen}>
+                  <DialogTrigger asChild>
+                    <Button variant="outline" className="flex items-center">
+                      <Rss className="mr-2 h-4 w-4" />
+                      Subscribe
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="sm:max-w-[500px]">
+                    {isFeedsOpen && <CalendarFeedsDialog onClose={() => setIsFeedsOpen(false)} />}
+                  </DialogContent>
+                </Dialog>
+                
                 <Dialog open={isNewTaskOpen} onOpenChange={setIsNewTaskOpen}>
                   <DialogTrigger asChild>
                     <Button className="flex items-center">
@@ -245,7 +268,7 @@ export default function CalendarPage() {
                 ) : (
                   <div className="space-y-3">
                     {tasksWithDueDate
-                      .filter(task => task.status !== "completed")
+                      .filter(task => !isTaskDone(task))
                       .sort((a, b) => {
                         const dateA = parseISO(a.dueDate!.toString());
                         const dateB = parseISO(b.dueDate!.toString());
@@ -254,7 +277,7 @@ export default function CalendarPage() {
                       .slice(0, 5)
                       .map((task) => {
                         const dueDate = parseISO(task.dueDate!.toString());
-                        const isPastDue = dueDate < new Date() && task.status !== "completed";
+                        const isPastDue = dueDate < new Date() && !isTaskDone(task);
                         
                         return (
                           <div
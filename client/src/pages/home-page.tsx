@@ -5,26 +5,35 @@ import StatsCard from "@/components/dashboard/stats-card";
 import TaskChart from "@/components/dashboard/chart";
 import ActivityFeed from "@/components/dashboard/activity-feed";
 import CalendarWidget from "@/components/dashboard/calendar-widget";
-import { useQuery } from "@tanstack/react-query";
-import { Task } from "@shared/schema";
+import { addDays, endOfDay, startOfDay, startOfMonth, startOfQuarter, startOfWeek, startOfYear } from "date-fns";
 import { useAuth } from "@/hooks/use-auth";
+import { useWorkflows } from "@/hooks/use-workflows";
+import { useTasksInRange } from "@/hooks/use-tasks-in-range";
 import { TrendingUp, CheckSquare, Clock, Timer } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 
+const rangeStarts: Record<string, (date: Date) => Date> = {
+  week: startOfWeek,
+  month: startOfMonth,
+  quarter: startOfQuarter,
+  year: startOfYear,
+};
+
 export default function HomePage() {
   const { user } = useAuth();
+  const { getTaskStatus, isTaskDone } = useWorkflows();
   const [timeRange, setTimeRange] = useState("week");
   
-  // Fetch tasks for the dashboard
-  const { data: tasks = [], isLoading } = useQuery<Task[]>({
-    queryKey: ["/api/tasks"],
-  });
+  // Fetch the tasks created in the selected period, and those due within a week
+  const today = startOfDay(new Date());
+  const { data: tasks = [], isLoading } = useTasksInRange({ createdFrom: rangeStarts[timeRange](today) });
+  const { data: dueSoon = [] } = useTasksInRange({ dueFrom: today, dueTo: endOfDay(addDays(today, 7)) });
   
   // Calculate task statistics
-  const completedTasks = tasks.filter(task => task.status === "completed").length;
-  const inProgressTasks = tasks.filter(task => task.status === "inProgress").length;
-  const todoTasks = tasks.filter(task => task.status === "todo").length;
+  const completedTasks = tasks.filter(task => getTaskStatus(task)?.category === "done").length;
+  const inProgressTasks = tasks.filter(task => getTaskStatus(task)?.category === "active").length;
+  const todoTasks = tasks.filter(task => getTaskStatus(task)?.category === "notStarted").length;
   
   // Calculate productivity score (simplified - actually would be more complex)
   const productivityScore = tasks.length > 0 
@@ -32,12 +41,12 @@ export default function HomePage() {
     : 0;
   
   // Calculate upcoming deadlines
-  const upcomingDeadlines = tasks.filter(task => {
+  const upcomingDeadlines = dueSoon.filter(task => {
     if (!task.dueDate) return false;
     const dueDate = new Date(task.dueDate);
     const now = new Date();
     const differenceInDays = Math.ceil((dueDate.getTime() - now.getTime()) / (1000 * 3600 * 24));
-    return differenceInDays >= 0 && differenceInDays <= 7 && task.status !== "completed";
+    return differenceInDays >= 0 && differenceInDays <= 7 && !isTaskDone(task);
   }).length;
   
   return (
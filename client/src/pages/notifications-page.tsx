@@ -0,0 +1,284 @@
+import { useState } from "react";
+import { InfiniteData, useInfiniteQuery, useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Bell, CheckCheck, Loader2, Trash2 } from "lucide-react";
+import { Notification, NotificationType, Task, notificationTypes } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import Sidebar from "@/components/layout/sidebar";
+import Header from "@/components/layout/header";
+import TaskDetailModal from "@/components/tasks/task-detail-modal";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const PAGE_SIZE = 20;
+
+const typeLabels: Record<NotificationType, string> = {
+  task_assigned: "Assignments",
+  comment_added: "Comments",
+  time_tracked: "Time entries",
+  task_due_soon: "Due soon",
+  task_overdue: "Overdue",
+  task_escalated: "Escalations",
+};
+
+type ReadFilter = "all" | "unread" | "read";
+
+type NotificationPage = {
+  items: Notification[];
+  nextCursor: string | null;
+};
+
+// All of the signed-in user's notifications, newest first
+export default function NotificationsPage() {
+  const { toast } = useToast();
+  const [type, setType] = useState<NotificationType | "all">("all");
+  const [readFilter, setReadFilter] = useState<ReadFilter>("all");
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [openTask, setOpenTask] = useState<Task | null>(null);
+
+  const {
+    data,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useInfiniteQuery<NotificationPage, Error, InfiniteData<NotificationPage>, (string | object)[], string | null>({
+    // Under "/api/notifications" so new notifications refresh the list
+    queryKey: ["/api/notifications", { type, readFilter }],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (type !== "all") params.set("type", type);
+      if (readFilter !== "all") params.set("read", String(readFilter === "read"));
+      if (pageParam) params.set("cursor", pageParam);
+
+      const res = await apiRequest("GET", `/api/notifications?${params}`);
+      return {
+        items: await res.json(),
+        nextCursor: res.headers.get("X-Next-Cursor"),
+      };
+    },
+    initialPageParam: null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const { data: unread } = useQuery<{ count: number }>({
+    queryKey: ["/api/notifications/unread-count"],
+  });
+
+  const notifications = data?.pages.flatMap(page => page.items) ?? [];
+  const allSelected = notifications.length > 0 && notifications.every(notification => selectedIds.includes(notification.id));
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/notifications/unread-count"] });
+  };
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("PUT", `/api/notifications/${id}/read`);
+    },
+    onSuccess: refresh,
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", "/api/notifications/read-all");
+      return await res.json() as { count: number };
+    },
+    onSuccess: ({ count }) => {
+      refresh();
+      toast({ title: count === 1 ? "1 notification marked as read" : `${count} notifications marked as read` });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to mark notifications as read",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (ids: number[]) => {
+      const res = await apiRequest("DELETE", "/api/notifications", { ids });
+      return await res.json() as { count: number };
+    },
+    onSuccess: ({ count }) => {
+      setSelectedIds([]);
+      refresh();
+      toast({ title: count === 1 ? "1 notification deleted" : `${count} notifications deleted` });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete notifications",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Marks the notification read and opens its task, if it still exists
+  const handleOpen = async (notification: Notification) => {
+    if (!notification.isRead) markReadMutation.mutate(notification.id);
+    if (notification.relatedId === null) return;
+    try {
+      const res = await apiRequest("GET", `/api/tasks/${notification.relatedId}`);
+      setOpenTask(await res.json());
+    } catch {
+      toast({ title: "This task no longer exists", variant: "destructive" });
+    }
+  };
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    setSelectedIds(checked ? [...selectedIds, id] : selectedIds.filter(other => other !== id));
+  };
+
+  const changeFilter = (apply: () => void) => {
+    setSelectedIds([]);
+    apply();
+  };
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      <Sidebar />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Header />
+        <main className="flex-1 overflow-y-auto bg-gray-50 p-4 md:p-6">
+          <div className="mb-6 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Notifications</h1>
+              <p className="mt-1 text-sm text-gray-600">
+                {unread?.count ? `${unread.count} unread` : "You are all caught up"}
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={type} onValueChange={(value) => changeFilter(() => setType(value as NotificationType | "all"))}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All types</SelectItem>
+                  {notificationTypes.map((option) => (
+                    <SelectItem key={option} value={option}>{typeLabels[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={readFilter} onValueChange={(value) => changeFilter(() => setReadFilter(value as ReadFilter))}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All</SelectItem>
+                  <SelectItem value="unread">Unread</SelectItem>
+                  <SelectItem value="read">Read</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                onClick={() => markAllReadMutation.mutate()}
+                disabled={!unread?.count || markAllReadMutation.isPending}
+              >
+                {markAllReadMutation.isPending
+                  ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  : <CheckCheck className="mr-2 h-4 w-4" />}
+                Mark all as read
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => deleteMutation.mutate(selectedIds)}
+                disabled={selectedIds.length === 0 || deleteMutation.isPending}
+              >
+                {deleteMutation.isPending
+                  ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  : <Trash2 className="mr-2 h-4 w-4" />}
+                Delete{selectedIds.length > 0 && ` (${selectedIds.length})`}
+              </Button>
+            </div>
+          </div>
+
+          <Card>
+            {isLoading ? (
+              <div className="flex justify-center py-10">
+                <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+              </div>
+            ) : notifications.length === 0 ? (
+              <div className="py-10 text-center text-sm text-gray-500">
+                <Bell className="mx-auto mb-2 h-6 w-6 text-gray-300" />
+                No notifications match these filters
+              </div>
+            ) : (
+              <>
+                <div className="flex items-center px-4 py-2 border-b border-gray-200">
+                  <Checkbox
+                    id="select-all-notifications"
+                    checked={allSelected}
+                    onCheckedChange={(checked) => setSelectedIds(checked === true ? notifications.map(notification => notification.id) : [])}
+                  />
+                  <label htmlFor="select-all-notifications" className="ml-3 text-xs text-gray-500">
+                    Select all shown
+                  </label>
+                </div>
+                <ul className="divide-y divide-gray-200">
+                  {notifications.map((notification) => (
+                    <li
+                      key={notification.id}
+                      className={`flex items-start px-4 py-3 ${notification.isRead ? "" : "bg-primary-50"}`}
+                    >
+                      <Checkbox
+                        className="mt-1"
+                        checked={selectedIds.includes(notification.id)}
+                        onCheckedChange={(checked) => toggleSelected(notification.id, checked === true)}
+                        aria-label="Select notification"
+                      />
+                      <button
+                        className="ml-3 flex-1 min-w-0 text-left"
+                        onClick={() => handleOpen(notification)}
+                      >
+                        <p className={`text-sm text-gray-900 ${notification.isRead ? "" : "font-semibold"}`}>
+                          {notification.title}
+                        </p>
+                        <p className="mt-0.5 text-sm text-gray-600">{notification.message}</p>
+                        <p className="mt-1 text-xs text-gray-400">
+                          {typeLabels[notification.type as NotificationType] ?? notification.type}
+                          {" · "}
+                          {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                        </p>
+                      </button>
+                      {!notification.isRead && (
+                        <span className="mt-2 h-2 w-2 rounded-full bg-primary-500 shrink-0" aria-label="Unread" />
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                {hasNextPage && (
+                  <div className="flex justify-center border-t border-gray-200 py-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => fetchNextPage()}
+                      disabled={isFetchingNextPage}
+                    >
+                      {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Load older notifications
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </Card>
+        </main>
+      </div>
+
+      {openTask && (
+        <TaskDetailModal
+          task={openTask}
+          isOpen={openTask !== null}
+          onClose={() => setOpenTask(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,13 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { format, parseISO, startOfMonth, endOfMonth, subMonths, addMonths } from "date-fns";
-import { Task } from "@shared/schema";
+import { format, startOfMonth, endOfMonth, subMonths, addMonths } from "date-fns";
+import { statusCategories } from "@shared/schema";
+import { statusCategoryLabels } from "@shared/workflow";
 import Sidebar from "@/components/layout/sidebar";
 import Header from "@/components/layout/header";
+import ProjectSelect from "@/components/projects/project-select";
+import { useProjectContext } from "@/context/project-context";
+import { useWorkflows } from "@/hooks/use-workflows";
+import { useTasksInRange } from "@/hooks/use-tasks-in-range";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -24,17 +28,22 @@ export default function ReportsPage() {
     ? endOfMonth(currentDate) 
     : addMonths(currentDate, 3);
   
-  // Fetch tasks
-  const { data: tasks = [], isLoading } = useQuery<Task[]>({
-    queryKey: ["/api/tasks"],
+  // Fetch the selected project's tasks created in the period
+  const { selectedProjectId } = useProjectContext();
+  const { getTaskStatus, isTaskDone } = useWorkflows();
+  const { data: periodTasks = [], isLoading } = useTasksInRange({
+    projectId: selectedProjectId,
+    createdFrom: startDate,
+    createdTo: endDate,
   });
-  
-  // Filter tasks by date range
-  const periodTasks = tasks.filter(task => {
-    if (!task.createdAt) return false;
-    const createdDate = parseISO(task.createdAt.toString());
-    return createdDate >= startDate && createdDate <= endDate;
+  // The tasks behind these reports as CSV
+  const exportParams = new URLSearchParams({
+    format: "csv",
+    createdFrom: startDate.toISOString(),
+    createdTo: endDate.toISOString(),
   });
+  if (selectedProjectId !== null) exportParams.set("projectId", selectedProjectId.toString());
+  const exportUrl = `/api/tasks/export?${exportParams}`;
   
   // Navigate through time periods
   const prevPeriod = () => {
@@ -54,22 +63,15 @@ export default function ReportsPage() {
   };
   
   // Calculate statistics
-  const completedTasks = periodTasks.filter(task => task.status === "completed").length;
+  const completedTasks = periodTasks.filter(isTaskDone).length;
   const totalTasks = periodTasks.length;
   const completionRate = totalTasks > 0 ? (completedTasks / totalTasks * 100).toFixed(1) : "0";
   
-  // Group tasks by status for pie chart
-  const statusCounts = {
-    todo: periodTasks.filter(task => task.status === "todo").length,
-    inProgress: periodTasks.filter(task => task.status === "inProgress").length,
-    completed: periodTasks.filter(task => task.status === "completed").length,
-  };
-  
-  const statusPieData = [
-    { name: "To Do", value: statusCounts.todo },
-    { name: "In Progress", value: statusCounts.inProgress },
-    { name: "Completed", value: statusCounts.completed },
-  ];
+  // Group tasks by status category for pie chart (statuses differ between project workflows)
+  const statusPieData = statusCategories.map(category => ({
+    name: statusCategoryLabels[category],
+    value: periodTasks.filter(task => getTaskStatus(task)?.category === category).length,
+  }));
   
   // Group tasks by priority for pie chart
   const priorityCounts = {
@@ -116,6 +118,8 @@ export default function ReportsPage() {
               </div>
               
               <div className="mt-4 md:mt-0 flex space-x-3">
+                <ProjectSelect className="w-[160px]" />
+                
                 <Select defaultValue={timeRange} onValueChange={setTimeRange}>
                   <SelectTrigger className="w-[130px]">
                     <SelectValue placeholder="Select period" />
@@ -140,9 +144,11 @@ export default function ReportsPage() {
                   </Button>
                 </div>
                 
-                <Button variant="outline" className="flex items-center">
-                  <Download className="mr-2 h-4 w-4" />
-                  Export
+                <Button variant="outline" className="flex items-center" asChild>
+                  <a href={exportUrl} download>
+                    <Download className="mr-2 h-4 w-4" />
+                    Export
+                  </a>
                 </Button>
               </div>
             </div>
@@ -6,6 +6,7 @@ import { z } from "zod";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { User, roles } from "@shared/schema";
+import { Permission, can } from "@shared/permissions";
 import Sidebar from "@/components/layout/sidebar";
 import Header from "@/components/layout/header";
 import { Button } from "@/components/ui/button";
@@ -36,7 +37,16 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Loader2, Save } from "lucide-react";
+import { Dialog, DialogContent, DialogTrigger } from "@/components/ui/dialog";
+import ChangePasswordForm from "@/components/settings/change-password-form";
+import TwoFactorSettings from "@/components/settings/two-factor-settings";
+import SecurityPolicySettings from "@/components/settings/security-policy-settings";
+import ApiTokensSettings from "@/components/settings/api-tokens-settings";
+import WebhooksSettings from "@/components/settings/webhooks-settings";
+import TaskTemplatesSettings from "@/components/settings/task-templates-settings";
+import ReminderPolicySettings from "@/components/settings/reminder-policy-settings";
+import NotificationPreferencesSettings from "@/components/settings/notification-preferences-settings";
+import { AlarmClock, Bell, KeyRound, LayoutTemplate, Loader2, Save, Shield, User as UserIcon, UserCog, Webhook as WebhookIcon } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
@@ -51,13 +61,17 @@ const profileSchema = z.object({
   website: z.string().url().optional().or(z.literal("")),
 });
 
-const notificationSchema = z.object({
-  emailNotifications: z.boolean(),
-  taskAssignments: z.boolean(),
-  taskUpdates: z.boolean(),
-  deadlineReminders: z.boolean(),
-  teamUpdates: z.boolean(),
-});
+// Tabs with a permission are hidden from users without it
+const settingsTabs: { value: string; label: string; icon: typeof Bell; permission?: Permission }[] = [
+  { value: "profile", label: "Profile", icon: UserIcon },
+  { value: "account", label: "Account", icon: UserCog },
+  { value: "notifications", label: "Notifications", icon: Bell },
+  { value: "security", label: "Security", icon: Shield },
+  { value: "apiTokens", label: "API Tokens", icon: KeyRound },
+  { value: "templates", label: "Task Templates", icon: LayoutTemplate, permission: "templates:manage" },
+  { value: "reminders", label: "Reminders", icon: AlarmClock, permission: "reminders:manage" },
+  { value: "webhooks", label: "Webhooks", icon: WebhookIcon, permission: "webhooks:manage" },
+];
 
 // Utility Functions
 const getUserInitials = (fullName: string) => {
@@ -72,6 +86,7 @@ export default function SettingsPage() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("profile");
+  const [isPasswordDialogOpen, setIsPasswordDialogOpen] = useState(false);
 
   // Form Hooks
   const profileForm = useForm<z.infer<typeof profileSchema>>({
@@ -86,17 +101,6 @@ export default function SettingsPage() {
     },
   });
 
-  const notificationForm = useForm<z.infer<typeof notificationSchema>>({
-    resolver: zodResolver(notificationSchema),
-    defaultValues: {
-      emailNotifications: true,
-      taskAssignments: true,
-      taskUpdates: true,
-      deadlineReminders: true,
-      teamUpdates: false,
-    },
-  });
-
   // Mutations
   const updateProfileMutation = useMutation({
     mutationFn: async (data: z.infer<typeof profileSchema>) => {
@@ -119,35 +123,11 @@ export default function SettingsPage() {
     },
   });
 
-  const updateNotificationsMutation = useMutation({
-    mutationFn: async (data: z.infer<typeof notificationSchema>) => {
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      return data;
-    },
-    onSuccess: () => {
-      toast({
-        title: "Notification settings updated",
-        description: "Your notification preferences have been updated",
-      });
-    },
-    onError: (error: Error) => {
-      toast({
-        title: "Failed to update settings",
-        description: error.message,
-        variant: "destructive",
-      });
-    },
-  });
-
   // Form Submission Handlers
   const onSubmitProfile = (data: z.infer<typeof profileSchema>) => {
     updateProfileMutation.mutate(data);
   };
 
-  const onSubmitNotifications = (data: z.infer<typeof notificationSchema>) => {
-    updateNotificationsMutation.mutate(data);
-  };
-
   // Tab Content Components
   const renderProfileTab = () => (
     <Card>
@@ -161,12 +141,6 @@ export default function SettingsPage() {
     </Card>
   );
 
-  const renderNotificationsTab = () => (
-    <Card>
-      // ... existing code ...
-    </Card>
-  );
-
   const renderSecurityTab = () => (
     <Card>
       <CardHeader>
@@ -177,16 +151,26 @@ export default function SettingsPage() {
         <div className="space-y-6">
           <div>
             <h3 className="text-lg font-medium">Password</h3>
-            <Button variant="outline" className="mt-2">Change Password</Button>
-          </div>
-          <Separator />
-          <div>
-            <h3 className="text-lg font-medium">Two-Factor Authentication</h3>
             <p className="text-sm text-gray-500 mt-1">
-              Add an extra layer of security to your account
+              Forgot it? Sign out and use "Forgot password?" on the sign-in page
             </p>
-            <Button variant="outline" className="mt-2">Enable 2FA</Button>
+            <Dialog open={isPasswordDialogOpen} onOpenChange={setIsPasswordDialogOpen}>
+              <DialogTrigger asChild>
+                <Button variant="outline" className="mt-2">Change Password</Button>
+              </DialogTrigger>
+              <DialogContent className="sm:max-w-[450px]">
+                {isPasswordDialogOpen && <ChangePasswordForm onClose={() => setIsPasswordDialogOpen(false)} />}
+              </DialogContent>
+            </Dialog>
           </div>
+          <Separator />
+          <TwoFactorSettings />
+          {can(user, "security:manage") && (
+            <>
+              <Separator />
+              <SecurityPolicySettings />
+            </>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -199,17 +183,39 @@ export default function SettingsPage() {
         <Header />
         <main className="flex-1 overflow-y-auto bg-gray-50 p-4 md:p-6">
           <div className="mb-8">
-            // ... existing code ...
+            <div className="mb-6">
+              <h1 className="text-2xl font-bold text-gray-900">Settings</h1>
+              <p className="mt-1 text-sm text-gray-600">Manage your profile and account preferences.</p>
+            </div>
             <div className="grid grid-cols-1 md:grid-cols-[240px_1fr] gap-6">
               <Card>
-                // ... existing tabs code ...
+                <nav className="p-2 space-y-1">
+                  {settingsTabs.filter(tab => !tab.permission || can(user, tab.permission)).map(tab => (
+                    <button
+                      key={tab.value}
+                      className={`w-full flex items-center px-3 py-2 text-sm font-medium rounded-md ${
+                        activeTab === tab.value
+                          ? "bg-gray-100 text-gray-900"
+                          : "text-gray-600 hover:bg-gray-50 hover:text-gray-900"
+                      }`}
+                      onClick={() => setActiveTab(tab.value)}
+                    >
+                      <tab.icon className="mr-3 h-4 w-4" />
+                      {tab.label}
+                    </button>
+                  ))}
+                </nav>
               </Card>
               
               <div className="space-y-6">
                 {activeTab === "profile" && renderProfileTab()}
                 {activeTab === "account" && renderAccountTab()}
-                {activeTab === "notifications" && renderNotificationsTab()}
+                {activeTab === "notifications" && <NotificationPreferencesSettings />}
                 {activeTab === "security" && renderSecurityTab()}
+                {activeTab === "apiTokens" && <ApiTokensSettings />}
+                {activeTab === "templates" && can(user, "templates:manage") && <TaskTemplatesSettings />}
+                {activeTab === "reminders" && can(user, "reminders:manage") && <ReminderPolicySettings />}
+                {activeTab === "webhooks" && can(user, "webhooks:manage") && <WebhooksSettings />}
               </div>
             </div>
           </div>
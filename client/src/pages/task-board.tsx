@@ -1,13 +1,26 @@
 import { useState } from "react";
 import { DragDropContext, Droppable, Draggable, DraggableProvided, DroppableProvided, DropResult } from "react-beautiful-dnd";
-import { PlusCircle, Loader2 } from "lucide-react";
-import { Task } from "@shared/schema";
+import { useQuery } from "@tanstack/react-query";
+import { PlusCircle, Loader2, FolderPlus, Lock, Workflow as WorkflowIcon, Download, Upload, LayoutTemplate } from "lucide-react";
+import { Task, TaskDependency, WorkflowStatus } from "@shared/schema";
+import { getOrderedStatuses, mapStatusToWorkflow } from "@shared/workflow";
+import { can } from "@shared/permissions";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient } from "@/lib/queryClient";
+import { useWorkflows } from "@/hooks/use-workflows";
+import { useLabels } from "@/hooks/use-labels";
+import LabelChip from "@/components/labels/label-chip";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useTaskContext } from "@/context/task-context";
+import { useProjectContext } from "@/context/project-context";
 import TaskFilter from "@/components/tasks/task-filter";
 import TaskForm from "@/components/tasks/task-form";
+import TaskDetailModal from "@/components/tasks/task-detail-modal";
+import TaskImportForm from "@/components/tasks/task-import-form";
+import TaskTemplatePicker from "@/components/tasks/task-template-picker";
+import { getSubtaskProgress } from "@/lib/task-progress";
+import ProjectForm from "@/components/projects/project-form";
+import WorkflowEditor from "@/components/projects/workflow-editor";
 import Sidebar from "@/components/layout/sidebar";
 import Header from "@/components/layout/header";
 import {
@@ -16,6 +29,12 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   Card,
   CardContent,
@@ -28,17 +47,40 @@ import { Badge } from "@/components/ui/badge";
 export default function TaskBoard() {
   const { toast } = useToast();
   const { user } = useAuth();
-  const { tasks, isLoading, updateTaskStatus } = useTaskContext();
+  // Tasks arrive filtered by project and the filter bar, top-level only
+  const {
+    tasks,
+    isLoading,
+    updateTaskStatus,
+    filters,
+    setFilters,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+    getExportUrl,
+  } = useTaskContext();
+  const { selectedProject, selectedProjectId } = useProjectContext();
+  const { getWorkflow, getTaskStatus, isTaskDone } = useWorkflows();
+  const { getLabelsForTask } = useLabels();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isProjectDialogOpen, setIsProjectDialogOpen] = useState(false);
+  const [isWorkflowDialogOpen, setIsWorkflowDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [isTemplateDialogOpen, setIsTemplateDialogOpen] = useState(false);
   const [selectedTask, setSelectedTask] = useState<Task | undefined>(undefined);
-  const [filters, setFilters] = useState({
-    search: "",
-    priority: "all",
-    assignee: "all",
-    project: "all",
+  const [detailTask, setDetailTask] = useState<Task | null>(null);
+
+  // Fetch all dependencies so blocked cards can show a lock badge
+  const { data: dependencies = [] } = useQuery<TaskDependency[]>({
+    queryKey: ["/api/dependencies"],
   });
 
   const handleTaskClick = (task: Task) => {
+    setDetailTask(task);
+  };
+
+  const handleEditTask = (task: Task) => {
+    setDetailTask(null);
     setSelectedTask(task);
     setIsDialogOpen(true);
   };
@@ -48,32 +90,51 @@ export default function TaskBoard() {
     setSelectedTask(undefined);
   };
 
-  // Filter tasks
-  const filteredTasks = tasks.filter((task: Task) => {
-    // Search filter
-    if (
-      filters.search &&
-      !task.title.toLowerCase().includes(filters.search.toLowerCase()) &&
-      !task.description?.toLowerCase().includes(filters.search.toLowerCase())
-    ) {
-      return false;
-    }
-
-    // Priority filter
-    if (filters.priority !== "all" && task.priority !== filters.priority) {
-      return false;
-    }
+  // Subtasks of the loaded cards, for the progress roll-up
+  const taskIds = tasks.map((task: Task) => task.id);
+  const { data: subtasks = [] } = useQuery<Task[]>({
+    queryKey: ["/api/tasks", "children", taskIds.join(",")],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/tasks?parentId=${taskIds.join(",")}`);
+      return await res.json();
+    },
+    enabled: taskIds.length > 0,
+  });
 
-    
-    return true;
+  // Tasks blocking the loaded cards, which may not be loaded themselves
+  const blockerIds = Array.from(new Set(
+    dependencies
+      .filter(dependency => taskIds.includes(dependency.blockedTaskId))
+      .map(dependency => dependency.blockingTaskId)
+  ));
+  const { data: blockers = [] } = useQuery<Task[]>({
+    queryKey: ["/api/tasks", "blockers", blockerIds.join(",")],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/tasks?id=${blockerIds.join(",")}`);
+      return await res.json();
+    },
+    enabled: blockerIds.length > 0,
   });
 
-  // Group tasks by status
-  const groupedTasks = {
-    todo: filteredTasks.filter((task: Task) => task.status === "todo"),
-    inProgress: filteredTasks.filter((task: Task) => task.status === "inProgress"),
-    completed: filteredTasks.filter((task: Task) => task.status === "completed"),
-  };
+  // Columns follow the selected project's workflow; "All Projects" uses the default one
+  const boardWorkflow = getWorkflow(selectedProjectId);
+  const columns = getOrderedStatuses(boardWorkflow);
+
+  // Tasks from projects with another workflow land in the closest matching column
+  const getColumnKey = (task: Task) =>
+    mapStatusToWorkflow(boardWorkflow, task.status, getTaskStatus(task)?.category).key;
+
+  // The status a task takes when dropped on a column, in the task's own workflow
+  const getStatusForColumn = (task: Task, column: WorkflowStatus) =>
+    mapStatusToWorkflow(getWorkflow(task.projectId), column.key, column.category).key;
+
+  // Group tasks by column
+  const groupedTasks = Object.fromEntries(
+    columns.map(column => [
+      column.key,
+      tasks.filter((task: Task) => getColumnKey(task) === column.key),
+    ])
+  ) as Record<string, Task[]>;
 
   // Handle drag and drop
   const handleDragEnd = async (result: DropResult) => {
@@ -92,28 +153,17 @@ export default function TaskBoard() {
     // Get the task ID
     const taskId = parseInt(draggableId.split("-")[1]);
     const task = tasks.find((t: Task) => t.id === taskId);
+    const column = columns.find(c => c.key === destination.droppableId);
     
-    if (!task) return;
+    if (!task || !column) return;
 
     // Update the task status if the column changed
     if (source.droppableId !== destination.droppableId) {
-      // Optimistically update in the UI
-      queryClient.setQueryData(["/api/tasks"], (oldData: Task[] | undefined) => {
-        if (!oldData) return [];
-        return oldData.map((t: Task) => {
-          if (t.id === taskId) {
-            return { ...t, status: destination.droppableId as "todo" | "inProgress" | "completed" };
-          }
-          return t;
-        });
-      });
+      const newStatus = getStatusForColumn(task, column);
 
-      // Call the task context to update status
+      // Call the task context (it updates the UI optimistically) to update status
       try {
-        console.log("Updating task status via context:", taskId, destination.droppableId);
-        
-        // Cast the droppableId to a valid task status
-        const newStatus = destination.droppableId as "todo" | "inProgress" | "completed";
+        console.log("Updating task status via context:", taskId, newStatus);
         
         // Use updateTaskStatus from the context
         await updateTaskStatus(taskId, newStatus);
@@ -132,6 +182,50 @@ export default function TaskBoard() {
     }
   };
 
+  // A task is blocked while any of its blockers is not done
+  const getOpenBlockers = (task: Task) => {
+    return dependencies
+      .filter(dependency => dependency.blockedTaskId === task.id)
+      .map(dependency => blockers.find((t: Task) => t.id === dependency.blockingTaskId))
+      .filter((blocker): blocker is Task => !!blocker && !isTaskDone(blocker));
+  };
+
+  const renderBlockedBadge = (task: Task) => {
+    const openBlockers = getOpenBlockers(task);
+    if (openBlockers.length === 0) return null;
+
+    return (
+      <Badge
+        variant="outline"
+        className="mt-1 w-fit bg-gray-100 text-gray-700"
+        title={`Blocked by ${openBlockers.map(blocker => blocker.title).join(", ")}`}
+      >
+        <Lock className="h-3 w-3 mr-1" />
+        Blocked
+      </Badge>
+    );
+  };
+
+  // Render the subtask roll-up for a card
+  const renderSubtaskProgress = (task: Task) => {
+    const progress = getSubtaskProgress(subtasks.filter((t: Task) => t.parentId === task.id), isTaskDone);
+    if (progress.total === 0) return null;
+
+    return (
+      <div className="mt-2">
+        <div className="text-xs text-gray-500 mb-1">
+          {progress.completed}/{progress.total} subtasks
+        </div>
+        <div className="w-full bg-gray-200 rounded-full h-1.5">
+          <div
+            className="bg-primary h-1.5 rounded-full"
+            style={{ width: `${progress.percent}%` }}
+          ></div>
+        </div>
+      </div>
+    );
+  };
+
   // Get priority color
   const getPriorityColor = (priority: string) => {
     switch (priority) {
@@ -146,6 +240,58 @@ export default function TaskBoard() {
     }
   };
 
+  // Cards in done columns are dimmed and struck through
+  const renderTaskCard = (task: Task, index: number, isDone: boolean) => (
+    <Draggable
+      key={`task-${task.id}`}
+      draggableId={`task-${task.id}`}
+      index={index}
+    >
+      {(provided: DraggableProvided) => (
+        <div
+          ref={provided.innerRef}
+          {...provided.draggableProps}
+          {...provided.dragHandleProps}
+          onClick={() => handleTaskClick(task)}
+        >
+          <Card className={`cursor-pointer hover:border-primary transition-colors ${isDone ? "opacity-80" : ""}`}>
+            <CardHeader className="p-4 pb-2">
+              <div className="flex justify-between items-start">
+                <CardTitle className={`text-base ${isDone ? "line-through" : ""}`}>
+                  {task.title}
+                </CardTitle>
+                <Badge
+                  className={`${getPriorityColor(task.priority)} text-white ${isDone ? "opacity-60" : ""}`}
+                >
+                  {task.priority.charAt(0).toUpperCase() + task.priority.slice(1)}
+                </Badge>
+              </div>
+              {task.dueDate && (
+                <CardDescription className="text-xs">
+                  Due: {new Date(task.dueDate).toLocaleDateString()}
+                </CardDescription>
+              )}
+              {!isDone && renderBlockedBadge(task)}
+            </CardHeader>
+            <CardContent className="p-4 pt-2">
+              <p className={`text-sm line-clamp-2 ${isDone ? "opacity-80" : ""}`}>
+                {task.description || "No description"}
+              </p>
+              {getLabelsForTask(task.id).length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {getLabelsForTask(task.id).map(label => (
+                    <LabelChip key={label.id} label={label} />
+                  ))}
+                </div>
+              )}
+              {renderSubtaskProgress(task)}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </Draggable>
+  );
+
   if (isLoading) {
     return (
       <div className="flex h-screen overflow-hidden">
@@ -167,192 +313,152 @@ export default function TaskBoard() {
         <Header />
         <main className="flex-1 overflow-y-auto bg-gray-50 p-6">
           <div className="flex justify-between items-center mb-6">
-            <h1 className="text-3xl font-bold">Task Board</h1>
-            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-              <DialogTrigger asChild>
-                <Button>
-                  <PlusCircle className="mr-2 h-4 w-4" />
-                  New Task
-                </Button>
-              </DialogTrigger>
-              <DialogContent className="sm:max-w-[600px]">
-                <TaskForm task={selectedTask} onClose={handleDialogClose} />
-              </DialogContent>
-            </Dialog>
+            <div>
+              <h1 className="text-3xl font-bold">Task Board</h1>
+              {selectedProject && (
+                <p className="mt-1 text-sm text-gray-600">{selectedProject.name}</p>
+              )}
+            </div>
+            <div className="flex space-x-3">
+              {selectedProject && can(user, "workflows:manage") && (
+                <Dialog open={isWorkflowDialogOpen} onOpenChange={setIsWorkflowDialogOpen}>
+                  <DialogTrigger asChild>
+                    <Button variant="outline">
+                      <WorkflowIcon className="mr-2 h-4 w-4" />
+                      Workflow
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="sm:max-w-[700px]">
+                    <WorkflowEditor
+                      project={selectedProject}
+                      onClose={() => setIsWorkflowDialogOpen(false)}
+                    />
+                  </DialogContent>
+                </Dialog>
+              )}
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline">
+                    <Download className="mr-2 h-4 w-4" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem asChild>
+                    <a href={getExportUrl("csv")} download>CSV</a>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <a href={getExportUrl("json")} download>JSON</a>
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              {can(user, "tasks:create") && (
+                <Dialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen}>
+                  <DialogTrigger asChild>
+                    <Button variant="outline">
+                      <Upload className="mr-2 h-4 w-4" />
+                      Import
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="sm:max-w-[500px]">
+                    {isImportDialogOpen && <TaskImportForm onClose={() => setIsImportDialogOpen(false)} />}
+                  </DialogContent>
+                </Dialog>
+              )}
+              {can(user, "projects:manage") && (
+                <Dialog open={isProjectDialogOpen} onOpenChange={setIsProjectDialogOpen}>
+                  <DialogTrigger asChild>
+                    <Button variant="outline">
+                      <FolderPlus className="mr-2 h-4 w-4" />
+                      New Project
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="sm:max-w-[500px]">
+                    <ProjectForm onClose={() => setIsProjectDialogOpen(false)} />
+                  </DialogContent>
+                </Dialog>
+              )}
+              {can(user, "tasks:create") && (
+                <Dialog open={isTemplateDialogOpen} onOpenChange={setIsTemplateDialogOpen}>
+                  <DialogTrigger asChild>
+                    <Button variant="outline">
+                      <LayoutTemplate className="mr-2 h-4 w-4" />
+                      New from Template
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="sm:max-w-[500px]">
+                    {isTemplateDialogOpen && <TaskTemplatePicker onClose={() => setIsTemplateDialogOpen(false)} />}
+                  </DialogContent>
+                </Dialog>
+              )}
+              <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button>
+                    <PlusCircle className="mr-2 h-4 w-4" />
+                    New Task
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="sm:max-w-[600px]">
+                  <TaskForm task={selectedTask} onClose={handleDialogClose} />
+                </DialogContent>
+              </Dialog>
+            </div>
           </div>
 
           <TaskFilter filters={filters} setFilters={setFilters} />
 
           <DragDropContext onDragEnd={handleDragEnd}>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              {/* To Do Column */}
-              <div className="space-y-4">
-                <h2 className="text-lg font-semibold">To Do</h2>
-                <Droppable droppableId="todo">
-                  {(provided: DroppableProvided) => (
-                    <div
-                      {...provided.droppableProps}
-                      ref={provided.innerRef}
-                      className="space-y-3 min-h-[200px]"
-                    >
-                      {groupedTasks.todo.map((task: Task, index: number) => (
-                        <Draggable
-                          key={`task-${task.id}`}
-                          draggableId={`task-${task.id}`}
-                          index={index}
-                        >
-                          {(provided: DraggableProvided) => (
-                            <div
-                              ref={provided.innerRef}
-                              {...provided.draggableProps}
-                              {...provided.dragHandleProps}
-                              onClick={() => handleTaskClick(task)}
-                            >
-                              <Card className="cursor-pointer hover:border-primary transition-colors">
-                                <CardHeader className="p-4 pb-2">
-                                  <div className="flex justify-between items-start">
-                                    <CardTitle className="text-base">{task.title}</CardTitle>
-                                    <Badge
-                                      className={`${getPriorityColor(task.priority)} text-white`}
-                                    >
-                                      {task.priority.charAt(0).toUpperCase() + task.priority.slice(1)}
-                                    </Badge>
-                                  </div>
-                                  {task.dueDate && (
-                                    <CardDescription className="text-xs">
-                                      Due: {new Date(task.dueDate).toLocaleDateString()}
-                                    </CardDescription>
-                                  )}
-                                </CardHeader>
-                                <CardContent className="p-4 pt-2">
-                                  <p className="text-sm line-clamp-2">
-                                    {task.description || "No description"}
-                                  </p>
-                                </CardContent>
-                              </Card>
-                            </div>
-                          )}
-                        </Draggable>
-                      ))}
-                      {provided.placeholder}
-                    </div>
-                  )}
-                </Droppable>
-              </div>
-
-              {/* In Progress Column */}
-              <div className="space-y-4">
-                <h2 className="text-lg font-semibold">In Progress</h2>
-                <Droppable droppableId="inProgress">
-                  {(provided: DroppableProvided) => (
-                    <div
-                      {...provided.droppableProps}
-                      ref={provided.innerRef}
-                      className="space-y-3 min-h-[200px]"
-                    >
-                      {groupedTasks.inProgress.map((task: Task, index: number) => (
-                        <Draggable
-                          key={`task-${task.id}`}
-                          draggableId={`task-${task.id}`}
-                          index={index}
-                        >
-                          {(provided: DraggableProvided) => (
-                            <div
-                              ref={provided.innerRef}
-                              {...provided.draggableProps}
-                              {...provided.dragHandleProps}
-                              onClick={() => handleTaskClick(task)}
-                            >
-                              <Card className="cursor-pointer hover:border-primary transition-colors">
-                                <CardHeader className="p-4 pb-2">
-                                  <div className="flex justify-between items-start">
-                                    <CardTitle className="text-base">{task.title}</CardTitle>
-                                    <Badge
-                                      className={`${getPriorityColor(task.priority)} text-white`}
-                                    >
-                                      {task.priority.charAt(0).toUpperCase() + task.priority.slice(1)}
-                                    </Badge>
-                                  </div>
-                                  {task.dueDate && (
-                                    <CardDescription className="text-xs">
-                                      Due: {new Date(task.dueDate).toLocaleDateString()}
-                                    </CardDescription>
-                                  )}
-                                </CardHeader>
-                                <CardContent className="p-4 pt-2">
-                                  <p className="text-sm line-clamp-2">
-                                    {task.description || "No description"}
-                                  </p>
-                                </CardContent>
-                              </Card>
-                            </div>
-                          )}
-                        </Draggable>
-                      ))}
-                      {provided.placeholder}
-                    </div>
-                  )}
-                </Droppable>
-              </div>
-
-              {/* Completed Column */}
-              <div className="space-y-4">
-                <h2 className="text-lg font-semibold">Completed</h2>
-                <Droppable droppableId="completed">
-                  {(provided: DroppableProvided) => (
-                    <div
-                      {...provided.droppableProps}
-                      ref={provided.innerRef}
-                      className="space-y-3 min-h-[200px]"
-                    >
-                      {groupedTasks.completed.map((task: Task, index: number) => (
-                        <Draggable
-                          key={`task-${task.id}`}
-                          draggableId={`task-${task.id}`}
-                          index={index}
-                        >
-                          {(provided: DraggableProvided) => (
-                            <div
-                              ref={provided.innerRef}
-                              {...provided.draggableProps}
-                              {...provided.dragHandleProps}
-                              onClick={() => handleTaskClick(task)}
-                            >
-                              <Card className="cursor-pointer hover:border-primary transition-colors opacity-80">
-                                <CardHeader className="p-4 pb-2">
-                                  <div className="flex justify-between items-start">
-                                    <CardTitle className="text-base line-through">
-                                      {task.title}
-                                    </CardTitle>
-                                    <Badge
-                                      className={`${getPriorityColor(task.priority)} text-white opacity-60`}
-                                    >
-                                      {task.priority.charAt(0).toUpperCase() + task.priority.slice(1)}
-                                    </Badge>
-                                  </div>
-                                  <CardDescription className="text-xs">
-                                    Completed: {new Date(task.createdAt).toLocaleDateString()}
-                                  </CardDescription>
-                                </CardHeader>
-                                <CardContent className="p-4 pt-2">
-                                  <p className="text-sm line-clamp-2 opacity-80">
-                                    {task.description || "No description"}
-                                  </p>
-                                </CardContent>
-                              </Card>
-                            </div>
-                          )}
-                        </Draggable>
-                      ))}
-                      {provided.placeholder}
-                    </div>
-                  )}
-                </Droppable>
-              </div>
+            <div
+              className="grid gap-4 overflow-x-auto pb-2"
+              style={{ gridTemplateColumns: `repeat(${columns.length}, minmax(240px, 1fr))` }}
+            >
+              {columns.map((column) => (
+                <div key={column.key} className="space-y-4">
+                  <h2 className="text-lg font-semibold">
+                    {column.name}
+                    <span className="ml-2 text-sm font-normal text-gray-500">
+                      {groupedTasks[column.key].length}
+                    </span>
+                  </h2>
+                  <Droppable droppableId={column.key}>
+                    {(provided: DroppableProvided) => (
+                      <div
+                        {...provided.droppableProps}
+                        ref={provided.innerRef}
+                        className="space-y-3 min-h-[200px]"
+                      >
+                        {groupedTasks[column.key].map((task: Task, index: number) =>
+                          renderTaskCard(task, index, column.category === "done")
+                        )}
+                        {provided.placeholder}
+                      </div>
+                    )}
+                  </Droppable>
+                </div>
+              ))}
             </div>
           </DragDropContext>
+
+          {hasMore && (
+            <div className="flex justify-center mt-6">
+              <Button variant="outline" onClick={loadMore} disabled={isLoadingMore}>
+                {isLoadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Load More Tasks
+              </Button>
+            </div>
+          )}
         </main>
       </div>
+
+      {/* Task Detail Modal */}
+      {detailTask && (
+        <TaskDetailModal
+          task={detailTask}
+          isOpen={detailTask !== null}
+          onClose={() => setDetailTask(null)}
+          onEdit={handleEditTask}
+        />
+      )}
     </div>
   );
 }
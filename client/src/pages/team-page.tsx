@@ -1,6 +1,10 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { User } from "@shared/schema";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Role, User, roles } from "@shared/schema";
+import { can } from "@shared/permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
 import Sidebar from "@/components/layout/sidebar";
 import Header from "@/components/layout/header";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -8,17 +12,53 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Search } from "lucide-react";
+import { Search, UserPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogTrigger } from "@/components/ui/dialog";
+import InviteForm from "@/components/team/invite-form";
+import PendingInvitations from "@/components/team/pending-invitations";
 import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 
 export default function TeamPage() {
   const [searchTerm, setSearchTerm] = useState("");
+  const [isInviteDialogOpen, setIsInviteDialogOpen] = useState(false);
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+  const canChangeRoles = can(currentUser, "users:changeRole");
   
   // Fetch users
   const { data: users = [], isLoading } = useQuery<User[]>({
     queryKey: ["/api/users"],
   });
   
+  const changeRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: number; role: Role }) => {
+      const res = await apiRequest("PUT", `/api/users/${userId}/role`, { role });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "Role updated",
+        description: "The team member's role has been changed",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to change role",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
   // Filter users by search term
   const filteredUsers = users.filter(user => 
     user.fullName.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -68,8 +108,24 @@ export default function TeamPage() {
                 <h1 className="text-2xl font-bold text-gray-900">Team</h1>
                 <p className="mt-1 text-sm text-gray-600">Manage and collaborate with your team members.</p>
               </div>
+              {can(currentUser, "users:invite") && (
+                <Dialog open={isInviteDialogOpen} onOpenChange={setIsInviteDialogOpen}>
+                  <DialogTrigger asChild>
+                    <Button className="mt-4 md:mt-0">
+                      <UserPlus className="mr-2 h-4 w-4" />
+                      Invite Member
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="sm:max-w-[500px]">
+                    {/* Remount per opening so a finished invite does not linger */}
+                    {isInviteDialogOpen && <InviteForm onClose={() => setIsInviteDialogOpen(false)} />}
+                  </DialogContent>
+                </Dialog>
+              )}
             </div>
             
+            {can(currentUser, "users:invite") && <PendingInvitations />}
+            
             {/* Search Bar */}
             <div className="mb-6 max-w-md">
               <div className="relative">
@@ -136,9 +192,28 @@ export default function TeamPage() {
                         </CardHeader>
                         <CardContent>
                           <div className="flex items-center justify-between">
-                            <Badge className={getRoleBadgeColor(user.role)}>
-                              {user.role.charAt(0).toUpperCase() + user.role.slice(1)}
-                            </Badge>
+                            {canChangeRoles && user.id !== currentUser?.id ? (
+                              <Select
+                                value={user.role}
+                                onValueChange={(role) => changeRoleMutation.mutate({ userId: user.id, role: role as Role })}
+                                disabled={changeRoleMutation.isPending}
+                              >
+                                <SelectTrigger className="h-8 w-[130px] text-sm">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {roles.map((role) => (
+                                    <SelectItem key={role} value={role}>
+                                      {role.charAt(0).toUpperCase() + role.slice(1)}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            ) : (
+                              <Badge className={getRoleBadgeColor(user.role)}>
+                                {user.role.charAt(0).toUpperCase() + user.role.slice(1)}
+                              </Badge>
+                            )}
                             <span className="text-sm text-gray-500">@{user.username}</span>
                           </div>
                         </CardContent>
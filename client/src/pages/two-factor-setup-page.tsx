@@ -0,0 +1,36 @@
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import TwoFactorSetupForm from "@/components/settings/two-factor-setup-form";
+
+// Shown instead of the app while the security policy requires 2FA for the
+// user's role and they have not turned it on
+export default function TwoFactorSetupPage() {
+  const { logoutMutation } = useAuth();
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex justify-center items-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Set Up Two-Factor Authentication</CardTitle>
+          <CardDescription>
+            Your organization requires two-factor authentication for your role. Set it up to continue.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {/* Finishing refreshes the signed-in user, which lets the app render */}
+          <TwoFactorSetupForm onDone={() => {}} />
+          <div className="mt-4 text-center text-sm">
+            <button
+              type="button"
+              className="text-gray-500 hover:text-gray-700"
+              onClick={() => logoutMutation.mutate()}
+            >
+              Sign out
+            </button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+ALTER TABLE "attachments" ADD COLUMN "storage_key" text NOT NULL;--> statement-breakpoint
+ALTER TABLE "attachments" ADD COLUMN "thumbnail_key" text;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "task_events" ADD COLUMN "project_id" integer;--> statement-breakpoint
+CREATE INDEX "task_events_project_id_id_idx" ON "task_events" USING btree ("project_id","id");--> statement-breakpoint
+CREATE INDEX "task_events_user_id_id_idx" ON "task_events" USING btree ("user_id","id");
\ No newline at end of file
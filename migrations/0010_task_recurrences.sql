@@ -0,0 +1,24 @@
+CREATE TABLE "task_recurrences" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"rule" text NOT NULL,
+	"time_zone" text NOT NULL,
+	"start_date" timestamp NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"priority" text NOT NULL,
+	"estimated_hours" integer,
+	"project_id" integer,
+	"created_by_id" integer NOT NULL,
+	"current_task_id" integer,
+	"current_due_date" timestamp NOT NULL,
+	"occurrence_count" integer DEFAULT 1 NOT NULL,
+	"ended_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "recurrence_id" integer;--> statement-breakpoint
+ALTER TABLE "task_recurrences" ADD CONSTRAINT "task_recurrences_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "task_recurrences" ADD CONSTRAINT "task_recurrences_created_by_id_users_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "task_recurrences_ended_at_current_due_date_idx" ON "task_recurrences" USING btree ("ended_at","current_due_date");--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_recurrence_id_task_recurrences_id_fk" FOREIGN KEY ("recurrence_id") REFERENCES "public"."task_recurrences"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "tasks_recurrence_id_idx" ON "tasks" USING btree ("recurrence_id");
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "task_reminders" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"task_id" integer NOT NULL,
+	"kind" text NOT NULL,
+	"lead_minutes" integer DEFAULT 0 NOT NULL,
+	"due_date" timestamp NOT NULL,
+	"sent_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "task_reminders" ADD CONSTRAINT "task_reminders_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "task_reminders_task_id_kind_lead_minutes_due_date_idx" ON "task_reminders" USING btree ("task_id","kind","lead_minutes","due_date");
\ No newline at end of file
@@ -0,0 +1,8 @@
+CREATE TABLE "digest_settings" (
+	"user_id" integer PRIMARY KEY NOT NULL,
+	"frequency" text DEFAULT 'daily' NOT NULL,
+	"last_sent_at" timestamp,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "digest_settings" ADD CONSTRAINT "digest_settings_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "digest_settings" ADD COLUMN "time_zone" text DEFAULT 'UTC' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { ApiToken, ApiTokenScope, PublicApiToken, User } from "@shared/schema";
+import { storage } from "./storage";
+import { createToken, hashToken } from "./tokens";
+
+// Makes tokens recognisable, e.g. for secret scanners
+export const API_TOKEN_PREFIX = "tf_";
+export const DEFAULT_API_TOKEN_DAYS = 90;
+export const MAX_API_TOKEN_DAYS = 365;
+
+// lastUsedAt is only rewritten once it is this stale, so busy scripts do
+// not cause a write per request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export async function createApiToken(
+  userId: number,
+  name: string,
+  scopes: ApiTokenScope[],
+  expiresInDays: number | null
+): Promise<{ apiToken: ApiToken; token: string }> {
+  const token = API_TOKEN_PREFIX + createToken().token;
+  const apiToken = await storage.createApiToken({
+    userId,
+    name,
+    scopes,
+    tokenHash: hashToken(token),
+    tokenPrefix: token.slice(0, API_TOKEN_PREFIX.length + 6),
+    expiresAt: expiresInDays === null ? null : new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+  });
+  return { apiToken, token };
+}
+
+// The token's owner, or undefined when the token is unknown or expired
+export async function authenticateApiToken(token: string): Promise<{ user: User; apiToken: ApiToken } | undefined> {
+  if (!token.startsWith(API_TOKEN_PREFIX)) return undefined;
+
+  const apiToken = await storage.getApiTokenByHash(hashToken(token));
+  if (!apiToken) return undefined;
+  if (apiToken.expiresAt && new Date(apiToken.expiresAt).getTime() <= Date.now()) return undefined;
+
+  const user = await storage.getUser(apiToken.userId);
+  if (!user) return undefined;
+
+  const now = new Date();
+  if (!apiToken.lastUsedAt || now.getTime() - new Date(apiToken.lastUsedAt).getTime() > LAST_USED_RESOLUTION_MS) {
+    await storage.markApiTokenUsed(apiToken.id, now);
+  }
+  return { user, apiToken };
+}
+
+export function toPublicApiToken(apiToken: ApiToken): PublicApiToken {
+  const { tokenHash, ...publicApiToken } = apiToken;
+  return publicApiToken;
+}
+
+// Paths grouped by the scopes that read and change them. Anything not
+// listed needs the admin scope.
+const scopeRules: { pattern: RegExp; read: ApiTokenScope; write: ApiTokenScope }[] = [
+  { pattern: /^\/api\/(timeEntries|tasks\/\d+\/time)$/, read: "timeEntries:read", write: "timeEntries:write" },
+  {
+    pattern: /^\/api\/(tasks|projects|workflows|activity|dependencies|labels|task-labels|task-templates|task-template-bundles)(\/|$)/,
+    read: "tasks:read",
+    write: "tasks:write",
+  },
+  // Listed so scripts can look up assignees; changing users stays admin only
+  { pattern: /^\/api\/users$/, read: "tasks:read", write: "admin" },
+];
+
+// Signing in and managing passwords, 2FA, tokens and feeds always needs a session
+const sessionOnlyPattern = /^\/api\/(api-tokens|calendar-feeds|user\/|login|logout|register|password-reset)/;
+
+// The scope a token needs for a request. Undefined when any token may make
+// it, null when tokens may not be used for it at all.
+export function getRequiredScope(method: string, path: string): ApiTokenScope | null | undefined {
+  if (path === "/api/user") return undefined;
+  if (sessionOnlyPattern.test(path)) return null;
+
+  const isRead = method === "GET" || method === "HEAD";
+  const rule = scopeRules.find(candidate => candidate.pattern.test(path));
+  if (!rule) return "admin";
+  return isRead ? rule.read : rule.write;
+}
+
+// Admin tokens can do everything, and write scopes include reading
+export function hasScope(scopes: readonly ApiTokenScope[], required: ApiTokenScope): boolean {
+  if (scopes.includes("admin") || scopes.includes(required)) return true;
+  return required.endsWith(":read") && scopes.includes(required.replace(/:read$/, ":write") as ApiTokenScope);
+}
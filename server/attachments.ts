@@ -0,0 +1,119 @@
+import path from "path";
+import { randomUUID } from "crypto";
+import type { RequestHandler } from "express";
+import multer from "multer";
+import sharp from "sharp";
+import { Attachment } from "@shared/schema";
+import { storage } from "./storage";
+import { getBlobStore } from "./blob-store";
+
+// Largest accepted upload, configurable in megabytes
+export const MAX_ATTACHMENT_SIZE = Math.round((Number(process.env.ATTACHMENT_MAX_SIZE_MB) || 10) * 1024 * 1024);
+
+export const allowedAttachmentTypes = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "text/plain",
+  "text/csv",
+  "text/markdown",
+  "application/json",
+  "application/zip",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.ms-powerpoint",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+];
+
+// Types sharp can turn into thumbnails
+const thumbnailTypes = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+const THUMBNAIL_SIZE = 320;
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ATTACHMENT_SIZE, files: 1 },
+  fileFilter: (_req, file, callback) => {
+    callback(null, allowedAttachmentTypes.includes(file.mimetype));
+  },
+});
+
+// Parse a multipart request carrying one file in the "file" field.
+// Limit violations are answered here so routes only see valid uploads.
+export const receiveAttachment: RequestHandler = (req, res, next) => {
+  upload.single("file")(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      if (error.code === "LIMIT_FILE_SIZE") {
+        return res.status(413).json({
+          message: `File is too large, the limit is ${Number((MAX_ATTACHMENT_SIZE / 1024 / 1024).toFixed(1))} MB`,
+        });
+      }
+      return res.status(400).json({ message: error.message });
+    }
+    if (error) return next(error);
+    if (!req.file) {
+      // multer drops files rejected by the filter, so tell the two cases apart
+      const contentType = req.headers["content-type"] || "";
+      return contentType.startsWith("multipart/form-data")
+        ? res.status(415).json({ message: "File type is not allowed", allowedTypes: allowedAttachmentTypes })
+        : res.status(400).json({ message: "A file is required in the \"file\" field" });
+    }
+    next();
+  });
+};
+
+async function createThumbnail(data: Buffer): Promise<Buffer | undefined> {
+  try {
+    return await sharp(data)
+      .rotate() // honour EXIF orientation
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+      .webp()
+      .toBuffer();
+  } catch (error) {
+    console.error("Error creating thumbnail:", error);
+    return undefined;
+  }
+}
+
+// Write an uploaded file (and its thumbnail) to the blob store and record it
+export async function storeAttachment(taskId: number, userId: number, file: Express.Multer.File): Promise<Attachment> {
+  const blobStore = getBlobStore();
+  const extension = path.extname(file.originalname).toLowerCase().replace(/[^.a-z0-9]/g, "");
+  const storageKey = `tasks/${taskId}/${randomUUID()}${extension}`;
+  await blobStore.put(storageKey, file.buffer, file.mimetype);
+
+  let thumbnailKey: string | null = null;
+  if (thumbnailTypes.includes(file.mimetype)) {
+    const thumbnail = await createThumbnail(file.buffer);
+    if (thumbnail) {
+      thumbnailKey = `${storageKey}.thumb.webp`;
+      await blobStore.put(thumbnailKey, thumbnail, "image/webp");
+    }
+  }
+
+  return await storage.createAttachment({
+    taskId,
+    userId,
+    fileName: file.originalname,
+    fileType: file.mimetype,
+    fileSize: file.size,
+    storageKey,
+    thumbnailKey,
+  });
+}
+
+// Remove the stored bytes of attachments whose records are gone
+export async function removeAttachmentBlobs(attachments: Attachment[]): Promise<void> {
+  const blobStore = getBlobStore();
+  for (const attachment of attachments) {
+    try {
+      await blobStore.delete(attachment.storageKey);
+      if (attachment.thumbnailKey) await blobStore.delete(attachment.thumbnailKey);
+    } catch (error) {
+      console.error(`Error removing blobs of attachment ${attachment.id}:`, error);
+    }
+  }
+}
@@ -1,34 +1,163 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
-import session from "express-session";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
-import { promisify } from "util";
+import { Strategy as BearerStrategy } from "passport-http-bearer";
+import { Express, Request, RequestHandler } from "express";
+import session, { SessionData } from "express-session";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { hashPassword, comparePasswords } from "./passwords";
+import { findOpenInvitation } from "./invitations";
+import { requestPasswordReset, resetPassword, setPassword } from "./password-reset";
+import {
+  isTwoFactorRequired,
+  needsTwoFactorSetup,
+  replaceRecoveryCodes,
+  startTwoFactorSetup,
+  verifySecondFactor,
+  verifyTotp
+} from "./two-factor";
+import { authenticateApiToken, getRequiredScope, hasScope } from "./api-tokens";
+import {
+  User as SelectUser,
+  PublicUser,
+  CurrentUser,
+  TwoFactorStatus,
+  ApiTokenScope,
+  insertUserSchema
+} from "@shared/schema";
+import { z } from "zod";
 
 declare global {
   namespace Express {
     interface User extends SelectUser {}
+    // Set when the request authenticated with an API token
+    interface AuthInfo {
+      apiTokenScopes?: ApiTokenScope[];
+    }
   }
 }
 
-const scryptAsync = promisify(scrypt);
+declare module "express-session" {
+  interface SessionData {
+    // Written by passport.session() once the user has logged in
+    passport?: { user?: number };
+    // When the user signed in, in milliseconds since the epoch
+    authenticatedAt?: number;
+    // Set when the password was right but the TOTP step is still to come
+    pendingTwoFactor?: {
+      userId: number;
+      expiresAt: number;
+      attempts: number;
+    };
+  }
+}
+
+// How long the second login step may take, and how many wrong codes it
+// allows before the password has to be entered again
+const TWO_FACTOR_LOGIN_TTL_MINUTES = 5;
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
+
+const passwordSchema = z.string().min(6, "Password must be at least 6 characters");
+
+// Accounts take their email and role from the invitation
+const registrationSchema = insertUserSchema.pick({
+  username: true,
+  fullName: true,
+  avatar: true,
+}).extend({
+  password: passwordSchema,
+  inviteToken: z.string({ required_error: "An invitation is required to register" })
+    .min(1, "An invitation is required to register"),
+});
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string({ required_error: "The current password is required" }),
+  newPassword: passwordSchema,
+});
+
+const passwordResetRequestSchema = z.object({
+  email: z.string().email("A valid email is required"),
+});
+
+const passwordResetSchema = z.object({
+  token: z.string({ required_error: "A reset token is required" }),
+  newPassword: passwordSchema,
+});
+
+const twoFactorCodeSchema = z.object({
+  code: z.string({ required_error: "A code is required" }).min(1, "A code is required"),
+});
 
-async function hashPassword(password: string) {
-  const salt = randomBytes(16).toString("hex");
-  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
-  return `${buf.toString("hex")}.${salt}`;
+// Turning 2FA off or replacing recovery codes asks for the password again
+const passwordConfirmationSchema = z.object({
+  password: z.string({ required_error: "Your password is required" }),
+});
+
+// Where links in emails point. APP_URL should be set in production so links
+// do not depend on the request's Host header.
+function getBaseUrl(req: Request): string {
+  return process.env.APP_URL || `${req.protocol}://${req.get("host")}`;
+}
+
+// Never send password hashes or 2FA secrets to clients
+export function toPublicUser(user: SelectUser): PublicUser {
+  const { password, totpSecret, recoveryCodeHashes, totpLastStep, ...publicUser } = user;
+  return publicUser;
+}
+
+async function toCurrentUser(user: SelectUser): Promise<CurrentUser> {
+  return { ...toPublicUser(user), twoFactorSetupRequired: await needsTwoFactorSetup(user) };
 }
 
-async function comparePasswords(supplied: string, stored: string) {
-  const [hashed, salt] = stored.split(".");
-  const hashedBuf = Buffer.from(hashed, "hex");
-  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
-  return timingSafeEqual(hashedBuf, suppliedBuf);
+// False for sessions that signed in before the user's latest password change
+export function isSessionCurrent(session: Partial<SessionData>, user: SelectUser): boolean {
+  if (!user.passwordChangedAt) return true;
+  return (session.authenticatedAt ?? 0) >= new Date(user.passwordChangedAt).getTime();
 }
 
-export function setupAuth(app: Express) {
+// req.login in a fresh session that remembers when it signed in
+function startSession(req: Request, user: SelectUser, done: (err?: any) => void) {
+  req.login(user, (err) => {
+    if (!err) req.session.authenticatedAt = Date.now();
+    done(err);
+  });
+}
+
+// Requests with an "Authorization: Bearer" header authenticate with an API
+// token instead of the session, limited to what the token's scopes allow
+const authenticateBearer: RequestHandler = (req, res, next) => {
+  if (!req.headers.authorization?.startsWith("Bearer ")) return next();
+  
+  passport.authenticate("bearer", { session: false }, (err: any, user: SelectUser | false, info: any) => {
+    if (err) return next(err);
+    if (!user) {
+      res.set("WWW-Authenticate", 'Bearer error="invalid_token"');
+      return res.status(401).json({ message: "The API token is invalid or has expired", code: "invalidApiToken" });
+    }
+    
+    const scope = getRequiredScope(req.method, req.baseUrl + req.path);
+    if (scope === null) {
+      return res.status(403).json({ message: "API tokens cannot be used here", code: "insufficientScope" });
+    }
+    const scopes: ApiTokenScope[] = info.scope;
+    if (scope && !hasScope(scopes, scope)) {
+      return res.status(403).json({
+        message: `This API token lacks the ${scope} scope`,
+        code: "insufficientScope",
+        scope,
+      });
+    }
+    
+    req.login(user, { session: false }, (loginErr) => {
+      if (loginErr) return next(loginErr);
+      req.authInfo = { apiTokenScopes: scopes };
+      next();
+    });
+  })(req, res, next);
+};
+
+// Returns the session middleware so the WebSocket server can load sessions
+// from the same signed cookie
+export function setupAuth(app: Express): RequestHandler {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || "development-secret-key",
     resave: false,
@@ -42,10 +171,18 @@ export function setupAuth(app: Express) {
     }
   };
 
+  const sessionMiddleware = session(sessionSettings);
+
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
+  
+  // Changing the password signs out the sessions that signed in before it
+  app.use((req, res, next) => {
+    if (!req.user || isSessionCurrent(req.session, req.user)) return next();
+    req.logout(next);
+  });
 
   passport.use(
     new LocalStrategy(async (username, password, done) => {
@@ -58,27 +195,70 @@ export function setupAuth(app: Express) {
     }),
   );
 
+  passport.use(
+    new BearerStrategy(async (token, done) => {
+      try {
+        const result = await authenticateApiToken(token);
+        if (!result) return done(null, false);
+        return done(null, result.user, { scope: result.apiToken.scopes });
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
   passport.serializeUser((user, done) => done(null, user.id));
   passport.deserializeUser(async (id: number, done) => {
     const user = await storage.getUser(id);
     done(null, user);
   });
 
+  app.use("/api", authenticateBearer);
+
   app.post("/api/register", async (req, res, next) => {
     try {
-      const existingUser = await storage.getUserByUsername(req.body.username);
+      const parsed = registrationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { inviteToken, ...registration } = parsed.data;
+      
+      const invitation = await findOpenInvitation(inviteToken);
+      if (!invitation) {
+        return res.status(403).json({
+          message: "This invitation is invalid or has expired",
+          code: "invalidInvitation",
+        });
+      }
+      
+      const existingUser = await storage.getUserByUsername(registration.username);
       if (existingUser) {
-        return res.status(400).send("Username already exists");
+        return res.status(400).json({ message: "Username already exists" });
+      }
+      
+      // Claiming the invitation first makes sure each one creates a single account
+      if (!(await storage.acceptInvitation(invitation.id))) {
+        return res.status(403).json({
+          message: "This invitation is invalid or has expired",
+          code: "invalidInvitation",
+        });
       }
 
       const user = await storage.createUser({
-        ...req.body,
-        password: await hashPassword(req.body.password),
+        ...registration,
+        avatar: registration.avatar || null,
+        email: invitation.email,
+        role: invitation.role,
+        password: await hashPassword(registration.password),
       });
 
-      req.login(user, (err) => {
+      startSession(req, user, async (err) => {
         if (err) return next(err);
-        res.status(201).json(user);
+        try {
+          res.status(201).json(await toCurrentUser(user));
+        } catch (error) {
+          next(error);
+        }
       });
     } catch (error) {
       next(error);
@@ -88,6 +268,9 @@ export function setupAuth(app: Express) {
   app.post("/api/login", (req, res, next) => {
     console.log('Login attempt:', { username: req.body.username });
     
+    // A new attempt abandons any earlier one waiting for its code
+    delete req.session.pendingTwoFactor;
+    
     passport.authenticate("local", (err: any, user: any, info: any) => {
       if (err) return next(err);
       
@@ -96,7 +279,17 @@ export function setupAuth(app: Express) {
         return res.status(401).json({ message: 'Invalid credentials' });
       }
       
-      req.login(user, (loginErr) => {
+      // The session is only issued once the second step succeeds
+      if (user.totpEnabled) {
+        req.session.pendingTwoFactor = {
+          userId: user.id,
+          expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL_MINUTES * 60 * 1000,
+          attempts: 0,
+        };
+        return res.status(200).json({ twoFactorRequired: true });
+      }
+      
+      startSession(req, user, async (loginErr) => {
         if (loginErr) return next(loginErr);
         
         console.log('Login successful:', { 
@@ -104,11 +297,63 @@ export function setupAuth(app: Express) {
           sessionID: req.sessionID 
         });
         
-        return res.status(200).json(user);
+        try {
+          return res.status(200).json(await toCurrentUser(user));
+        } catch (error) {
+          next(error);
+        }
       });
     })(req, res, next);
   });
 
+  app.post("/api/login/2fa", async (req, res, next) => {
+    try {
+      const parsed = twoFactorCodeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      
+      const pending = req.session.pendingTwoFactor;
+      const user = pending && pending.expiresAt > Date.now()
+        ? await storage.getUser(pending.userId)
+        : undefined;
+      if (!pending || !user) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({
+          message: "Your sign-in has expired, enter your password again",
+          code: "twoFactorExpired",
+        });
+      }
+      
+      if (!(await verifySecondFactor(user, parsed.data.code))) {
+        pending.attempts += 1;
+        if (pending.attempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({
+            message: "Too many wrong codes, enter your password again",
+            code: "twoFactorExpired",
+          });
+        }
+        return res.status(401).json({ message: "The code is incorrect", code: "invalidTwoFactorCode" });
+      }
+      
+      // Sign in on a new session id, not the one that carried the pending step
+      req.session.regenerate((regenerateErr) => {
+        if (regenerateErr) return next(regenerateErr);
+        startSession(req, user, async (loginErr) => {
+          if (loginErr) return next(loginErr);
+          try {
+            res.status(200).json(await toCurrentUser(user));
+          } catch (error) {
+            next(error);
+          }
+        });
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   app.post("/api/logout", (req, res, next) => {
     req.logout((err) => {
       if (err) return next(err);
@@ -116,15 +361,189 @@ export function setupAuth(app: Express) {
     });
   });
 
-  app.get("/api/user", (req, res) => {
+  app.post("/api/user/password", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const parsed = changePasswordSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      
+      const user = await storage.getUser(req.user!.id);
+      if (!user || !(await comparePasswords(parsed.data.currentPassword, user.password))) {
+        return res.status(400).json({ message: "The current password is incorrect", code: "wrongPassword" });
+      }
+      
+      // This session stays signed in, under a new id
+      await setPassword(user.id, parsed.data.newPassword);
+      startSession(req, user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.sendStatus(204);
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/user/2fa", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const user = req.user!;
+      const status: TwoFactorStatus = {
+        enabled: user.totpEnabled,
+        required: await isTwoFactorRequired(user),
+        recoveryCodesRemaining: user.totpEnabled ? user.recoveryCodeHashes.length : 0,
+      };
+      res.json(status);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/user/2fa/setup", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      if (req.user!.totpEnabled) {
+        return res.status(409).json({
+          message: "Two-factor authentication is already on",
+          code: "twoFactorEnabled",
+        });
+      }
+      res.json(await startTwoFactorSetup(req.user!));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Confirm enrolment with a code from the new secret
+  app.post("/api/user/2fa/enable", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const parsed = twoFactorCodeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      
+      const user = req.user!;
+      if (user.totpEnabled) {
+        return res.status(409).json({
+          message: "Two-factor authentication is already on",
+          code: "twoFactorEnabled",
+        });
+      }
+      if (!user.totpSecret) {
+        return res.status(400).json({
+          message: "Start two-factor setup first",
+          code: "twoFactorNotStarted",
+        });
+      }
+      if (!(await verifyTotp(user, user.totpSecret, parsed.data.code))) {
+        return res.status(400).json({ message: "The code is incorrect", code: "invalidTwoFactorCode" });
+      }
+      
+      await storage.updateUser(user.id, { totpEnabled: true });
+      const recoveryCodes = await replaceRecoveryCodes(user.id);
+      res.json({ recoveryCodes });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/user/2fa/disable", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const parsed = passwordConfirmationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      
+      const user = req.user!;
+      if (!(await comparePasswords(parsed.data.password, user.password))) {
+        return res.status(400).json({ message: "The password is incorrect", code: "wrongPassword" });
+      }
+      if (await isTwoFactorRequired(user)) {
+        return res.status(403).json({
+          message: "Two-factor authentication is required for your role",
+          code: "twoFactorRequired",
+        });
+      }
+      
+      await storage.updateUser(user.id, { totpEnabled: false, totpSecret: null, recoveryCodeHashes: [] });
+      res.sendStatus(204);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/user/2fa/recovery-codes", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const parsed = passwordConfirmationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      
+      const user = req.user!;
+      if (!(await comparePasswords(parsed.data.password, user.password))) {
+        return res.status(400).json({ message: "The password is incorrect", code: "wrongPassword" });
+      }
+      if (!user.totpEnabled) {
+        return res.status(400).json({
+          message: "Two-factor authentication is off",
+          code: "twoFactorDisabled",
+        });
+      }
+      
+      res.json({ recoveryCodes: await replaceRecoveryCodes(user.id) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/password-reset", async (req, res) => {
+    const parsed = passwordResetRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    
+    // Same answer whether or not the email belongs to an account
+    try {
+      await requestPasswordReset(parsed.data.email, getBaseUrl(req));
+    } catch (error) {
+      console.error("Error sending password reset:", error);
+    }
+    res.status(202).json({ message: "If an account uses this email, a reset link is on its way" });
+  });
+
+  app.post("/api/password-reset/confirm", async (req, res, next) => {
+    try {
+      const parsed = passwordResetSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      
+      if (!(await resetPassword(parsed.data.token, parsed.data.newPassword))) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired", code: "invalidResetToken" });
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/user", (req, res, next) => {
     console.log('Auth check:', {
       isAuthenticated: req.isAuthenticated(),
       session: req.session,
-      user: req.user,
+      user: req.user && toPublicUser(req.user),
       sessionID: req.sessionID
     });
     
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json(req.user);
+    toCurrentUser(req.user!)
+      .then(user => res.json(user))
+      .catch(next);
   });
+
+  return sessionMiddleware;
 }
@@ -0,0 +1,130 @@
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+} from "@aws-sdk/client-s3";
+import { log } from "./vite";
+
+// Where attachment bytes live. Keys are slash-separated paths such as
+// "tasks/12/<uuid>.png"; metadata stays in the regular storage.
+export interface BlobStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Undefined when nothing is stored under the key
+  get(key: string): Promise<Readable | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+// Stores blobs as files below a root directory
+export class LocalBlobStore implements BlobStore {
+  constructor(private rootDir: string) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Readable | undefined> {
+    const filePath = this.resolve(key);
+    try {
+      await fs.promises.access(filePath);
+    } catch {
+      return undefined;
+    }
+    return fs.createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+}
+
+export type S3BlobStoreConfig = {
+  bucket: string;
+  region: string;
+  // Custom endpoint for S3-compatible services (MinIO, R2, ...)
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle?: boolean;
+};
+
+// Stores blobs as objects in an S3-compatible bucket
+export class S3BlobStore implements BlobStore {
+  private client: S3Client;
+  private bucket: string;
+
+  constructor(config: S3BlobStoreConfig) {
+    this.bucket = config.bucket;
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      credentials: config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: data,
+      ContentType: contentType,
+    }));
+  }
+
+  async get(key: string): Promise<Readable | undefined> {
+    try {
+      const object = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      return object.Body as Readable;
+    } catch (error) {
+      if ((error as Error).name === "NoSuchKey") return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+let blobStore: BlobStore | undefined;
+
+// Pick the blob store from BLOB_STORE ("local" by default, or "s3")
+export function getBlobStore(): BlobStore {
+  if (!blobStore) {
+    if (process.env.BLOB_STORE === "s3") {
+      if (!process.env.S3_BUCKET) {
+        throw new Error("S3_BUCKET must be set when BLOB_STORE is s3");
+      }
+      blobStore = new S3BlobStore({
+        bucket: process.env.S3_BUCKET,
+        region: process.env.S3_REGION || "us-east-1",
+        endpoint: process.env.S3_ENDPOINT,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+      });
+      log(`Storing attachments in S3 bucket ${process.env.S3_BUCKET}`, "blob-store");
+    } else {
+      const rootDir = process.env.UPLOAD_DIR || path.resolve(process.cwd(), "uploads");
+      blobStore = new LocalBlobStore(rootDir);
+      log(`Storing attachments in ${rootDir}`, "blob-store");
+    }
+  }
+  return blobStore;
+}
@@ -0,0 +1,129 @@
+import { CalendarFeed, PublicCalendarFeed, Task, TaskPriority } from "@shared/schema";
+import { WorkflowDefinition, defaultWorkflow, getWorkflowStatus } from "@shared/workflow";
+import { storage } from "./storage";
+import { createToken, hashToken } from "./tokens";
+import { ICalComponent, ICalProperty, escapeText, formatDate, formatDateTime, toICalendar } from "./ical";
+
+export const calendarFeedKinds = ["event", "todo"] as const;
+export type CalendarFeedKind = typeof calendarFeedKinds[number];
+
+// lastUsedAt is only rewritten once it is this stale; calendar apps poll often
+const LAST_USED_RESOLUTION_MS = 60 * 60 * 1000;
+
+// iCalendar priorities run from 1 (highest) to 9 (lowest), 0 meaning none
+const icalPriorities: Record<TaskPriority, number> = { high: 1, medium: 5, low: 9 };
+
+export function fromICalPriority(value: number): TaskPriority | undefined {
+  if (!Number.isInteger(value) || value < 1 || value > 9) return undefined;
+  return value < 5 ? "high" : value === 5 ? "medium" : "low";
+}
+
+export async function createCalendarFeed(
+  userId: number,
+  projectId: number | null
+): Promise<{ feed: CalendarFeed; token: string }> {
+  const { token, tokenHash } = createToken();
+  const feed = await storage.createCalendarFeed({ userId, projectId, tokenHash });
+  return { feed, token };
+}
+
+export function toPublicCalendarFeed(feed: CalendarFeed): PublicCalendarFeed {
+  const { tokenHash, ...publicFeed } = feed;
+  return publicFeed;
+}
+
+// Path of the feed, relative to the server; the token is its only credential
+export function getCalendarFeedPath(token: string): string {
+  return `/api/calendar/${token}.ics`;
+}
+
+export async function findCalendarFeed(token: string): Promise<CalendarFeed | undefined> {
+  const feed = await storage.getCalendarFeedByHash(hashToken(token));
+  if (!feed) return undefined;
+
+  const now = new Date();
+  if (!feed.lastUsedAt || now.getTime() - new Date(feed.lastUsedAt).getTime() > LAST_USED_RESOLUTION_MS) {
+    await storage.markCalendarFeedUsed(feed.id, now);
+  }
+  return feed;
+}
+
+function toICalStatus(kind: CalendarFeedKind, workflow: WorkflowDefinition, task: Task): ICalProperty[] {
+  const status = getWorkflowStatus(workflow, task.status);
+  const properties: ICalProperty[] = [];
+  if (status) properties.push({ name: "CATEGORIES", value: escapeText(status.name) });
+
+  if (kind === "event") {
+    properties.push({ name: "STATUS", value: "CONFIRMED" });
+  } else if (status?.category === "done") {
+    properties.push({ name: "STATUS", value: "COMPLETED" }, { name: "PERCENT-COMPLETE", value: "100" });
+  } else {
+    properties.push({ name: "STATUS", value: status?.category === "active" ? "IN-PROCESS" : "NEEDS-ACTION" });
+  }
+  return properties;
+}
+
+// One task as an all-day event on its due date, or as a to-do due that day
+function toICalComponent(task: Task & { dueDate: Date }, kind: CalendarFeedKind, workflow: WorkflowDefinition, stamp: Date): ICalComponent {
+  const dueDate = new Date(task.dueDate);
+  const properties: ICalProperty[] = [
+    { name: "UID", value: `task-${task.id}@taskflow` },
+    { name: "DTSTAMP", value: formatDateTime(stamp) },
+    { name: "CREATED", value: formatDateTime(new Date(task.createdAt)) },
+    { name: "SUMMARY", value: escapeText(task.title) },
+  ];
+  if (task.description) {
+    properties.push({ name: "DESCRIPTION", value: escapeText(task.description) });
+  }
+  if (kind === "event") {
+    const nextDay = new Date(dueDate.getTime() + 24 * 60 * 60 * 1000);
+    properties.push(
+      { name: "DTSTART", params: { VALUE: "DATE" }, value: formatDate(dueDate) },
+      { name: "DTEND", params: { VALUE: "DATE" }, value: formatDate(nextDay) },
+      // A deadline does not make anyone busy
+      { name: "TRANSP", value: "TRANSPARENT" },
+    );
+  } else {
+    properties.push({ name: "DUE", params: { VALUE: "DATE" }, value: formatDate(dueDate) });
+  }
+  properties.push({ name: "PRIORITY", value: String(icalPriorities[task.priority]) });
+  properties.push(...toICalStatus(kind, workflow, task));
+
+  return { type: kind === "event" ? "VEVENT" : "VTODO", properties };
+}
+
+// The feed's tasks that have a due date: the owner's assigned tasks, or
+// every task of the feed's project
+export async function buildCalendarFeed(feed: CalendarFeed, kind: CalendarFeedKind): Promise<string | undefined> {
+  let name = "My Tasks";
+  let tasks: Task[];
+  if (feed.projectId !== null) {
+    const project = await storage.getProject(feed.projectId);
+    if (!project) return undefined;
+    name = project.name;
+    ({ tasks } = await storage.queryTasks({ projectId: project.id, sortBy: "dueDate", sortDirection: "asc" }));
+  } else {
+    ({ tasks } = await storage.queryTasks({ assigneeId: feed.userId, sortBy: "dueDate", sortDirection: "asc" }));
+  }
+
+  const workflows = new Map((await storage.getWorkflows()).map(workflow => [workflow.projectId, workflow]));
+  const stamp = new Date();
+  const components = tasks
+    .filter((task): task is Task & { dueDate: Date } => task.dueDate !== null)
+    .map(task => toICalComponent(
+      task,
+      kind,
+      (task.projectId !== null && workflows.get(task.projectId)) || defaultWorkflow,
+      stamp
+    ));
+
+  return toICalendar([
+    { name: "VERSION", value: "2.0" },
+    { name: "PRODID", value: "-//TaskFlow//Task Calendar//EN" },
+    { name: "CALSCALE", value: "GREGORIAN" },
+    { name: "X-WR-CALNAME", value: escapeText(`TaskFlow: ${name}`) },
+    // How often subscribers should check for changes
+    { name: "REFRESH-INTERVAL", params: { VALUE: "DURATION" }, value: "PT1H" },
+    { name: "X-PUBLISHED-TTL", value: "PT1H" },
+  ], components);
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, toCsv, unescapeFormula } from "./csv";
+
+describe("toCsv", () => {
+  it("keeps spreadsheets from running cells as formulas", () => {
+    expect(toCsv([["=SUM(A1:A9)", "+1", "-1", "@cmd", "\tx", "a=b"]]))
+      .toBe("'=SUM(A1:A9),'+1,'-1,'@cmd,'\tx,a=b\r\n");
+  });
+
+  it("quotes fields with commas, quotes and line breaks", () => {
+    expect(toCsv([["a,b", 'say "hi"', "two\nlines", '=HYPERLINK("x")']]))
+      .toBe('"a,b","say ""hi""","two\nlines","\'=HYPERLINK(""x"")"\r\n');
+  });
+});
+
+describe("parseCsv", () => {
+  it("reads back what toCsv wrote", () => {
+    const rows = [
+      ["title", "description"],
+      ["=1+1", 'Quotes "inside", commas\r\nand lines'],
+      ["-5 degrees", ""],
+      ["'already quoted", "@home"],
+    ];
+
+    const parsed = parseCsv(toCsv(rows));
+
+    expect(parsed).toEqual({ rows: expect.any(Array) });
+    const restored = (parsed as { rows: string[][] }).rows.map(row => row.map(unescapeFormula));
+    expect(restored).toEqual(rows);
+  });
+
+  it("skips a byte order mark and blank lines", () => {
+    expect(parseCsv("\uFEFFtitle\n\nFirst\r\n")).toEqual({ rows: [["title"], ["First"]] });
+  });
+
+  it("reports an unterminated quote", () => {
+    expect(parseCsv('title\n"open')).toEqual({ error: "The CSV file ends inside a quoted field" });
+  });
+});
@@ -0,0 +1,69 @@
+// Minimal RFC 4180 CSV: comma-separated, fields quoted with double quotes,
+// quotes inside fields doubled
+
+// Spreadsheet apps run cells starting with these as formulas
+const formulaPrefix = /^[=+\-@\t\r]/;
+
+function escapeField(value: string): string {
+  // Prefixing a quote makes spreadsheets show the text instead of evaluating it
+  const safe = formulaPrefix.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map(row => row.map(escapeField).join(",")).join("\r\n") + "\r\n";
+}
+
+// Undoes the formula guard added by toCsv
+export function unescapeFormula(value: string): string {
+  return /^'[=+\-@\t\r]/.test(value) ? value.slice(1) : value;
+}
+
+// Rows of fields; blank lines are skipped. Errors on an unterminated quote.
+export function parseCsv(text: string): { rows: string[][] } | { error: string } {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let fieldStarted = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    field = "";
+    fieldStarted = false;
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && !fieldStarted) {
+      inQuotes = true;
+      fieldStarted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+      fieldStarted = false;
+    } else if (char === "\r" || char === "\n") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+      fieldStarted = true;
+    }
+  }
+
+  if (inQuotes) return { error: "The CSV file ends inside a quoted field" };
+  if (field !== "" || row.length > 0) endRow();
+  return { rows };
+}
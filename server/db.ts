@@ -1,7 +1,9 @@
 import mongoose from 'mongoose';
+import pg from 'pg';
 import { log } from './vite'; // your custom logger
 
 const MONGO_URI = process.env.MONGODB_URI || '';
+const POSTGRES_URL = process.env.DATABASE_URL || '';
 
 export async function connectToDatabase() {
   try {
@@ -37,3 +39,18 @@ export async function connectToDatabase() {
 export const getConnection = () => {
   return mongoose.connection || null;
 };
+
+// Open a PostgreSQL pool for DATABASE_URL, or null if the server is unreachable
+export async function connectToPostgres() {
+  const pool = new pg.Pool({ connectionString: POSTGRES_URL });
+
+  try {
+    await pool.query('SELECT 1');
+    log('✅ Connected to PostgreSQL successfully', 'postgres');
+    return pool;
+  } catch (error) {
+    log(`❌ PostgreSQL connection error: ${error}`, 'postgres');
+    await pool.end().catch(() => {});
+    return null;
+  }
+}
@@ -0,0 +1,105 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { StorageFactory, storage } from "./storage";
+import { getDigestSlot, sendDigests } from "./digests";
+import { sendMail } from "./mail";
+
+vi.mock("./mail", () => ({ sendMail: vi.fn() }));
+
+describe("getDigestSlot", () => {
+  // 2026-03-09 is a Monday
+  it.each([
+    ["2026-03-10T07:59:00Z", "2026-03-09T08:00:00Z"],
+    ["2026-03-10T08:00:00Z", "2026-03-10T08:00:00Z"],
+    ["2026-03-10T23:59:00Z", "2026-03-10T08:00:00Z"],
+  ])("daily at %s is due since %s", (now, slot) => {
+    expect(getDigestSlot("daily", new Date(now), "UTC").toISOString()).toBe(new Date(slot).toISOString());
+  });
+
+  it.each([
+    ["2026-03-09T07:59:00Z", "2026-03-02T08:00:00Z"],
+    ["2026-03-09T08:00:00Z", "2026-03-09T08:00:00Z"],
+    ["2026-03-15T23:59:00Z", "2026-03-09T08:00:00Z"],
+  ])("weekly at %s is due since %s", (now, slot) => {
+    expect(getDigestSlot("weekly", new Date(now), "UTC").toISOString()).toBe(new Date(slot).toISOString());
+  });
+
+  it("uses 8:00 on the user's clock", () => {
+    // 7:30 and 8:00 in Berlin
+    expect(getDigestSlot("daily", new Date("2026-03-10T06:30:00Z"), "Europe/Berlin"))
+      .toEqual(new Date("2026-03-09T07:00:00Z"));
+    expect(getDigestSlot("daily", new Date("2026-03-10T07:00:00Z"), "Europe/Berlin"))
+      .toEqual(new Date("2026-03-10T07:00:00Z"));
+  });
+
+  it("keeps 8:00 across a daylight saving change", () => {
+    // New York moves to daylight saving time on 2026-03-08
+    expect(getDigestSlot("daily", new Date("2026-03-09T12:00:00Z"), "America/New_York"))
+      .toEqual(new Date("2026-03-09T12:00:00Z"));
+    expect(getDigestSlot("weekly", new Date("2026-03-09T11:59:00Z"), "America/New_York"))
+      .toEqual(new Date("2026-03-02T13:00:00Z"));
+  });
+});
+
+describe("sendDigests", () => {
+  const now = new Date("2026-03-10T12:00:00Z");
+
+  const createUser = (username: string) => storage.createUser({
+    username,
+    password: "unused",
+    email: `${username}@example.com`,
+    fullName: username,
+    role: "employee",
+  });
+  const mailedTo = () => vi.mocked(sendMail).mock.calls.map(([message]) => message.to);
+
+  beforeAll(async () => {
+    await StorageFactory.getStorage();
+  });
+
+  afterEach(() => {
+    vi.mocked(sendMail).mockReset();
+    vi.restoreAllMocks();
+  });
+
+  it("skips empty digests but still moves the schedule on", async () => {
+    const quiet = await createUser("digest-quiet");
+    const busy = await createUser("digest-busy");
+    await storage.createNotification({
+      userId: busy.id,
+      type: "task_assigned",
+      title: "New Task Assignment",
+      message: "You have been assigned to task: Plan the offsite",
+      relatedId: null,
+    });
+
+    await sendDigests(now);
+
+    expect(mailedTo()).toContain(busy.email);
+    expect(mailedTo()).not.toContain(quiet.email);
+    expect((await storage.getDigestSettings(quiet.id))?.lastSentAt).toEqual(now);
+  });
+
+  it("retries a digest whose build failed on the next run", async () => {
+    const user = await createUser("digest-retry");
+    await storage.createNotification({
+      userId: user.id,
+      type: "task_assigned",
+      title: "New Task Assignment",
+      message: "You have been assigned to task: Fix the heating",
+      relatedId: null,
+    });
+    const getNotifications = storage.getNotificationsByUserId.bind(storage);
+    vi.spyOn(storage, "getNotificationsByUserId").mockImplementation(async (userId) => {
+      if (userId === user.id) throw new Error("connection lost");
+      return getNotifications(userId);
+    });
+
+    await sendDigests(now);
+    expect(mailedTo()).not.toContain(user.email);
+    expect((await storage.getDigestSettings(user.id))?.lastSentAt ?? null).toBeNull();
+
+    vi.restoreAllMocks();
+    await sendDigests(new Date(now.getTime() + 15 * 60 * 1000));
+    expect(mailedTo()).toContain(user.email);
+  });
+});
@@ -0,0 +1,203 @@
+import { DigestFrequency, DigestSettings, Notification, NotificationType, Task, User } from "@shared/schema";
+import { WorkflowDefinition, defaultWorkflow, isDoneStatus } from "@shared/workflow";
+import { fromWallClock, toWallClock } from "@shared/recurrence";
+import { storage } from "./storage";
+import { Job } from "./jobs";
+import { MailMessage, sendMail } from "./mail";
+import { getNotificationPreferences } from "./notifications";
+import { log } from "./vite";
+
+// Digests go out once this hour has passed in the user's time zone, every
+// day or on Mondays for weekly ones
+const DIGEST_HOUR = 8;
+
+const digestPeriodMs: Record<Exclude<DigestFrequency, "off">, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Enough for any realistic number of assignments between two digests
+const MAX_ASSIGNMENT_EVENTS = 1000;
+
+export type DigestSchedule = Pick<DigestSettings, "frequency" | "timeZone" | "lastSentAt">;
+
+export type Digest = {
+  // Unread notifications of the types the user wants in digests
+  unread: Notification[];
+  // Tasks someone else assigned to the user
+  assigned: Task[];
+  // Open tasks of the user due before the next digest
+  upcoming: Task[];
+};
+
+export async function getDigestSchedule(userId: number): Promise<DigestSchedule> {
+  const settings = await storage.getDigestSettings(userId);
+  return {
+    frequency: settings?.frequency ?? "daily",
+    timeZone: settings?.timeZone ?? "UTC",
+    lastSentAt: settings?.lastSentAt ?? null,
+  };
+}
+
+// The latest time at or before now when a digest of this frequency was due.
+// The slot is worked out on the time zone's wall clock, as UTC fields.
+export function getDigestSlot(frequency: Exclude<DigestFrequency, "off">, now: Date, timeZone: string): Date {
+  const wallClock = toWallClock(now, timeZone);
+  const slot = new Date(wallClock);
+  slot.setUTCHours(DIGEST_HOUR, 0, 0, 0);
+  if (frequency === "weekly") {
+    slot.setUTCDate(slot.getUTCDate() - (slot.getUTCDay() + 6) % 7);
+  }
+  if (slot.getTime() > wallClock) {
+    slot.setUTCDate(slot.getUTCDate() - (frequency === "weekly" ? 7 : 1));
+  }
+  return fromWallClock(slot.getTime(), timeZone);
+}
+
+// What happened for the user since the last digest and what is coming up
+// until the next one
+export async function buildDigest(user: User, since: Date, until: Date, now: Date): Promise<Digest> {
+  const workflows = new Map<number | null, WorkflowDefinition>();
+  const isOpen = async (task: Task) => {
+    if (!workflows.has(task.projectId)) {
+      workflows.set(task.projectId, task.projectId !== null
+        ? (await storage.getWorkflowByProjectId(task.projectId)) ?? defaultWorkflow
+        : defaultWorkflow);
+    }
+    return !isDoneStatus(workflows.get(task.projectId)!, task.status);
+  };
+
+  const preferences = await getNotificationPreferences(user.id);
+  const unread = (await storage.getNotificationsByUserId(user.id)).filter(notification =>
+    !notification.isRead &&
+    notification.createdAt >= since &&
+    (preferences[notification.type as NotificationType]?.digest ?? true)
+  );
+
+  const assignments = await storage.getActivity({ types: ["assigned"], since, limit: MAX_ASSIGNMENT_EVENTS });
+  const assignedIds = Array.from(new Set(assignments
+    .filter(event => event.details?.assigneeId === user.id && event.userId !== user.id)
+    .map(event => event.taskId)));
+  const assigned: Task[] = [];
+  for (const taskId of assignedIds) {
+    const task = await storage.getTask(taskId);
+    if (task && await isOpen(task)) assigned.push(task);
+  }
+
+  const { tasks } = await storage.queryTasks({
+    assigneeId: user.id,
+    dueFrom: now,
+    dueTo: until,
+    sortBy: "dueDate",
+    sortDirection: "asc",
+  });
+  const upcoming: Task[] = [];
+  for (const task of tasks) {
+    if (await isOpen(task)) upcoming.push(task);
+  }
+
+  return { unread, assigned, upcoming };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" });
+}
+
+// Text and HTML versions of the digest email
+export function renderDigest(
+  user: User,
+  digest: Digest,
+  frequency: Exclude<DigestFrequency, "off">,
+  since: Date,
+  appUrl: string
+): MailMessage {
+  const sections = [
+    {
+      heading: "Unread notifications",
+      items: digest.unread.map(notification => `${notification.title}: ${notification.message}`),
+    },
+    {
+      heading: "Newly assigned to you",
+      items: digest.assigned.map(task => task.dueDate ? `${task.title} (due ${formatDate(task.dueDate)})` : task.title),
+    },
+    {
+      heading: frequency === "daily" ? "Due in the next day" : "Due in the next week",
+      items: digest.upcoming.map(task => `${task.title}, due ${formatDate(task.dueDate!)}`),
+    },
+  ].filter(section => section.items.length > 0);
+
+  const intro = `Here is what you may have missed since ${formatDate(since)}.`;
+  const text = [
+    `Hi ${user.fullName},`,
+    "",
+    intro,
+    ...sections.flatMap(section => [
+      "",
+      `${section.heading} (${section.items.length})`,
+      ...section.items.map(item => `- ${item}`),
+    ]),
+    "",
+    `Open TaskFlow: ${appUrl}/tasks`,
+    `Change how often you get this email: ${appUrl}/settings`,
+  ].join("\n");
+
+  const html = [
+    `<p>Hi ${escapeHtml(user.fullName)},</p>`,
+    `<p>${escapeHtml(intro)}</p>`,
+    ...sections.map(section => [
+      `<h3>${escapeHtml(section.heading)} (${section.items.length})</h3>`,
+      "<ul>",
+      ...section.items.map(item => `<li>${escapeHtml(item)}</li>`),
+      "</ul>",
+    ].join("\n")),
+    `<p><a href="${escapeHtml(`${appUrl}/tasks`)}">Open TaskFlow</a></p>`,
+    `<p style="color:#6b7280;font-size:12px">`
+      + `<a href="${escapeHtml(`${appUrl}/settings`)}">Change how often you get this email</a></p>`,
+  ].join("\n");
+
+  return {
+    to: user.email,
+    subject: `Your TaskFlow ${frequency} digest`,
+    text,
+    html,
+  };
+}
+
+// Emails the digests that have come due. Empty digests are skipped.
+export async function sendDigests(now: Date): Promise<void> {
+  // Jobs have no request to take the host from, so APP_URL should be set
+  const appUrl = process.env.APP_URL || "http://localhost:4000";
+
+  for (const user of await storage.getUsers()) {
+    const { frequency, timeZone, lastSentAt } = await getDigestSchedule(user.id);
+    if (frequency === "off") continue;
+
+    const slot = getDigestSlot(frequency, now, timeZone);
+    if (lastSentAt && lastSentAt >= slot) continue;
+
+    const since = lastSentAt ?? new Date(slot.getTime() - digestPeriodMs[frequency]);
+    try {
+      const digest = await buildDigest(user, since, new Date(now.getTime() + digestPeriodMs[frequency]), now);
+      // Recorded only once built, so a failed build is retried on the next run
+      await storage.markDigestSent(user.id, now);
+      if (digest.unread.length + digest.assigned.length + digest.upcoming.length === 0) continue;
+      await sendMail(renderDigest(user, digest, frequency, since, appUrl));
+    } catch (error) {
+      log(`Digest for user ${user.id} failed: ${error instanceof Error ? error.message : error}`, "digests");
+    }
+  }
+}
+
+export const digestJob: Job = {
+  name: "email-digests",
+  intervalMs: 15 * 60 * 1000,
+  run: () => sendDigests(new Date()),
+};
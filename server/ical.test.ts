@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { getProperty, parseDateValue, parseICalendar, toICalendar, unescapeText } from "./ical";
+
+describe("parseDateValue", () => {
+  it("reads all-day dates as midnight UTC", () => {
+    expect(parseDateValue("20260310")).toEqual(new Date("2026-03-10T00:00:00Z"));
+    expect(parseDateValue("20260310", "America/New_York")).toEqual(new Date("2026-03-10T00:00:00Z"));
+  });
+
+  it("reads local times on the clock of their TZID", () => {
+    expect(parseDateValue("20260310T090000", "Europe/Berlin")).toEqual(new Date("2026-03-10T08:00:00Z"));
+    // New York is on daylight saving time from 2026-03-08
+    expect(parseDateValue("20260310T090000", "America/New_York")).toEqual(new Date("2026-03-10T13:00:00Z"));
+  });
+
+  it("reads UTC, floating and unknown-zone times as UTC", () => {
+    expect(parseDateValue("20260310T090000Z", "Europe/Berlin")).toEqual(new Date("2026-03-10T09:00:00Z"));
+    expect(parseDateValue("20260310T090000")).toEqual(new Date("2026-03-10T09:00:00Z"));
+    expect(parseDateValue("20260310T090000", "W. Europe Standard Time")).toEqual(new Date("2026-03-10T09:00:00Z"));
+  });
+
+  it("rejects other formats", () => {
+    expect(parseDateValue("2026-03-10")).toBeUndefined();
+    expect(parseDateValue("20260310T0900")).toBeUndefined();
+  });
+});
+
+describe("parseICalendar", () => {
+  const calendar = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "BEGIN:VTIMEZONE",
+    "TZID:Europe/Berlin",
+    "END:VTIMEZONE",
+    "BEGIN:VEVENT",
+    "UID:1@example.com",
+    "SUMMARY:Plan\\, review\\; ship",
+    "DTSTART;VALUE=DATE:20260310",
+    "BEGIN:VALARM",
+    "ACTION:DISPLAY",
+    "SUMMARY:Reminder",
+    "END:VALARM",
+    "END:VEVENT",
+    "BEGIN:VEVENT",
+    "UID:2@example.com",
+    "SUMMARY:A very long summary that a calendar app folded onto a second li",
+    " ne",
+    'DTSTART;TZID="Europe/Berlin":20260311T143000',
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ].join("\r\n");
+
+  it("returns the requested components without nested ones", () => {
+    const parsed = parseICalendar(calendar, ["VEVENT"]);
+    if ("error" in parsed) throw new Error(parsed.error);
+
+    expect(parsed.components).toHaveLength(2);
+    const [allDay, timed] = parsed.components;
+    expect(unescapeText(getProperty(allDay, "SUMMARY")!.value)).toBe("Plan, review; ship");
+    expect(getProperty(allDay, "DTSTART")).toEqual({ name: "DTSTART", params: { VALUE: "DATE" }, value: "20260310" });
+    expect(getProperty(timed, "SUMMARY")!.value).toBe("A very long summary that a calendar app folded onto a second line");
+    expect(getProperty(timed, "DTSTART")).toEqual({ name: "DTSTART", params: { TZID: "Europe/Berlin" }, value: "20260311T143000" });
+  });
+
+  it("reads back long lines it folded", () => {
+    const summary = "Ünïcödé ".repeat(20).trim();
+    const text = toICalendar([], [{ type: "VTODO", properties: [{ name: "SUMMARY", value: summary }] }]);
+
+    expect(text.split("\r\n").every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(parseICalendar(text, ["VTODO"])).toEqual({
+      components: [{ type: "VTODO", properties: [{ name: "SUMMARY", params: {}, value: summary }] }],
+    });
+  });
+
+  it("rejects files that are not calendars or do not nest", () => {
+    expect(parseICalendar("title\nFirst", ["VEVENT"])).toEqual({ error: "The file is not an iCalendar file" });
+    expect(parseICalendar("BEGIN:VCALENDAR\nBEGIN:VEVENT\nEND:VTODO\nEND:VCALENDAR", ["VEVENT"]))
+      .toEqual({ error: "Unexpected END:VTODO" });
+  });
+});
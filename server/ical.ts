@@ -0,0 +1,149 @@
+// Just enough of iCalendar (RFC 5545) to publish tasks as events or to-dos
+// and to read events back in
+import { fromWallClock, isValidTimeZone } from "@shared/recurrence";
+
+export type ICalProperty = {
+  name: string;
+  params?: Record<string, string>;
+  value: string;
+};
+
+export type ICalComponent = {
+  type: string;
+  properties: ICalProperty[];
+};
+
+// TEXT values escape backslashes, separators and newlines
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) => (char === "n" || char === "N" ? "\n" : char));
+}
+
+// 20261019T140500Z
+export function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// 20261019, taken in UTC like the rest of the app's due dates
+export function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+// DATE and DATE-TIME values. Local times are read on the clock of their
+// TZID; floating times and zones the runtime does not know are read as UTC,
+// which is exact for all-day dates.
+export function parseDateValue(value: string, timeZone?: string): Date | undefined {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/.exec(value.trim());
+  if (!match) return undefined;
+  const [, year, month, day, hours, minutes = "0", seconds = "0", utc] = match;
+  const wallClock = Date.UTC(+year, +month - 1, +day, +(hours ?? 0), +minutes, +seconds);
+  if (isNaN(wallClock)) return undefined;
+  const isLocalTime = hours !== undefined && !utc && timeZone !== undefined && isValidTimeZone(timeZone);
+  return isLocalTime ? fromWallClock(wallClock, timeZone) : new Date(wallClock);
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function formatProperty({ name, params, value }: ICalProperty): string {
+  const paramText = Object.entries(params ?? {}).map(([key, param]) => `;${key}=${param}`).join("");
+  return foldLine(`${name}${paramText}:${value}`);
+}
+
+export function toICalendar(calendarProperties: ICalProperty[], components: ICalComponent[]): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    ...calendarProperties.map(formatProperty),
+    ...components.flatMap(component => [
+      `BEGIN:${component.type}`,
+      ...component.properties.map(formatProperty),
+      `END:${component.type}`,
+    ]),
+    "END:VCALENDAR",
+  ];
+  return lines.join("\r\n") + "\r\n";
+}
+
+function parseContentLine(line: string): ICalProperty | undefined {
+  // The value starts after the first colon outside quoted parameter values
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return undefined;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, ...rest] = part.split("=");
+    params[key.toUpperCase()] = rest.join("=").replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+// The components of the given types anywhere in a calendar file
+export function parseICalendar(text: string, types: string[]): { components: ICalComponent[] } | { error: string } {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/).filter(line => line.length > 0);
+  if (lines[0]?.trim().toUpperCase() !== "BEGIN:VCALENDAR") {
+    return { error: "The file is not an iCalendar file" };
+  }
+
+  const components: ICalComponent[] = [];
+  // Nested components (e.g. VALARM inside VEVENT) are skipped
+  const stack: string[] = [];
+  let current: ICalComponent | null = null;
+  for (const line of lines) {
+    const property = parseContentLine(line);
+    if (!property) continue;
+
+    if (property.name === "BEGIN") {
+      const type = property.value.trim().toUpperCase();
+      stack.push(type);
+      if (current === null && types.includes(type)) current = { type, properties: [] };
+    } else if (property.name === "END") {
+      const type = property.value.trim().toUpperCase();
+      if (stack[stack.length - 1] !== type) return { error: `Unexpected END:${type}` };
+      stack.pop();
+      if (current && type === current.type && !stack.includes(current.type)) {
+        components.push(current);
+        current = null;
+      }
+    } else if (current && stack[stack.length - 1] === current.type) {
+      current.properties.push(property);
+    }
+  }
+  return { components };
+}
+
+export function getProperty(component: ICalComponent, name: string): ICalProperty | undefined {
+  return component.properties.find(property => property.name === name);
+}
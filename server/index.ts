@@ -2,15 +2,35 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { StorageFactory } from "./storage";
-import { connectToDatabase } from './db'; // ✅ correct import now
+import { scheduleJob } from "./jobs";
+import { webhookDeliveryJob } from "./webhooks";
+import { recurringTaskJob } from "./recurring-tasks";
+import { reminderJob } from "./reminders";
+import { digestJob } from "./digests";
 
 const app = express();
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
+// Response fields holding secrets that are shown to the user once: 2FA
+// setup, recovery codes, API and invitation tokens, webhook secrets and
+// calendar feed paths, which carry their token
+const secretResponseFields = new Set(["secret", "otpauthUrl", "qrCode", "recoveryCodes", "token", "path"]);
+
+function redactSecrets(key: string, value: unknown) {
+  return secretResponseFields.has(key) ? "[redacted]" : value;
+}
+
+// Paths whose last segment is a token
+function redactPath(path: string): string {
+  return path
+    .replace(/^\/api\/calendar\/[^/]+\.ics$/, "/api/calendar/[redacted].ics")
+    .replace(/^\/api\/invitations\/token\/[^/]+$/, "/api/invitations/token/[redacted]");
+}
+
 app.use((req, res, next) => {
   const start = Date.now();
-  const path = req.path;
+  const path = redactPath(req.path);
   let capturedJsonResponse: Record<string, any> | undefined = undefined;
 
   const originalResJson = res.json;
@@ -24,7 +44,7 @@ app.use((req, res, next) => {
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
       if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+        logLine += ` :: ${JSON.stringify(capturedJsonResponse, redactSecrets)}`;
       }
       if (logLine.length > 80) {
         logLine = logLine.slice(0, 79) + "…";
@@ -38,26 +58,30 @@ app.use((req, res, next) => {
 
 (async () => {
   try {
-    // ✅ FIRST connect to MongoDB
-    const db = await connectToDatabase();
-    if (!db) {
-      log("❌ Cannot connect to MongoDB. Exiting server...", "mongodb");
-      process.exit(1);
-    }
-
-    // ✅ THEN initialize storage
+    // ✅ FIRST initialize storage (connects to the database STORAGE_DRIVER picks)
     const storage = await StorageFactory.getStorage();
     log("Storage initialized successfully", "storage");
 
     // ✅ THEN setup routes
     const server = await registerRoutes(app);
+    
+    // Background jobs
+    scheduleJob(webhookDeliveryJob);
+    scheduleJob(recurringTaskJob);
+    scheduleJob(reminderJob);
+    scheduleJob(digestJob);
 
-    app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
+    app.use((err: any, req: Request, res: Response, _next: NextFunction) => {
       const status = err.status || err.statusCode || 500;
       const message = err.message || "Internal Server Error";
 
+      if (status >= 500) {
+        log(`${req.method} ${req.path} failed: ${err.stack || err}`, "express");
+      }
+      if (res.headersSent) {
+        return res.destroy();
+      }
       res.status(status).json({ message });
-      throw err;
     });
 
     // Setup Vite or serve static files
@@ -0,0 +1,39 @@
+import { Invitation, PublicInvitation, Role } from "@shared/schema";
+import { storage } from "./storage";
+import { createToken, hashToken } from "./tokens";
+
+export const DEFAULT_INVITATION_DAYS = 7;
+export const MAX_INVITATION_DAYS = 30;
+
+// Create an invitation along with the token for its invite link. The token
+// is only available here, storage keeps just its hash.
+export async function createInvitation(
+  email: string,
+  role: Role,
+  invitedById: number,
+  expiresInDays: number = DEFAULT_INVITATION_DAYS
+): Promise<{ invitation: Invitation; token: string }> {
+  const { token, tokenHash } = createToken();
+  const invitation = await storage.createInvitation({
+    email,
+    role,
+    tokenHash,
+    invitedById,
+    expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+  });
+  return { invitation, token };
+}
+
+// The invitation behind a token, unless it was used or has expired
+export async function findOpenInvitation(token: string): Promise<Invitation | undefined> {
+  const invitation = await storage.getInvitationByTokenHash(hashToken(token));
+  if (!invitation || invitation.acceptedAt || new Date(invitation.expiresAt).getTime() <= Date.now()) {
+    return undefined;
+  }
+  return invitation;
+}
+
+export function toPublicInvitation(invitation: Invitation): PublicInvitation {
+  const { tokenHash, ...publicInvitation } = invitation;
+  return publicInvitation;
+}
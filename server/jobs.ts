@@ -0,0 +1,36 @@
+import { log } from "./vite";
+
+// Background work that runs on a timer inside the server process. Jobs that
+// send messages record each one before sending it: a crash in between loses
+// the message rather than sending it again on the next run, and for
+// reminders and digests a missed one is the lesser harm.
+export type Job = {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+};
+
+const runningJobs = new Set<string>();
+
+// Runs a job now unless a previous run is still going. Failures are logged
+// so one bad run does not stop the schedule.
+export async function runJob(job: Job): Promise<void> {
+  if (runningJobs.has(job.name)) return;
+
+  runningJobs.add(job.name);
+  try {
+    await job.run();
+  } catch (error) {
+    log(`${job.name} failed: ${error instanceof Error ? error.message : error}`, "jobs");
+  } finally {
+    runningJobs.delete(job.name);
+  }
+}
+
+// Runs a job every intervalMs; returns a function that stops it
+export function scheduleJob(job: Job): () => void {
+  const timer = setInterval(() => void runJob(job), job.intervalMs);
+  // Timers alone should not keep the process alive
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,274 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import net from "net";
+import tls from "tls";
+import { once } from "events";
+import { randomUUID } from "crypto";
+import { log } from "./vite";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  // Sent alongside the text version when given
+  html?: string;
+};
+
+// How outgoing email leaves the server
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Sender of all outgoing mail, e.g. "TaskFlow <no-reply@example.com>"
+function getMailFrom(): string {
+  return process.env.MAIL_FROM || "TaskFlow <no-reply@localhost>";
+}
+
+// Non-ASCII header values are sent as RFC 2047 encoded words
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+}
+
+function toCrlf(text: string): string {
+  return text.replace(/\r?\n/g, "\r\n");
+}
+
+// The message with headers as it goes over SMTP or into an .eml file
+function formatMessage(message: MailMessage): string {
+  const headers = [
+    `From: ${getMailFrom()}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+  ];
+  if (!message.html) {
+    return [...headers, "Content-Type: text/plain; charset=utf-8", "", toCrlf(message.text)].join("\r\n");
+  }
+
+  const boundary = `taskflow-${randomUUID()}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "",
+    toCrlf(message.text),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "",
+    toCrlf(message.html),
+    `--${boundary}--`,
+  ].join("\r\n");
+}
+
+// Prints messages to the server log
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    log(`To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`, "mail");
+  }
+}
+
+// Writes each message as an .eml file into a directory
+export class FileMailTransport implements MailTransport {
+  constructor(private dir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID()}.eml`;
+    await fs.promises.writeFile(path.join(this.dir, fileName), formatMessage(message));
+  }
+}
+
+export type SmtpOptions = {
+  host: string;
+  port: number;
+  // TLS from the start (usually port 465); otherwise STARTTLS is used when offered
+  secure: boolean;
+  user?: string;
+  password?: string;
+};
+
+type SmtpReply = { code: number; text: string };
+
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+// One SMTP conversation: writes commands and reads the replies in order
+class SmtpConnection {
+  private buffer = "";
+  private error: Error | null = null;
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+
+  private constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  static async open(options: SmtpOptions): Promise<SmtpConnection> {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+      : net.connect({ host: options.host, port: options.port });
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("SMTP server timed out")));
+    await once(socket, options.secure ? "secureConnect" : "connect");
+    return new SmtpConnection(socket);
+  }
+
+  private onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString("utf8");
+    this.deliver();
+  };
+
+  private onError = (error: Error) => {
+    this.error = error;
+    this.deliver();
+  };
+
+  private onClose = () => this.onError(this.error ?? new Error("SMTP server closed the connection"));
+
+  private attach(socket: net.Socket) {
+    socket.on("data", this.onData);
+    socket.on("error", this.onError);
+    socket.on("close", this.onClose);
+  }
+
+  private detach() {
+    this.socket.off("data", this.onData);
+    this.socket.off("error", this.onError);
+    this.socket.off("close", this.onClose);
+  }
+
+  // Takes one complete reply off the buffer; multiline replies use "250-"
+  // on all but the last line
+  private takeReply(): SmtpReply | null {
+    const lines = this.buffer.split("\r\n");
+    for (let i = 0; i < lines.length - 1; i++) {
+      if (/^\d{3}( |$)/.test(lines[i])) {
+        this.buffer = lines.slice(i + 1).join("\r\n");
+        return {
+          code: parseInt(lines[i].slice(0, 3)),
+          text: lines.slice(0, i + 1).map(line => line.slice(4)).join("\n"),
+        };
+      }
+    }
+    return null;
+  }
+
+  private deliver() {
+    if (!this.waiting) return;
+    const reply = this.takeReply();
+    if (reply) {
+      this.waiting.resolve(reply);
+      this.waiting = null;
+    } else if (this.error) {
+      this.waiting.reject(this.error);
+      this.waiting = null;
+    }
+  }
+
+  // Waits for the next reply and fails unless its code is expected
+  async expect(...codes: number[]): Promise<SmtpReply> {
+    const reply = await new Promise<SmtpReply>((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.deliver();
+    });
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP server replied ${reply.code} ${reply.text}`);
+    }
+    return reply;
+  }
+
+  async command(line: string, ...codes: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(...codes);
+  }
+
+  async startTls(host: string): Promise<void> {
+    this.detach();
+    const secureSocket = tls.connect({ socket: this.socket, servername: host });
+    await once(secureSocket, "secureConnect");
+    this.socket = secureSocket;
+    this.attach(secureSocket);
+  }
+
+  close() {
+    this.detach();
+    this.socket.destroy();
+  }
+}
+
+// Hands messages to an SMTP server, one connection per message
+export class SmtpMailTransport implements MailTransport {
+  constructor(private options: SmtpOptions) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const { host, secure, user, password } = this.options;
+    const from = getMailFrom().match(/<([^>]+)>/)?.[1] ?? getMailFrom();
+    const connection = await SmtpConnection.open(this.options);
+    try {
+      await connection.expect(220);
+      const greeting = await connection.command(`EHLO ${os.hostname()}`, 250);
+      let isTls = secure;
+      if (!secure && /^STARTTLS\b/im.test(greeting.text)) {
+        await connection.command("STARTTLS", 220);
+        await connection.startTls(host);
+        await connection.command(`EHLO ${os.hostname()}`, 250);
+        isTls = true;
+      }
+      if (user) {
+        // Never send the password in the clear
+        if (!isTls) throw new Error("SMTP server does not offer TLS, not sending credentials");
+        const credentials = Buffer.from(`\0${user}\0${password ?? ""}`).toString("base64");
+        await connection.command(`AUTH PLAIN ${credentials}`, 235);
+      }
+      await connection.command(`MAIL FROM:<${from}>`, 250);
+      await connection.command(`RCPT TO:<${message.to}>`, 250, 251);
+      await connection.command("DATA", 354);
+      // Lines starting with a dot are escaped by doubling it
+      await connection.command(`${formatMessage(message).replace(/^\./gm, "..")}\r\n.`, 250);
+      await connection.command("QUIT", 221);
+    } finally {
+      connection.close();
+    }
+  }
+}
+
+let mailTransport: MailTransport | undefined;
+
+// Pick the transport from MAIL_TRANSPORT: "console" by default, "file", or
+// "smtp" configured through SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER and
+// SMTP_PASSWORD
+export function getMailTransport(): MailTransport {
+  if (!mailTransport) {
+    if (process.env.MAIL_TRANSPORT === "file") {
+      const dir = process.env.MAIL_DIR || path.resolve(process.cwd(), "mail");
+      mailTransport = new FileMailTransport(dir);
+      log(`Writing outgoing mail to ${dir}`, "mail");
+    } else if (process.env.MAIL_TRANSPORT === "smtp") {
+      if (!process.env.SMTP_HOST) {
+        throw new Error("MAIL_TRANSPORT=smtp needs SMTP_HOST");
+      }
+      const port = parseInt(process.env.SMTP_PORT || "587");
+      mailTransport = new SmtpMailTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+      });
+      log(`Sending mail through ${process.env.SMTP_HOST}:${port}`, "mail");
+    } else {
+      mailTransport = new ConsoleMailTransport();
+    }
+  }
+  return mailTransport;
+}
+
+// Replace the transport, e.g. with one that talks to a mail service
+export function setMailTransport(transport: MailTransport) {
+  mailTransport = transport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send(message);
+}
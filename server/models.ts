@@ -1,14 +1,37 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import {
-  User, InsertUser, Task, InsertTask, 
+  User, InsertUser, Project, InsertProject, Workflow, Task, InsertTask, 
   TaskAssignee, InsertTaskAssignee,
+  TaskDependency, InsertTaskDependency,
+  Label, TaskLabel,
   Comment, InsertComment, 
   Attachment, InsertAttachment,
   TimeEntry, InsertTimeEntry,
-  Notification, InsertNotification,
+  Notification, InsertNotification, StoredNotificationPreferences, DigestSettings, digestFrequencies,
+  TaskEvent, taskEventTypes,
+  Invitation,
+  PasswordResetToken,
+  ApiToken, apiTokenScopes,
+  Webhook, WebhookDelivery, webhookEvents, webhookDeliveryStatus,
+  CalendarFeed,
+  TaskRecurrence,
+  TaskTemplate, TaskTemplateBundle,
+  TaskReminder, taskReminderKinds,
+  AppSetting,
   Role, TaskStatus, TaskPriority
 } from '@shared/schema';
 
+// Counter Model (one document per collection holding its last issued id)
+interface CounterDocument {
+  _id: string;
+  seq: number;
+}
+
+const counterSchema = new Schema<CounterDocument>({
+  _id: { type: String, required: true },
+  seq: { type: Number, required: true, default: 0 }
+});
+
 // User Model
 const userSchema = new Schema<User>({
   id: { type: Number, required: true, unique: true },
@@ -17,7 +40,122 @@ const userSchema = new Schema<User>({
   email: { type: String, required: true },
   fullName: { type: String, required: true },
   role: { type: String, enum: ['admin', 'manager', 'employee'], default: 'employee' },
-  avatar: { type: String }
+  avatar: { type: String },
+  totpSecret: { type: String, default: null },
+  totpEnabled: { type: Boolean, default: false },
+  recoveryCodeHashes: { type: [String], default: [] },
+  totpLastStep: { type: Number, default: null },
+  passwordChangedAt: { type: Date, default: null }
+});
+
+// Invitation Model
+const invitationSchema = new Schema<Invitation>({
+  id: { type: Number, required: true, unique: true },
+  email: { type: String, required: true },
+  role: { type: String, enum: ['admin', 'manager', 'employee'], required: true },
+  tokenHash: { type: String, required: true, unique: true },
+  invitedById: { type: Number, required: true },
+  expiresAt: { type: Date, required: true },
+  acceptedAt: { type: Date, default: null },
+  createdAt: { type: Date, default: Date.now }
+});
+
+// Password Reset Token Model
+const passwordResetTokenSchema = new Schema<PasswordResetToken>({
+  id: { type: Number, required: true, unique: true },
+  userId: { type: Number, required: true },
+  tokenHash: { type: String, required: true, unique: true },
+  expiresAt: { type: Date, required: true },
+  usedAt: { type: Date, default: null },
+  createdAt: { type: Date, default: Date.now }
+});
+
+// API Token Model
+const apiTokenSchema = new Schema<ApiToken>({
+  id: { type: Number, required: true, unique: true },
+  userId: { type: Number, required: true, index: true },
+  name: { type: String, required: true },
+  tokenHash: { type: String, required: true, unique: true },
+  tokenPrefix: { type: String, required: true },
+  scopes: { type: [String], enum: apiTokenScopes, required: true },
+  expiresAt: { type: Date, default: null },
+  lastUsedAt: { type: Date, default: null },
+  createdAt: { type: Date, default: Date.now }
+});
+
+// Calendar Feed Model
+const calendarFeedSchema = new Schema<CalendarFeed>({
+  id: { type: Number, required: true, unique: true },
+  userId: { type: Number, required: true, index: true },
+  projectId: { type: Number, default: null },
+  tokenHash: { type: String, required: true, unique: true },
+  lastUsedAt: { type: Date, default: null },
+  createdAt: { type: Date, default: Date.now }
+});
+
+// Webhook Model
+const webhookSchema = new Schema<Webhook>({
+  id: { type: Number, required: true, unique: true },
+  url: { type: String, required: true },
+  description: { type: String, default: null },
+  secret: { type: String, required: true },
+  events: { type: [String], enum: webhookEvents, required: true },
+  active: { type: Boolean, default: true },
+  createdById: { type: Number, required: true },
+  createdAt: { type: Date, default: Date.now }
+});
+
+// Webhook Delivery Model
+const webhookDeliverySchema = new Schema<WebhookDelivery>({
+  id: { type: Number, required: true, unique: true },
+  webhookId: { type: Number, required: true },
+  event: { type: String, required: true },
+  payload: { type: Schema.Types.Mixed, required: true },
+  status: { type: String, enum: webhookDeliveryStatus, default: 'pending' },
+  attempts: { type: Number, default: 0 },
+  nextAttemptAt: { type: Date, default: null },
+  lastAttemptAt: { type: Date, default: null },
+  responseStatus: { type: Number, default: null },
+  responseBody: { type: String, default: null },
+  error: { type: String, default: null },
+  createdAt: { type: Date, default: Date.now }
+});
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+webhookDeliverySchema.index({ webhookId: 1, id: -1 });
+
+// App Setting Model
+const appSettingSchema = new Schema<AppSetting>({
+  key: { type: String, required: true, unique: true },
+  value: { type: Schema.Types.Mixed, required: true },
+  updatedAt: { type: Date, default: Date.now }
+});
+
+// Project Model
+const projectSchema = new Schema<Project>({
+  id: { type: Number, required: true, unique: true },
+  name: { type: String, required: true },
+  description: { type: String },
+  color: { type: String },
+  createdById: { type: Number, required: true },
+  createdAt: { type: Date, default: Date.now }
+});
+
+// Workflow Model (one per project, absent means the default workflow)
+const workflowSchema = new Schema<Workflow>({
+  id: { type: Number, required: true, unique: true },
+  projectId: { type: Number, required: true, unique: true },
+  statuses: [{
+    _id: false,
+    key: { type: String, required: true },
+    name: { type: String, required: true },
+    category: { type: String, enum: ['notStarted', 'active', 'done'], required: true },
+    position: { type: Number, required: true }
+  }],
+  transitions: [{
+    _id: false,
+    from: { type: String, required: true },
+    to: { type: String, required: true }
+  }]
 });
 
 // Task Model
@@ -25,11 +163,8 @@ const taskSchema = new Schema<Task>({
   id: { type: Number, required: true, unique: true },
   title: { type: String, required: true },
   description: { type: String },
-  status: { 
-    type: String, 
-    enum: ['todo', 'inProgress', 'completed'], 
-    default: 'todo' 
-  },
+  // Valid values depend on the project's workflow, checked in the routes
+  status: { type: String, default: 'todo' },
   priority: { 
     type: String, 
     enum: ['low', 'medium', 'high'], 
@@ -38,16 +173,108 @@ const taskSchema = new Schema<Task>({
   createdById: { type: Number, required: true },
   createdAt: { type: Date, default: Date.now },
   dueDate: { type: Date },
-  estimatedHours: { type: Number }
+  estimatedHours: { type: Number },
+  projectId: { type: Number, default: null, index: true },
+  parentId: { type: Number, default: null, index: true },
+  recurrenceId: { type: Number, default: null, index: true }
+});
+// Indexes backing the filters and sort orders of GET /api/tasks
+taskSchema.index({ status: 1 });
+taskSchema.index({ priority: 1 });
+taskSchema.index({ createdById: 1 });
+taskSchema.index({ createdAt: 1, id: 1 });
+taskSchema.index({ dueDate: 1, id: 1 });
+taskSchema.index({ title: 1, id: 1 });
+taskSchema.index({ projectId: 1, createdAt: 1, id: 1 });
+
+// Task Recurrence Model (a repeating task and its latest occurrence)
+const taskRecurrenceSchema = new Schema<TaskRecurrence>({
+  id: { type: Number, required: true, unique: true },
+  rule: { type: String, required: true },
+  timeZone: { type: String, required: true },
+  startDate: { type: Date, required: true },
+  title: { type: String, required: true },
+  description: { type: String, default: null },
+  priority: { type: String, enum: ['low', 'medium', 'high'], default: 'medium' },
+  estimatedHours: { type: Number, default: null },
+  projectId: { type: Number, default: null },
+  createdById: { type: Number, required: true },
+  currentTaskId: { type: Number, default: null },
+  currentDueDate: { type: Date, required: true },
+  occurrenceCount: { type: Number, default: 1 },
+  endedAt: { type: Date, default: null },
+  createdAt: { type: Date, default: Date.now }
+});
+taskRecurrenceSchema.index({ endedAt: 1, currentDueDate: 1 });
+
+// Task Reminder Model (reminders already sent)
+const taskReminderSchema = new Schema<TaskReminder>({
+  id: { type: Number, required: true, unique: true },
+  taskId: { type: Number, required: true },
+  kind: { type: String, enum: taskReminderKinds, required: true },
+  leadMinutes: { type: Number, default: 0 },
+  dueDate: { type: Date, required: true },
+  sentAt: { type: Date, default: Date.now }
+});
+taskReminderSchema.index({ taskId: 1, kind: 1, leadMinutes: 1, dueDate: 1 }, { unique: true });
+
+// Task Template Model
+const taskTemplateSchema = new Schema<TaskTemplate>({
+  id: { type: Number, required: true, unique: true },
+  name: { type: String, required: true },
+  title: { type: String, required: true },
+  description: { type: String, default: null },
+  priority: { type: String, enum: ['low', 'medium', 'high'], default: 'medium' },
+  estimatedHours: { type: Number, default: null },
+  projectId: { type: Number, default: null },
+  assigneeIds: { type: [Number], default: [] },
+  checklist: { type: [String], default: [] },
+  dueOffsetDays: { type: Number, default: null },
+  createdById: { type: Number, required: true },
+  createdAt: { type: Date, default: Date.now }
+});
+
+// Task Template Bundle Model
+const taskTemplateBundleSchema = new Schema<TaskTemplateBundle>({
+  id: { type: Number, required: true, unique: true },
+  name: { type: String, required: true },
+  description: { type: String, default: null },
+  templateIds: { type: [Number], required: true, index: true },
+  createdById: { type: Number, required: true },
+  createdAt: { type: Date, default: Date.now }
 });
 
 // Task Assignee Model
 const taskAssigneeSchema = new Schema<TaskAssignee>({
   id: { type: Number, required: true, unique: true },
-  taskId: { type: Number, required: true },
-  userId: { type: Number, required: true }
+  taskId: { type: Number, required: true, index: true },
+  userId: { type: Number, required: true, index: true }
+});
+
+// Label Model
+const labelSchema = new Schema<Label>({
+  id: { type: Number, required: true, unique: true },
+  name: { type: String, required: true, unique: true },
+  color: { type: String, required: true },
+  createdById: { type: Number, required: true }
 });
 
+// Task Label Model (many-to-many between tasks and labels)
+const taskLabelSchema = new Schema<TaskLabel>({
+  id: { type: Number, required: true, unique: true },
+  taskId: { type: Number, required: true, index: true },
+  labelId: { type: Number, required: true, index: true }
+});
+taskLabelSchema.index({ taskId: 1, labelId: 1 }, { unique: true });
+
+// Task Dependency Model (blockingTaskId blocks blockedTaskId)
+const taskDependencySchema = new Schema<TaskDependency>({
+  id: { type: Number, required: true, unique: true },
+  blockingTaskId: { type: Number, required: true, index: true },
+  blockedTaskId: { type: Number, required: true, index: true }
+});
+taskDependencySchema.index({ blockingTaskId: 1, blockedTaskId: 1 }, { unique: true });
+
 // Comment Model
 const commentSchema = new Schema<Comment>({
   id: { type: Number, required: true, unique: true },
@@ -60,11 +287,13 @@ const commentSchema = new Schema<Comment>({
 // Attachment Model
 const attachmentSchema = new Schema<Attachment>({
   id: { type: Number, required: true, unique: true },
-  taskId: { type: Number, required: true },
+  taskId: { type: Number, required: true, index: true },
   userId: { type: Number, required: true },
   fileName: { type: String, required: true },
   fileType: { type: String, required: true },
   fileSize: { type: Number, required: true },
+  storageKey: { type: String, required: true },
+  thumbnailKey: { type: String, default: null },
   createdAt: { type: Date, default: Date.now }
 });
 
@@ -91,11 +320,67 @@ const notificationSchema = new Schema<Notification>({
   relatedId: { type: Number }
 });
 
+// Notification Preferences Model (one document per user)
+const notificationPreferencesSchema = new Schema<StoredNotificationPreferences>({
+  userId: { type: Number, required: true, unique: true },
+  preferences: { type: Schema.Types.Mixed, required: true },
+  updatedAt: { type: Date, default: Date.now }
+});
+
+// Digest Settings Model (one document per user)
+const digestSettingsSchema = new Schema<DigestSettings>({
+  userId: { type: Number, required: true, unique: true },
+  frequency: { type: String, enum: digestFrequencies, default: 'daily' },
+  timeZone: { type: String, default: 'UTC' },
+  lastSentAt: { type: Date, default: null },
+  updatedAt: { type: Date, default: Date.now }
+});
+
+// Task Event Model (append-only history)
+const taskEventSchema = new Schema<TaskEvent>({
+  id: { type: Number, required: true, unique: true },
+  taskId: { type: Number, required: true },
+  projectId: { type: Number, default: null },
+  userId: { type: Number, required: true },
+  type: { type: String, enum: taskEventTypes, required: true },
+  changes: [{
+    _id: false,
+    field: { type: String, required: true },
+    from: { type: Schema.Types.Mixed },
+    to: { type: Schema.Types.Mixed }
+  }],
+  details: { type: Schema.Types.Mixed, default: null },
+  createdAt: { type: Date, default: Date.now }
+});
+taskEventSchema.index({ taskId: 1, createdAt: 1 });
+taskEventSchema.index({ projectId: 1, id: -1 });
+taskEventSchema.index({ userId: 1, id: -1 });
+
 // Create and export models
+export const CounterModel = mongoose.model<CounterDocument>('Counter', counterSchema);
 export const UserModel = mongoose.model<User>('User', userSchema);
+export const InvitationModel = mongoose.model<Invitation>('Invitation', invitationSchema);
+export const PasswordResetTokenModel = mongoose.model<PasswordResetToken>('PasswordResetToken', passwordResetTokenSchema);
+export const ApiTokenModel = mongoose.model<ApiToken>('ApiToken', apiTokenSchema);
+export const CalendarFeedModel = mongoose.model<CalendarFeed>('CalendarFeed', calendarFeedSchema);
+export const WebhookModel = mongoose.model<Webhook>('Webhook', webhookSchema);
+export const WebhookDeliveryModel = mongoose.model<WebhookDelivery>('WebhookDelivery', webhookDeliverySchema);
+export const AppSettingModel = mongoose.model<AppSetting>('AppSetting', appSettingSchema);
+export const ProjectModel = mongoose.model<Project>('Project', projectSchema);
+export const WorkflowModel = mongoose.model<Workflow>('Workflow', workflowSchema);
 export const TaskModel = mongoose.model<Task>('Task', taskSchema);
+export const TaskRecurrenceModel = mongoose.model<TaskRecurrence>('TaskRecurrence', taskRecurrenceSchema);
+export const TaskReminderModel = mongoose.model<TaskReminder>('TaskReminder', taskReminderSchema);
+export const TaskTemplateModel = mongoose.model<TaskTemplate>('TaskTemplate', taskTemplateSchema);
+export const TaskTemplateBundleModel = mongoose.model<TaskTemplateBundle>('TaskTemplateBundle', taskTemplateBundleSchema);
 export const TaskAssigneeModel = mongoose.model<TaskAssignee>('TaskAssignee', taskAssigneeSchema);
+export const LabelModel = mongoose.model<Label>('Label', labelSchema);
+export const TaskLabelModel = mongoose.model<TaskLabel>('TaskLabel', taskLabelSchema);
+export const TaskDependencyModel = mongoose.model<TaskDependency>('TaskDependency', taskDependencySchema);
 export const CommentModel = mongoose.model<Comment>('Comment', commentSchema);
 export const AttachmentModel = mongoose.model<Attachment>('Attachment', attachmentSchema);
 export const TimeEntryModel = mongoose.model<TimeEntry>('TimeEntry', timeEntrySchema);
-export const NotificationModel = mongoose.model<Notification>('Notification', notificationSchema);
\ No newline at end of file
+export const NotificationModel = mongoose.model<Notification>('Notification', notificationSchema);
+export const NotificationPreferencesModel = mongoose.model<StoredNotificationPreferences>('NotificationPreferences', notificationPreferencesSchema);
+export const DigestSettingsModel = mongoose.model<DigestSettings>('DigestSettings', digestSettingsSchema);
+export const TaskEventModel = mongoose.model<TaskEvent>('TaskEvent', taskEventSchema);
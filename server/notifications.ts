@@ -0,0 +1,122 @@
+import {
+  InsertNotification,
+  NotificationPreferences,
+  NotificationType,
+  defaultNotificationChannels,
+  notificationTypes,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { sendMessageToUser } from "./websocket";
+import { sendMail } from "./mail";
+import { log } from "./vite";
+
+export const DEFAULT_NOTIFICATION_PAGE_SIZE = 20;
+export const MAX_NOTIFICATION_PAGE_SIZE = 100;
+
+export interface NotificationQuery {
+  userId: number;
+  types?: NotificationType[];
+  isRead?: boolean;
+  // Id of the last notification on the previous page
+  beforeId?: number;
+  limit: number;
+}
+
+// Read GET /api/notifications query parameters for the signed-in user. The
+// cursor is the id of the last notification already shown.
+export function parseNotificationQuery(
+  userId: number,
+  params: Record<string, unknown>
+): { query: NotificationQuery } | { error: string } {
+  const query: NotificationQuery = { userId, limit: DEFAULT_NOTIFICATION_PAGE_SIZE };
+
+  if (params.type !== undefined) {
+    const types = String(params.type).split(",").filter(type => type.length > 0);
+    if (!types.every(type => (notificationTypes as readonly string[]).includes(type))) {
+      return { error: `type must be one of: ${notificationTypes.join(", ")}` };
+    }
+    query.types = types as NotificationType[];
+  }
+
+  if (params.read !== undefined) {
+    if (params.read !== "true" && params.read !== "false") {
+      return { error: "read must be true or false" };
+    }
+    query.isRead = params.read === "true";
+  }
+
+  if (params.cursor !== undefined) {
+    const beforeId = parseInt(params.cursor as string);
+    if (isNaN(beforeId)) return { error: "Invalid cursor" };
+    query.beforeId = beforeId;
+  }
+
+  if (params.limit !== undefined) {
+    const limit = parseInt(params.limit as string);
+    if (isNaN(limit) || limit < 1 || limit > MAX_NOTIFICATION_PAGE_SIZE) {
+      return { error: `limit must be between 1 and ${MAX_NOTIFICATION_PAGE_SIZE}` };
+    }
+    query.limit = limit;
+  }
+
+  return { query };
+}
+
+// Keeps the unread badge current in all of the user's open tabs
+export async function pushUnreadCount(userId: number): Promise<void> {
+  sendMessageToUser(userId, {
+    type: 'unread_count',
+    payload: { count: await storage.countUnreadNotifications(userId) }
+  });
+}
+
+// What a notification says; who gets it is passed to notify
+export type NotificationContent = Omit<InsertNotification, "userId" | "type"> & { type: NotificationType };
+
+// The user's settings for every type, with defaults for the ones never changed
+export async function getNotificationPreferences(userId: number): Promise<NotificationPreferences> {
+  const stored = await storage.getNotificationPreferences(userId);
+  return Object.fromEntries(
+    notificationTypes.map(type => [type, { ...defaultNotificationChannels, ...stored[type] }])
+  ) as NotificationPreferences;
+}
+
+// Changes the settings of the given types and keeps the others
+export async function updateNotificationPreferences(
+  userId: number,
+  changes: Partial<NotificationPreferences>
+): Promise<NotificationPreferences> {
+  const stored = await storage.getNotificationPreferences(userId);
+  await storage.setNotificationPreferences(userId, { ...stored, ...changes });
+  return getNotificationPreferences(userId);
+}
+
+// Sends a notification to each user on the channels they chose for its
+// type. Email failures are logged so they never fail the caller.
+export async function notify(userIds: number[], content: NotificationContent): Promise<void> {
+  for (const userId of Array.from(new Set(userIds))) {
+    const channels = (await getNotificationPreferences(userId))[content.type];
+
+    // Toasts show the stored notification, so they need in-app too
+    if (channels.inApp) {
+      const notification = await storage.createNotification({ ...content, userId });
+      if (channels.toast) {
+        sendMessageToUser(userId, {
+          type: 'notification',
+          payload: notification
+        });
+      }
+      await pushUnreadCount(userId);
+    }
+
+    if (channels.email) {
+      const user = await storage.getUser(userId);
+      if (!user) continue;
+      try {
+        await sendMail({ to: user.email, subject: content.title, text: content.message });
+      } catch (error) {
+        log(`Emailing user ${userId} failed: ${error instanceof Error ? error.message : error}`, "notifications");
+      }
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { storage } from "./storage";
+import { hashPassword } from "./passwords";
+import { createToken, hashToken } from "./tokens";
+import { sendMail } from "./mail";
+
+// How long a reset link stays valid
+export const PASSWORD_RESET_TTL_MINUTES = 60;
+
+// Email a reset link to the account using this address. Unknown addresses
+// are ignored so callers cannot tell which emails have accounts.
+export async function requestPasswordReset(email: string, baseUrl: string): Promise<void> {
+  const user = await storage.getUserByEmail(email);
+  if (!user) return;
+
+  const { token, tokenHash } = createToken();
+  await storage.createPasswordResetToken({
+    userId: user.id,
+    tokenHash,
+    expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
+  });
+
+  await sendMail({
+    to: user.email,
+    subject: "Reset your TaskFlow password",
+    text: [
+      `Hi ${user.fullName},`,
+      "",
+      `Someone asked to reset the password of your TaskFlow account "${user.username}".`,
+      `Open this link within ${PASSWORD_RESET_TTL_MINUTES} minutes to choose a new one:`,
+      "",
+      `${baseUrl}/auth?reset=${token}`,
+      "",
+      "If this wasn't you, you can ignore this email.",
+    ].join("\n"),
+  });
+}
+
+// Set a new password through a reset token. False when the token is
+// unknown, already used or expired.
+export async function resetPassword(token: string, newPassword: string): Promise<boolean> {
+  const resetToken = await storage.getPasswordResetTokenByHash(hashToken(token));
+  if (!resetToken || resetToken.usedAt || new Date(resetToken.expiresAt).getTime() <= Date.now()) {
+    return false;
+  }
+  if (!(await storage.usePasswordResetToken(resetToken.id))) return false;
+
+  await setPassword(resetToken.userId, newPassword);
+  return true;
+}
+
+// Store a new password and sign the account out everywhere: sessions from
+// before the change stop counting as signed in, and the account's API tokens
+// and other reset links are revoked
+export async function setPassword(userId: number, newPassword: string): Promise<void> {
+  await storage.updateUser(userId, {
+    password: await hashPassword(newPassword),
+    passwordChangedAt: new Date(),
+  });
+  await storage.deleteApiTokensByUserId(userId);
+  await storage.deletePasswordResetTokensByUserId(userId);
+}
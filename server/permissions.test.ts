@@ -0,0 +1,122 @@
+import type { Request, RequestHandler, Response } from "express";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { Role, Task, User } from "@shared/schema";
+import { StorageFactory, storage } from "./storage";
+import { authorize, authorizeTask } from "./permissions";
+
+function makeUser(id: number, role: Role): User {
+  return { id, role, username: `user${id}`, fullName: `User ${id}` } as User;
+}
+
+const admin = makeUser(1, "admin");
+const manager = makeUser(2, "manager");
+const employee = makeUser(3, "employee");
+const creator = makeUser(4, "employee");
+const assignee = makeUser(5, "employee");
+
+const task = { id: 7, title: "Ship it", createdById: creator.id } as Task;
+
+type Outcome = { status?: number; body?: unknown; next: boolean };
+
+// Runs the middleware the way Express would and records how it answered
+async function run(middleware: RequestHandler, user: User | undefined, params: Record<string, string> = {}) {
+  const outcome: Outcome = { next: false };
+  const req = { user, params, isAuthenticated: () => user !== undefined } as unknown as Request;
+  const res = {
+    status(code: number) {
+      outcome.status = code;
+      return this;
+    },
+    json(body: unknown) {
+      outcome.body = body;
+      return this;
+    },
+    sendStatus(code: number) {
+      outcome.status = code;
+      return this;
+    },
+  } as unknown as Response;
+  await middleware(req, res, () => {
+    outcome.next = true;
+  });
+  return outcome;
+}
+
+describe("authorize", () => {
+  it.each([
+    ["admin", true, admin],
+    ["manager", true, manager],
+    ["employee", false, employee],
+  ] as const)("%s may manage projects: %s", async (_name, allowed, user) => {
+    const outcome = await run(authorize("projects:manage"), user);
+    expect(outcome.next).toBe(allowed);
+    expect(outcome.status).toBe(allowed ? undefined : 403);
+  });
+
+  it("keeps admin permissions from managers", async () => {
+    expect(await run(authorize("users:changeRole"), manager)).toEqual({
+      status: 403,
+      body: {
+        message: "You do not have permission to change user roles",
+        code: "forbidden",
+        permission: "users:changeRole",
+      },
+      next: false,
+    });
+    expect((await run(authorize("users:changeRole"), admin)).next).toBe(true);
+  });
+
+  it("answers 401 without a user", async () => {
+    expect(await run(authorize("tasks:create"), undefined)).toEqual({ status: 401, next: false });
+  });
+});
+
+describe("authorizeTask", () => {
+  beforeAll(async () => {
+    await StorageFactory.getStorage();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const withTask = () => {
+    vi.spyOn(storage, "getTask").mockResolvedValue(task);
+    vi.spyOn(storage, "getTaskAssignees").mockResolvedValue([{ id: 1, taskId: task.id, userId: assignee.id }]);
+  };
+
+  it.each([
+    ["admin", true, admin],
+    ["manager", true, manager],
+    ["unrelated employee", false, employee],
+    ["employee who created it", true, creator],
+    ["employee assigned to it", false, assignee],
+  ] as const)("%s may delete the task: %s", async (_name, allowed, user) => {
+    withTask();
+    const outcome = await run(authorizeTask("tasks:delete"), user, { id: String(task.id) });
+    expect(outcome.next).toBe(allowed);
+    if (!allowed) {
+      expect(outcome).toMatchObject({
+        status: 403,
+        body: { message: "You do not have permission to delete this task", permission: "tasks:delete" },
+      });
+    }
+  });
+
+  it("lets assignees update the task but not unrelated employees", async () => {
+    withTask();
+    expect((await run(authorizeTask("tasks:update"), assignee, { id: "7" })).next).toBe(true);
+    expect((await run(authorizeTask("tasks:update"), employee, { id: "7" })).status).toBe(403);
+  });
+
+  it("reads the task id from the named parameter", async () => {
+    withTask();
+    await run(authorizeTask("tasks:assign", "taskId"), manager, { taskId: "7" });
+    expect(storage.getTask).toHaveBeenCalledWith(7);
+  });
+
+  it("answers 404 for a missing task", async () => {
+    vi.spyOn(storage, "getTask").mockResolvedValue(undefined);
+    expect(await run(authorizeTask("tasks:update"), admin, { id: "99" })).toMatchObject({ status: 404, next: false });
+  });
+});
@@ -0,0 +1,94 @@
+import type { RequestHandler, Response } from "express";
+import { Task, User } from "@shared/schema";
+import { Permission, Relation, can } from "@shared/permissions";
+import { storage } from "./storage";
+import { needsTwoFactorSetup } from "./two-factor";
+
+// Wording for 403 responses: "You do not have permission to <action>"
+const permissionActions: Record<Permission, string> = {
+  "projects:manage": "manage projects",
+  "workflows:manage": "change project workflows",
+  "labels:manage": "manage labels",
+  "templates:manage": "manage task templates",
+  "tasks:create": "create tasks",
+  "tasks:update": "change this task",
+  "tasks:delete": "delete this task",
+  "tasks:assign": "change who is assigned to this task",
+  "tasks:comment": "comment on this task",
+  "tasks:logTime": "log time on this task",
+  "attachments:delete": "delete this attachment",
+  "users:changeRole": "change user roles",
+  "users:invite": "invite users",
+  "security:manage": "change security settings",
+  "reminders:manage": "change due date reminders",
+  "webhooks:manage": "manage webhooks",
+};
+
+export function forbidden(res: Response, permission: Permission) {
+  return res.status(403).json({
+    message: `You do not have permission to ${permissionActions[permission]}`,
+    code: "forbidden",
+    permission,
+  });
+}
+
+export async function getTaskRelations(user: User, task: Task): Promise<Relation[]> {
+  const relations: Relation[] = [];
+  if (task.createdById === user.id) relations.push("creator");
+  const assignees = await storage.getTaskAssignees(task.id);
+  if (assignees.some(assignee => assignee.userId === user.id)) relations.push("assignee");
+  return relations;
+}
+
+export async function canOnTask(user: User, permission: Permission, task: Task): Promise<boolean> {
+  return can(user, permission, await getTaskRelations(user, task));
+}
+
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  next();
+};
+
+// Users the security policy covers must turn on 2FA before anything else;
+// the routes for setting it up are registered ahead of this
+export const requireTwoFactorSetup: RequestHandler = async (req, res, next) => {
+  if (!req.isAuthenticated()) return next();
+  try {
+    if (await needsTwoFactorSetup(req.user!)) {
+      return res.status(403).json({
+        message: "Set up two-factor authentication to continue",
+        code: "twoFactorSetupRequired",
+      });
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Allow the request when the user's role grants the permission outright
+export function authorize(permission: Permission): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (!can(req.user, permission)) return forbidden(res, permission);
+    next();
+  };
+}
+
+// Allow the request when the user may act on the task named by a route
+// parameter, through their role or their relation to the task
+export function authorizeTask(permission: Permission, param = "id"): RequestHandler {
+  return async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const task = await storage.getTask(parseInt(req.params[param]));
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      if (!(await canOnTask(req.user!, permission, task))) return forbidden(res, permission);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
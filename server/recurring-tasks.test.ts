@@ -0,0 +1,106 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { Task, TaskRecurrence } from "@shared/schema";
+import { StorageFactory, storage } from "./storage";
+import { createNextOccurrence, recurringTaskJob, startRecurrence, updateRecurrence } from "./recurring-tasks";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("recurring tasks", () => {
+  let userId: number;
+
+  // A series whose first occurrence was due `dueInMs` from now
+  async function startSeries(rule: string, dueInMs: number): Promise<{ task: Task; recurrence: TaskRecurrence }> {
+    const created = await storage.createTask({
+      title: "Check the backups",
+      status: "todo",
+      priority: "medium",
+      createdById: userId,
+      dueDate: new Date(Date.now() + dueInMs),
+    });
+    const task = await startRecurrence({ ...created, dueDate: created.dueDate! }, { rule, timeZone: "UTC" }, userId);
+    return { task, recurrence: (await storage.getTaskRecurrence(task.recurrenceId!))! };
+  }
+
+  beforeAll(async () => {
+    await StorageFactory.getStorage();
+    ({ id: userId } = await storage.createUser({
+      username: "recurrence-owner",
+      password: "unused",
+      email: "recurrence-owner@example.com",
+      fullName: "Recurrence Owner",
+      role: "manager",
+    }));
+  });
+
+  // Ops checks are due every week whether or not last week's was done
+  it("creates the next occurrence on schedule while the current one is still open", async () => {
+    const { task, recurrence } = await startSeries("FREQ=DAILY", -DAY);
+
+    await recurringTaskJob.run();
+
+    const advanced = (await storage.getTaskRecurrence(recurrence.id))!;
+    expect(advanced.currentTaskId).not.toBe(task.id);
+    expect(advanced.occurrenceCount).toBe(2);
+    expect(advanced.currentDueDate.getTime()).toBeGreaterThan(Date.now());
+    expect((await storage.getTask(task.id))?.status).toBe("todo");
+  });
+
+  it("only moves on when the latest occurrence is the one completed", async () => {
+    const { task, recurrence } = await startSeries("FREQ=DAILY", DAY);
+    const next = await createNextOccurrence(recurrence.id, userId, task.id);
+
+    expect(next).toBeDefined();
+    expect(await createNextOccurrence(recurrence.id, userId, task.id)).toBeUndefined();
+    expect((await storage.getTaskRecurrence(recurrence.id))?.currentTaskId).toBe(next!.id);
+  });
+
+  it("ends the series after COUNT occurrences", async () => {
+    const { recurrence } = await startSeries("FREQ=DAILY;COUNT=2", DAY);
+
+    expect(await createNextOccurrence(recurrence.id, userId)).toBeDefined();
+    expect(await createNextOccurrence(recurrence.id, userId)).toBeUndefined();
+    const ended = (await storage.getTaskRecurrence(recurrence.id))!;
+    expect(ended.occurrenceCount).toBe(2);
+    expect(ended.endedAt).not.toBeNull();
+  });
+
+  describe("edit scopes", () => {
+    it("leaves the series alone for an edit of one occurrence", async () => {
+      const { task, recurrence } = await startSeries("FREQ=WEEKLY", DAY);
+      const edited = { ...task, title: "Check the backups twice" };
+
+      const updated = await updateRecurrence(recurrence, edited, { scope: "occurrence", dueDateChanged: false });
+
+      expect(updated).toEqual(recurrence);
+    });
+
+    it("carries fields and a moved due date over to the occurrences to come", async () => {
+      const { task, recurrence } = await startSeries("FREQ=WEEKLY", DAY);
+      const dueDate = new Date(task.dueDate!.getTime() + 2 * DAY);
+      const edited = { ...task, title: "Check the backups twice", priority: "high" as const, dueDate };
+
+      const updated = (await updateRecurrence(recurrence, edited, { scope: "future", dueDateChanged: true }))!;
+
+      expect(updated).toMatchObject({ title: "Check the backups twice", priority: "high", startDate: dueDate, currentDueDate: dueDate });
+    });
+
+    it("restarts the count from the latest occurrence with a new rule", async () => {
+      const { task, recurrence } = await startSeries("FREQ=DAILY;COUNT=5", DAY);
+      const next = (await createNextOccurrence(recurrence.id, userId, task.id))!;
+      const advanced = (await storage.getTaskRecurrence(recurrence.id))!;
+
+      const updated = (await updateRecurrence(advanced, next, {
+        scope: "future",
+        dueDateChanged: false,
+        repeat: { rule: "FREQ=WEEKLY;COUNT=2", timeZone: "Europe/Berlin" },
+      }))!;
+
+      expect(updated).toMatchObject({
+        rule: "FREQ=WEEKLY;COUNT=2",
+        timeZone: "Europe/Berlin",
+        startDate: next.dueDate,
+        occurrenceCount: 1,
+      });
+    });
+  });
+});
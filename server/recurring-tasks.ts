@@ -0,0 +1,161 @@
+import { RecurrenceScope, Task, TaskRecurrence } from "@shared/schema";
+import { defaultWorkflow, getInitialStatus } from "@shared/workflow";
+import { RepeatSetting, getNextOccurrence, parseRecurrenceRule } from "@shared/recurrence";
+import { storage } from "./storage";
+import { Job } from "./jobs";
+import { recordTaskEvent } from "./task-events";
+import { assignTask } from "./task-assignment";
+import { broadcastMessage } from "./websocket";
+import { emitWebhookEvent } from "./webhooks";
+
+// The fields each new occurrence is created with
+type TaskTemplate = Pick<TaskRecurrence, "title" | "description" | "priority" | "estimatedHours" | "projectId">;
+
+function toTemplate(source: TaskTemplate): TaskTemplate {
+  return {
+    title: source.title,
+    description: source.description,
+    priority: source.priority,
+    estimatedHours: source.estimatedHours,
+    projectId: source.projectId,
+  };
+}
+
+// A series whose rule can still produce occurrences
+export async function getActiveRecurrence(task: Task): Promise<TaskRecurrence | undefined> {
+  if (task.recurrenceId === null) return undefined;
+  const recurrence = await storage.getTaskRecurrence(task.recurrenceId);
+  return recurrence && recurrence.endedAt === null ? recurrence : undefined;
+}
+
+// Makes the task the first occurrence of a new series
+export async function startRecurrence(task: Task & { dueDate: Date }, repeat: RepeatSetting, userId: number): Promise<Task> {
+  const recurrence = await storage.createTaskRecurrence({
+    ...toTemplate(task),
+    rule: repeat.rule,
+    timeZone: repeat.timeZone,
+    startDate: task.dueDate,
+    createdById: userId,
+    currentTaskId: task.id,
+    currentDueDate: task.dueDate,
+  });
+  return (await storage.updateTask(task.id, { recurrenceId: recurrence.id })) ?? task;
+}
+
+// Carries an edit of one occurrence over to its series. With the "future"
+// scope the occurrences still to come take the task's fields, and a new
+// due date on the latest occurrence moves the schedule along with it. A
+// new rule starts counting from the latest occurrence.
+export async function updateRecurrence(
+  recurrence: TaskRecurrence,
+  task: Task,
+  options: { scope: RecurrenceScope; dueDateChanged: boolean; repeat?: RepeatSetting }
+): Promise<TaskRecurrence | undefined> {
+  const update: Partial<TaskRecurrence> = {};
+  if (options.scope === "future") {
+    Object.assign(update, toTemplate(task));
+    if (options.dueDateChanged && task.dueDate && task.id === recurrence.currentTaskId) {
+      update.startDate = task.dueDate;
+      update.currentDueDate = task.dueDate;
+    }
+  }
+  if (options.repeat) {
+    update.rule = options.repeat.rule;
+    update.timeZone = options.repeat.timeZone;
+    update.startDate = update.currentDueDate ?? recurrence.currentDueDate;
+    update.occurrenceCount = 1;
+  }
+  if (Object.keys(update).length === 0) return recurrence;
+  return await storage.updateTaskRecurrence(recurrence.id, update);
+}
+
+export async function endRecurrence(recurrence: TaskRecurrence): Promise<void> {
+  await storage.updateTaskRecurrence(recurrence.id, { endedAt: new Date() });
+}
+
+// Series that are creating an occurrence right now, so completing a task
+// while the job runs cannot create the same occurrence twice
+const advancingRecurrences = new Set<number>();
+
+// Creates the occurrence after the series' latest one, copying the latest
+// one's assignees and labels. Missed dates are skipped: the new occurrence
+// is the first one after both the latest occurrence and now. Ends the
+// series instead once the rule has run out.
+export async function createNextOccurrence(
+  recurrenceId: number,
+  actorId: number,
+  // Set when completing this task triggered it; only the latest occurrence counts
+  completedTaskId?: number
+): Promise<Task | undefined> {
+  if (advancingRecurrences.has(recurrenceId)) return undefined;
+  advancingRecurrences.add(recurrenceId);
+  try {
+    const recurrence = await storage.getTaskRecurrence(recurrenceId);
+    if (!recurrence || recurrence.endedAt !== null) return undefined;
+    if (completedTaskId !== undefined && recurrence.currentTaskId !== completedTaskId) return undefined;
+
+    const now = new Date();
+    const parsed = parseRecurrenceRule(recurrence.rule);
+    const after = recurrence.currentDueDate > now ? recurrence.currentDueDate : now;
+    const dueDate = 'rule' in parsed && (parsed.rule.count === undefined || recurrence.occurrenceCount < parsed.rule.count)
+      ? getNextOccurrence(parsed.rule, recurrence.startDate, after, recurrence.timeZone)
+      : undefined;
+    if (!dueDate) {
+      await endRecurrence(recurrence);
+      return undefined;
+    }
+
+    const workflow = recurrence.projectId !== null
+      ? (await storage.getWorkflowByProjectId(recurrence.projectId)) ?? defaultWorkflow
+      : defaultWorkflow;
+    const previous = recurrence.currentTaskId !== null ? await storage.getTask(recurrence.currentTaskId) : undefined;
+    const task = await storage.createTask({
+      ...toTemplate(recurrence),
+      status: getInitialStatus(workflow).key,
+      dueDate,
+      createdById: recurrence.createdById,
+      parentId: null,
+      recurrenceId: recurrence.id,
+    });
+    await storage.updateTaskRecurrence(recurrence.id, {
+      currentTaskId: task.id,
+      currentDueDate: dueDate,
+      occurrenceCount: recurrence.occurrenceCount + 1,
+    });
+
+    await recordTaskEvent(task.id, actorId, "created", {
+      details: { reason: "recurring", recurrenceId: recurrence.id, previousTaskId: previous?.id ?? null },
+    });
+    broadcastMessage({
+      type: 'task_update',
+      payload: { action: 'created', task }
+    });
+    emitWebhookEvent("task.created", { task });
+
+    if (previous) {
+      for (const label of await storage.getLabelsByTaskId(previous.id)) {
+        await storage.addLabelToTask(task.id, label.id);
+      }
+      for (const assignee of await storage.getTaskAssignees(previous.id)) {
+        await assignTask(task.id, assignee.userId, actorId);
+      }
+    }
+    return task;
+  } finally {
+    advancingRecurrences.delete(recurrenceId);
+  }
+}
+
+// Moves on series whose latest occurrence's date has come, done or not.
+// This is on purpose: a weekly check gets this week's task even when last
+// week's is still open. Completing the latest occurrence moves its series
+// on early.
+export const recurringTaskJob: Job = {
+  name: "recurring-tasks",
+  intervalMs: 60 * 1000,
+  async run() {
+    for (const recurrence of await storage.getDueTaskRecurrences(new Date())) {
+      await createNextOccurrence(recurrence.id, recurrence.createdById);
+    }
+  },
+};
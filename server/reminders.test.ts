@@ -0,0 +1,76 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { Role, Task, User } from "@shared/schema";
+import { StorageFactory, storage } from "./storage";
+import { sendDueReminders } from "./reminders";
+import { notify } from "./notifications";
+
+vi.mock("./notifications", () => ({ notify: vi.fn() }));
+
+const HOUR = 60 * 60 * 1000;
+
+describe("sendDueReminders", () => {
+  const now = new Date("2026-03-10T12:00:00Z");
+  let owner: User;
+  let otherManager: User;
+  let creator: User;
+
+  const createUser = (username: string, role: Role) => storage.createUser({
+    username,
+    password: "unused",
+    email: `${username}@example.com`,
+    fullName: username,
+    role,
+  });
+  const createOverdueTask = (title: string, projectId: number | null): Promise<Task> => storage.createTask({
+    title,
+    status: "todo",
+    priority: "medium",
+    createdById: creator.id,
+    projectId,
+    dueDate: new Date(now.getTime() - 48 * HOUR),
+  });
+  const recipientsOf = (type: string) => vi.mocked(notify).mock.calls
+    .filter(([, content]) => content.type === type)
+    .map(([userIds, content]) => ({ userIds, relatedId: content.relatedId }));
+
+  beforeAll(async () => {
+    await StorageFactory.getStorage();
+    owner = await createUser("reminder-owner", "manager");
+    otherManager = await createUser("reminder-manager", "manager");
+    creator = await createUser("reminder-creator", "employee");
+  });
+
+  beforeEach(() => {
+    vi.mocked(notify).mockReset();
+  });
+
+  it("escalates to the task's creator and the project's manager only", async () => {
+    const project = await storage.createProject({ name: "Launch", createdById: owner.id });
+    const task = await createOverdueTask("Book the venue", project.id);
+
+    await sendDueReminders(now);
+
+    expect(recipientsOf("task_overdue")).toContainEqual({ userIds: [creator.id], relatedId: task.id });
+    const escalated = recipientsOf("task_escalated").find(call => call.relatedId === task.id);
+    expect(escalated?.userIds).toEqual([creator.id, owner.id]);
+    expect(escalated?.userIds).not.toContain(otherManager.id);
+  });
+
+  it("keeps going when one task's notification fails", async () => {
+    const failing = await createOverdueTask("Print the flyers", null);
+    const next = await createOverdueTask("Order the food", null);
+    vi.mocked(notify).mockImplementation(async (_userIds, content) => {
+      if (content.relatedId === failing.id) throw new Error("mail server down");
+    });
+
+    await sendDueReminders(now);
+
+    expect(recipientsOf("task_overdue").map(call => call.relatedId)).toContain(next.id);
+    expect(recipientsOf("task_escalated")).toContainEqual({ userIds: [creator.id], relatedId: next.id });
+
+    // The failed reminder was recorded first, so it is not sent again
+    vi.mocked(notify).mockReset();
+    await sendDueReminders(now);
+    expect(recipientsOf("task_overdue").map(call => call.relatedId)).not.toContain(failing.id);
+  });
+});
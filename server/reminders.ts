@@ -0,0 +1,146 @@
+import { Project, ReminderPolicy, Task, TaskReminder, TaskReminderKind, reminderPolicySchema } from "@shared/schema";
+import { WorkflowDefinition, defaultWorkflow, isDoneStatus } from "@shared/workflow";
+import { can } from "@shared/permissions";
+import { storage } from "./storage";
+import { Job } from "./jobs";
+import { notify } from "./notifications";
+import { log } from "./vite";
+
+const REMINDER_POLICY_KEY = "reminderPolicy";
+const defaultReminderPolicy: ReminderPolicy = { leadMinutes: [24 * 60, 60], escalationHours: 24 };
+
+// Tasks overdue for longer are left alone, so old unfinished tasks or a
+// large import do not set off a flood of notices
+const OVERDUE_LOOKBACK_MS = 30 * 24 * 60 * 60 * 1000;
+
+export async function getReminderPolicy(): Promise<ReminderPolicy> {
+  const parsed = reminderPolicySchema.safeParse(await storage.getSetting(REMINDER_POLICY_KEY));
+  return parsed.success ? parsed.data : defaultReminderPolicy;
+}
+
+export async function setReminderPolicy(policy: ReminderPolicy): Promise<void> {
+  await storage.setSetting(REMINDER_POLICY_KEY, policy);
+}
+
+// "2 days", "5 hours", "45 minutes"
+function formatDuration(ms: number): string {
+  const minutes = Math.max(1, Math.round(ms / 60000));
+  const [value, unit] = minutes >= 2 * 24 * 60 ? [Math.round(minutes / (24 * 60)), "day"]
+    : minutes >= 2 * 60 ? [Math.round(minutes / 60), "hour"]
+    : [minutes, "minute"];
+  return `${value} ${unit}${value === 1 ? "" : "s"}`;
+}
+
+// Reminders go to the assignees, or to the creator of an unassigned task
+async function getReminderRecipients(task: Task): Promise<number[]> {
+  const assignees = await storage.getTaskAssignees(task.id);
+  return assignees.length > 0 ? assignees.map(assignee => assignee.userId) : [task.createdById];
+}
+
+// Sends the reminders that have come due for open tasks. A task whose
+// reminders fail is logged and skipped.
+export async function sendDueReminders(now: Date): Promise<void> {
+  const policy = await getReminderPolicy();
+  const leadMinutes = [...policy.leadMinutes].sort((a, b) => a - b);
+  const maxLeadMs = (leadMinutes[leadMinutes.length - 1] ?? 0) * 60 * 1000;
+
+  const { tasks } = await storage.queryTasks({
+    dueFrom: new Date(now.getTime() - OVERDUE_LOOKBACK_MS),
+    dueTo: new Date(now.getTime() + maxLeadMs),
+    sortBy: "dueDate",
+    sortDirection: "asc",
+  });
+  if (tasks.length === 0) return;
+
+  const sent = await storage.getTaskReminders(tasks.map(task => task.id));
+  const workflows = new Map<number | null, WorkflowDefinition>();
+  const getWorkflow = async (projectId: number | null) => {
+    if (!workflows.has(projectId)) {
+      workflows.set(projectId, projectId !== null
+        ? (await storage.getWorkflowByProjectId(projectId)) ?? defaultWorkflow
+        : defaultWorkflow);
+    }
+    return workflows.get(projectId)!;
+  };
+
+  const escalationMs = policy.escalationHours !== null ? policy.escalationHours * 60 * 60 * 1000 : null;
+  const managerIds = new Set<number>();
+  if (escalationMs !== null) {
+    for (const user of await storage.getUsers()) {
+      if (can(user, "projects:manage")) managerIds.add(user.id);
+    }
+  }
+  const projects = new Map<number, Project | undefined>();
+  // Escalations go to the task's creator and, when a manager created the
+  // task's project, to that manager
+  const getEscalationRecipients = async (task: Task) => {
+    const recipients = [task.createdById];
+    if (task.projectId !== null) {
+      if (!projects.has(task.projectId)) {
+        projects.set(task.projectId, await storage.getProject(task.projectId));
+      }
+      const ownerId = projects.get(task.projectId)?.createdById;
+      if (ownerId !== undefined && managerIds.has(ownerId)) recipients.push(ownerId);
+    }
+    return recipients;
+  };
+
+  for (const task of tasks) {
+    try {
+      const dueDate = task.dueDate!;
+      if (isDoneStatus(await getWorkflow(task.projectId), task.status)) continue;
+
+      const isSent = (kind: TaskReminderKind, lead = 0) => sent.some((reminder: TaskReminder) =>
+        reminder.taskId === task.id &&
+        reminder.kind === kind &&
+        reminder.leadMinutes === lead &&
+        reminder.dueDate.getTime() === dueDate.getTime()
+      );
+      const record = (kind: TaskReminderKind, lead = 0) =>
+        storage.createTaskReminder({ taskId: task.id, kind, leadMinutes: lead, dueDate });
+      const remainingMs = dueDate.getTime() - now.getTime();
+
+      if (remainingMs > 0) {
+        // After downtime several lead times can be due at once; one reminder covers them
+        const dueLeads = leadMinutes.filter(lead => remainingMs <= lead * 60 * 1000 && !isSent("dueSoon", lead));
+        if (dueLeads.length === 0) continue;
+        for (const lead of dueLeads) await record("dueSoon", lead);
+        await notify(await getReminderRecipients(task), {
+          type: 'task_due_soon',
+          title: 'Task Due Soon',
+          message: `"${task.title}" is due in ${formatDuration(remainingMs)}`,
+          relatedId: task.id
+        });
+        continue;
+      }
+
+      if (!isSent("overdue")) {
+        await record("overdue");
+        await notify(await getReminderRecipients(task), {
+          type: 'task_overdue',
+          title: 'Task Overdue',
+          message: `"${task.title}" is past its due date`,
+          relatedId: task.id
+        });
+      }
+
+      if (escalationMs !== null && -remainingMs >= escalationMs && !isSent("escalated")) {
+        await record("escalated");
+        await notify(await getEscalationRecipients(task), {
+          type: 'task_escalated',
+          title: 'Overdue Task Escalated',
+          message: `"${task.title}" has been overdue for ${formatDuration(-remainingMs)}`,
+          relatedId: task.id
+        });
+      }
+    } catch (error) {
+      log(`Reminders for task ${task.id} failed: ${error instanceof Error ? error.message : error}`, "reminders");
+    }
+  }
+}
+
+export const reminderJob: Job = {
+  name: "task-reminders",
+  intervalMs: 60 * 1000,
+  run: () => sendDueReminders(new Date()),
+};
@@ -0,0 +1,345 @@
+import express from "express";
+import { randomBytes, scryptSync } from "crypto";
+import { once } from "events";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { Readable } from "stream";
+import { Secret, TOTP } from "otpauth";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { WebSocket } from "ws";
+import { StorageFactory, storage } from "./storage";
+import { registerRoutes } from "./routes";
+import { getBlobStore } from "./blob-store";
+import { createApiToken } from "./api-tokens";
+import { createToken } from "./tokens";
+
+// Stored the way auth.ts hashes passwords
+function createUser(username: string, role: "admin" | "employee") {
+  const salt = randomBytes(16).toString("hex");
+  return storage.createUser({
+    username,
+    password: `${scryptSync("secret", salt, 64).toString("hex")}.${salt}`,
+    email: `${username}@example.com`,
+    fullName: "Routes Test",
+    role,
+  });
+}
+
+describe("routes", () => {
+  let server: Server;
+  let baseUrl: string;
+  let cookie: string;
+  let userId: number;
+
+  beforeAll(async () => {
+    await StorageFactory.getStorage();
+    const app = express();
+    app.use(express.json());
+    server = await registerRoutes(app);
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    ({ id: userId } = await createUser("routes-test", "admin"));
+    cookie = await logIn("routes-test");
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const logIn = async (username: string, password = "secret") => {
+    const res = await fetch(`${baseUrl}/api/login`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ username, password }),
+    });
+    return res.headers.get("set-cookie")!.split(";")[0];
+  };
+  const get = (path: string) => fetch(`${baseUrl}${path}`, { headers: { cookie } });
+  const post = (path: string, body: unknown) => fetch(`${baseUrl}${path}`, {
+    method: "POST",
+    headers: { cookie, "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+  it("rejects ids that are not numbers", async () => {
+    const res = await get("/api/projects/abc");
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ message: "Invalid id" });
+
+    expect((await get("/api/tasks/1/attachments/1x/download")).status).toBe(400);
+    expect((await get("/api/projects/1")).status).toBe(404);
+  });
+
+  it("passes storage errors to the error handler", async () => {
+    vi.spyOn(storage, "getProject").mockRejectedValue(new Error("connection lost"));
+
+    expect((await get("/api/projects/1")).status).toBe(500);
+  });
+
+  describe("task request bodies", () => {
+    let taskId: number;
+
+    beforeAll(async () => {
+      ({ id: taskId } = await storage.createTask({
+        title: "Write the report",
+        status: "todo",
+        priority: "medium",
+        createdById: userId,
+      }));
+    });
+
+    it("only assigns existing users", async () => {
+      let res = await post(`/api/tasks/${taskId}/assignees`, { userId: String(userId) });
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({ message: "userId must be a number" });
+
+      res = await post(`/api/tasks/${taskId}/assignees`, { userId: 99999 });
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({ message: "User 99999 does not exist" });
+
+      res = await post(`/api/tasks/${taskId}/assignees`, { userId });
+      expect(res.status).toBe(201);
+    });
+
+    it("logs time for the route's task and the session's user", async () => {
+      let res = await post(`/api/tasks/${taskId}/time`, { startTime: "yesterday" });
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({ message: "Invalid date format for startTime" });
+
+      res = await post(`/api/tasks/${taskId}/time`, {
+        startTime: "2026-03-02T09:00:00.000Z",
+        duration: 30,
+        taskId: 99999,
+        userId: 99999,
+      });
+      expect(res.status).toBe(201);
+      expect(await res.json()).toMatchObject({ taskId, userId, duration: 30, startTime: "2026-03-02T09:00:00.000Z" });
+    });
+  });
+
+  describe("task import", () => {
+    const importCsv = (csv: string, dryRun: boolean) => {
+      const form = new FormData();
+      form.append("file", new Blob([csv], { type: "text/csv" }), "tasks.csv");
+      return fetch(`${baseUrl}/api/tasks/import?dryRun=${dryRun}`, { method: "POST", headers: { cookie }, body: form });
+    };
+
+    it("reports every invalid row of a dry run and creates nothing", async () => {
+      const createTask = vi.spyOn(storage, "createTask");
+
+      const res = await importCsv("title,priority,assignees\nFirst,high,\n,low,\nThird,urgent,\nFourth,,nobody\n", true);
+
+      expect(res.status).toBe(400);
+      expect(await res.json()).toMatchObject({
+        message: "3 of 4 rows are invalid",
+        dryRun: true,
+        rowCount: 4,
+        errors: [
+          { row: 2, message: "title: Required" },
+          { row: 3, message: "Priority must be one of: low, medium, high" },
+          { row: 4, message: "Unknown assignee: nobody" },
+        ],
+        tasks: [],
+      });
+      expect(createTask).not.toHaveBeenCalled();
+    });
+
+    it("checks a valid file without importing it", async () => {
+      const createTask = vi.spyOn(storage, "createTask");
+
+      const res = await importCsv("title\nFirst\nSecond\n", true);
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ dryRun: true, rowCount: 2, errors: [], tasks: [] });
+      expect(createTask).not.toHaveBeenCalled();
+    });
+  });
+
+  it("bounds the task list by project and creation date", async () => {
+    const project = await storage.createProject({ name: "Bounded", createdById: userId });
+    const task = await storage.createTask({
+      title: "Created just now",
+      status: "todo",
+      priority: "low",
+      createdById: userId,
+      projectId: project.id,
+    });
+    const titles = async (query: string) =>
+      ((await (await get(`/api/tasks?projectId=${project.id}&${query}`)).json()) as { title: string }[]).map(t => t.title);
+    const before = new Date(task.createdAt.getTime() - 1000).toISOString();
+    const after = new Date(task.createdAt.getTime() + 1000).toISOString();
+
+    expect(await titles(`createdFrom=${before}&createdTo=${after}`)).toEqual(["Created just now"]);
+    expect(await titles(`createdFrom=${after}`)).toEqual([]);
+    expect(await titles(`createdTo=${before}`)).toEqual([]);
+    expect((await get("/api/tasks?createdFrom=soon")).status).toBe(400);
+  });
+
+  it("stops serving a calendar feed once it is revoked", async () => {
+    const created = await post("/api/calendar-feeds", { projectId: null });
+    expect(created.status).toBe(201);
+    const { id, path } = await created.json();
+
+    const feed = await fetch(`${baseUrl}${path}`);
+    expect(feed.status).toBe(200);
+    expect(await feed.text()).toMatch(/^BEGIN:VCALENDAR\r\n/);
+
+    const revoked = await fetch(`${baseUrl}/api/calendar-feeds/${id}`, { method: "DELETE", headers: { cookie } });
+    expect(revoked.status).toBe(204);
+    expect((await fetch(`${baseUrl}${path}`)).status).toBe(404);
+  });
+
+  describe("password changes", () => {
+    // A user signed in from two browsers, with an API token and a reset link
+    async function signedInTwice(username: string) {
+      const user = await createUser(username, "employee");
+      const sessions = [await logIn(username), await logIn(username)];
+      const { token: apiToken } = await createApiToken(user.id, "script", ["tasks:read"], null);
+      const { token: resetToken, tokenHash } = createToken();
+      await storage.createPasswordResetToken({ userId: user.id, tokenHash, expiresAt: new Date(Date.now() + 60_000) });
+      return { sessions, apiToken, resetToken };
+    }
+
+    const getAs = (path: string, headers: Record<string, string>) => fetch(`${baseUrl}${path}`, { headers });
+    const confirmReset = (token: string, newPassword: string) => fetch(`${baseUrl}/api/password-reset/confirm`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token, newPassword }),
+    });
+
+    it("signs out the other sessions and revokes API tokens and reset links", async () => {
+      const { sessions: [current, other], apiToken, resetToken } = await signedInTwice("password-change");
+
+      const changed = await fetch(`${baseUrl}/api/user/password`, {
+        method: "POST",
+        headers: { cookie: current, "Content-Type": "application/json" },
+        body: JSON.stringify({ currentPassword: "secret", newPassword: "new-secret" }),
+      });
+
+      expect(changed.status).toBe(204);
+      const renewed = changed.headers.get("set-cookie")!.split(";")[0];
+      expect(renewed).not.toBe(current);
+      expect((await getAs("/api/user", { cookie: renewed })).status).toBe(200);
+      expect((await getAs("/api/user", { cookie: current })).status).toBe(401);
+      expect((await getAs("/api/user", { cookie: other })).status).toBe(401);
+      expect((await getAs("/api/tasks", { authorization: `Bearer ${apiToken}` })).status).toBe(401);
+      expect((await confirmReset(resetToken, "another-secret")).status).toBe(400);
+      expect(await logIn("password-change", "new-secret")).toBeTruthy();
+    });
+
+    it("signs out every session after a reset", async () => {
+      const { sessions, apiToken, resetToken } = await signedInTwice("password-reset");
+
+      expect((await confirmReset(resetToken, "new-secret")).status).toBe(204);
+
+      const socket = new WebSocket(`${baseUrl.replace("http:", "ws:")}/ws`, { headers: { cookie: sessions[0] } });
+      const [code] = await once(socket, "close");
+      expect(code).toBe(1008);
+      for (const session of sessions) {
+        expect((await getAs("/api/user", { cookie: session })).status).toBe(401);
+      }
+      expect((await getAs("/api/tasks", { authorization: `Bearer ${apiToken}` })).status).toBe(401);
+    });
+  });
+
+  describe("two-factor sign-in", () => {
+    const secret = new Secret({ size: 20 }).base32;
+    const currentCode = () => new TOTP({ secret: Secret.fromBase32(secret) }).generate();
+
+    beforeAll(async () => {
+      const user = await createUser("two-factor", "employee");
+      await storage.updateUser(user.id, { totpSecret: secret, totpEnabled: true });
+    });
+
+    const secondStep = (pendingCookie: string, code: string) => fetch(`${baseUrl}/api/login/2fa`, {
+      method: "POST",
+      headers: { cookie: pendingCookie, "Content-Type": "application/json" },
+      body: JSON.stringify({ code }),
+    });
+
+    it("signs in on a new session and refuses the same code twice", async () => {
+      const code = currentCode();
+      const pending = await logIn("two-factor");
+
+      const signedIn = await secondStep(pending, code);
+      expect(signedIn.status).toBe(200);
+      const session = signedIn.headers.get("set-cookie")!.split(";")[0];
+      expect(session).not.toBe(pending);
+      expect((await fetch(`${baseUrl}/api/user`, { headers: { cookie: session } })).status).toBe(200);
+      expect((await fetch(`${baseUrl}/api/user`, { headers: { cookie: pending } })).status).toBe(401);
+
+      const replayed = await secondStep(await logIn("two-factor"), code);
+      expect(replayed.status).toBe(401);
+      expect(await replayed.json()).toMatchObject({ code: "invalidTwoFactorCode" });
+    });
+  });
+
+  describe("attachment downloads", () => {
+    beforeEach(() => {
+      vi.spyOn(storage, "getAttachment").mockResolvedValue({
+        id: 1,
+        taskId: 1,
+        fileName: "plan.pdf",
+        fileType: "application/pdf",
+        fileSize: 4,
+        storageKey: "attachments/plan.pdf",
+        thumbnailKey: "thumbnails/plan.webp",
+        userId: 1,
+        createdAt: new Date(),
+      });
+    });
+
+    it("answers 500 when the blob store fails", async () => {
+      vi.spyOn(getBlobStore(), "get").mockRejectedValue(new Error("access denied"));
+
+      const res = await get("/api/tasks/1/attachments/1/download");
+      expect(res.status).toBe(500);
+      expect(await res.json()).toEqual({ message: "Failed to read attachment" });
+    });
+
+    it("answers 500 when the file cannot be read", async () => {
+      vi.spyOn(getBlobStore(), "get").mockImplementation(async () => new Readable({
+        read() {
+          this.destroy(new Error("file vanished"));
+        },
+      }));
+
+      const res = await get("/api/tasks/1/attachments/1/thumbnail");
+      expect(res.status).toBe(500);
+      expect(res.headers.get("content-type")).toMatch(/^application\/json/);
+      expect(await res.json()).toEqual({ message: "Failed to read thumbnail" });
+    });
+  });
+
+  describe("websocket", () => {
+    const connect = (cookieHeader: string) =>
+      new WebSocket(`${baseUrl.replace("http:", "ws:")}/ws`, { headers: { cookie: cookieHeader } });
+
+    it("accepts the session cookie", async () => {
+      const socket = connect(cookie);
+      const [data] = await once(socket, "message");
+      expect(JSON.parse(String(data))).toMatchObject({ type: "connected" });
+      socket.close();
+    });
+
+    it("rejects a session cookie with a forged signature", async () => {
+      const socket = connect(cookie.replace(/\.[^.]+$/, ".forged"));
+      const [code] = await once(socket, "close");
+      expect(code).toBe(1008);
+    });
+
+    it("closes the socket when the client sends a message", async () => {
+      const socket = connect(cookie);
+      await once(socket, "message");
+      socket.send(JSON.stringify({ type: "task_update", payload: { id: 1 } }));
+      const [code] = await once(socket, "close");
+      expect(code).toBe(1003);
+    });
+  });
+});
@@ -1,154 +1,791 @@
-import type { Express } from "express";
+import type { Express, NextFunction, Request, RequestHandler, Response } from "express";
 import { createServer, type Server } from "http";
-import { WebSocketServer, WebSocket } from "ws";
-import { setupAuth } from "./auth";
+import type { Readable } from "stream";
+import { setupAuth, toPublicUser } from "./auth";
 import { storage } from "./storage";
-import { insertTaskSchema, insertCommentSchema, Task, insertNotificationSchema } from "@shared/schema";
+import { insertTaskSchema, insertCommentSchema, insertProjectSchema, insertWorkflowSchema, insertLabelSchema, Task, InsertTask, Project, Label, TaskDependency, Attachment, insertNotificationSchema, insertTimeEntrySchema, roles, securityPolicySchema, apiTokenScopes, insertWebhookSchema, taskExportFormats, TaskImportError, recurrenceScopes, insertTaskTemplateSchema, insertTaskTemplateBundleSchema, TaskTemplate, reminderPolicySchema, notificationPreferencesSchema, digestSettingsSchema } from "@shared/schema";
+import { can } from "@shared/permissions";
+import {
+  WorkflowDefinition,
+  defaultWorkflow,
+  getOrderedStatuses,
+  getWorkflowStatus,
+  getInitialStatus,
+  isDoneStatus,
+  isTransitionAllowed,
+  mapStatusToWorkflow,
+  normalizeWorkflow
+} from "@shared/workflow";
+import { formatRecurrenceRule, isValidTimeZone, parseRecurrenceRule } from "@shared/recurrence";
+import { TaskQuery, parseTaskQuery } from "./task-query";
+import { parseImportFile, parseImportedTask, receiveTaskImport, resolveAssignees, toExportedTasks, toTasksCsv } from "./task-transfer";
+import { receiveAttachment, storeAttachment, removeAttachmentBlobs } from "./attachments";
+import { diffTask, parseActivityQuery, recordTaskEvent, toActivityItems } from "./task-events";
+import { getBlobStore } from "./blob-store";
+import { broadcastMessage, setupWebSocketServer } from "./websocket";
+import { assignTask } from "./task-assignment";
+import { authorize, authorizeTask, canOnTask, forbidden, requireAuth, requireTwoFactorSetup } from "./permissions";
+import { MAX_INVITATION_DAYS, createInvitation, findOpenInvitation, toPublicInvitation } from "./invitations";
+import { getSecurityPolicy, setSecurityPolicy } from "./two-factor";
+import { DEFAULT_API_TOKEN_DAYS, MAX_API_TOKEN_DAYS, createApiToken, toPublicApiToken } from "./api-tokens";
+import { buildCalendarFeed, calendarFeedKinds, createCalendarFeed, findCalendarFeed, getCalendarFeedPath, toPublicCalendarFeed } from "./calendar-feeds";
+import { createNextOccurrence, endRecurrence, getActiveRecurrence, startRecurrence, updateRecurrence } from "./recurring-tasks";
+import { checkTemplateReferences, createTasksFromTemplate, getBundleTemplates } from "./task-templates";
+import { getReminderPolicy, setReminderPolicy } from "./reminders";
+import { getNotificationPreferences, notify, parseNotificationQuery, pushUnreadCount, updateNotificationPreferences } from "./notifications";
+import { getDigestSchedule } from "./digests";
+import { createWebhookSecret, emitWebhookEvent, sendTestEvent, toPublicWebhook } from "./webhooks";
 import { validateRequest } from "zod-express-middleware";
 import { z } from "zod";
 
-// WebSocket clients map
-type WebSocketClient = {
-  userId: number;
-  socket: WebSocket;
-};
+// The workflow governing tasks in a project; unscoped tasks use the default one
+async function getWorkflowForProject(projectId: number | null): Promise<WorkflowDefinition> {
+  if (projectId === null) return defaultWorkflow;
+  return (await storage.getWorkflowByProjectId(projectId)) ?? defaultWorkflow;
+}
+
+async function isTaskDone(task: Task): Promise<boolean> {
+  return isDoneStatus(await getWorkflowForProject(task.projectId), task.status);
+}
 
-// Global variable to hold WebSocket clients
-const wsClients: WebSocketClient[] = [];
+// Replacing a workflow must not strand tasks in a status that no longer exists
+async function findStatusesInUse(projectId: number, workflow: WorkflowDefinition): Promise<string[]> {
+  const tasks = await storage.getTasksByProjectId(projectId);
+  return Array.from(new Set(
+    tasks
+      .filter(task => !getWorkflowStatus(workflow, task.status))
+      .map(task => task.status)
+  ));
+}
 
-// WebSocket message types
-export type WebSocketMessage = {
-  type: 'task_update' | 'comment_added' | 'notification' | 'task_assigned' | 'time_entry_added';
-  payload: any;
-};
+function describeStatuses(workflow: WorkflowDefinition): string {
+  return getOrderedStatuses(workflow).map(status => status.key).join(", ");
+}
 
-// Function to broadcast message to all connected clients
-export function broadcastMessage(message: WebSocketMessage, excludeUserId?: number) {
-  const messageStr = JSON.stringify(message);
-  wsClients.forEach((client) => {
-    if (client.socket.readyState === WebSocket.OPEN && (!excludeUserId || client.userId !== excludeUserId)) {
-      client.socket.send(messageStr);
+// Validate a request body describing a new task and turn it into storage input.
+// Field checks are done by hand so the error messages stay specific.
+async function parseNewTask(body: any, userId: number): Promise<{ task: InsertTask } | { error: string }> {
+  // Manually extract and validate fields instead of using Zod
+  // This gives us more explicit control over the types
+  const { 
+    title, 
+    description = null, 
+    status = null, 
+    priority = "medium", 
+    dueDate = null, 
+    estimatedHours = null,
+    projectId = null,
+    parentId = null
+  } = body;
+  
+  // Basic validation
+  if (!title || typeof title !== 'string') {
+    return { error: "Title is required and must be a string" };
+  }
+  
+  if (priority && !["low", "medium", "high"].includes(priority)) {
+    return { error: "Priority must be one of: low, medium, high" };
+  }
+  
+  // Process date if present
+  let processedDueDate = null;
+  if (dueDate) {
+    try {
+      processedDueDate = new Date(dueDate);
+      if (isNaN(processedDueDate.getTime())) {
+        return { error: "Invalid date format for dueDate" };
+      }
+    } catch (e) {
+      return { error: "Invalid date format for dueDate" };
     }
-  });
+  }
+  
+  // Process estimatedHours if present
+  let processedEstimatedHours = null;
+  if (estimatedHours !== null && estimatedHours !== undefined) {
+    const hours = Number(estimatedHours);
+    if (isNaN(hours)) {
+      return { error: "estimatedHours must be a number" };
+    }
+    processedEstimatedHours = hours;
+  }
+  
+  // Project must exist if one is given
+  if (projectId !== null && projectId !== undefined) {
+    if (!(await storage.getProject(Number(projectId)))) {
+      return { error: "projectId does not reference an existing project" };
+    }
+  }
+  
+  // Parent must exist if one is given; subtasks stay in their parent's project
+  let parent: Task | undefined;
+  if (parentId !== null && parentId !== undefined) {
+    parent = await storage.getTask(Number(parentId));
+    if (!parent) {
+      return { error: "parentId does not reference an existing task" };
+    }
+    if (parent.parentId !== null) {
+      return { error: "Subtasks cannot have subtasks of their own" };
+    }
+  }
+  
+  const taskProjectId = parent 
+    ? parent.projectId 
+    : projectId !== null && projectId !== undefined ? Number(projectId) : null;
+  
+  // Status comes from the project's workflow, defaulting to its initial status
+  const workflow = await getWorkflowForProject(taskProjectId);
+  if (status && !getWorkflowStatus(workflow, status)) {
+    return { error: `Status must be one of: ${describeStatuses(workflow)}` };
+  }
+  
+  // Create properly typed task object
+  const task: InsertTask = {
+    title,
+    description,
+    status: status || getInitialStatus(workflow).key, 
+    priority,
+    dueDate: processedDueDate,
+    estimatedHours: processedEstimatedHours,
+    createdById: userId,
+    projectId: taskProjectId,
+    parentId: parent ? parent.id : null
+  };
+  
+  return { task };
+}
+
+// Resolve the `label` query parameter (repeated or comma-separated, by id or name)
+// into label ids. Returns an error for labels that do not exist.
+async function parseLabelFilter(query: unknown): Promise<{ labelIds: number[] } | { error: string }> {
+  const values = (Array.isArray(query) ? query : [query])
+    .flatMap(value => String(value).split(","))
+    .map(value => value.trim())
+    .filter(value => value.length > 0);
+  
+  const labelIds: number[] = [];
+  for (const value of values) {
+    const label = /^\d+$/.test(value)
+      ? await storage.getLabel(parseInt(value))
+      : await storage.getLabelByName(value);
+    if (!label) {
+      return { error: `Unknown label: ${value}` };
+    }
+    labelIds.push(label.id);
+  }
+  return { labelIds };
+}
+
+// GET /api/tasks query parameters, including the label filter
+async function parseTaskListQuery(params: Record<string, unknown>): Promise<{ query: TaskQuery } | { error: string }> {
+  const parsed = parseTaskQuery(params);
+  if ('error' in parsed) return parsed;
+  const query = parsed.query;
+  
+  // Keep tasks carrying any of the requested labels
+  if (params.label !== undefined) {
+    const labels = await parseLabelFilter(params.label);
+    if ('error' in labels) return labels;
+    query.labelIds = labels.labelIds;
+  }
+  return { query };
+}
+
+// How a task repeats. Rules are kept in canonical form so unchanged ones
+// compare equal.
+const repeatSettingSchema = z.object({
+  rule: z.string({ required_error: "A recurrence rule is required" }).transform((rule, ctx) => {
+    const parsed = parseRecurrenceRule(rule);
+    if ('error' in parsed) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: parsed.error });
+      return z.NEVER;
+    }
+    return formatRecurrenceRule(parsed.rule);
+  }),
+  timeZone: z.string().default("UTC").refine(isValidTimeZone, "timeZone must be an IANA time zone such as Europe/Berlin"),
+});
+
+// Repeat fields of task requests. recurrence null stops repeating.
+const taskRecurrenceRequestSchema = z.object({
+  recurrence: repeatSettingSchema.nullable().optional(),
+  recurrenceScope: z.enum(recurrenceScopes).default("occurrence"),
+});
+
+const taskExportQuerySchema = z.object({
+  format: z.enum(taskExportFormats).default("csv"),
+});
+
+const taskImportQuerySchema = z.object({
+  dryRun: z.enum(["true", "false"]).default("false").transform(value => value === "true"),
+});
+
+const taskAssigneeRequestSchema = z.object({
+  userId: z.number({ required_error: "userId is required", invalid_type_error: "userId must be a number" }).int(),
+});
+
+// The task comes from the route and the user from the session. Times arrive
+// as ISO strings.
+const timeEntryRequestSchema = insertTimeEntrySchema.pick({
+  startTime: true,
+  endTime: true,
+  duration: true,
+  notes: true,
+}).extend({
+  startTime: z.coerce.date({ errorMap: () => ({ message: "Invalid date format for startTime" }) }),
+  endTime: z.coerce.date({ errorMap: () => ({ message: "Invalid date format for endTime" }) }).nullable().optional(),
+  duration: z.number().int().min(0, "duration cannot be negative").nullable().optional(),
+});
+
+// Templates belong to whoever created them
+const taskTemplateRequestSchema = insertTaskTemplateSchema.omit({ createdById: true });
+
+const taskTemplateBundleRequestSchema = insertTaskTemplateBundleSchema.omit({ createdById: true });
+
+// Either one template or a bundle. projectId overrides the templates' own
+// projects; due offsets count from startDate, today by default.
+const templateUseRequestSchema = z.object({
+  templateId: z.number().int().optional(),
+  bundleId: z.number().int().optional(),
+  projectId: z.number().int().nullable().optional(),
+  startDate: z.coerce.date({ invalid_type_error: "Invalid date format for startDate" }).optional(),
+}).refine(body => (body.templateId === undefined) !== (body.bundleId === undefined), "Give either templateId or bundleId");
+
+const invitationRequestSchema = z.object({
+  email: z.string().email("A valid email is required"),
+  role: z.enum(roles),
+  expiresInDays: z.number().int().min(1).max(MAX_INVITATION_DAYS).optional(),
+});
+
+// Tokens never expire when expiresInDays is null
+const apiTokenRequestSchema = z.object({
+  name: z.string({ required_error: "A name is required" }).trim().min(1, "A name is required").max(100),
+  scopes: z.array(z.enum(apiTokenScopes)).min(1, "Pick at least one scope"),
+  expiresInDays: z.number().int().min(1).max(MAX_API_TOKEN_DAYS).nullable().default(DEFAULT_API_TOKEN_DAYS),
+});
+
+// Without a project the feed has the user's assigned tasks
+const calendarFeedRequestSchema = z.object({
+  projectId: z.number().int().nullable().default(null),
+});
+
+const calendarFeedQuerySchema = z.object({
+  kind: z.enum(calendarFeedKinds).default("event"),
+});
+
+// The secret is generated by the server, never chosen by the client
+const webhookRequestSchema = insertWebhookSchema.pick({
+  url: true,
+  description: true,
+  events: true,
+  active: true,
+});
+
+const webhookDeliveriesQuerySchema = z.object({
+  cursor: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const digestSettingsRequestSchema = digestSettingsSchema.extend({
+  timeZone: digestSettingsSchema.shape.timeZone.refine(isValidTimeZone, "timeZone must be an IANA time zone such as Europe/Berlin"),
+});
+
+const notificationIdsSchema = z.object({
+  ids: z.array(z.number().int()).min(1, "Pick at least one notification").max(500, "At most 500 notifications at once"),
+});
+
+// Adding "blockingTaskId blocks blockedTaskId" closes a cycle when the blocked
+// task already (transitively) blocks the blocking one
+function createsDependencyCycle(
+  dependencies: TaskDependency[],
+  blockingTaskId: number,
+  blockedTaskId: number
+): boolean {
+  const visited = new Set<number>();
+  const stack = [blockedTaskId];
+  
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === blockingTaskId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    
+    for (const dependency of dependencies) {
+      if (dependency.blockingTaskId === current) {
+        stack.push(dependency.blockedTaskId);
+      }
+    }
+  }
+  
+  return false;
 }
 
-// Function to send a message to a specific user
-export function sendMessageToUser(userId: number, message: WebSocketMessage) {
-  const messageStr = JSON.stringify(message);
-  const userClients = wsClients.filter(client => client.userId === userId);
+// A task followed by all of its (nested) subtasks
+async function getTaskTree(taskId: number): Promise<Task[]> {
+  const task = await storage.getTask(taskId);
+  if (!task) return [];
   
-  userClients.forEach(client => {
-    if (client.socket.readyState === WebSocket.OPEN) {
-      client.socket.send(messageStr);
+  const tree = [task];
+  for (const subtask of await storage.getSubtasks(taskId)) {
+    tree.push(...await getTaskTree(subtask.id));
+  }
+  return tree;
+}
+
+async function getAttachmentsOfTasks(tasks: Task[]): Promise<Attachment[]> {
+  const attachments: Attachment[] = [];
+  for (const task of tasks) {
+    attachments.push(...await storage.getAttachmentsByTaskId(task.id));
+  }
+  return attachments;
+}
+
+// An attachment addressed through its task; undefined unless it belongs to that task
+async function findTaskAttachment(taskIdParam: string, attachmentIdParam: string): Promise<Attachment | undefined> {
+  const attachment = await storage.getAttachment(parseInt(attachmentIdParam));
+  if (!attachment || attachment.taskId !== parseInt(taskIdParam)) return undefined;
+  return attachment;
+}
+
+// Streams a stored file into the response. A read error before anything was
+// sent becomes a 500; after that the response can only be cut off.
+function sendBlob(stream: Readable, res: Response, description: string) {
+  stream.on("error", (error) => {
+    console.error(`Error reading ${description}:`, error);
+    if (res.headersSent) {
+      res.destroy(error);
+    } else {
+      // Drop the file's headers before answering with the error
+      res.removeHeader("Content-Disposition");
+      res.removeHeader("Cache-Control");
+      res.status(500).type("json").json({ message: `Failed to read ${description}` });
     }
   });
+  // Stop reading when the client goes away
+  res.on("close", () => stream.destroy());
+  stream.pipe(res);
 }
 
+// Express 4 ignores the promise a handler returns, so pass a rejection on to
+// the error handler instead of leaving it unhandled
+function asyncHandler(handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>): RequestHandler {
+  return (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
+}
+
+// Route parameters that name a record by its numeric id
+const idParams = ["id", "taskId", "userId", "labelId", "attachmentId", "blockingTaskId"];
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Anything else would reach storage as NaN
+  for (const param of idParams) {
+    app.param(param, (_req, res, next, value: string) => {
+      if (!/^\d+$/.test(value)) {
+        return res.status(400).json({ message: `Invalid ${param}` });
+      }
+      next();
+    });
+  }
+
   // Setup authentication routes
-  setupAuth(app);
+  const sessionMiddleware = setupAuth(app);
+  // Everything below is off limits until a required 2FA setup is done
+  app.use("/api", requireTwoFactorSetup);
+
+  // Projects API
+  app.get("/api/projects", requireAuth, asyncHandler(async (req, res) => {
+    const projects = await storage.getProjects();
+    res.json(projects);
+  }));
+
+  app.get("/api/projects/:id", requireAuth, asyncHandler(async (req, res) => {
+    const projectId = parseInt(req.params.id);
+    const project = await storage.getProject(projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    res.json(project);
+  }));
+
+  app.post("/api/projects", authorize("projects:manage"), asyncHandler(async (req, res) => {
+    
+    const result = insertProjectSchema.safeParse({
+      ...req.body,
+      createdById: req.user!.id,
+    });
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid project data", errors: result.error.errors });
+    }
+    if (!result.data.name.trim()) {
+      return res.status(400).json({ message: "Project name is required" });
+    }
+    
+    const project = await storage.createProject(result.data);
+    res.status(201).json(project);
+  }));
+
+  app.put("/api/projects/:id", authorize("projects:manage"), asyncHandler(async (req, res) => {
+    const projectId = parseInt(req.params.id);
+    
+    const update: Partial<Project> = {};
+    
+    if ('name' in req.body && req.body.name !== undefined) {
+      if (typeof req.body.name !== 'string' || !req.body.name.trim()) {
+        return res.status(400).json({ message: "Project name must be a non-empty string" });
+      }
+      update.name = req.body.name;
+    }
+    
+    for (const field of ['description', 'color'] as const) {
+      if (field in req.body) {
+        if (req.body[field] !== null && typeof req.body[field] !== 'string') {
+          return res.status(400).json({ message: `${field} must be a string or null` });
+        }
+        update[field] = req.body[field];
+      }
+    }
+    
+    const updatedProject = await storage.updateProject(projectId, update);
+    if (!updatedProject) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    res.json(updatedProject);
+  }));
+
+  app.delete("/api/projects/:id", authorize("projects:manage"), asyncHandler(async (req, res) => {
+    const projectId = parseInt(req.params.id);
+    
+    // The project's tasks fall back to the default workflow, so map their statuses first
+    const workflow = await storage.getWorkflowByProjectId(projectId);
+    const projectTasks = await storage.getTasksByProjectId(projectId);
+    const mappedStatuses = new Map<number, string>();
+    if (workflow) {
+      for (const task of projectTasks) {
+        const status = mapStatusToWorkflow(
+          defaultWorkflow,
+          task.status,
+          getWorkflowStatus(workflow, task.status)?.category
+        );
+        if (status.key !== task.status) {
+          await storage.updateTask(task.id, { status: status.key });
+          mappedStatuses.set(task.id, status.key);
+        }
+      }
+    }
+    
+    const success = await storage.deleteProject(projectId);
+    if (!success) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    
+    for (const task of projectTasks) {
+      const mappedStatus = mappedStatuses.get(task.id);
+      await recordTaskEvent(task.id, req.user!.id, "updated", {
+        changes: [
+          { field: "projectId", from: projectId, to: null },
+          ...(mappedStatus ? [{ field: "status", from: task.status, to: mappedStatus }] : [])
+        ],
+        details: { reason: "projectDeleted" },
+        projectId
+      });
+    }
+    res.status(204).send();
+  }));
+
+  // Workflows API
+  app.get("/api/workflows", requireAuth, asyncHandler(async (req, res) => {
+    const workflows = await storage.getWorkflows();
+    res.json(workflows);
+  }));
+
+  app.get("/api/projects/:id/workflow", requireAuth, asyncHandler(async (req, res) => {
+    const projectId = parseInt(req.params.id);
+    if (!(await storage.getProject(projectId))) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    
+    const workflow = await storage.getWorkflowByProjectId(projectId);
+    res.json({
+      projectId,
+      isDefault: !workflow,
+      statuses: getOrderedStatuses(workflow ?? defaultWorkflow),
+      transitions: (workflow ?? defaultWorkflow).transitions
+    });
+  }));
+
+  app.put("/api/projects/:id/workflow", authorize("workflows:manage"), asyncHandler(async (req, res) => {
+    const projectId = parseInt(req.params.id);
+    if (!(await storage.getProject(projectId))) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    
+    const result = insertWorkflowSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid workflow data", errors: result.error.errors });
+    }
+    const normalized = normalizeWorkflow(result.data);
+    if ('error' in normalized) {
+      return res.status(400).json({ message: normalized.error });
+    }
+    
+    const statusesInUse = await findStatusesInUse(projectId, normalized.workflow);
+    if (statusesInUse.length > 0) {
+      return res.status(409).json({
+        message: `Tasks still use removed status(es): ${statusesInUse.join(", ")}`,
+        code: "statuses_in_use",
+        statuses: statusesInUse
+      });
+    }
+    
+    const workflow = await storage.saveWorkflow({ projectId, ...normalized.workflow });
+    res.json(workflow);
+  }));
+
+  // Reset a project to the default workflow
+  app.delete("/api/projects/:id/workflow", authorize("workflows:manage"), asyncHandler(async (req, res) => {
+    const projectId = parseInt(req.params.id);
+    if (!(await storage.getProject(projectId))) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    
+    const statusesInUse = await findStatusesInUse(projectId, defaultWorkflow);
+    if (statusesInUse.length > 0) {
+      return res.status(409).json({
+        message: `Tasks still use status(es) missing from the default workflow: ${statusesInUse.join(", ")}`,
+        code: "statuses_in_use",
+        statuses: statusesInUse
+      });
+    }
+    
+    await storage.deleteWorkflow(projectId);
+    res.status(204).send();
+  }));
 
   // Tasks API
-  app.get("/api/tasks", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    const tasks = await storage.getTasks();
-    res.json(tasks);
-  });
+  app.get("/api/tasks", requireAuth, asyncHandler(async (req, res) => {
+    
+    const parsed = await parseTaskListQuery(req.query);
+    if ('error' in parsed) {
+      return res.status(400).json({ message: parsed.error });
+    }
+    const query = parsed.query;
+    
+    // The body stays a plain array; the cursor for the next page travels in a header
+    const page = await storage.queryTasks(query);
+    if (page.nextCursor) {
+      res.setHeader("X-Next-Cursor", page.nextCursor);
+    }
+    res.json(page.tasks);
+  }));
+
+  // Every task matching the GET /api/tasks filters, without paging
+  app.get("/api/tasks/export", requireAuth, asyncHandler(async (req, res) => {
+    const format = taskExportQuerySchema.safeParse(req.query);
+    if (!format.success) {
+      return res.status(400).json({ message: "format must be csv or json" });
+    }
+    const parsed = await parseTaskListQuery(req.query);
+    if ('error' in parsed) {
+      return res.status(400).json({ message: parsed.error });
+    }
+    const { cursor, limit, ...query } = parsed.query;
+    
+    const { tasks } = await storage.queryTasks(query);
+    const exported = await toExportedTasks(tasks);
+    const fileName = `tasks-${new Date().toISOString().slice(0, 10)}.${format.data.format}`;
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    if (format.data.format === "json") {
+      return res.json(exported);
+    }
+    res.type("text/csv").send(toTasksCsv(exported));
+  }));
+
+  // Creates tasks from an uploaded CSV or JSON file. Every row is checked
+  // first; nothing is created if any row is invalid or on ?dryRun=true.
+  app.post("/api/tasks/import", authorize("tasks:create"), receiveTaskImport, asyncHandler(async (req, res) => {
+    const options = taskImportQuerySchema.safeParse(req.query);
+    if (!options.success) {
+      return res.status(400).json({ message: "dryRun must be true or false" });
+    }
+    const { dryRun } = options.data;
+    const file = parseImportFile(req.file!);
+    if ('error' in file) {
+      return res.status(400).json({ message: file.error });
+    }
+    
+    const user = req.user!;
+    const users = await storage.getUsers();
+    const errors: TaskImportError[] = [];
+    const valid: { task: InsertTask; assigneeIds: number[] }[] = [];
+    
+    for (let index = 0; index < file.rows.length; index++) {
+      const row = file.rows[index];
+      const fail = (message: string) => errors.push({ row: index + 1, message });
+      
+      const imported = parseImportedTask(row);
+      if ('error' in imported) {
+        fail(imported.error);
+        continue;
+      }
+      const parsed = await parseNewTask(imported.task, user.id);
+      if ('error' in parsed) {
+        fail(parsed.error);
+        continue;
+      }
+      if (parsed.task.parentId !== null && parsed.task.parentId !== undefined) {
+        const parent = await storage.getTask(parsed.task.parentId);
+        if (parent && !(await canOnTask(user, "tasks:update", parent))) {
+          fail(`You may not add subtasks to task ${parent.id}`);
+          continue;
+        }
+      }
+      const assignees = resolveAssignees(row, users);
+      if ('error' in assignees) {
+        fail(assignees.error);
+        continue;
+      }
+      valid.push({ task: parsed.task, assigneeIds: assignees.userIds });
+    }
+    
+    if (dryRun || errors.length > 0) {
+      return res.status(errors.length > 0 ? 400 : 200).json({
+        message: errors.length > 0 ? `${errors.length} of ${file.rows.length} rows are invalid` : undefined,
+        dryRun,
+        rowCount: file.rows.length,
+        errors,
+        tasks: [],
+      });
+    }
+    
+    const created: Task[] = [];
+    for (const { task: taskData, assigneeIds } of valid) {
+      const task = await storage.createTask(taskData);
+      await recordTaskEvent(task.id, user.id, "created", { details: { reason: "imported" } });
+      broadcastMessage({
+        type: 'task_update',
+        payload: { action: 'created', task }
+      });
+      emitWebhookEvent("task.created", { task });
+      
+      for (const assigneeId of assigneeIds) {
+        await assignTask(task.id, assigneeId, user.id);
+      }
+      created.push(task);
+    }
+    
+    res.status(201).json({ dryRun, rowCount: file.rows.length, errors, tasks: created });
+  }));
+
+  // Creates the tasks of a template or of every template in a bundle
+  app.post("/api/tasks/from-template", authorize("tasks:create"), asyncHandler(async (req, res) => {
+    const parsed = templateUseRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    const { templateId, bundleId, projectId, startDate = new Date() } = parsed.data;
+    
+    let templates: TaskTemplate[];
+    if (templateId !== undefined) {
+      const template = await storage.getTaskTemplate(templateId);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      templates = [template];
+    } else {
+      const bundle = await storage.getTaskTemplateBundle(bundleId!);
+      if (!bundle) {
+        return res.status(404).json({ message: "Template bundle not found" });
+      }
+      const bundleTemplates = await getBundleTemplates(bundle.templateIds);
+      if ('error' in bundleTemplates) {
+        return res.status(400).json({ message: bundleTemplates.error });
+      }
+      templates = bundleTemplates.templates;
+      if (templates.length === 0) {
+        return res.status(400).json({ message: "The bundle has no templates" });
+      }
+    }
+    const error = await checkTemplateReferences({ projectId });
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    
+    try {
+      const created: Task[] = [];
+      for (const template of templates) {
+        created.push(...await createTasksFromTemplate(template, { projectId, startDate }, req.user!.id));
+      }
+      res.status(201).json(created);
+    } catch (error) {
+      console.error("Error creating tasks from template:", error);
+      res.status(500).json({ message: "Failed to create tasks from template", error: (error as Error).message });
+    }
+  }));
 
-  app.get("/api/tasks/:id", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.get("/api/tasks/:id", requireAuth, asyncHandler(async (req, res) => {
     const taskId = parseInt(req.params.id);
     const task = await storage.getTask(taskId);
     if (!task) {
       return res.status(404).json({ message: "Task not found" });
     }
     res.json(task);
-  });
+  }));
 
-  app.post("/api/tasks", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.post("/api/tasks", authorize("tasks:create"), asyncHandler(async (req, res) => {
     const userId = req.user!.id;
     
     try {
       console.log("Creating task with raw data:", req.body);
       
-      // Manually extract and validate fields instead of using Zod
-      // This gives us more explicit control over the types
-      const { 
-        title, 
-        description = null, 
-        status = "todo", 
-        priority = "medium", 
-        dueDate = null, 
-        estimatedHours = null
-      } = req.body;
-      
-      // Basic validation
-      if (!title || typeof title !== 'string') {
-        return res.status(400).json({ message: "Title is required and must be a string" });
+      const parsed = await parseNewTask(req.body, userId);
+      if ('error' in parsed) {
+        return res.status(400).json({ message: parsed.error });
       }
+      const taskData = parsed.task;
       
-      if (status && !["todo", "inProgress", "completed"].includes(status)) {
-        return res.status(400).json({ message: "Status must be one of: todo, inProgress, completed" });
+      const repeat = taskRecurrenceRequestSchema.safeParse(req.body);
+      if (!repeat.success) {
+        return res.status(400).json({ message: repeat.error.errors[0].message });
       }
-      
-      if (priority && !["low", "medium", "high"].includes(priority)) {
-        return res.status(400).json({ message: "Priority must be one of: low, medium, high" });
+      const { recurrence } = repeat.data;
+      if (recurrence && taskData.parentId !== null && taskData.parentId !== undefined) {
+        return res.status(400).json({ message: "Subtasks cannot repeat" });
       }
-      
-      // Process date if present
-      let processedDueDate = null;
-      if (dueDate) {
-        try {
-          processedDueDate = new Date(dueDate);
-          if (isNaN(processedDueDate.getTime())) {
-            return res.status(400).json({ message: "Invalid date format for dueDate" });
-          }
-        } catch (e) {
-          return res.status(400).json({ message: "Invalid date format for dueDate" });
-        }
+      if (recurrence && !taskData.dueDate) {
+        return res.status(400).json({ message: "A repeating task needs a due date" });
       }
       
-      // Process estimatedHours if present
-      let processedEstimatedHours = null;
-      if (estimatedHours !== null && estimatedHours !== undefined) {
-        const hours = Number(estimatedHours);
-        if (isNaN(hours)) {
-          return res.status(400).json({ message: "estimatedHours must be a number" });
+      // Adding a subtask changes the parent, so it needs the same rights as editing it
+      if (taskData.parentId !== null && taskData.parentId !== undefined) {
+        const parent = await storage.getTask(taskData.parentId);
+        if (parent && !(await canOnTask(req.user!, "tasks:update", parent))) {
+          return forbidden(res, "tasks:update");
         }
-        processedEstimatedHours = hours;
       }
       
-      // Create properly typed task object
-      const taskData = {
-        title,
-        description,
-        status, 
-        priority,
-        dueDate: processedDueDate,
-        estimatedHours: processedEstimatedHours,
-        createdById: userId
-      };
-      
       console.log("Creating task with processed data:", taskData);
       
-      const task = await storage.createTask(taskData);
+      let task = await storage.createTask(taskData);
+      if (recurrence && task.dueDate) {
+        task = await startRecurrence({ ...task, dueDate: task.dueDate }, recurrence, userId);
+      }
+      await recordTaskEvent(task.id, userId, "created");
       
       // Broadcast to all clients about new task
       broadcastMessage({
         type: 'task_update',
         payload: { action: 'created', task }
       });
+      emitWebhookEvent("task.created", { task });
       
       res.status(201).json(task);
     } catch (error) {
       console.error("Error creating task:", error);
       res.status(500).json({ message: "Failed to create task", error: (error as Error).message });
     }
-  });
+  }));
 
-  app.put("/api/tasks/:id", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.put("/api/tasks/:id", authorizeTask("tasks:update"), asyncHandler(async (req, res) => {
     const taskId = parseInt(req.params.id);
     
     try {
@@ -180,14 +817,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         update.description = req.body.description;
       }
       
-      // Status
-      if ('status' in req.body && req.body.status !== undefined) {
-        if (!["todo", "inProgress", "completed"].includes(req.body.status)) {
-          return res.status(400).json({ message: "Status must be one of: todo, inProgress, completed" });
-        }
-        update.status = req.body.status;
-      }
-      
       // Priority
       if ('priority' in req.body && req.body.priority !== undefined) {
         if (!["low", "medium", "high"].includes(req.body.priority)) {
@@ -226,80 +855,615 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
+      // Project (subtasks always follow their parent)
+      if ('projectId' in req.body && existingTask.parentId !== null) {
+        return res.status(400).json({ message: "A subtask's project is inherited from its parent task" });
+      }
+      if ('projectId' in req.body) {
+        if (req.body.projectId !== null && req.body.projectId !== undefined) {
+          const projectId = Number(req.body.projectId);
+          if (!(await storage.getProject(projectId))) {
+            return res.status(400).json({ message: "projectId does not reference an existing project" });
+          }
+          update.projectId = projectId;
+        } else {
+          update.projectId = null;
+        }
+      }
+      
+      // A new repeat rule applies to all occurrences to come, so on a repeating
+      // task it needs recurrenceScope "future"; other fields only reach
+      // future occurrences with that scope
+      const repeat = taskRecurrenceRequestSchema.safeParse(req.body);
+      if (!repeat.success) {
+        return res.status(400).json({ message: repeat.error.errors[0].message });
+      }
+      const { recurrence, recurrenceScope } = repeat.data;
+      const activeRecurrence = await getActiveRecurrence(existingTask);
+      const recurrenceChanged = recurrence === null
+        ? activeRecurrence !== undefined
+        : recurrence !== undefined && (
+          activeRecurrence === undefined ||
+          recurrence.rule !== activeRecurrence.rule ||
+          recurrence.timeZone !== activeRecurrence.timeZone
+        );
+      if (recurrenceChanged && activeRecurrence && recurrenceScope !== "future") {
+        return res.status(400).json({
+          message: "Changing how a task repeats affects all future occurrences; set recurrenceScope to future"
+        });
+      }
+      if (recurrenceChanged && recurrence && existingTask.parentId !== null) {
+        return res.status(400).json({ message: "Subtasks cannot repeat" });
+      }
+      const newDueDate = 'dueDate' in update ? update.dueDate : existingTask.dueDate;
+      if (!newDueDate && ((recurrenceChanged && recurrence) || (activeRecurrence && recurrenceScope === "future" && recurrence !== null))) {
+        return res.status(400).json({ message: "A repeating task needs a due date" });
+      }
+      
+      // Status must belong to the workflow of the task's (possibly new) project
+      const previousWorkflow = await getWorkflowForProject(existingTask.projectId);
+      const projectChanged = 'projectId' in update && update.projectId !== existingTask.projectId;
+      const workflow = projectChanged
+        ? await getWorkflowForProject(update.projectId ?? null)
+        : previousWorkflow;
+      
+      if ('status' in req.body && req.body.status !== undefined) {
+        if (!getWorkflowStatus(workflow, req.body.status)) {
+          return res.status(400).json({ message: `Status must be one of: ${describeStatuses(workflow)}` });
+        }
+        update.status = req.body.status;
+      } else if (projectChanged && !getWorkflowStatus(workflow, existingTask.status)) {
+        // Carry the task over to the closest status of the new project's workflow
+        update.status = mapStatusToWorkflow(
+          workflow,
+          existingTask.status,
+          getWorkflowStatus(previousWorkflow, existingTask.status)?.category
+        ).key;
+      }
+      
+      // Transitions are enforced within a workflow; moving between projects maps statuses instead
+      if (
+        update.status !== undefined &&
+        !projectChanged &&
+        !isTransitionAllowed(workflow, existingTask.status, update.status)
+      ) {
+        return res.status(409).json({
+          message: `Cannot move task from ${existingTask.status} to ${update.status}`,
+          code: "transition_not_allowed",
+          allowedStatuses: getOrderedStatuses(workflow)
+            .filter(status => isTransitionAllowed(workflow, existingTask.status, status.key))
+            .map(status => status.key)
+        });
+      }
+      
+      const newStatus = update.status !== undefined ? getWorkflowStatus(workflow, update.status) : undefined;
+      
+      // A blocked task cannot be started or completed until its blockers are done
+      if (
+        newStatus &&
+        newStatus.key !== existingTask.status &&
+        newStatus.category !== "notStarted"
+      ) {
+        const blockerIds = (await storage.getTaskDependenciesByTaskId(taskId))
+          .filter(dependency => dependency.blockedTaskId === taskId)
+          .map(dependency => dependency.blockingTaskId);
+        const openBlockers: Task[] = [];
+        for (const blockerId of blockerIds) {
+          const blocker = await storage.getTask(blockerId);
+          if (blocker && !(await isTaskDone(blocker))) {
+            openBlockers.push(blocker);
+          }
+        }
+        if (openBlockers.length > 0) {
+          return res.status(409).json({
+            message: `Task is blocked by: ${openBlockers.map(blocker => blocker.title).join(", ")}`,
+            code: "blocked",
+            blockedBy: openBlockers
+          });
+        }
+      }
+      
+      // A parent cannot be completed while subtasks are still open, unless forced
+      if (
+        newStatus?.category === "done" &&
+        !isDoneStatus(previousWorkflow, existingTask.status) &&
+        req.body.force !== true
+      ) {
+        const openSubtasks: Task[] = [];
+        for (const subtask of await storage.getSubtasks(taskId)) {
+          if (!(await isTaskDone(subtask))) {
+            openSubtasks.push(subtask);
+          }
+        }
+        if (openSubtasks.length > 0) {
+          return res.status(409).json({
+            message: `Task has ${openSubtasks.length} open subtask(s); pass force to complete it anyway`,
+            code: "open_subtasks",
+            openSubtasks
+          });
+        }
+      }
+      
       console.log("Updating task with processed data:", update);
       
-      const updatedTask = await storage.updateTask(taskId, update);
+      let updatedTask = await storage.updateTask(taskId, update);
       if (!updatedTask) {
         return res.status(404).json({ message: "Task not found" });
       }
+      await recordTaskEvent(taskId, req.user!.id, "updated", { changes: diffTask(existingTask, updatedTask) });
+      
+      // Keep subtasks in the same project as their parent
+      if (projectChanged) {
+        for (const subtask of await storage.getSubtasks(taskId)) {
+          const subtaskUpdate: Partial<Task> = { projectId: update.projectId };
+          if (!getWorkflowStatus(workflow, subtask.status)) {
+            subtaskUpdate.status = mapStatusToWorkflow(
+              workflow,
+              subtask.status,
+              getWorkflowStatus(previousWorkflow, subtask.status)?.category
+            ).key;
+          }
+          const updatedSubtask = await storage.updateTask(subtask.id, subtaskUpdate);
+          if (updatedSubtask) {
+            await recordTaskEvent(subtask.id, req.user!.id, "updated", {
+              changes: diffTask(subtask, updatedSubtask),
+              details: { reason: "parentMoved", parentId: taskId }
+            });
+          }
+        }
+      }
+      
+      // Bring the task's series in line with the edit
+      if (activeRecurrence && recurrence === null) {
+        await endRecurrence(activeRecurrence);
+      } else if (activeRecurrence) {
+        await updateRecurrence(activeRecurrence, updatedTask, {
+          scope: recurrenceScope,
+          dueDateChanged: updatedTask.dueDate?.getTime() !== existingTask.dueDate?.getTime(),
+          repeat: recurrenceChanged && recurrence ? recurrence : undefined,
+        });
+      } else if (recurrence && updatedTask.dueDate) {
+        updatedTask = await startRecurrence({ ...updatedTask, dueDate: updatedTask.dueDate }, recurrence, req.user!.id);
+      }
       
       // Broadcast task update
       broadcastMessage({
         type: 'task_update',
         payload: { action: 'updated', task: updatedTask }
       });
+      emitWebhookEvent("task.updated", { task: updatedTask });
+      
+      // Completing the latest occurrence of a repeating task brings up the next one
+      if (
+        updatedTask.recurrenceId !== null &&
+        newStatus?.category === "done" &&
+        !isDoneStatus(previousWorkflow, existingTask.status)
+      ) {
+        await createNextOccurrence(updatedTask.recurrenceId, req.user!.id, taskId).catch(error => {
+          console.error("Error creating next occurrence:", error);
+        });
+      }
       
       res.json(updatedTask);
     } catch (error) {
       console.error("Error updating task:", error);
       res.status(500).json({ message: "Failed to update task", error: (error as Error).message });
     }
-  });
+  }));
 
-  app.delete("/api/tasks/:id", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.delete("/api/tasks/:id", authorizeTask("tasks:delete"), asyncHandler(async (req, res) => {
     const taskId = parseInt(req.params.id);
+    // Attachment records go with the task (and its subtasks), their files are removed here
+    const deletedTasks = await getTaskTree(taskId);
+    const attachments = await getAttachmentsOfTasks(deletedTasks);
     const success = await storage.deleteTask(taskId);
     if (!success) {
       return res.status(404).json({ message: "Task not found" });
     }
+    await removeAttachmentBlobs(attachments);
+    
+    for (const deletedTask of deletedTasks) {
+      await recordTaskEvent(deletedTask.id, req.user!.id, "deleted", {
+        projectId: deletedTask.projectId,
+        details: deletedTask.id === taskId
+          ? { title: deletedTask.title }
+          : { title: deletedTask.title, reason: "parentDeleted", parentId: deletedTask.parentId }
+      });
+    }
     
     // Broadcast task deletion
     broadcastMessage({
       type: 'task_update',
       payload: { action: 'deleted', taskId }
     });
+    emitWebhookEvent("task.deleted", { taskId });
     
     res.status(204).send();
-  });
+  }));
 
-  // Task Assignees
-  app.post("/api/tasks/:id/assignees", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  // Subtasks
+  app.get("/api/tasks/:id/subtasks", requireAuth, asyncHandler(async (req, res) => {
     const taskId = parseInt(req.params.id);
-    const { userId } = req.body;
-    
-    const assignee = await storage.assignTaskToUser(taskId, userId);
     const task = await storage.getTask(taskId);
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+    const subtasks = await storage.getSubtasks(taskId);
+    res.json(subtasks);
+  }));
+
+  app.post("/api/tasks/:id/subtasks", authorizeTask("tasks:update"), asyncHandler(async (req, res) => {
+    const taskId = parseInt(req.params.id);
     
-    if (task) {
-      // Create notification for assigned user
-      const notification = await storage.createNotification({
-        userId,
-        type: 'task_assigned',
-        title: 'New Task Assignment',
-        message: `You have been assigned to task: ${task.title}`,
-        relatedId: taskId
-      });
+    try {
+      if (!(await storage.getTask(taskId))) {
+        return res.status(404).json({ message: "Task not found" });
+      }
       
-      // Send real-time notification to the assigned user
-      sendMessageToUser(userId, {
-        type: 'notification',
-        payload: notification
-      });
+      const parsed = await parseNewTask({ ...req.body, parentId: taskId }, req.user!.id);
+      if ('error' in parsed) {
+        return res.status(400).json({ message: parsed.error });
+      }
+      
+      const subtask = await storage.createTask(parsed.task);
+      await recordTaskEvent(subtask.id, req.user!.id, "created");
       
-      // Broadcast assignment to all clients
       broadcastMessage({
-        type: 'task_assigned',
-        payload: { taskId, userId, task }
+        type: 'task_update',
+        payload: { action: 'created', task: subtask }
       });
+      emitWebhookEvent("task.created", { task: subtask });
+      
+      res.status(201).json(subtask);
+    } catch (error) {
+      console.error("Error creating subtask:", error);
+      res.status(500).json({ message: "Failed to create subtask", error: (error as Error).message });
     }
-    
-    res.status(201).json(assignee);
-  });
+  }));
 
-  app.delete("/api/tasks/:taskId/assignees/:userId", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  // The series a repeating task belongs to, also once it stopped repeating
+  app.get("/api/tasks/:id/recurrence", requireAuth, asyncHandler(async (req, res) => {
+    const task = await storage.getTask(parseInt(req.params.id));
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+    const recurrence = task.recurrenceId !== null ? await storage.getTaskRecurrence(task.recurrenceId) : undefined;
+    if (!recurrence) {
+      return res.status(404).json({ message: "Task does not repeat" });
+    }
+    res.json(recurrence);
+  }));
+
+  // Task history, oldest first. Still available after the task is deleted.
+  app.get("/api/tasks/:id/history", requireAuth, asyncHandler(async (req, res) => {
+    const taskId = parseInt(req.params.id);
+    const events = await storage.getTaskEvents(taskId);
+    if (events.length === 0 && !(await storage.getTask(taskId))) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+    res.json(events);
+  }));
+
+  // Activity feed across tasks, newest first
+  app.get("/api/activity", requireAuth, asyncHandler(async (req, res) => {
+    
+    const parsed = parseActivityQuery(req.query);
+    if ('error' in parsed) {
+      return res.status(400).json({ message: parsed.error });
+    }
+    const query = parsed.query;
+    
+    // Fetch one extra event to tell whether another page follows
+    const events = await storage.getActivity({ ...query, limit: query.limit + 1 });
+    const page = events.slice(0, query.limit);
+    if (events.length > query.limit) {
+      res.setHeader("X-Next-Cursor", String(page[page.length - 1].id));
+    }
+    res.json(await toActivityItems(page));
+  }));
+
+  // Task Dependencies
+  app.get("/api/dependencies", requireAuth, asyncHandler(async (req, res) => {
+    const dependencies = await storage.getTaskDependencies();
+    res.json(dependencies);
+  }));
+
+  app.get("/api/tasks/:id/dependencies", requireAuth, asyncHandler(async (req, res) => {
+    const taskId = parseInt(req.params.id);
+    if (!(await storage.getTask(taskId))) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+    
+    const dependencies = await storage.getTaskDependenciesByTaskId(taskId);
+    const blockedBy: Task[] = [];
+    const blocking: Task[] = [];
+    for (const dependency of dependencies) {
+      if (dependency.blockedTaskId === taskId) {
+        const blocker = await storage.getTask(dependency.blockingTaskId);
+        if (blocker) blockedBy.push(blocker);
+      } else {
+        const blocked = await storage.getTask(dependency.blockedTaskId);
+        if (blocked) blocking.push(blocked);
+      }
+    }
+    
+    res.json({ blockedBy, blocking });
+  }));
+
+  // Declare that another task blocks this one
+  app.post("/api/tasks/:id/dependencies", authorizeTask("tasks:update"), asyncHandler(async (req, res) => {
+    const taskId = parseInt(req.params.id);
+    const blockingTaskId = Number(req.body.blockingTaskId);
+    
+    if (!Number.isInteger(blockingTaskId)) {
+      return res.status(400).json({ message: "blockingTaskId must be a task id" });
+    }
+    if (blockingTaskId === taskId) {
+      return res.status(400).json({ message: "A task cannot block itself" });
+    }
+    if (!(await storage.getTask(taskId)) || !(await storage.getTask(blockingTaskId))) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+    
+    const dependencies = await storage.getTaskDependencies();
+    if (dependencies.some(d => d.blockingTaskId === blockingTaskId && d.blockedTaskId === taskId)) {
+      return res.status(409).json({ message: "Dependency already exists" });
+    }
+    if (createsDependencyCycle(dependencies, blockingTaskId, taskId)) {
+      return res.status(409).json({ message: "Dependency would create a cycle", code: "dependency_cycle" });
+    }
+    
+    const dependency = await storage.createTaskDependency({ blockingTaskId, blockedTaskId: taskId });
+    await recordTaskEvent(taskId, req.user!.id, "dependencyAdded", { details: { blockingTaskId } });
+    res.status(201).json(dependency);
+  }));
+
+  app.delete("/api/tasks/:id/dependencies/:blockingTaskId", authorizeTask("tasks:update"), asyncHandler(async (req, res) => {
+    const taskId = parseInt(req.params.id);
+    const blockingTaskId = parseInt(req.params.blockingTaskId);
+    
+    const success = await storage.deleteTaskDependency(blockingTaskId, taskId);
+    if (!success) {
+      return res.status(404).json({ message: "Dependency not found" });
+    }
+    await recordTaskEvent(taskId, req.user!.id, "dependencyRemoved", { details: { blockingTaskId } });
+    res.status(204).send();
+  }));
+
+  // Task templates API
+  app.get("/api/task-templates", requireAuth, asyncHandler(async (req, res) => {
+    const templates = await storage.getTaskTemplates();
+    res.json(templates);
+  }));
+
+  app.post("/api/task-templates", authorize("templates:manage"), asyncHandler(async (req, res) => {
+    const parsed = taskTemplateRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    const error = await checkTemplateReferences(parsed.data);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    
+    const template = await storage.createTaskTemplate({
+      ...parsed.data,
+      assigneeIds: Array.from(new Set(parsed.data.assigneeIds ?? [])),
+      createdById: req.user!.id,
+    });
+    res.status(201).json(template);
+  }));
+
+  app.put("/api/task-templates/:id", authorize("templates:manage"), asyncHandler(async (req, res) => {
+    const parsed = taskTemplateRequestSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    const error = await checkTemplateReferences(parsed.data);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    
+    const update = parsed.data.assigneeIds
+      ? { ...parsed.data, assigneeIds: Array.from(new Set(parsed.data.assigneeIds)) }
+      : parsed.data;
+    const template = await storage.updateTaskTemplate(parseInt(req.params.id), update);
+    if (!template) {
+      return res.status(404).json({ message: "Template not found" });
+    }
+    res.json(template);
+  }));
+
+  // Bundles keep working without the template
+  app.delete("/api/task-templates/:id", authorize("templates:manage"), asyncHandler(async (req, res) => {
+    const success = await storage.deleteTaskTemplate(parseInt(req.params.id));
+    if (!success) {
+      return res.status(404).json({ message: "Template not found" });
+    }
+    res.status(204).send();
+  }));
+
+  app.get("/api/task-template-bundles", requireAuth, asyncHandler(async (req, res) => {
+    const bundles = await storage.getTaskTemplateBundles();
+    res.json(bundles);
+  }));
+
+  app.post("/api/task-template-bundles", authorize("templates:manage"), asyncHandler(async (req, res) => {
+    const parsed = taskTemplateBundleRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    const templates = await getBundleTemplates(parsed.data.templateIds);
+    if ('error' in templates) {
+      return res.status(400).json({ message: templates.error });
+    }
+    
+    const bundle = await storage.createTaskTemplateBundle({ ...parsed.data, createdById: req.user!.id });
+    res.status(201).json(bundle);
+  }));
+
+  app.put("/api/task-template-bundles/:id", authorize("templates:manage"), asyncHandler(async (req, res) => {
+    const parsed = taskTemplateBundleRequestSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    if (parsed.data.templateIds) {
+      const templates = await getBundleTemplates(parsed.data.templateIds);
+      if ('error' in templates) {
+        return res.status(400).json({ message: templates.error });
+      }
+    }
+    
+    const bundle = await storage.updateTaskTemplateBundle(parseInt(req.params.id), parsed.data);
+    if (!bundle) {
+      return res.status(404).json({ message: "Template bundle not found" });
+    }
+    res.json(bundle);
+  }));
+
+  app.delete("/api/task-template-bundles/:id", authorize("templates:manage"), asyncHandler(async (req, res) => {
+    const success = await storage.deleteTaskTemplateBundle(parseInt(req.params.id));
+    if (!success) {
+      return res.status(404).json({ message: "Template bundle not found" });
+    }
+    res.status(204).send();
+  }));
+
+  // Labels API
+  app.get("/api/labels", requireAuth, asyncHandler(async (req, res) => {
+    const labels = await storage.getLabels();
+    res.json(labels);
+  }));
+
+  app.post("/api/labels", authorize("labels:manage"), asyncHandler(async (req, res) => {
+    
+    const result = insertLabelSchema.safeParse({
+      ...req.body,
+      name: typeof req.body.name === 'string' ? req.body.name.trim() : req.body.name,
+      createdById: req.user!.id,
+    });
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid label data", errors: result.error.errors });
+    }
+    if (!result.data.name) {
+      return res.status(400).json({ message: "Label name is required" });
+    }
+    if (await storage.getLabelByName(result.data.name)) {
+      return res.status(409).json({ message: "A label with this name already exists" });
+    }
+    
+    const label = await storage.createLabel(result.data);
+    res.status(201).json(label);
+  }));
+
+  app.put("/api/labels/:id", authorize("labels:manage"), asyncHandler(async (req, res) => {
+    const labelId = parseInt(req.params.id);
+    
+    const update: Partial<Label> = {};
+    
+    if ('name' in req.body && req.body.name !== undefined) {
+      if (typeof req.body.name !== 'string' || !req.body.name.trim()) {
+        return res.status(400).json({ message: "Label name must be a non-empty string" });
+      }
+      const existing = await storage.getLabelByName(req.body.name.trim());
+      if (existing && existing.id !== labelId) {
+        return res.status(409).json({ message: "A label with this name already exists" });
+      }
+      update.name = req.body.name.trim();
+    }
+    
+    if ('color' in req.body && req.body.color !== undefined) {
+      if (typeof req.body.color !== 'string' || !req.body.color) {
+        return res.status(400).json({ message: "Label color must be a non-empty string" });
+      }
+      update.color = req.body.color;
+    }
+    
+    const updatedLabel = await storage.updateLabel(labelId, update);
+    if (!updatedLabel) {
+      return res.status(404).json({ message: "Label not found" });
+    }
+    res.json(updatedLabel);
+  }));
+
+  app.delete("/api/labels/:id", authorize("labels:manage"), asyncHandler(async (req, res) => {
+    const labelId = parseInt(req.params.id);
+    const success = await storage.deleteLabel(labelId);
+    if (!success) {
+      return res.status(404).json({ message: "Label not found" });
+    }
+    res.status(204).send();
+  }));
+
+  // Every task/label pair, so the board can render chips without a request per card
+  app.get("/api/task-labels", requireAuth, asyncHandler(async (req, res) => {
+    const taskLabels = await storage.getTaskLabels();
+    res.json(taskLabels);
+  }));
+
+  app.get("/api/tasks/:id/labels", requireAuth, asyncHandler(async (req, res) => {
+    const taskId = parseInt(req.params.id);
+    if (!(await storage.getTask(taskId))) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+    const labels = await storage.getLabelsByTaskId(taskId);
+    res.json(labels);
+  }));
+
+  app.post("/api/tasks/:id/labels", authorizeTask("tasks:update"), asyncHandler(async (req, res) => {
+    const taskId = parseInt(req.params.id);
+    const labelId = Number(req.body.labelId);
+    
+    if (!req.body.labelId || isNaN(labelId)) {
+      return res.status(400).json({ message: "labelId is required and must be a number" });
+    }
+    if (!(await storage.getTask(taskId))) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+    const label = await storage.getLabel(labelId);
+    if (!label) {
+      return res.status(404).json({ message: "Label not found" });
+    }
+    
+    const current = await storage.getLabelsByTaskId(taskId);
+    if (current.some(label => label.id === labelId)) {
+      return res.status(409).json({ message: "Task already has this label" });
+    }
+    
+    const taskLabel = await storage.addLabelToTask(taskId, labelId);
+    await recordTaskEvent(taskId, req.user!.id, "labelAdded", { details: { labelId, labelName: label.name } });
+    res.status(201).json(taskLabel);
+  }));
+
+  app.delete("/api/tasks/:id/labels/:labelId", authorizeTask("tasks:update"), asyncHandler(async (req, res) => {
+    const taskId = parseInt(req.params.id);
+    const labelId = parseInt(req.params.labelId);
+    const label = await storage.getLabel(labelId);
+    const success = await storage.removeLabelFromTask(taskId, labelId);
+    if (!success) {
+      return res.status(404).json({ message: "Label is not attached to this task" });
+    }
+    await recordTaskEvent(taskId, req.user!.id, "labelRemoved", { details: { labelId, labelName: label?.name } });
+    res.status(204).send();
+  }));
+
+  // Task Assignees
+  app.post("/api/tasks/:id/assignees", authorizeTask("tasks:assign"), asyncHandler(async (req, res) => {
+    const taskId = parseInt(req.params.id);
+    const parsed = taskAssigneeRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    const { userId } = parsed.data;
+    if (!(await storage.getUser(userId))) {
+      return res.status(400).json({ message: `User ${userId} does not exist` });
+    }
+    
+    const assignee = await assignTask(taskId, userId, req.user!.id);
+    res.status(201).json(assignee);
+  }));
+
+  app.delete("/api/tasks/:taskId/assignees/:userId", authorizeTask("tasks:assign", "taskId"), asyncHandler(async (req, res) => {
     const taskId = parseInt(req.params.taskId);
     const userId = parseInt(req.params.userId);
     
@@ -307,19 +1471,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     if (!success) {
       return res.status(404).json({ message: "Assignment not found" });
     }
+    await recordTaskEvent(taskId, req.user!.id, "unassigned", { details: { assigneeId: userId } });
     res.status(204).send();
-  });
+  }));
 
   // Comments
-  app.get("/api/tasks/:id/comments", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.get("/api/tasks/:id/comments", requireAuth, asyncHandler(async (req, res) => {
     const taskId = parseInt(req.params.id);
     const comments = await storage.getCommentsByTaskId(taskId);
     res.json(comments);
-  });
+  }));
 
-  app.post("/api/tasks/:id/comments", validateRequest({ body: insertCommentSchema }), async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.post("/api/tasks/:id/comments", authorizeTask("tasks:comment"), validateRequest({ body: insertCommentSchema }), asyncHandler(async (req, res) => {
     const taskId = parseInt(req.params.id);
     const userId = req.user!.id;
     
@@ -328,6 +1491,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       taskId,
       userId,
     });
+    await recordTaskEvent(taskId, userId, "commented", { details: { commentId: comment.id } });
     
     // Get task and assignees for notifications
     const task = await storage.getTask(taskId);
@@ -339,56 +1503,147 @@ export async function registerRoutes(app: Express): Promise<Server> {
         type: 'comment_added',
         payload: { comment, task }
       }, userId); // Don't send to the comment author
+      emitWebhookEvent("comment.created", { comment, task });
       
-      // Notify task assignees
-      for (const assignee of assignees) {
-        // Don't notify the comment author
-        if (assignee.userId !== userId) {
-          const notification = await storage.createNotification({
-            userId: assignee.userId,
-            type: 'comment_added',
-            title: 'New Comment',
-            message: `New comment on task: ${task.title}`,
-            relatedId: taskId
-          });
-          
-          // Send real-time notification
-          sendMessageToUser(assignee.userId, {
-            type: 'notification',
-            payload: notification
-          });
-        }
-      }
+      // Notify task assignees, except the comment author
+      await notify(assignees.map(a => a.userId).filter(id => id !== userId), {
+        type: 'comment_added',
+        title: 'New Comment',
+        message: `New comment on task: ${task.title}`,
+        relatedId: taskId
+      });
     }
     
     res.status(201).json(comment);
-  });
+  }));
+
+  // Attachments
+  app.get("/api/tasks/:id/attachments", requireAuth, asyncHandler(async (req, res) => {
+    const taskId = parseInt(req.params.id);
+    const attachments = await storage.getAttachmentsByTaskId(taskId);
+    res.json(attachments);
+  }));
+
+  app.post("/api/tasks/:id/attachments", authorizeTask("tasks:update"), asyncHandler(async (req, res, next) => {
+    const task = await storage.getTask(parseInt(req.params.id));
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+    next();
+  }), receiveAttachment, asyncHandler(async (req, res) => {
+    const taskId = parseInt(req.params.id);
+    
+    try {
+      const attachment = await storeAttachment(taskId, req.user!.id, req.file!);
+      await recordTaskEvent(taskId, req.user!.id, "attachmentAdded", {
+        details: { attachmentId: attachment.id, fileName: attachment.fileName }
+      });
+      
+      broadcastMessage({
+        type: 'task_update',
+        payload: { action: 'attachment_added', taskId, attachment }
+      }, req.user!.id);
+      emitWebhookEvent("attachment.created", { taskId, attachment });
+      
+      res.status(201).json(attachment);
+    } catch (error) {
+      console.error("Error storing attachment:", error);
+      res.status(500).json({ message: "Failed to store attachment", error: (error as Error).message });
+    }
+  }));
+
+  app.get("/api/tasks/:id/attachments/:attachmentId/download", requireAuth, asyncHandler(async (req, res) => {
+    const attachment = await findTaskAttachment(req.params.id, req.params.attachmentId);
+    if (!attachment) {
+      return res.status(404).json({ message: "Attachment not found" });
+    }
+    
+    let stream: Readable | undefined;
+    try {
+      stream = await getBlobStore().get(attachment.storageKey);
+    } catch (error) {
+      console.error("Error reading attachment:", error);
+      return res.status(500).json({ message: "Failed to read attachment" });
+    }
+    if (!stream) {
+      return res.status(404).json({ message: "Attachment file is missing" });
+    }
+    
+    res.attachment(attachment.fileName);
+    res.type(attachment.fileType);
+    res.setHeader("Content-Length", attachment.fileSize);
+    sendBlob(stream, res, "attachment");
+  }));
+
+  app.get("/api/tasks/:id/attachments/:attachmentId/thumbnail", requireAuth, asyncHandler(async (req, res) => {
+    const attachment = await findTaskAttachment(req.params.id, req.params.attachmentId);
+    if (!attachment || !attachment.thumbnailKey) {
+      return res.status(404).json({ message: "Thumbnail not found" });
+    }
+    
+    let stream: Readable | undefined;
+    try {
+      stream = await getBlobStore().get(attachment.thumbnailKey);
+    } catch (error) {
+      console.error("Error reading thumbnail:", error);
+      return res.status(500).json({ message: "Failed to read thumbnail" });
+    }
+    if (!stream) {
+      return res.status(404).json({ message: "Thumbnail not found" });
+    }
+    
+    res.type("image/webp");
+    res.setHeader("Cache-Control", "private, max-age=86400");
+    sendBlob(stream, res, "thumbnail");
+  }));
+
+  app.delete("/api/tasks/:id/attachments/:attachmentId", requireAuth, asyncHandler(async (req, res) => {
+    const attachment = await findTaskAttachment(req.params.id, req.params.attachmentId);
+    if (!attachment) {
+      return res.status(404).json({ message: "Attachment not found" });
+    }
+    
+    if (!can(req.user, "attachments:delete", attachment.userId === req.user!.id ? ["creator"] : [])) {
+      return forbidden(res, "attachments:delete");
+    }
+    
+    await storage.deleteAttachment(attachment.id);
+    await removeAttachmentBlobs([attachment]);
+    await recordTaskEvent(attachment.taskId, req.user!.id, "attachmentRemoved", {
+      details: { attachmentId: attachment.id, fileName: attachment.fileName }
+    });
+    res.status(204).send();
+  }));
 
   // Time entries
-  app.get("/api/timeEntries", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.get("/api/timeEntries", requireAuth, asyncHandler(async (req, res) => {
     // In a real app, you might want to filter by user or date range
     const timeEntries = await storage.getTimeEntriesByUserId(req.user!.id);
     res.json(timeEntries);
-  });
+  }));
 
-  app.get("/api/tasks/:id/time", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.get("/api/tasks/:id/time", requireAuth, asyncHandler(async (req, res) => {
     const taskId = parseInt(req.params.id);
     const timeEntries = await storage.getTimeEntriesByTaskId(taskId);
     res.json(timeEntries);
-  });
+  }));
   
-  app.post("/api/tasks/:id/time", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.post("/api/tasks/:id/time", authorizeTask("tasks:logTime"), asyncHandler(async (req, res) => {
     const taskId = parseInt(req.params.id);
     const userId = req.user!.id;
+    const parsed = timeEntryRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
     
     const timeEntry = await storage.createTimeEntry({
-      ...req.body,
+      ...parsed.data,
       taskId,
       userId,
     });
+    await recordTaskEvent(taskId, userId, "timeLogged", {
+      details: { timeEntryId: timeEntry.id, duration: timeEntry.duration }
+    });
     
     // Get task and assignees for notifications
     const task = await storage.getTask(taskId);
@@ -405,6 +1660,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           task
         }
       });
+      emitWebhookEvent("timeEntry.created", { taskId, userId, timeEntry, task });
       
       // Notify task assignees and creator (if different from current user)
       const notifyUsers = [...assignees.map(a => a.userId)];
@@ -412,122 +1668,350 @@ export async function registerRoutes(app: Express): Promise<Server> {
         notifyUsers.push(task.createdById);
       }
       
-      // Create and send notifications
-      for (const notifyUserId of notifyUsers) {
-        if (notifyUserId !== userId) { // Don't notify the time entry creator
-          const notification = await storage.createNotification({
-            userId: notifyUserId,
-            type: 'time_tracked',
-            title: 'Time Entry Added',
-            message: `New time entry logged for task: ${task.title}`,
-            relatedId: taskId
-          });
-          
-          // Send real-time notification
-          sendMessageToUser(notifyUserId, {
-            type: 'notification',
-            payload: notification
-          });
-        }
-      }
+      // Don't notify the time entry creator
+      await notify(notifyUsers.filter(id => id !== userId), {
+        type: 'time_tracked',
+        title: 'Time Entry Added',
+        message: `New time entry logged for task: ${task.title}`,
+        relatedId: taskId
+      });
     }
     
     res.status(201).json(timeEntry);
-  });
+  }));
 
   // Users
-  app.get("/api/users", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.get("/api/users", requireAuth, asyncHandler(async (req, res) => {
     const users = await storage.getUsers();
-    res.json(users);
-  });
+    res.json(users.map(toPublicUser));
+  }));
+
+  app.put("/api/users/:id/role", authorize("users:changeRole"), asyncHandler(async (req, res) => {
+    const userId = parseInt(req.params.id);
+    const { role } = req.body;
+    if (!roles.includes(role)) {
+      return res.status(400).json({ message: `Role must be one of: ${roles.join(", ")}` });
+    }
+    
+    const user = await storage.getUser(userId);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    
+    // Someone must always be able to manage roles
+    if (user.role === "admin" && role !== "admin") {
+      const admins = (await storage.getUsers()).filter(other => other.role === "admin");
+      if (admins.length === 1) {
+        return res.status(409).json({ message: "The last admin cannot be demoted", code: "lastAdmin" });
+      }
+    }
+    
+    const updatedUser = await storage.updateUser(userId, { role });
+    res.json(updatedUser && toPublicUser(updatedUser));
+  }));
+
+  // Invitations
+  app.get("/api/invitations", authorize("users:invite"), asyncHandler(async (req, res) => {
+    const invitations = await storage.getInvitations();
+    res.json(invitations.map(toPublicInvitation));
+  }));
+
+  app.post("/api/invitations", authorize("users:invite"), asyncHandler(async (req, res) => {
+    const parsed = invitationRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    const { email, role, expiresInDays } = parsed.data;
+    
+    const users = await storage.getUsers();
+    if (users.some(user => user.email.toLowerCase() === email.toLowerCase())) {
+      return res.status(409).json({ message: "A user with this email already exists", code: "emailInUse" });
+    }
+    
+    // The token is only returned here; the inviter passes the link on
+    const { invitation, token } = await createInvitation(email, role, req.user!.id, expiresInDays);
+    res.status(201).json({ ...toPublicInvitation(invitation), token });
+  }));
+
+  app.delete("/api/invitations/:id", authorize("users:invite"), asyncHandler(async (req, res) => {
+    const success = await storage.deleteInvitation(parseInt(req.params.id));
+    if (!success) {
+      return res.status(404).json({ message: "Invitation not found" });
+    }
+    res.status(204).send();
+  }));
+
+  // Public, so the registration form can show who is being invited
+  app.get("/api/invitations/token/:token", asyncHandler(async (req, res) => {
+    const invitation = await findOpenInvitation(req.params.token);
+    if (!invitation) {
+      return res.status(404).json({ message: "This invitation is invalid or has expired" });
+    }
+    res.json({ email: invitation.email, role: invitation.role, expiresAt: invitation.expiresAt });
+  }));
+
+  // Personal API tokens
+  app.get("/api/api-tokens", requireAuth, asyncHandler(async (req, res) => {
+    const tokens = await storage.getApiTokensByUserId(req.user!.id);
+    res.json(tokens.map(toPublicApiToken));
+  }));
+
+  app.post("/api/api-tokens", requireAuth, asyncHandler(async (req, res) => {
+    const parsed = apiTokenRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    const { name, scopes, expiresInDays } = parsed.data;
+    
+    // The plain token is only ever returned here
+    const { apiToken, token } = await createApiToken(req.user!.id, name, Array.from(new Set(scopes)), expiresInDays);
+    res.status(201).json({ ...toPublicApiToken(apiToken), token });
+  }));
+
+  app.delete("/api/api-tokens/:id", requireAuth, asyncHandler(async (req, res) => {
+    const tokenId = parseInt(req.params.id);
+    // Other users' tokens are reported as missing
+    const tokens = await storage.getApiTokensByUserId(req.user!.id);
+    if (!tokens.some(token => token.id === tokenId)) {
+      return res.status(404).json({ message: "API token not found" });
+    }
+    
+    await storage.deleteApiToken(tokenId);
+    res.status(204).send();
+  }));
+
+  // Calendar feeds
+  app.get("/api/calendar-feeds", requireAuth, asyncHandler(async (req, res) => {
+    const feeds = await storage.getCalendarFeedsByUserId(req.user!.id);
+    res.json(feeds.map(toPublicCalendarFeed));
+  }));
+
+  app.post("/api/calendar-feeds", requireAuth, asyncHandler(async (req, res) => {
+    const parsed = calendarFeedRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    const { projectId } = parsed.data;
+    if (projectId !== null && !(await storage.getProject(projectId))) {
+      return res.status(400).json({ message: "projectId does not reference an existing project" });
+    }
+    
+    // The feed URL is only ever returned here
+    const { feed, token } = await createCalendarFeed(req.user!.id, projectId);
+    res.status(201).json({ ...toPublicCalendarFeed(feed), path: getCalendarFeedPath(token) });
+  }));
+
+  app.delete("/api/calendar-feeds/:id", requireAuth, asyncHandler(async (req, res) => {
+    const feedId = parseInt(req.params.id);
+    // Other users' feeds are reported as missing
+    const feeds = await storage.getCalendarFeedsByUserId(req.user!.id);
+    if (!feeds.some(feed => feed.id === feedId)) {
+      return res.status(404).json({ message: "Calendar feed not found" });
+    }
+    
+    await storage.deleteCalendarFeed(feedId);
+    res.status(204).send();
+  }));
+
+  // Fetched by calendar apps, which cannot sign in; the token in the path is
+  // the credential. ?kind=todo lists tasks as to-dos instead of events.
+  app.get("/api/calendar/:token.ics", asyncHandler(async (req, res) => {
+    const query = calendarFeedQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "kind must be event or todo" });
+    }
+    const feed = await findCalendarFeed(req.params.token);
+    const calendar = feed && await buildCalendarFeed(feed, query.data.kind);
+    if (!calendar) {
+      return res.status(404).json({ message: "Calendar feed not found" });
+    }
+    res.type("text/calendar; charset=utf-8").send(calendar);
+  }));
+
+  // Webhooks
+  app.get("/api/webhooks", authorize("webhooks:manage"), asyncHandler(async (req, res) => {
+    const webhooks = await storage.getWebhooks();
+    res.json(webhooks.map(toPublicWebhook));
+  }));
+
+  app.post("/api/webhooks", authorize("webhooks:manage"), asyncHandler(async (req, res) => {
+    const parsed = webhookRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    
+    const webhook = await storage.createWebhook({
+      ...parsed.data,
+      events: Array.from(new Set(parsed.data.events)),
+      secret: createWebhookSecret(),
+      createdById: req.user!.id,
+    });
+    // The secret is only returned here, receivers need it to check signatures
+    res.status(201).json({ ...toPublicWebhook(webhook), secret: webhook.secret });
+  }));
+
+  app.put("/api/webhooks/:id", authorize("webhooks:manage"), asyncHandler(async (req, res) => {
+    const parsed = webhookRequestSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    
+    const update = parsed.data.events
+      ? { ...parsed.data, events: Array.from(new Set(parsed.data.events)) }
+      : parsed.data;
+    const webhook = await storage.updateWebhook(parseInt(req.params.id), update);
+    if (!webhook) {
+      return res.status(404).json({ message: "Webhook not found" });
+    }
+    res.json(toPublicWebhook(webhook));
+  }));
+
+  app.delete("/api/webhooks/:id", authorize("webhooks:manage"), asyncHandler(async (req, res) => {
+    const success = await storage.deleteWebhook(parseInt(req.params.id));
+    if (!success) {
+      return res.status(404).json({ message: "Webhook not found" });
+    }
+    res.status(204).send();
+  }));
+
+  // Delivery log, newest first, paged like /api/activity
+  app.get("/api/webhooks/:id/deliveries", authorize("webhooks:manage"), asyncHandler(async (req, res) => {
+    const webhookId = parseInt(req.params.id);
+    if (!(await storage.getWebhook(webhookId))) {
+      return res.status(404).json({ message: "Webhook not found" });
+    }
+    const parsed = webhookDeliveriesQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    const { cursor, limit } = parsed.data;
+    
+    const deliveries = await storage.getWebhookDeliveries(webhookId, cursor, limit + 1);
+    const page = deliveries.slice(0, limit);
+    if (deliveries.length > limit) {
+      res.setHeader("X-Next-Cursor", String(page[page.length - 1].id));
+    }
+    res.json(page);
+  }));
+
+  app.post("/api/webhooks/:id/test", authorize("webhooks:manage"), asyncHandler(async (req, res) => {
+    const webhook = await storage.getWebhook(parseInt(req.params.id));
+    if (!webhook) {
+      return res.status(404).json({ message: "Webhook not found" });
+    }
+    res.json(await sendTestEvent(webhook));
+  }));
+
+  // Security policy
+  app.get("/api/security-policy", authorize("security:manage"), asyncHandler(async (req, res) => {
+    res.json(await getSecurityPolicy());
+  }));
+
+  app.put("/api/security-policy", authorize("security:manage"), asyncHandler(async (req, res) => {
+    const parsed = securityPolicySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    await setSecurityPolicy(parsed.data);
+    res.json(parsed.data);
+  }));
+
+  app.get("/api/reminder-policy", authorize("reminders:manage"), asyncHandler(async (req, res) => {
+    res.json(await getReminderPolicy());
+  }));
+
+  app.put("/api/reminder-policy", authorize("reminders:manage"), asyncHandler(async (req, res) => {
+    const parsed = reminderPolicySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    await setReminderPolicy(parsed.data);
+    res.json(parsed.data);
+  }));
 
   // Notifications
-  app.get("/api/notifications", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    const userId = req.user!.id;
-    const notifications = await storage.getNotificationsByUserId(userId);
-    res.json(notifications);
-  });
+  app.get("/api/notifications", requireAuth, asyncHandler(async (req, res) => {
+    const parsed = parseNotificationQuery(req.user!.id, req.query);
+    if ('error' in parsed) {
+      return res.status(400).json({ message: parsed.error });
+    }
+    const query = parsed.query;
+    
+    // Fetch one extra notification to tell whether another page follows
+    const notifications = await storage.queryNotifications({ ...query, limit: query.limit + 1 });
+    const page = notifications.slice(0, query.limit);
+    if (notifications.length > query.limit) {
+      res.setHeader("X-Next-Cursor", String(page[page.length - 1].id));
+    }
+    res.json(page);
+  }));
+
+  app.get("/api/notifications/unread-count", requireAuth, asyncHandler(async (req, res) => {
+    res.json({ count: await storage.countUnreadNotifications(req.user!.id) });
+  }));
+
+  app.put("/api/notifications/read-all", requireAuth, asyncHandler(async (req, res) => {
+    const count = await storage.markAllNotificationsAsRead(req.user!.id);
+    await pushUnreadCount(req.user!.id);
+    res.json({ count });
+  }));
 
-  app.put("/api/notifications/:id/read", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.put("/api/notifications/:id/read", requireAuth, asyncHandler(async (req, res) => {
     const notificationId = parseInt(req.params.id);
+    // Users only see their own notifications, so others' are reported as missing
+    const notification = await storage.getNotification(notificationId);
+    if (!notification || notification.userId !== req.user!.id) {
+      return res.status(404).json({ message: "Notification not found" });
+    }
     const updatedNotification = await storage.markNotificationAsRead(notificationId);
     if (!updatedNotification) {
       return res.status(404).json({ message: "Notification not found" });
     }
+    await pushUnreadCount(req.user!.id);
     res.json(updatedNotification);
-  });
+  }));
+
+  // Bulk delete; ids of other users' notifications are skipped
+  app.delete("/api/notifications", requireAuth, asyncHandler(async (req, res) => {
+    const parsed = notificationIdsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    const count = await storage.deleteNotifications(req.user!.id, parsed.data.ids);
+    await pushUnreadCount(req.user!.id);
+    res.json({ count });
+  }));
+
+  app.get("/api/notification-preferences", requireAuth, asyncHandler(async (req, res) => {
+    res.json(await getNotificationPreferences(req.user!.id));
+  }));
+
+  // Types left out of the body keep their settings
+  app.put("/api/notification-preferences", requireAuth, asyncHandler(async (req, res) => {
+    const parsed = notificationPreferencesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    res.json(await updateNotificationPreferences(req.user!.id, parsed.data));
+  }));
+
+  app.get("/api/digest-settings", requireAuth, asyncHandler(async (req, res) => {
+    res.json(await getDigestSchedule(req.user!.id));
+  }));
+
+  app.put("/api/digest-settings", requireAuth, asyncHandler(async (req, res) => {
+    const parsed = digestSettingsRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    const { frequency, timeZone, lastSentAt } = await storage.setDigestSettings(req.user!.id, parsed.data);
+    res.json({ frequency, timeZone, lastSentAt });
+  }));
 
   // Create HTTP server
   const httpServer = createServer(app);
   
-  // Setup WebSocket server on a different path to avoid conflict with Vite HMR
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
-  
-  wss.on('connection', (ws, req) => {
-    // Extract session ID from cookies
-    const cookies = req.headers.cookie?.split(';').reduce((acc, cookie) => {
-      const [key, value] = cookie.trim().split('=');
-      acc[key] = value;
-      return acc;
-    }, {} as Record<string, string>) || {};
-    
-    // Authentication based on session cookie
-    const sessionId = cookies['connect.sid'];
-    
-    if (!sessionId) {
-      ws.close(1008, 'Unauthorized');
-      return;
-    }
-    
-    // Add a temporary client ID
-    let userId: number | undefined;
-    
-    // Get session data and user from session store
-    storage.sessionStore.get(sessionId.slice(2).split('.')[0], (err: Error | null, session: any) => {
-      if (err || !session || !session.passport || !session.passport.user) {
-        ws.close(1008, 'Unauthorized');
-        return;
-      }
-      
-      userId = session.passport.user;
-      
-      // Register the authenticated client
-      if (userId) {
-        wsClients.push({ userId, socket: ws });
-        
-        // Send initial connection confirmation
-        ws.send(JSON.stringify({ type: 'connected', payload: { userId } }));
-      }
-    });
-    
-    // Handle incoming messages
-    ws.on('message', (message) => {
-      try {
-        // Process messages if needed
-        const data = JSON.parse(message.toString());
-        console.log('Received:', data);
-      } catch (error) {
-        console.error('Invalid message format:', error);
-      }
-    });
-    
-    // Handle disconnection
-    ws.on('close', () => {
-      if (userId) {
-        // Remove client from the clients list
-        const index = wsClients.findIndex(client => 
-          client.userId === userId && client.socket === ws
-        );
-        
-        if (index !== -1) {
-          wsClients.splice(index, 1);
-        }
-      }
-    });
-  });
+  setupWebSocketServer(httpServer, sessionMiddleware);
 
   return httpServer;
 }
@@ -0,0 +1,16 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+describe("StorageFactory", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("fails instead of falling back when the chosen Postgres is unreachable", async () => {
+    // Set before the first import, which reads them and starts the factory
+    vi.stubEnv("STORAGE_DRIVER", "postgres");
+    vi.stubEnv("DATABASE_URL", "postgres://postgres@127.0.0.1:1/postgres");
+    const { StorageFactory } = await import("./storage");
+
+    await expect(StorageFactory.getStorage()).rejects.toThrow("Cannot connect to PostgreSQL");
+  });
+});
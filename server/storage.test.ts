@@ -0,0 +1,114 @@
+import { PGlite } from "@electric-sql/pglite";
+import { PGLiteSocketServer } from "@electric-sql/pglite-socket";
+import pg from "pg";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { PostgresStorage } from "./storage";
+import { decodeCursor } from "./task-query";
+
+// PGlite is Postgres compiled to WebAssembly; served over a socket it stands
+// in for a real server, so the migrations and queries run unchanged
+describe("PostgresStorage", () => {
+  let db: PGlite;
+  let server: PGLiteSocketServer;
+  let pool: pg.Pool;
+  let storage: PostgresStorage;
+
+  beforeAll(async () => {
+    db = await PGlite.create();
+    server = new PGLiteSocketServer({ db, port: 0 });
+    await server.start();
+    pool = new pg.Pool({ connectionString: `postgres://postgres@${server.getServerConn()}/postgres`, max: 1 });
+    storage = new PostgresStorage(pool);
+    await storage.initialize();
+  }, 60_000);
+
+  afterAll(async () => {
+    await pool?.end();
+    await server?.stop();
+    await db?.close();
+  });
+
+  it("migrates the schema and creates the admin user once", async () => {
+    await storage.initialize();
+
+    const users = await storage.getUsers();
+    expect(users.map(user => [user.username, user.role])).toEqual([["admin", "admin"]]);
+  });
+
+  it("finds users by email whatever the case", async () => {
+    const user = await storage.createUser({
+      username: "grace",
+      password: "unused",
+      email: "Grace.Hopper@Example.com",
+      fullName: "Grace Hopper",
+      role: "employee",
+    });
+
+    expect((await storage.getUserByEmail("grace.hopper@example.COM"))?.id).toBe(user.id);
+    expect(await storage.getUserByEmail("grace@example.com")).toBeUndefined();
+  });
+
+  it("accepts each TOTP step once and never an earlier one", async () => {
+    expect(await storage.useTotpStep(1, 100)).toBe(true);
+    expect(await storage.useTotpStep(1, 100)).toBe(false);
+    expect(await storage.useTotpStep(1, 99)).toBe(false);
+    expect(await storage.useTotpStep(1, 101)).toBe(true);
+  });
+
+  it("reads back what it writes", async () => {
+    const project = await storage.createProject({ name: "Launch", createdById: 1 });
+    const dueDate = new Date("2026-03-01T12:00:00Z");
+    const task = await storage.createTask({
+      title: "Write release notes",
+      status: "todo",
+      priority: "high",
+      dueDate,
+      createdById: 1,
+      projectId: project.id,
+    });
+
+    expect(await storage.getProject(project.id)).toMatchObject({ name: "Launch", createdById: 1 });
+    const saved = await storage.getTask(task.id);
+    expect(saved).toMatchObject({ title: "Write release notes", priority: "high", projectId: project.id });
+    expect(saved!.dueDate).toEqual(dueDate);
+    expect(saved!.createdAt).toBeInstanceOf(Date);
+  });
+
+  it("pages through tasks sorted by due date", async () => {
+    const project = await storage.createProject({ name: "Paging", createdById: 1 });
+    for (const day of [3, 1, 2]) {
+      await storage.createTask({
+        title: `Day ${day}`,
+        status: "todo",
+        priority: "low",
+        dueDate: new Date(Date.UTC(2026, 0, day)),
+        createdById: 1,
+        projectId: project.id,
+      });
+    }
+    const query = { projectId: project.id, sortBy: "dueDate", sortDirection: "asc", limit: 2 } as const;
+
+    const first = await storage.queryTasks(query);
+    expect(first.tasks.map(task => task.title)).toEqual(["Day 1", "Day 2"]);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = await storage.queryTasks({ ...query, cursor: decodeCursor(first.nextCursor!) });
+    expect(second.tasks.map(task => task.title)).toEqual(["Day 3"]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it("keeps the tasks of a deleted project", async () => {
+    const project = await storage.createProject({ name: "Short-lived", createdById: 1 });
+    const task = await storage.createTask({
+      title: "Outlives its project",
+      status: "todo",
+      priority: "medium",
+      createdById: 1,
+      projectId: project.id,
+    });
+
+    expect(await storage.deleteProject(project.id)).toBe(true);
+    expect(await storage.getProject(project.id)).toBeUndefined();
+    expect((await storage.getTask(task.id))?.projectId).toBeNull();
+  });
+});
@@ -1,10 +1,38 @@
 import { 
   User, 
   InsertUser, 
+  Invitation,
+  InsertInvitation,
+  PasswordResetToken,
+  InsertPasswordResetToken,
+  ApiToken,
+  InsertApiToken,
+  CalendarFeed,
+  InsertCalendarFeed,
+  Webhook,
+  InsertWebhook,
+  WebhookDelivery,
+  InsertWebhookDelivery,
+  Project,
+  InsertProject,
+  Workflow,
   Task, 
   InsertTask, 
+  TaskRecurrence,
+  InsertTaskRecurrence,
+  TaskReminder,
+  InsertTaskReminder,
+  TaskTemplate,
+  InsertTaskTemplate,
+  TaskTemplateBundle,
+  InsertTaskTemplateBundle,
   TaskAssignee, 
   InsertTaskAssignee,
+  TaskDependency,
+  InsertTaskDependency,
+  Label,
+  InsertLabel,
+  TaskLabel,
   Comment,
   InsertComment,
   Attachment,
@@ -13,26 +41,94 @@ import {
   InsertTimeEntry,
   Notification,
   InsertNotification,
+  NotificationPreferences,
+  NotificationType,
+  DigestSettings,
+  TaskEvent,
+  InsertTaskEvent,
   roles,
   taskStatus,
   taskPriority,
   TaskStatus,
-  TaskPriority
+  TaskPriority,
+  users,
+  projects,
+  workflows,
+  tasks,
+  taskRecurrences,
+  taskReminders,
+  taskTemplates,
+  taskTemplateBundles,
+  taskAssignees,
+  labels,
+  taskLabels,
+  taskDependencies,
+  comments,
+  attachments,
+  timeEntries,
+  notifications,
+  notificationPreferences,
+  digestSettings,
+  taskEvents,
+  invitations,
+  passwordResetTokens,
+  apiTokens,
+  calendarFeeds,
+  webhooks,
+  webhookDeliveries,
+  appSettings
 } from "@shared/schema";
 import session from "express-session";
 import MongoStore from "connect-mongo";
+import connectPg from "connect-pg-simple";
 import createMemoryStore from "memorystore";
 import mongoose from "mongoose";
-import { connectToDatabase, getConnection } from "./db";
+import pg from "pg";
+import path from "path";
+import { SQL, and, asc, desc, eq, gt, gte, ilike, inArray, isNotNull, isNull, lt, lte, or, sql } from "drizzle-orm";
+import { drizzle, NodePgDatabase } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import { connectToDatabase, connectToPostgres, getConnection } from "./db";
+import {
+  TaskQuery,
+  TaskPage,
+  TaskCursor,
+  compareSortValues,
+  getCursorForTask,
+  toTaskPage
+} from "./task-query";
+import type { ActivityQuery } from "./task-events";
+import type { NotificationQuery } from "./notifications";
 import { log } from "./vite";
+import { hashPassword } from "./passwords";
 import { 
+  CounterModel,
   UserModel, 
+  InvitationModel,
+  PasswordResetTokenModel,
+  ApiTokenModel,
+  CalendarFeedModel,
+  WebhookModel,
+  WebhookDeliveryModel,
+  AppSettingModel,
+  ProjectModel,
+  WorkflowModel,
   TaskModel, 
+  TaskRecurrenceModel,
+  TaskReminderModel,
+  TaskTemplateModel,
+  TaskTemplateBundleModel,
   TaskAssigneeModel, 
+  TaskDependencyModel,
+  LabelModel,
+  TaskLabelModel,
   CommentModel, 
   AttachmentModel, 
   TimeEntryModel, 
-  NotificationModel 
+  NotificationModel,
+  NotificationPreferencesModel,
+  DigestSettingsModel,
+  TaskEventModel
 } from "./models";
 
 // Modify the interface with any CRUD methods
@@ -41,28 +137,136 @@ export interface IStorage {
   // Users
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  // Ignores case; the oldest account when several share the address
+  getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, user: Partial<User>): Promise<User | undefined>;
   getUsers(): Promise<User[]>;
   
+  // Invitations
+  getInvitations(): Promise<Invitation[]>;
+  getInvitationByTokenHash(tokenHash: string): Promise<Invitation | undefined>;
+  createInvitation(invitation: InsertInvitation): Promise<Invitation>;
+  // Marks an open invitation as used; false when it was already accepted
+  acceptInvitation(id: number): Promise<boolean>;
+  deleteInvitation(id: number): Promise<boolean>;
+  
+  // Password reset tokens
+  getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  // Marks an unused token as used; false when it was already used
+  usePasswordResetToken(id: number): Promise<boolean>;
+  deletePasswordResetTokensByUserId(userId: number): Promise<void>;
+  
+  // API tokens
+  getApiTokensByUserId(userId: number): Promise<ApiToken[]>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  markApiTokenUsed(id: number, usedAt: Date): Promise<void>;
+  deleteApiToken(id: number): Promise<boolean>;
+  deleteApiTokensByUserId(userId: number): Promise<void>;
+  
+  // Calendar feeds (deleting a project deletes its feeds)
+  getCalendarFeedsByUserId(userId: number): Promise<CalendarFeed[]>;
+  getCalendarFeedByHash(tokenHash: string): Promise<CalendarFeed | undefined>;
+  createCalendarFeed(feed: InsertCalendarFeed): Promise<CalendarFeed>;
+  markCalendarFeedUsed(id: number, usedAt: Date): Promise<void>;
+  deleteCalendarFeed(id: number): Promise<boolean>;
+  
+  // Two-factor recovery codes
+  // Removes one of the user's recovery codes; false when it was already used
+  useRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  // Records the step of an accepted TOTP code; false when that step or a
+  // later one was already used
+  useTotpStep(userId: number, step: number): Promise<boolean>;
+  
+  // App settings (undefined when a key was never set)
+  getSetting(key: string): Promise<unknown>;
+  setSetting(key: string, value: unknown): Promise<void>;
+  
+  // Projects
+  getProjects(): Promise<Project[]>;
+  getProject(id: number): Promise<Project | undefined>;
+  createProject(project: InsertProject): Promise<Project>;
+  updateProject(id: number, project: Partial<Project>): Promise<Project | undefined>;
+  deleteProject(id: number): Promise<boolean>;
+  
+  // Workflows (keyed by project, a project without one uses the default workflow)
+  getWorkflows(): Promise<Workflow[]>;
+  getWorkflowByProjectId(projectId: number): Promise<Workflow | undefined>;
+  saveWorkflow(workflow: Omit<Workflow, "id">): Promise<Workflow>;
+  deleteWorkflow(projectId: number): Promise<boolean>;
+  
   // Tasks
   getTasks(): Promise<Task[]>;
+  getTasksByProjectId(projectId: number): Promise<Task[]>;
+  queryTasks(query: TaskQuery): Promise<TaskPage>;
   getTask(id: number): Promise<Task | undefined>;
+  getSubtasks(parentId: number): Promise<Task[]>;
   createTask(task: InsertTask): Promise<Task>;
   updateTask(id: number, task: Partial<Task>): Promise<Task | undefined>;
   deleteTask(id: number): Promise<boolean>;
   
+  // Task recurrences (deleting a project unscopes them like its tasks)
+  getTaskRecurrence(id: number): Promise<TaskRecurrence | undefined>;
+  // Running series whose current occurrence was scheduled at or before `now`
+  getDueTaskRecurrences(now: Date): Promise<TaskRecurrence[]>;
+  createTaskRecurrence(recurrence: InsertTaskRecurrence): Promise<TaskRecurrence>;
+  updateTaskRecurrence(id: number, recurrence: Partial<TaskRecurrence>): Promise<TaskRecurrence | undefined>;
+  
+  // Reminders sent for tasks, deleted with their task
+  getTaskReminders(taskIds: number[]): Promise<TaskReminder[]>;
+  createTaskReminder(reminder: InsertTaskReminder): Promise<TaskReminder>;
+  
+  // Task templates (deleting a project unscopes them, deleting one drops it from its bundles)
+  getTaskTemplates(): Promise<TaskTemplate[]>;
+  getTaskTemplate(id: number): Promise<TaskTemplate | undefined>;
+  createTaskTemplate(template: InsertTaskTemplate): Promise<TaskTemplate>;
+  updateTaskTemplate(id: number, template: Partial<TaskTemplate>): Promise<TaskTemplate | undefined>;
+  deleteTaskTemplate(id: number): Promise<boolean>;
+  
+  // Task template bundles
+  getTaskTemplateBundles(): Promise<TaskTemplateBundle[]>;
+  getTaskTemplateBundle(id: number): Promise<TaskTemplateBundle | undefined>;
+  createTaskTemplateBundle(bundle: InsertTaskTemplateBundle): Promise<TaskTemplateBundle>;
+  updateTaskTemplateBundle(id: number, bundle: Partial<TaskTemplateBundle>): Promise<TaskTemplateBundle | undefined>;
+  deleteTaskTemplateBundle(id: number): Promise<boolean>;
+  
   // Task Assignees
   getTaskAssignees(taskId: number): Promise<TaskAssignee[]>;
   assignTaskToUser(taskId: number, userId: number): Promise<TaskAssignee>;
   removeTaskAssignee(taskId: number, userId: number): Promise<boolean>;
   
+  // Labels
+  getLabels(): Promise<Label[]>;
+  getLabel(id: number): Promise<Label | undefined>;
+  getLabelByName(name: string): Promise<Label | undefined>;
+  createLabel(label: InsertLabel): Promise<Label>;
+  updateLabel(id: number, label: Partial<Label>): Promise<Label | undefined>;
+  deleteLabel(id: number): Promise<boolean>;
+  
+  // Task Labels
+  getTaskLabels(): Promise<TaskLabel[]>;
+  getLabelsByTaskId(taskId: number): Promise<Label[]>;
+  getTaskIdsByLabelIds(labelIds: number[]): Promise<number[]>;
+  addLabelToTask(taskId: number, labelId: number): Promise<TaskLabel>;
+  removeLabelFromTask(taskId: number, labelId: number): Promise<boolean>;
+  
+  // Task Dependencies
+  getTaskDependencies(): Promise<TaskDependency[]>;
+  getTaskDependenciesByTaskId(taskId: number): Promise<TaskDependency[]>;
+  createTaskDependency(dependency: InsertTaskDependency): Promise<TaskDependency>;
+  deleteTaskDependency(blockingTaskId: number, blockedTaskId: number): Promise<boolean>;
+  
   // Comments
   getCommentsByTaskId(taskId: number): Promise<Comment[]>;
   createComment(comment: InsertComment): Promise<Comment>;
   
   // Attachments
   getAttachmentsByTaskId(taskId: number): Promise<Attachment[]>;
+  getAttachment(id: number): Promise<Attachment | undefined>;
   createAttachment(attachment: InsertAttachment): Promise<Attachment>;
+  deleteAttachment(id: number): Promise<boolean>;
   
   // Time Entries
   getTimeEntriesByTaskId(taskId: number): Promise<TimeEntry[]>;
@@ -71,8 +275,42 @@ export interface IStorage {
   
   // Notifications
   getNotificationsByUserId(userId: number): Promise<Notification[]>;
+  getNotification(id: number): Promise<Notification | undefined>;
+  // One page of a user's notifications, newest first
+  queryNotifications(query: NotificationQuery): Promise<Notification[]>;
+  countUnreadNotifications(userId: number): Promise<number>;
   createNotification(notification: InsertNotification): Promise<Notification>;
   markNotificationAsRead(id: number): Promise<Notification | undefined>;
+  // Both return how many notifications changed; ids of other users are ignored
+  markAllNotificationsAsRead(userId: number): Promise<number>;
+  deleteNotifications(userId: number, ids: number[]): Promise<number>;
+  // Only the types the user changed; the rest use the defaults
+  getNotificationPreferences(userId: number): Promise<Partial<NotificationPreferences>>;
+  setNotificationPreferences(userId: number, preferences: Partial<NotificationPreferences>): Promise<void>;
+  // Undefined until the user changes the frequency or gets a digest
+  getDigestSettings(userId: number): Promise<DigestSettings | undefined>;
+  setDigestSettings(userId: number, settings: Pick<DigestSettings, "frequency" | "timeZone">): Promise<DigestSettings>;
+  markDigestSent(userId: number, sentAt: Date): Promise<void>;
+  
+  // Task history (append-only)
+  getTaskEvents(taskId: number): Promise<TaskEvent[]>;
+  createTaskEvent(event: InsertTaskEvent): Promise<TaskEvent>;
+  // Events across tasks for the activity feed, newest first
+  getActivity(query: ActivityQuery): Promise<TaskEvent[]>;
+  
+  // Webhooks (deleting a webhook deletes its deliveries)
+  getWebhooks(): Promise<Webhook[]>;
+  getWebhook(id: number): Promise<Webhook | undefined>;
+  createWebhook(webhook: InsertWebhook): Promise<Webhook>;
+  updateWebhook(id: number, webhook: Partial<Webhook>): Promise<Webhook | undefined>;
+  deleteWebhook(id: number): Promise<boolean>;
+  
+  // Webhook deliveries, newest first per webhook
+  getWebhookDeliveries(webhookId: number, beforeId: number | undefined, limit: number): Promise<WebhookDelivery[]>;
+  // Pending deliveries whose next attempt is due, oldest first
+  getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]>;
+  createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  updateWebhookDelivery(id: number, delivery: Partial<WebhookDelivery>): Promise<WebhookDelivery | undefined>;
   
   // Session store
   sessionStore: any;
@@ -81,19 +319,88 @@ export interface IStorage {
   initialize(): Promise<void>;
 }
 
-// Counter for auto-incrementing IDs
-class Counter {
-  private counters: Map<string, number>;
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Mongo condition selecting tasks that sort after the query's cursor.
+// Mongo orders null before any value, so nulls come first ascending and last descending.
+function getCursorCondition(query: TaskQuery): Record<string, any> {
+  const { value, id } = query.cursor!;
+  const field = query.sortBy;
+  const cursorValue = value !== null && field !== 'title' ? new Date(value) : value;
   
-  constructor() {
-    this.counters = new Map();
+  if (query.sortDirection === 'asc') {
+    if (cursorValue === null) {
+      return { $or: [{ [field]: null, id: { $gt: id } }, { [field]: { $ne: null } }] };
+    }
+    return { $or: [{ [field]: { $gt: cursorValue } }, { [field]: cursorValue, id: { $gt: id } }] };
   }
   
+  if (cursorValue === null) {
+    return { [field]: null, id: { $lt: id } };
+  }
+  return {
+    $or: [
+      { [field]: { $lt: cursorValue } },
+      { [field]: cursorValue, id: { $lt: id } },
+      { [field]: null }
+    ]
+  };
+}
+
+// Models whose numeric ids are issued by the Counter, keyed by sequence name
+const sequencedModels: Record<string, mongoose.Model<any>> = {
+  users: UserModel,
+  invitations: InvitationModel,
+  passwordResetTokens: PasswordResetTokenModel,
+  apiTokens: ApiTokenModel,
+  calendarFeeds: CalendarFeedModel,
+  webhooks: WebhookModel,
+  webhookDeliveries: WebhookDeliveryModel,
+  projects: ProjectModel,
+  workflows: WorkflowModel,
+  tasks: TaskModel,
+  taskRecurrences: TaskRecurrenceModel,
+  taskReminders: TaskReminderModel,
+  taskTemplates: TaskTemplateModel,
+  taskTemplateBundles: TaskTemplateBundleModel,
+  taskAssignees: TaskAssigneeModel,
+  labels: LabelModel,
+  taskLabels: TaskLabelModel,
+  taskDependencies: TaskDependencyModel,
+  comments: CommentModel,
+  attachments: AttachmentModel,
+  timeEntries: TimeEntryModel,
+  notifications: NotificationModel,
+  taskEvents: TaskEventModel,
+};
+
+// Auto-incrementing IDs backed by the counters collection, so sequences
+// survive restarts and are shared safely between server instances
+class Counter {
   async getNextId(collection: string): Promise<number> {
-    let currentId = this.counters.get(collection) || 0;
-    currentId++;
-    this.counters.set(collection, currentId);
-    return currentId;
+    const counter = await CounterModel.findOneAndUpdate(
+      { _id: collection },
+      { $inc: { seq: 1 } },
+      { upsert: true, new: true }
+    ).lean();
+    return counter!.seq;
+  }
+  
+  // Make sure no sequence is behind the ids already stored, e.g. for data
+  // written before the counters collection existed
+  async syncWithCollections(): Promise<void> {
+    for (const [collection, model] of Object.entries(sequencedModels)) {
+      const latest = await model.findOne({}, { id: 1 }).sort({ id: -1 }).lean<{ id: number }>();
+      if (!latest) continue;
+      
+      await CounterModel.updateOne(
+        { _id: collection },
+        { $max: { seq: latest.id } },
+        { upsert: true }
+      );
+    }
   }
 }
 
@@ -121,13 +428,15 @@ export class DatabaseStorage implements IStorage {
     }
     
     try {
+      await this.counter.syncWithCollections();
+      
       // Check if we need to create a default admin user
       const adminUser = await this.getUserByUsername("admin");
       if (!adminUser) {
         log("Creating default admin user...", "mongodb");
         await this.createUser({
           username: "admin",
-          password: "admin123", // This will be hashed in the auth layer
+          password: await hashPassword("admin123"), // Change after the first login
           email: "admin@taskflow.com",
           fullName: "Admin User",
           role: "admin",
@@ -151,6 +460,14 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
   
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const user = await UserModel.findOne({ email })
+      .collation({ locale: 'en', strength: 2 })
+      .sort({ id: 1 })
+      .lean();
+    return user || undefined;
+  }
+  
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = await this.counter.getNextId('users');
     // Cast to proper type and ensure default values
@@ -158,26 +475,335 @@ export class DatabaseStorage implements IStorage {
       ...insertUser, 
       id, 
       role: insertUser.role as "admin" | "manager" | "employee", 
-      avatar: insertUser.avatar || null 
+      avatar: insertUser.avatar || null,
+      totpSecret: null,
+      totpEnabled: false,
+      recoveryCodeHashes: [],
+      totpLastStep: null,
+      passwordChangedAt: null
     };
     await UserModel.create(user);
     return user;
   }
   
+  async updateUser(id: number, userUpdate: Partial<User>): Promise<User | undefined> {
+    const updatedUser = await UserModel.findOneAndUpdate(
+      { id },
+      { $set: userUpdate },
+      { new: true }
+    ).lean();
+    return updatedUser || undefined;
+  }
+  
   async getUsers(): Promise<User[]> {
     return await UserModel.find().lean();
   }
   
+  // Invitation methods
+  async getInvitations(): Promise<Invitation[]> {
+    return await InvitationModel.find().sort({ id: 1 }).lean();
+  }
+  
+  async getInvitationByTokenHash(tokenHash: string): Promise<Invitation | undefined> {
+    const invitation = await InvitationModel.findOne({ tokenHash }).lean();
+    return invitation || undefined;
+  }
+  
+  async createInvitation(insertInvitation: InsertInvitation): Promise<Invitation> {
+    const id = await this.counter.getNextId('invitations');
+    const invitation: Invitation = {
+      ...insertInvitation,
+      id,
+      role: insertInvitation.role as "admin" | "manager" | "employee",
+      acceptedAt: null,
+      createdAt: new Date()
+    };
+    await InvitationModel.create(invitation);
+    return invitation;
+  }
+  
+  async acceptInvitation(id: number): Promise<boolean> {
+    const result = await InvitationModel.updateOne(
+      { id, acceptedAt: null },
+      { $set: { acceptedAt: new Date() } }
+    );
+    return result.modifiedCount > 0;
+  }
+  
+  async deleteInvitation(id: number): Promise<boolean> {
+    const result = await InvitationModel.deleteOne({ id });
+    return result.deletedCount > 0;
+  }
+  
+  // Password reset token methods
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const token = await PasswordResetTokenModel.findOne({ tokenHash }).lean();
+    return token || undefined;
+  }
+  
+  async createPasswordResetToken(insertToken: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const id = await this.counter.getNextId('passwordResetTokens');
+    const token: PasswordResetToken = {
+      ...insertToken,
+      id,
+      usedAt: null,
+      createdAt: new Date()
+    };
+    await PasswordResetTokenModel.create(token);
+    return token;
+  }
+  
+  async usePasswordResetToken(id: number): Promise<boolean> {
+    const result = await PasswordResetTokenModel.updateOne(
+      { id, usedAt: null },
+      { $set: { usedAt: new Date() } }
+    );
+    return result.modifiedCount > 0;
+  }
+  
+  async deletePasswordResetTokensByUserId(userId: number): Promise<void> {
+    await PasswordResetTokenModel.deleteMany({ userId });
+  }
+  
+  // API token methods
+  async getApiTokensByUserId(userId: number): Promise<ApiToken[]> {
+    return await ApiTokenModel.find({ userId }).sort({ id: 1 }).lean();
+  }
+  
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const token = await ApiTokenModel.findOne({ tokenHash }).lean();
+    return token || undefined;
+  }
+  
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const id = await this.counter.getNextId('apiTokens');
+    const token: ApiToken = {
+      ...insertToken,
+      id,
+      expiresAt: insertToken.expiresAt ?? null,
+      lastUsedAt: null,
+      createdAt: new Date()
+    };
+    await ApiTokenModel.create(token);
+    return token;
+  }
+  
+  async markApiTokenUsed(id: number, usedAt: Date): Promise<void> {
+    await ApiTokenModel.updateOne({ id }, { $set: { lastUsedAt: usedAt } });
+  }
+  
+  async deleteApiToken(id: number): Promise<boolean> {
+    const result = await ApiTokenModel.deleteOne({ id });
+    return result.deletedCount > 0;
+  }
+  
+  async deleteApiTokensByUserId(userId: number): Promise<void> {
+    await ApiTokenModel.deleteMany({ userId });
+  }
+  
+  // Calendar feed methods
+  async getCalendarFeedsByUserId(userId: number): Promise<CalendarFeed[]> {
+    return await CalendarFeedModel.find({ userId }).sort({ id: 1 }).lean();
+  }
+  
+  async getCalendarFeedByHash(tokenHash: string): Promise<CalendarFeed | undefined> {
+    const feed = await CalendarFeedModel.findOne({ tokenHash }).lean();
+    return feed || undefined;
+  }
+  
+  async createCalendarFeed(insertFeed: InsertCalendarFeed): Promise<CalendarFeed> {
+    const id = await this.counter.getNextId('calendarFeeds');
+    const feed: CalendarFeed = {
+      ...insertFeed,
+      id,
+      projectId: insertFeed.projectId ?? null,
+      lastUsedAt: null,
+      createdAt: new Date()
+    };
+    await CalendarFeedModel.create(feed);
+    return feed;
+  }
+  
+  async markCalendarFeedUsed(id: number, usedAt: Date): Promise<void> {
+    await CalendarFeedModel.updateOne({ id }, { $set: { lastUsedAt: usedAt } });
+  }
+  
+  async deleteCalendarFeed(id: number): Promise<boolean> {
+    const result = await CalendarFeedModel.deleteOne({ id });
+    return result.deletedCount > 0;
+  }
+  
+  // Recovery code methods
+  async useRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const result = await UserModel.updateOne(
+      { id: userId, recoveryCodeHashes: codeHash },
+      { $pull: { recoveryCodeHashes: codeHash } }
+    );
+    return result.modifiedCount > 0;
+  }
+  
+  async useTotpStep(userId: number, step: number): Promise<boolean> {
+    const result = await UserModel.updateOne(
+      { id: userId, $or: [{ totpLastStep: null }, { totpLastStep: { $lt: step } }] },
+      { $set: { totpLastStep: step } }
+    );
+    return result.modifiedCount > 0;
+  }
+  
+  // App setting methods
+  async getSetting(key: string): Promise<unknown> {
+    const setting = await AppSettingModel.findOne({ key }).lean();
+    return setting?.value;
+  }
+  
+  async setSetting(key: string, value: unknown): Promise<void> {
+    await AppSettingModel.updateOne(
+      { key },
+      { $set: { value, updatedAt: new Date() } },
+      { upsert: true }
+    );
+  }
+  
+  // Project methods
+  async getProjects(): Promise<Project[]> {
+    return await ProjectModel.find().sort({ name: 1 }).lean();
+  }
+  
+  async getProject(id: number): Promise<Project | undefined> {
+    const project = await ProjectModel.findOne({ id }).lean();
+    return project || undefined;
+  }
+  
+  async createProject(insertProject: InsertProject): Promise<Project> {
+    const id = await this.counter.getNextId('projects');
+    const project: Project = {
+      id,
+      name: insertProject.name,
+      description: insertProject.description ?? null,
+      color: insertProject.color ?? null,
+      createdById: insertProject.createdById,
+      createdAt: new Date()
+    };
+    await ProjectModel.create(project);
+    return project;
+  }
+  
+  async updateProject(id: number, projectUpdate: Partial<Project>): Promise<Project | undefined> {
+    const updatedProject = await ProjectModel.findOneAndUpdate(
+      { id },
+      { $set: projectUpdate },
+      { new: true }
+    ).lean();
+    return updatedProject || undefined;
+  }
+  
+  async deleteProject(id: number): Promise<boolean> {
+    const result = await ProjectModel.deleteOne({ id });
+    if (result.deletedCount === 0) return false;
+    
+    // Tasks outlive their project; they simply become unscoped
+    await TaskModel.updateMany({ projectId: id }, { $set: { projectId: null } });
+    await TaskRecurrenceModel.updateMany({ projectId: id }, { $set: { projectId: null } });
+    await TaskTemplateModel.updateMany({ projectId: id }, { $set: { projectId: null } });
+    await WorkflowModel.deleteOne({ projectId: id });
+    await CalendarFeedModel.deleteMany({ projectId: id });
+    return true;
+  }
+  
+  // Workflow methods
+  async getWorkflows(): Promise<Workflow[]> {
+    return await WorkflowModel.find().lean();
+  }
+  
+  async getWorkflowByProjectId(projectId: number): Promise<Workflow | undefined> {
+    const workflow = await WorkflowModel.findOne({ projectId }).lean();
+    return workflow || undefined;
+  }
+  
+  async saveWorkflow(workflow: Omit<Workflow, "id">): Promise<Workflow> {
+    const existing = await WorkflowModel.findOne({ projectId: workflow.projectId }).lean();
+    const id = existing ? existing.id : await this.counter.getNextId('workflows');
+    const savedWorkflow: Workflow = { ...workflow, id };
+    await WorkflowModel.replaceOne({ projectId: workflow.projectId }, savedWorkflow, { upsert: true });
+    return savedWorkflow;
+  }
+  
+  async deleteWorkflow(projectId: number): Promise<boolean> {
+    const result = await WorkflowModel.deleteOne({ projectId });
+    return result.deletedCount > 0;
+  }
+  
   // Task methods
   async getTasks(): Promise<Task[]> {
     return await TaskModel.find().lean();
   }
   
+  async getTasksByProjectId(projectId: number): Promise<Task[]> {
+    return await TaskModel.find({ projectId }).lean();
+  }
+  
+  async queryTasks(query: TaskQuery): Promise<TaskPage> {
+    const conditions: Record<string, any>[] = [];
+    
+    if (query.ids) conditions.push({ id: { $in: query.ids } });
+    if (query.projectId !== undefined) conditions.push({ projectId: query.projectId });
+    if (query.parentIds === null) {
+      conditions.push({ parentId: null });
+    } else if (query.parentIds) {
+      conditions.push({ parentId: { $in: query.parentIds } });
+    }
+    if (query.status) conditions.push({ status: { $in: query.status } });
+    if (query.priority) conditions.push({ priority: { $in: query.priority } });
+    if (query.createdById !== undefined) conditions.push({ createdById: query.createdById });
+    
+    if (query.assigneeId !== undefined) {
+      const taskIds = await TaskAssigneeModel.distinct('taskId', { userId: query.assigneeId });
+      conditions.push({ id: { $in: taskIds } });
+    }
+    if (query.labelIds) {
+      conditions.push({ id: { $in: await this.getTaskIdsByLabelIds(query.labelIds) } });
+    }
+    
+    if (query.dueFrom || query.dueTo) {
+      const dueDate: Record<string, Date> = {};
+      if (query.dueFrom) dueDate.$gte = query.dueFrom;
+      if (query.dueTo) dueDate.$lte = query.dueTo;
+      conditions.push({ dueDate });
+    }
+    if (query.createdFrom || query.createdTo) {
+      const createdAt: Record<string, Date> = {};
+      if (query.createdFrom) createdAt.$gte = query.createdFrom;
+      if (query.createdTo) createdAt.$lte = query.createdTo;
+      conditions.push({ createdAt });
+    }
+    
+    if (query.search) {
+      const pattern = new RegExp(escapeRegExp(query.search), 'i');
+      conditions.push({ $or: [{ title: pattern }, { description: pattern }] });
+    }
+    
+    if (query.cursor) conditions.push(getCursorCondition(query));
+    
+    const direction = query.sortDirection === 'asc' ? 1 : -1;
+    const tasks = await TaskModel.find(conditions.length > 0 ? { $and: conditions } : {})
+      .sort({ [query.sortBy]: direction, id: direction })
+      // Fetch one extra row to know whether another page follows (0 means no limit)
+      .limit(query.limit !== undefined ? query.limit + 1 : 0)
+      .lean();
+    return toTaskPage(tasks, query);
+  }
+  
   async getTask(id: number): Promise<Task | undefined> {
     const task = await TaskModel.findOne({ id }).lean();
     return task || undefined;
   }
   
+  async getSubtasks(parentId: number): Promise<Task[]> {
+    return await TaskModel.find({ parentId })
+      .sort({ createdAt: 1 }) // Ascending order by creation time
+      .lean();
+  }
+  
   async createTask(insertTask: InsertTask): Promise<Task> {
     const id = await this.counter.getNextId('tasks');
     const now = new Date();
@@ -186,13 +812,16 @@ export class DatabaseStorage implements IStorage {
     const task: Task = {
       id,
       title: insertTask.title,
-      status: insertTask.status as "todo" | "inProgress" | "completed",
+      status: insertTask.status,
       priority: insertTask.priority as "low" | "medium" | "high",
       createdAt: now,
       createdById: insertTask.createdById,
       description: insertTask.description ?? null,
       dueDate: insertTask.dueDate ?? null,
-      estimatedHours: insertTask.estimatedHours ?? null
+      estimatedHours: insertTask.estimatedHours ?? null,
+      projectId: insertTask.projectId ?? null,
+      parentId: insertTask.parentId ?? null,
+      recurrenceId: insertTask.recurrenceId ?? null
     };
     
     await TaskModel.create(task);
@@ -223,6 +852,153 @@ export class DatabaseStorage implements IStorage {
   
   async deleteTask(id: number): Promise<boolean> {
     const result = await TaskModel.deleteOne({ id });
+    if (result.deletedCount === 0) return false;
+    
+    await TaskDependencyModel.deleteMany({
+      $or: [{ blockingTaskId: id }, { blockedTaskId: id }]
+    });
+    await TaskLabelModel.deleteMany({ taskId: id });
+    await AttachmentModel.deleteMany({ taskId: id });
+    await TaskReminderModel.deleteMany({ taskId: id });
+    
+    // Subtasks cannot exist without their parent
+    const subtasks = await TaskModel.find({ parentId: id }, { id: 1 }).lean();
+    for (const subtask of subtasks) {
+      await this.deleteTask(subtask.id);
+    }
+    return true;
+  }
+  
+  // Task recurrence methods
+  async getTaskRecurrence(id: number): Promise<TaskRecurrence | undefined> {
+    const recurrence = await TaskRecurrenceModel.findOne({ id }).lean();
+    return recurrence || undefined;
+  }
+  
+  async getDueTaskRecurrences(now: Date): Promise<TaskRecurrence[]> {
+    return await TaskRecurrenceModel.find({ endedAt: null, currentDueDate: { $lte: now } })
+      .sort({ currentDueDate: 1 })
+      .lean();
+  }
+  
+  async createTaskRecurrence(insertRecurrence: InsertTaskRecurrence): Promise<TaskRecurrence> {
+    const id = await this.counter.getNextId('taskRecurrences');
+    const recurrence: TaskRecurrence = {
+      ...insertRecurrence,
+      id,
+      description: insertRecurrence.description ?? null,
+      estimatedHours: insertRecurrence.estimatedHours ?? null,
+      projectId: insertRecurrence.projectId ?? null,
+      currentTaskId: insertRecurrence.currentTaskId ?? null,
+      occurrenceCount: insertRecurrence.occurrenceCount ?? 1,
+      endedAt: null,
+      createdAt: new Date()
+    };
+    await TaskRecurrenceModel.create(recurrence);
+    return recurrence;
+  }
+  
+  async updateTaskRecurrence(id: number, recurrenceUpdate: Partial<TaskRecurrence>): Promise<TaskRecurrence | undefined> {
+    const recurrence = await TaskRecurrenceModel.findOneAndUpdate(
+      { id },
+      { $set: recurrenceUpdate },
+      { new: true }
+    ).lean();
+    return recurrence || undefined;
+  }
+  
+  // Task reminder methods
+  async getTaskReminders(taskIds: number[]): Promise<TaskReminder[]> {
+    return await TaskReminderModel.find({ taskId: { $in: taskIds } }).lean();
+  }
+  
+  async createTaskReminder(insertReminder: InsertTaskReminder): Promise<TaskReminder> {
+    const id = await this.counter.getNextId('taskReminders');
+    const reminder: TaskReminder = {
+      ...insertReminder,
+      id,
+      leadMinutes: insertReminder.leadMinutes ?? 0,
+      sentAt: new Date()
+    };
+    await TaskReminderModel.create(reminder);
+    return reminder;
+  }
+  
+  // Task template methods
+  async getTaskTemplates(): Promise<TaskTemplate[]> {
+    return await TaskTemplateModel.find().sort({ name: 1, id: 1 }).lean();
+  }
+  
+  async getTaskTemplate(id: number): Promise<TaskTemplate | undefined> {
+    const template = await TaskTemplateModel.findOne({ id }).lean();
+    return template || undefined;
+  }
+  
+  async createTaskTemplate(insertTemplate: InsertTaskTemplate): Promise<TaskTemplate> {
+    const id = await this.counter.getNextId('taskTemplates');
+    const template: TaskTemplate = {
+      ...insertTemplate,
+      id,
+      description: insertTemplate.description ?? null,
+      estimatedHours: insertTemplate.estimatedHours ?? null,
+      projectId: insertTemplate.projectId ?? null,
+      assigneeIds: insertTemplate.assigneeIds ?? [],
+      checklist: insertTemplate.checklist ?? [],
+      dueOffsetDays: insertTemplate.dueOffsetDays ?? null,
+      createdAt: new Date()
+    };
+    await TaskTemplateModel.create(template);
+    return template;
+  }
+  
+  async updateTaskTemplate(id: number, templateUpdate: Partial<TaskTemplate>): Promise<TaskTemplate | undefined> {
+    const template = await TaskTemplateModel.findOneAndUpdate(
+      { id },
+      { $set: templateUpdate },
+      { new: true }
+    ).lean();
+    return template || undefined;
+  }
+  
+  async deleteTaskTemplate(id: number): Promise<boolean> {
+    const result = await TaskTemplateModel.deleteOne({ id });
+    await TaskTemplateBundleModel.updateMany({ templateIds: id }, { $pull: { templateIds: id } });
+    return result.deletedCount > 0;
+  }
+  
+  // Task template bundle methods
+  async getTaskTemplateBundles(): Promise<TaskTemplateBundle[]> {
+    return await TaskTemplateBundleModel.find().sort({ name: 1, id: 1 }).lean();
+  }
+  
+  async getTaskTemplateBundle(id: number): Promise<TaskTemplateBundle | undefined> {
+    const bundle = await TaskTemplateBundleModel.findOne({ id }).lean();
+    return bundle || undefined;
+  }
+  
+  async createTaskTemplateBundle(insertBundle: InsertTaskTemplateBundle): Promise<TaskTemplateBundle> {
+    const id = await this.counter.getNextId('taskTemplateBundles');
+    const bundle: TaskTemplateBundle = {
+      ...insertBundle,
+      id,
+      description: insertBundle.description ?? null,
+      createdAt: new Date()
+    };
+    await TaskTemplateBundleModel.create(bundle);
+    return bundle;
+  }
+  
+  async updateTaskTemplateBundle(id: number, bundleUpdate: Partial<TaskTemplateBundle>): Promise<TaskTemplateBundle | undefined> {
+    const bundle = await TaskTemplateBundleModel.findOneAndUpdate(
+      { id },
+      { $set: bundleUpdate },
+      { new: true }
+    ).lean();
+    return bundle || undefined;
+  }
+  
+  async deleteTaskTemplateBundle(id: number): Promise<boolean> {
+    const result = await TaskTemplateBundleModel.deleteOne({ id });
     return result.deletedCount > 0;
   }
   
@@ -243,6 +1019,97 @@ export class DatabaseStorage implements IStorage {
     return result.deletedCount > 0;
   }
   
+  // Label methods
+  async getLabels(): Promise<Label[]> {
+    return await LabelModel.find().sort({ name: 1 }).lean();
+  }
+  
+  async getLabel(id: number): Promise<Label | undefined> {
+    const label = await LabelModel.findOne({ id }).lean();
+    return label || undefined;
+  }
+  
+  async getLabelByName(name: string): Promise<Label | undefined> {
+    // Label names are matched case-insensitively
+    const label = await LabelModel.findOne({ name: new RegExp(`^${escapeRegExp(name)}$`, 'i') }).lean();
+    return label || undefined;
+  }
+  
+  async createLabel(insertLabel: InsertLabel): Promise<Label> {
+    const id = await this.counter.getNextId('labels');
+    const label: Label = { ...insertLabel, id };
+    await LabelModel.create(label);
+    return label;
+  }
+  
+  async updateLabel(id: number, labelUpdate: Partial<Label>): Promise<Label | undefined> {
+    const updatedLabel = await LabelModel.findOneAndUpdate(
+      { id },
+      { $set: labelUpdate },
+      { new: true }
+    ).lean();
+    return updatedLabel || undefined;
+  }
+  
+  async deleteLabel(id: number): Promise<boolean> {
+    const result = await LabelModel.deleteOne({ id });
+    if (result.deletedCount === 0) return false;
+    
+    await TaskLabelModel.deleteMany({ labelId: id });
+    return true;
+  }
+  
+  // Task Label methods
+  async getTaskLabels(): Promise<TaskLabel[]> {
+    return await TaskLabelModel.find().lean();
+  }
+  
+  async getLabelsByTaskId(taskId: number): Promise<Label[]> {
+    const taskLabels = await TaskLabelModel.find({ taskId }).lean();
+    return await LabelModel.find({ id: { $in: taskLabels.map(taskLabel => taskLabel.labelId) } })
+      .sort({ name: 1 })
+      .lean();
+  }
+  
+  async getTaskIdsByLabelIds(labelIds: number[]): Promise<number[]> {
+    return await TaskLabelModel.distinct('taskId', { labelId: { $in: labelIds } });
+  }
+  
+  async addLabelToTask(taskId: number, labelId: number): Promise<TaskLabel> {
+    const id = await this.counter.getNextId('taskLabels');
+    const taskLabel: TaskLabel = { id, taskId, labelId };
+    await TaskLabelModel.create(taskLabel);
+    return taskLabel;
+  }
+  
+  async removeLabelFromTask(taskId: number, labelId: number): Promise<boolean> {
+    const result = await TaskLabelModel.deleteOne({ taskId, labelId });
+    return result.deletedCount > 0;
+  }
+  
+  // Task Dependency methods
+  async getTaskDependencies(): Promise<TaskDependency[]> {
+    return await TaskDependencyModel.find().lean();
+  }
+  
+  async getTaskDependenciesByTaskId(taskId: number): Promise<TaskDependency[]> {
+    return await TaskDependencyModel.find({
+      $or: [{ blockingTaskId: taskId }, { blockedTaskId: taskId }]
+    }).lean();
+  }
+  
+  async createTaskDependency(insertDependency: InsertTaskDependency): Promise<TaskDependency> {
+    const id = await this.counter.getNextId('taskDependencies');
+    const dependency: TaskDependency = { ...insertDependency, id };
+    await TaskDependencyModel.create(dependency);
+    return dependency;
+  }
+  
+  async deleteTaskDependency(blockingTaskId: number, blockedTaskId: number): Promise<boolean> {
+    const result = await TaskDependencyModel.deleteOne({ blockingTaskId, blockedTaskId });
+    return result.deletedCount > 0;
+  }
+  
   // Comment methods
   async getCommentsByTaskId(taskId: number): Promise<Comment[]> {
     return await CommentModel.find({ taskId })
@@ -265,14 +1132,29 @@ export class DatabaseStorage implements IStorage {
       .lean();
   }
   
+  async getAttachment(id: number): Promise<Attachment | undefined> {
+    const attachment = await AttachmentModel.findOne({ id }).lean();
+    return attachment || undefined;
+  }
+  
   async createAttachment(insertAttachment: InsertAttachment): Promise<Attachment> {
     const id = await this.counter.getNextId('attachments');
     const now = new Date();
-    const attachment: Attachment = { ...insertAttachment, id, createdAt: now };
+    const attachment: Attachment = {
+      ...insertAttachment,
+      id,
+      thumbnailKey: insertAttachment.thumbnailKey ?? null,
+      createdAt: now
+    };
     await AttachmentModel.create(attachment);
     return attachment;
   }
   
+  async deleteAttachment(id: number): Promise<boolean> {
+    const result = await AttachmentModel.deleteOne({ id });
+    return result.deletedCount > 0;
+  }
+  
   // Time Entry methods
   async getTimeEntriesByTaskId(taskId: number): Promise<TimeEntry[]> {
     return await TimeEntryModel.find({ taskId })
@@ -307,6 +1189,27 @@ export class DatabaseStorage implements IStorage {
       .lean();
   }
   
+  async getNotification(id: number): Promise<Notification | undefined> {
+    const notification = await NotificationModel.findOne({ id }).lean();
+    return notification || undefined;
+  }
+  
+  async queryNotifications(query: NotificationQuery): Promise<Notification[]> {
+    const filter: Record<string, unknown> = { userId: query.userId };
+    if (query.types) filter.type = { $in: query.types };
+    if (query.isRead !== undefined) filter.isRead = query.isRead;
+    if (query.beforeId !== undefined) filter.id = { $lt: query.beforeId };
+    
+    return await NotificationModel.find(filter)
+      .sort({ id: -1 })
+      .limit(query.limit)
+      .lean();
+  }
+  
+  async countUnreadNotifications(userId: number): Promise<number> {
+    return await NotificationModel.countDocuments({ userId, isRead: false });
+  }
+  
   async createNotification(insertNotification: InsertNotification): Promise<Notification> {
     const id = await this.counter.getNextId('notifications');
     const now = new Date();
@@ -330,131 +1233,1523 @@ export class DatabaseStorage implements IStorage {
     
     return updatedNotification || undefined;
   }
-}
-
-// Use in-memory storage as a fallback if MongoDB is not available
-export class StorageFactory {
-  private static instance: IStorage;
-
-  static async getStorage(): Promise<IStorage> {
+  
+  async markAllNotificationsAsRead(userId: number): Promise<number> {
+    const result = await NotificationModel.updateMany(
+      { userId, isRead: false },
+      { $set: { isRead: true } }
+    );
+    return result.modifiedCount;
+  }
+  
+  async deleteNotifications(userId: number, ids: number[]): Promise<number> {
+    const result = await NotificationModel.deleteMany({ userId, id: { $in: ids } });
+    return result.deletedCount;
+  }
+  
+  async getNotificationPreferences(userId: number): Promise<Partial<NotificationPreferences>> {
+    const stored = await NotificationPreferencesModel.findOne({ userId }).lean();
+    return stored?.preferences ?? {};
+  }
+  
+  async setNotificationPreferences(userId: number, preferences: Partial<NotificationPreferences>): Promise<void> {
+    await NotificationPreferencesModel.updateOne(
+      { userId },
+      { $set: { preferences, updatedAt: new Date() } },
+      { upsert: true }
+    );
+  }
+  
+  async getDigestSettings(userId: number): Promise<DigestSettings | undefined> {
+    const settings = await DigestSettingsModel.findOne({ userId }).lean();
+    return settings || undefined;
+  }
+  
+  async setDigestSettings(userId: number, { frequency, timeZone }: Pick<DigestSettings, "frequency" | "timeZone">): Promise<DigestSettings> {
+    const settings = await DigestSettingsModel.findOneAndUpdate(
+      { userId },
+      { $set: { frequency, timeZone, updatedAt: new Date() } },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    ).lean();
+    return settings!;
+  }
+  
+  async markDigestSent(userId: number, sentAt: Date): Promise<void> {
+    await DigestSettingsModel.updateOne(
+      { userId },
+      { $set: { lastSentAt: sentAt } },
+      { upsert: true, setDefaultsOnInsert: true }
+    );
+  }
+  
+  // Task Event methods
+  async getTaskEvents(taskId: number): Promise<TaskEvent[]> {
+    return await TaskEventModel.find({ taskId })
+      .sort({ createdAt: 1, id: 1 }) // Oldest first
+      .lean();
+  }
+  
+  async createTaskEvent(insertEvent: InsertTaskEvent): Promise<TaskEvent> {
+    const id = await this.counter.getNextId('taskEvents');
+    const event: TaskEvent = {
+      ...insertEvent,
+      id,
+      projectId: insertEvent.projectId ?? null,
+      changes: insertEvent.changes ?? null,
+      details: insertEvent.details ?? null,
+      createdAt: new Date()
+    };
+    await TaskEventModel.create(event);
+    return event;
+  }
+  
+  async getActivity(query: ActivityQuery): Promise<TaskEvent[]> {
+    const filter: Record<string, unknown> = {};
+    if (query.projectId !== undefined) filter.projectId = query.projectId;
+    if (query.userId !== undefined) filter.userId = query.userId;
+    if (query.types) filter.type = { $in: query.types };
+    if (query.since !== undefined) filter.createdAt = { $gte: query.since };
+    if (query.beforeId !== undefined) filter.id = { $lt: query.beforeId };
+    
+    return await TaskEventModel.find(filter)
+      .sort({ id: -1 })
+      .limit(query.limit)
+      .lean();
+  }
+  
+  // Webhook methods
+  async getWebhooks(): Promise<Webhook[]> {
+    return await WebhookModel.find().sort({ id: 1 }).lean();
+  }
+  
+  async getWebhook(id: number): Promise<Webhook | undefined> {
+    const webhook = await WebhookModel.findOne({ id }).lean();
+    return webhook || undefined;
+  }
+  
+  async createWebhook(insertWebhook: InsertWebhook): Promise<Webhook> {
+    const id = await this.counter.getNextId('webhooks');
+    const webhook: Webhook = {
+      ...insertWebhook,
+      id,
+      description: insertWebhook.description ?? null,
+      active: insertWebhook.active ?? true,
+      createdAt: new Date()
+    };
+    await WebhookModel.create(webhook);
+    return webhook;
+  }
+  
+  async updateWebhook(id: number, webhookUpdate: Partial<Webhook>): Promise<Webhook | undefined> {
+    const updatedWebhook = await WebhookModel.findOneAndUpdate(
+      { id },
+      { $set: webhookUpdate },
+      { new: true }
+    ).lean();
+    return updatedWebhook || undefined;
+  }
+  
+  async deleteWebhook(id: number): Promise<boolean> {
+    const result = await WebhookModel.deleteOne({ id });
+    await WebhookDeliveryModel.deleteMany({ webhookId: id });
+    return result.deletedCount > 0;
+  }
+  
+  // Webhook delivery methods
+  async getWebhookDeliveries(webhookId: number, beforeId: number | undefined, limit: number): Promise<WebhookDelivery[]> {
+    const filter: Record<string, unknown> = { webhookId };
+    if (beforeId !== undefined) filter.id = { $lt: beforeId };
+    return await WebhookDeliveryModel.find(filter).sort({ id: -1 }).limit(limit).lean();
+  }
+  
+  async getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    return await WebhookDeliveryModel.find({ status: 'pending', nextAttemptAt: { $lte: now } })
+      .sort({ nextAttemptAt: 1, id: 1 })
+      .limit(limit)
+      .lean();
+  }
+  
+  async createWebhookDelivery(insertDelivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const id = await this.counter.getNextId('webhookDeliveries');
+    const delivery: WebhookDelivery = {
+      id,
+      webhookId: insertDelivery.webhookId,
+      event: insertDelivery.event,
+      payload: insertDelivery.payload,
+      status: insertDelivery.status ?? 'pending',
+      attempts: insertDelivery.attempts ?? 0,
+      nextAttemptAt: insertDelivery.nextAttemptAt ?? null,
+      lastAttemptAt: insertDelivery.lastAttemptAt ?? null,
+      responseStatus: insertDelivery.responseStatus ?? null,
+      responseBody: insertDelivery.responseBody ?? null,
+      error: insertDelivery.error ?? null,
+      createdAt: new Date()
+    };
+    await WebhookDeliveryModel.create(delivery);
+    return delivery;
+  }
+  
+  async updateWebhookDelivery(id: number, deliveryUpdate: Partial<WebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const updatedDelivery = await WebhookDeliveryModel.findOneAndUpdate(
+      { id },
+      { $set: deliveryUpdate },
+      { new: true }
+    ).lean();
+    return updatedDelivery || undefined;
+  }
+}
+
+// Drizzle condition selecting tasks that sort after the query's cursor.
+// Ordering matches MongoDB: nulls first ascending and last descending.
+function getPostgresCursorCondition(query: TaskQuery): SQL {
+  const { value, id } = query.cursor!;
+  const column = tasks[query.sortBy];
+  const cursorValue = value === null ? null : query.sortBy === 'title' ? String(value) : new Date(value);
+  
+  if (query.sortDirection === 'asc') {
+    if (cursorValue === null) {
+      return or(and(isNull(column), gt(tasks.id, id)), isNotNull(column))!;
+    }
+    return or(gt(column, cursorValue), and(eq(column, cursorValue), gt(tasks.id, id)))!;
+  }
+  
+  if (cursorValue === null) {
+    return and(isNull(column), lt(tasks.id, id))!;
+  }
+  return or(
+    lt(column, cursorValue),
+    and(eq(column, cursorValue), lt(tasks.id, id)),
+    isNull(column)
+  )!;
+}
+
+// Escape LIKE wildcards so search terms match literally
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+export class PostgresStorage implements IStorage {
+  private db: NodePgDatabase;
+  sessionStore: any;
+  
+  constructor(pool: pg.Pool) {
+    this.db = drizzle(pool);
+    
+    // Create PostgreSQL session store
+    const PostgresSessionStore = connectPg(session);
+    this.sessionStore = new PostgresSessionStore({
+      pool,
+      createTableIfMissing: true,
+      ttl: 14 * 24 * 60 * 60, // 14 days
+    });
+  }
+  
+  async initialize(): Promise<void> {
+    try {
+      // Bring the schema up to date with the generated migrations
+      await migrate(this.db, { migrationsFolder: path.resolve(process.cwd(), 'migrations') });
+      
+      // Check if we need to create a default admin user
+      const adminUser = await this.getUserByUsername("admin");
+      if (!adminUser) {
+        log("Creating default admin user...", "postgres");
+        await this.createUser({
+          username: "admin",
+          password: await hashPassword("admin123"), // Change after the first login
+          email: "admin@taskflow.com",
+          fullName: "Admin User",
+          role: "admin",
+          avatar: "",
+        });
+      }
+    } catch (error) {
+      log(`Error during database initialization: ${error}`, "postgres");
+      throw new Error(`Failed to initialize database storage: ${error}`);
+    }
+  }
+  
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+  
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+  
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users)
+      .where(sql`lower(${users.email}) = lower(${email})`)
+      .orderBy(asc(users.id))
+      .limit(1);
+    return user;
+  }
+  
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users)
+      .values({
+        ...insertUser,
+        role: insertUser.role as "admin" | "manager" | "employee",
+        avatar: insertUser.avatar || null
+      })
+      .returning();
+    return user;
+  }
+  
+  async updateUser(id: number, userUpdate: Partial<User>): Promise<User | undefined> {
+    const { id: _id, ...update } = userUpdate;
+    if (Object.keys(update).length === 0) return this.getUser(id);
+    const [user] = await this.db.update(users).set(update).where(eq(users.id, id)).returning();
+    return user;
+  }
+  
+  async getUsers(): Promise<User[]> {
+    return await this.db.select().from(users).orderBy(asc(users.id));
+  }
+  
+  // Invitation methods
+  async getInvitations(): Promise<Invitation[]> {
+    return await this.db.select().from(invitations).orderBy(asc(invitations.id));
+  }
+  
+  async getInvitationByTokenHash(tokenHash: string): Promise<Invitation | undefined> {
+    const [invitation] = await this.db.select().from(invitations).where(eq(invitations.tokenHash, tokenHash));
+    return invitation;
+  }
+  
+  async createInvitation(insertInvitation: InsertInvitation): Promise<Invitation> {
+    const [invitation] = await this.db.insert(invitations)
+      .values({ ...insertInvitation, role: insertInvitation.role as "admin" | "manager" | "employee" })
+      .returning();
+    return invitation;
+  }
+  
+  async acceptInvitation(id: number): Promise<boolean> {
+    const accepted = await this.db.update(invitations)
+      .set({ acceptedAt: new Date() })
+      .where(and(eq(invitations.id, id), isNull(invitations.acceptedAt)))
+      .returning({ id: invitations.id });
+    return accepted.length > 0;
+  }
+  
+  async deleteInvitation(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(invitations).where(eq(invitations.id, id)).returning({ id: invitations.id });
+    return deleted.length > 0;
+  }
+  
+  // Password reset token methods
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await this.db.select().from(passwordResetTokens).where(eq(passwordResetTokens.tokenHash, tokenHash));
+    return token;
+  }
+  
+  async createPasswordResetToken(insertToken: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const [token] = await this.db.insert(passwordResetTokens).values(insertToken).returning();
+    return token;
+  }
+  
+  async usePasswordResetToken(id: number): Promise<boolean> {
+    const used = await this.db.update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.id, id), isNull(passwordResetTokens.usedAt)))
+      .returning({ id: passwordResetTokens.id });
+    return used.length > 0;
+  }
+  
+  async deletePasswordResetTokensByUserId(userId: number): Promise<void> {
+    await this.db.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, userId));
+  }
+  
+  // API token methods
+  async getApiTokensByUserId(userId: number): Promise<ApiToken[]> {
+    return await this.db.select().from(apiTokens).where(eq(apiTokens.userId, userId)).orderBy(asc(apiTokens.id));
+  }
+  
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await this.db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+  
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const [token] = await this.db.insert(apiTokens).values(insertToken).returning();
+    return token;
+  }
+  
+  async markApiTokenUsed(id: number, usedAt: Date): Promise<void> {
+    await this.db.update(apiTokens).set({ lastUsedAt: usedAt }).where(eq(apiTokens.id, id));
+  }
+  
+  async deleteApiToken(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(apiTokens).where(eq(apiTokens.id, id)).returning({ id: apiTokens.id });
+    return deleted.length > 0;
+  }
+  
+  async deleteApiTokensByUserId(userId: number): Promise<void> {
+    await this.db.delete(apiTokens).where(eq(apiTokens.userId, userId));
+  }
+  
+  // Calendar feed methods
+  async getCalendarFeedsByUserId(userId: number): Promise<CalendarFeed[]> {
+    return await this.db.select().from(calendarFeeds).where(eq(calendarFeeds.userId, userId)).orderBy(asc(calendarFeeds.id));
+  }
+  
+  async getCalendarFeedByHash(tokenHash: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await this.db.select().from(calendarFeeds).where(eq(calendarFeeds.tokenHash, tokenHash));
+    return feed;
+  }
+  
+  async createCalendarFeed(insertFeed: InsertCalendarFeed): Promise<CalendarFeed> {
+    const [feed] = await this.db.insert(calendarFeeds).values(insertFeed).returning();
+    return feed;
+  }
+  
+  async markCalendarFeedUsed(id: number, usedAt: Date): Promise<void> {
+    await this.db.update(calendarFeeds).set({ lastUsedAt: usedAt }).where(eq(calendarFeeds.id, id));
+  }
+  
+  async deleteCalendarFeed(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(calendarFeeds).where(eq(calendarFeeds.id, id)).returning({ id: calendarFeeds.id });
+    return deleted.length > 0;
+  }
+  
+  // Recovery code methods
+  async useRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    // jsonb "-" drops the matching array element, "?" checks it is still there
+    const used = await this.db.update(users)
+      .set({ recoveryCodeHashes: sql`${users.recoveryCodeHashes} - ${codeHash}::text` })
+      .where(and(eq(users.id, userId), sql`${users.recoveryCodeHashes} ? ${codeHash}::text`))
+      .returning({ id: users.id });
+    return used.length > 0;
+  }
+  
+  async useTotpStep(userId: number, step: number): Promise<boolean> {
+    const used = await this.db.update(users)
+      .set({ totpLastStep: step })
+      .where(and(eq(users.id, userId), or(isNull(users.totpLastStep), lt(users.totpLastStep, step))))
+      .returning({ id: users.id });
+    return used.length > 0;
+  }
+  
+  // App setting methods
+  async getSetting(key: string): Promise<unknown> {
+    const [setting] = await this.db.select().from(appSettings).where(eq(appSettings.key, key));
+    return setting?.value;
+  }
+  
+  async setSetting(key: string, value: unknown): Promise<void> {
+    await this.db.insert(appSettings)
+      .values({ key, value })
+      .onConflictDoUpdate({ target: appSettings.key, set: { value, updatedAt: new Date() } });
+  }
+  
+  // Project methods
+  async getProjects(): Promise<Project[]> {
+    return await this.db.select().from(projects).orderBy(asc(projects.name));
+  }
+  
+  async getProject(id: number): Promise<Project | undefined> {
+    const [project] = await this.db.select().from(projects).where(eq(projects.id, id));
+    return project;
+  }
+  
+  async createProject(insertProject: InsertProject): Promise<Project> {
+    const [project] = await this.db.insert(projects).values(insertProject).returning();
+    return project;
+  }
+  
+  async updateProject(id: number, projectUpdate: Partial<Project>): Promise<Project | undefined> {
+    const { id: _id, ...update } = projectUpdate;
+    if (Object.keys(update).length === 0) return this.getProject(id);
+    const [project] = await this.db.update(projects).set(update).where(eq(projects.id, id)).returning();
+    return project;
+  }
+  
+  async deleteProject(id: number): Promise<boolean> {
+    return await this.db.transaction(async (tx) => {
+      // Tasks outlive their project; they simply become unscoped
+      await tx.update(tasks).set({ projectId: null }).where(eq(tasks.projectId, id));
+      await tx.update(taskRecurrences).set({ projectId: null }).where(eq(taskRecurrences.projectId, id));
+      await tx.update(taskTemplates).set({ projectId: null }).where(eq(taskTemplates.projectId, id));
+      await tx.delete(workflows).where(eq(workflows.projectId, id));
+      const deleted = await tx.delete(projects).where(eq(projects.id, id)).returning({ id: projects.id });
+      return deleted.length > 0;
+    });
+  }
+  
+  // Workflow methods
+  async getWorkflows(): Promise<Workflow[]> {
+    return await this.db.select().from(workflows);
+  }
+  
+  async getWorkflowByProjectId(projectId: number): Promise<Workflow | undefined> {
+    const [workflow] = await this.db.select().from(workflows).where(eq(workflows.projectId, projectId));
+    return workflow;
+  }
+  
+  async saveWorkflow(workflow: Omit<Workflow, "id">): Promise<Workflow> {
+    const [savedWorkflow] = await this.db.insert(workflows)
+      .values(workflow)
+      .onConflictDoUpdate({
+        target: workflows.projectId,
+        set: { statuses: workflow.statuses, transitions: workflow.transitions },
+      })
+      .returning();
+    return savedWorkflow;
+  }
+  
+  async deleteWorkflow(projectId: number): Promise<boolean> {
+    const deleted = await this.db.delete(workflows)
+      .where(eq(workflows.projectId, projectId))
+      .returning({ id: workflows.id });
+    return deleted.length > 0;
+  }
+  
+  // Task methods
+  async getTasks(): Promise<Task[]> {
+    return await this.db.select().from(tasks).orderBy(asc(tasks.id));
+  }
+  
+  async getTasksByProjectId(projectId: number): Promise<Task[]> {
+    return await this.db.select().from(tasks).where(eq(tasks.projectId, projectId)).orderBy(asc(tasks.id));
+  }
+  
+  async queryTasks(query: TaskQuery): Promise<TaskPage> {
+    const conditions: SQL[] = [];
+    
+    if (query.ids) conditions.push(inArray(tasks.id, query.ids));
+    if (query.projectId !== undefined) conditions.push(eq(tasks.projectId, query.projectId));
+    if (query.parentIds === null) {
+      conditions.push(isNull(tasks.parentId));
+    } else if (query.parentIds) {
+      conditions.push(inArray(tasks.parentId, query.parentIds));
+    }
+    if (query.status) conditions.push(inArray(tasks.status, query.status));
+    if (query.priority) conditions.push(inArray(tasks.priority, query.priority));
+    if (query.createdById !== undefined) conditions.push(eq(tasks.createdById, query.createdById));
+    
+    if (query.assigneeId !== undefined) {
+      conditions.push(inArray(
+        tasks.id,
+        this.db.select({ taskId: taskAssignees.taskId }).from(taskAssignees).where(eq(taskAssignees.userId, query.assigneeId))
+      ));
+    }
+    if (query.labelIds) {
+      conditions.push(inArray(tasks.id, await this.getTaskIdsByLabelIds(query.labelIds)));
+    }
+    
+    if (query.dueFrom) conditions.push(gte(tasks.dueDate, query.dueFrom));
+    if (query.dueTo) conditions.push(lte(tasks.dueDate, query.dueTo));
+    if (query.createdFrom) conditions.push(gte(tasks.createdAt, query.createdFrom));
+    if (query.createdTo) conditions.push(lte(tasks.createdAt, query.createdTo));
+    
+    if (query.search) {
+      const pattern = `%${escapeLikePattern(query.search)}%`;
+      conditions.push(or(ilike(tasks.title, pattern), ilike(tasks.description, pattern))!);
+    }
+    
+    if (query.cursor) conditions.push(getPostgresCursorCondition(query));
+    
+    const column = tasks[query.sortBy];
+    const order = query.sortDirection === 'asc'
+      ? [sql`${column} asc nulls first`, asc(tasks.id)]
+      : [sql`${column} desc nulls last`, desc(tasks.id)];
+    const rows = this.db.select().from(tasks)
+      .where(and(...conditions))
+      .orderBy(...order)
+      .$dynamic();
+    // Fetch one extra row to know whether another page follows
+    const result = query.limit !== undefined ? await rows.limit(query.limit + 1) : await rows;
+    return toTaskPage(result, query);
+  }
+  
+  async getTask(id: number): Promise<Task | undefined> {
+    const [task] = await this.db.select().from(tasks).where(eq(tasks.id, id));
+    return task;
+  }
+  
+  async getSubtasks(parentId: number): Promise<Task[]> {
+    return await this.db.select().from(tasks)
+      .where(eq(tasks.parentId, parentId))
+      .orderBy(asc(tasks.createdAt), asc(tasks.id)); // Ascending order by creation time
+  }
+  
+  async createTask(insertTask: InsertTask): Promise<Task> {
+    const [task] = await this.db.insert(tasks)
+      .values({ ...insertTask, priority: insertTask.priority as "low" | "medium" | "high" })
+      .returning();
+    return task;
+  }
+  
+  async updateTask(id: number, taskUpdate: Partial<Task>): Promise<Task | undefined> {
+    const { id: _id, ...update } = taskUpdate;
+    
+    // Dates may arrive as strings from the request body
+    if (update.dueDate !== null && typeof update.dueDate === 'string') {
+      update.dueDate = new Date(update.dueDate);
+    }
+    if (Object.keys(update).length === 0) return this.getTask(id);
+    
+    const [task] = await this.db.update(tasks).set(update).where(eq(tasks.id, id)).returning();
+    return task;
+  }
+  
+  async deleteTask(id: number): Promise<boolean> {
+    return await this.db.transaction(async (tx) => {
+      const deleteWithSubtasks = async (taskId: number): Promise<boolean> => {
+        // Subtasks cannot exist without their parent
+        const subtasks = await tx.select({ id: tasks.id }).from(tasks).where(eq(tasks.parentId, taskId));
+        for (const subtask of subtasks) {
+          await deleteWithSubtasks(subtask.id);
+        }
+        
+        // Rows referencing the task have to go before the task itself
+        await tx.delete(taskDependencies).where(
+          or(eq(taskDependencies.blockingTaskId, taskId), eq(taskDependencies.blockedTaskId, taskId))
+        );
+        await tx.delete(taskLabels).where(eq(taskLabels.taskId, taskId));
+        await tx.delete(taskAssignees).where(eq(taskAssignees.taskId, taskId));
+        await tx.delete(comments).where(eq(comments.taskId, taskId));
+        await tx.delete(attachments).where(eq(attachments.taskId, taskId));
+        await tx.delete(timeEntries).where(eq(timeEntries.taskId, taskId));
+        await tx.delete(taskReminders).where(eq(taskReminders.taskId, taskId));
+        const deleted = await tx.delete(tasks).where(eq(tasks.id, taskId)).returning({ id: tasks.id });
+        return deleted.length > 0;
+      };
+      return await deleteWithSubtasks(id);
+    });
+  }
+  
+  // Task recurrence methods
+  async getTaskRecurrence(id: number): Promise<TaskRecurrence | undefined> {
+    const [recurrence] = await this.db.select().from(taskRecurrences).where(eq(taskRecurrences.id, id));
+    return recurrence;
+  }
+  
+  async getDueTaskRecurrences(now: Date): Promise<TaskRecurrence[]> {
+    return await this.db.select().from(taskRecurrences)
+      .where(and(isNull(taskRecurrences.endedAt), lte(taskRecurrences.currentDueDate, now)))
+      .orderBy(asc(taskRecurrences.currentDueDate));
+  }
+  
+  async createTaskRecurrence(insertRecurrence: InsertTaskRecurrence): Promise<TaskRecurrence> {
+    const [recurrence] = await this.db.insert(taskRecurrences).values(insertRecurrence).returning();
+    return recurrence;
+  }
+  
+  async updateTaskRecurrence(id: number, recurrenceUpdate: Partial<TaskRecurrence>): Promise<TaskRecurrence | undefined> {
+    const { id: _id, ...update } = recurrenceUpdate;
+    if (Object.keys(update).length === 0) return this.getTaskRecurrence(id);
+    const [recurrence] = await this.db.update(taskRecurrences)
+      .set(update)
+      .where(eq(taskRecurrences.id, id))
+      .returning();
+    return recurrence;
+  }
+  
+  // Task reminder methods
+  async getTaskReminders(taskIds: number[]): Promise<TaskReminder[]> {
+    if (taskIds.length === 0) return [];
+    return await this.db.select().from(taskReminders).where(inArray(taskReminders.taskId, taskIds));
+  }
+  
+  async createTaskReminder(insertReminder: InsertTaskReminder): Promise<TaskReminder> {
+    const [reminder] = await this.db.insert(taskReminders).values(insertReminder).returning();
+    return reminder;
+  }
+  
+  // Task template methods
+  async getTaskTemplates(): Promise<TaskTemplate[]> {
+    return await this.db.select().from(taskTemplates).orderBy(asc(taskTemplates.name), asc(taskTemplates.id));
+  }
+  
+  async getTaskTemplate(id: number): Promise<TaskTemplate | undefined> {
+    const [template] = await this.db.select().from(taskTemplates).where(eq(taskTemplates.id, id));
+    return template;
+  }
+  
+  async createTaskTemplate(insertTemplate: InsertTaskTemplate): Promise<TaskTemplate> {
+    const [template] = await this.db.insert(taskTemplates).values(insertTemplate).returning();
+    return template;
+  }
+  
+  async updateTaskTemplate(id: number, templateUpdate: Partial<TaskTemplate>): Promise<TaskTemplate | undefined> {
+    const { id: _id, ...update } = templateUpdate;
+    if (Object.keys(update).length === 0) return this.getTaskTemplate(id);
+    const [template] = await this.db.update(taskTemplates).set(update).where(eq(taskTemplates.id, id)).returning();
+    return template;
+  }
+  
+  async deleteTaskTemplate(id: number): Promise<boolean> {
+    return await this.db.transaction(async (tx) => {
+      const bundles = await tx.select().from(taskTemplateBundles)
+        .where(sql`${taskTemplateBundles.templateIds} @> ${JSON.stringify([id])}::jsonb`);
+      for (const bundle of bundles) {
+        await tx.update(taskTemplateBundles)
+          .set({ templateIds: bundle.templateIds.filter(templateId => templateId !== id) })
+          .where(eq(taskTemplateBundles.id, bundle.id));
+      }
+      const deleted = await tx.delete(taskTemplates).where(eq(taskTemplates.id, id)).returning({ id: taskTemplates.id });
+      return deleted.length > 0;
+    });
+  }
+  
+  // Task template bundle methods
+  async getTaskTemplateBundles(): Promise<TaskTemplateBundle[]> {
+    return await this.db.select().from(taskTemplateBundles).orderBy(asc(taskTemplateBundles.name), asc(taskTemplateBundles.id));
+  }
+  
+  async getTaskTemplateBundle(id: number): Promise<TaskTemplateBundle | undefined> {
+    const [bundle] = await this.db.select().from(taskTemplateBundles).where(eq(taskTemplateBundles.id, id));
+    return bundle;
+  }
+  
+  async createTaskTemplateBundle(insertBundle: InsertTaskTemplateBundle): Promise<TaskTemplateBundle> {
+    const [bundle] = await this.db.insert(taskTemplateBundles).values(insertBundle).returning();
+    return bundle;
+  }
+  
+  async updateTaskTemplateBundle(id: number, bundleUpdate: Partial<TaskTemplateBundle>): Promise<TaskTemplateBundle | undefined> {
+    const { id: _id, ...update } = bundleUpdate;
+    if (Object.keys(update).length === 0) return this.getTaskTemplateBundle(id);
+    const [bundle] = await this.db.update(taskTemplateBundles).set(update).where(eq(taskTemplateBundles.id, id)).returning();
+    return bundle;
+  }
+  
+  async deleteTaskTemplateBundle(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(taskTemplateBundles)
+      .where(eq(taskTemplateBundles.id, id))
+      .returning({ id: taskTemplateBundles.id });
+    return deleted.length > 0;
+  }
+  
+  // Task Assignee methods
+  async getTaskAssignees(taskId: number): Promise<TaskAssignee[]> {
+    return await this.db.select().from(taskAssignees).where(eq(taskAssignees.taskId, taskId));
+  }
+  
+  async assignTaskToUser(taskId: number, userId: number): Promise<TaskAssignee> {
+    const [assignee] = await this.db.insert(taskAssignees).values({ taskId, userId }).returning();
+    return assignee;
+  }
+  
+  async removeTaskAssignee(taskId: number, userId: number): Promise<boolean> {
+    const deleted = await this.db.delete(taskAssignees)
+      .where(and(eq(taskAssignees.taskId, taskId), eq(taskAssignees.userId, userId)))
+      .returning({ id: taskAssignees.id });
+    return deleted.length > 0;
+  }
+  
+  // Label methods
+  async getLabels(): Promise<Label[]> {
+    return await this.db.select().from(labels).orderBy(asc(labels.name));
+  }
+  
+  async getLabel(id: number): Promise<Label | undefined> {
+    const [label] = await this.db.select().from(labels).where(eq(labels.id, id));
+    return label;
+  }
+  
+  async getLabelByName(name: string): Promise<Label | undefined> {
+    // Label names are matched case-insensitively
+    const [label] = await this.db.select().from(labels).where(sql`lower(${labels.name}) = lower(${name})`);
+    return label;
+  }
+  
+  async createLabel(insertLabel: InsertLabel): Promise<Label> {
+    const [label] = await this.db.insert(labels).values(insertLabel).returning();
+    return label;
+  }
+  
+  async updateLabel(id: number, labelUpdate: Partial<Label>): Promise<Label | undefined> {
+    const { id: _id, ...update } = labelUpdate;
+    if (Object.keys(update).length === 0) return this.getLabel(id);
+    const [label] = await this.db.update(labels).set(update).where(eq(labels.id, id)).returning();
+    return label;
+  }
+  
+  async deleteLabel(id: number): Promise<boolean> {
+    return await this.db.transaction(async (tx) => {
+      await tx.delete(taskLabels).where(eq(taskLabels.labelId, id));
+      const deleted = await tx.delete(labels).where(eq(labels.id, id)).returning({ id: labels.id });
+      return deleted.length > 0;
+    });
+  }
+  
+  // Task Label methods
+  async getTaskLabels(): Promise<TaskLabel[]> {
+    return await this.db.select().from(taskLabels);
+  }
+  
+  async getLabelsByTaskId(taskId: number): Promise<Label[]> {
+    const rows = await this.db.select({ label: labels })
+      .from(taskLabels)
+      .innerJoin(labels, eq(taskLabels.labelId, labels.id))
+      .where(eq(taskLabels.taskId, taskId))
+      .orderBy(asc(labels.name));
+    return rows.map(row => row.label);
+  }
+  
+  async getTaskIdsByLabelIds(labelIds: number[]): Promise<number[]> {
+    if (labelIds.length === 0) return [];
+    const rows = await this.db.selectDistinct({ taskId: taskLabels.taskId })
+      .from(taskLabels)
+      .where(inArray(taskLabels.labelId, labelIds));
+    return rows.map(row => row.taskId);
+  }
+  
+  async addLabelToTask(taskId: number, labelId: number): Promise<TaskLabel> {
+    const [taskLabel] = await this.db.insert(taskLabels).values({ taskId, labelId }).returning();
+    return taskLabel;
+  }
+  
+  async removeLabelFromTask(taskId: number, labelId: number): Promise<boolean> {
+    const deleted = await this.db.delete(taskLabels)
+      .where(and(eq(taskLabels.taskId, taskId), eq(taskLabels.labelId, labelId)))
+      .returning({ id: taskLabels.id });
+    return deleted.length > 0;
+  }
+  
+  // Task Dependency methods
+  async getTaskDependencies(): Promise<TaskDependency[]> {
+    return await this.db.select().from(taskDependencies);
+  }
+  
+  async getTaskDependenciesByTaskId(taskId: number): Promise<TaskDependency[]> {
+    return await this.db.select().from(taskDependencies).where(
+      or(eq(taskDependencies.blockingTaskId, taskId), eq(taskDependencies.blockedTaskId, taskId))
+    );
+  }
+  
+  async createTaskDependency(insertDependency: InsertTaskDependency): Promise<TaskDependency> {
+    const [dependency] = await this.db.insert(taskDependencies).values(insertDependency).returning();
+    return dependency;
+  }
+  
+  async deleteTaskDependency(blockingTaskId: number, blockedTaskId: number): Promise<boolean> {
+    const deleted = await this.db.delete(taskDependencies)
+      .where(and(
+        eq(taskDependencies.blockingTaskId, blockingTaskId),
+        eq(taskDependencies.blockedTaskId, blockedTaskId)
+      ))
+      .returning({ id: taskDependencies.id });
+    return deleted.length > 0;
+  }
+  
+  // Comment methods
+  async getCommentsByTaskId(taskId: number): Promise<Comment[]> {
+    return await this.db.select().from(comments)
+      .where(eq(comments.taskId, taskId))
+      .orderBy(asc(comments.createdAt)); // Ascending order by creation time
+  }
+  
+  async createComment(insertComment: InsertComment): Promise<Comment> {
+    const [comment] = await this.db.insert(comments).values(insertComment).returning();
+    return comment;
+  }
+  
+  // Attachment methods
+  async getAttachmentsByTaskId(taskId: number): Promise<Attachment[]> {
+    return await this.db.select().from(attachments)
+      .where(eq(attachments.taskId, taskId))
+      .orderBy(asc(attachments.createdAt)); // Ascending order by creation time
+  }
+  
+  async getAttachment(id: number): Promise<Attachment | undefined> {
+    const [attachment] = await this.db.select().from(attachments).where(eq(attachments.id, id));
+    return attachment;
+  }
+  
+  async createAttachment(insertAttachment: InsertAttachment): Promise<Attachment> {
+    const [attachment] = await this.db.insert(attachments).values(insertAttachment).returning();
+    return attachment;
+  }
+  
+  async deleteAttachment(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(attachments)
+      .where(eq(attachments.id, id))
+      .returning({ id: attachments.id });
+    return deleted.length > 0;
+  }
+  
+  // Time Entry methods
+  async getTimeEntriesByTaskId(taskId: number): Promise<TimeEntry[]> {
+    return await this.db.select().from(timeEntries)
+      .where(eq(timeEntries.taskId, taskId))
+      .orderBy(asc(timeEntries.startTime)); // Ascending order by start time
+  }
+  
+  async getTimeEntriesByUserId(userId: number): Promise<TimeEntry[]> {
+    return await this.db.select().from(timeEntries)
+      .where(eq(timeEntries.userId, userId))
+      .orderBy(desc(timeEntries.startTime)); // Descending order by start time (newest first)
+  }
+  
+  async createTimeEntry(insertTimeEntry: InsertTimeEntry): Promise<TimeEntry> {
+    const [timeEntry] = await this.db.insert(timeEntries).values(insertTimeEntry).returning();
+    return timeEntry;
+  }
+  
+  // Notification methods
+  async getNotificationsByUserId(userId: number): Promise<Notification[]> {
+    return await this.db.select().from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt)); // Descending order by creation time (newest first)
+  }
+  
+  async getNotification(id: number): Promise<Notification | undefined> {
+    const [notification] = await this.db.select().from(notifications).where(eq(notifications.id, id));
+    return notification;
+  }
+  
+  async queryNotifications(query: NotificationQuery): Promise<Notification[]> {
+    const conditions: SQL[] = [eq(notifications.userId, query.userId)];
+    if (query.types) conditions.push(inArray(notifications.type, query.types));
+    if (query.isRead !== undefined) conditions.push(eq(notifications.isRead, query.isRead));
+    if (query.beforeId !== undefined) conditions.push(lt(notifications.id, query.beforeId));
+    
+    return await this.db.select().from(notifications)
+      .where(and(...conditions))
+      .orderBy(desc(notifications.id))
+      .limit(query.limit);
+  }
+  
+  async countUnreadNotifications(userId: number): Promise<number> {
+    const [{ count }] = await this.db.select({ count: sql<number>`count(*)::int` }).from(notifications)
+      .where(and(eq(notifications.userId, userId), eq(notifications.isRead, false)));
+    return count;
+  }
+  
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const [notification] = await this.db.insert(notifications).values(insertNotification).returning();
+    return notification;
+  }
+  
+  async markNotificationAsRead(id: number): Promise<Notification | undefined> {
+    const [notification] = await this.db.update(notifications)
+      .set({ isRead: true })
+      .where(eq(notifications.id, id))
+      .returning();
+    return notification;
+  }
+  
+  async markAllNotificationsAsRead(userId: number): Promise<number> {
+    const updated = await this.db.update(notifications)
+      .set({ isRead: true })
+      .where(and(eq(notifications.userId, userId), eq(notifications.isRead, false)))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+  
+  async deleteNotifications(userId: number, ids: number[]): Promise<number> {
+    if (ids.length === 0) return 0;
+    const deleted = await this.db.delete(notifications)
+      .where(and(eq(notifications.userId, userId), inArray(notifications.id, ids)))
+      .returning({ id: notifications.id });
+    return deleted.length;
+  }
+  
+  async getNotificationPreferences(userId: number): Promise<Partial<NotificationPreferences>> {
+    const [stored] = await this.db.select().from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+    return stored?.preferences ?? {};
+  }
+  
+  async setNotificationPreferences(userId: number, preferences: Partial<NotificationPreferences>): Promise<void> {
+    await this.db.insert(notificationPreferences)
+      .values({ userId, preferences })
+      .onConflictDoUpdate({ target: notificationPreferences.userId, set: { preferences, updatedAt: new Date() } });
+  }
+  
+  async getDigestSettings(userId: number): Promise<DigestSettings | undefined> {
+    const [settings] = await this.db.select().from(digestSettings)
+      .where(eq(digestSettings.userId, userId));
+    return settings;
+  }
+  
+  async setDigestSettings(userId: number, { frequency, timeZone }: Pick<DigestSettings, "frequency" | "timeZone">): Promise<DigestSettings> {
+    const [settings] = await this.db.insert(digestSettings)
+      .values({ userId, frequency, timeZone })
+      .onConflictDoUpdate({ target: digestSettings.userId, set: { frequency, timeZone, updatedAt: new Date() } })
+      .returning();
+    return settings;
+  }
+  
+  async markDigestSent(userId: number, sentAt: Date): Promise<void> {
+    await this.db.insert(digestSettings)
+      .values({ userId, lastSentAt: sentAt })
+      .onConflictDoUpdate({ target: digestSettings.userId, set: { lastSentAt: sentAt } });
+  }
+  
+  // Task Event methods
+  async getTaskEvents(taskId: number): Promise<TaskEvent[]> {
+    return await this.db.select().from(taskEvents)
+      .where(eq(taskEvents.taskId, taskId))
+      .orderBy(asc(taskEvents.createdAt), asc(taskEvents.id)); // Oldest first
+  }
+  
+  async createTaskEvent(insertEvent: InsertTaskEvent): Promise<TaskEvent> {
+    const [event] = await this.db.insert(taskEvents).values(insertEvent).returning();
+    return event;
+  }
+  
+  async getActivity(query: ActivityQuery): Promise<TaskEvent[]> {
+    const conditions: SQL[] = [];
+    if (query.projectId !== undefined) conditions.push(eq(taskEvents.projectId, query.projectId));
+    if (query.userId !== undefined) conditions.push(eq(taskEvents.userId, query.userId));
+    if (query.types) conditions.push(inArray(taskEvents.type, query.types));
+    if (query.since !== undefined) conditions.push(gte(taskEvents.createdAt, query.since));
+    if (query.beforeId !== undefined) conditions.push(lt(taskEvents.id, query.beforeId));
+    
+    return await this.db.select().from(taskEvents)
+      .where(and(...conditions))
+      .orderBy(desc(taskEvents.id))
+      .limit(query.limit);
+  }
+  
+  // Webhook methods
+  async getWebhooks(): Promise<Webhook[]> {
+    return await this.db.select().from(webhooks).orderBy(asc(webhooks.id));
+  }
+  
+  async getWebhook(id: number): Promise<Webhook | undefined> {
+    const [webhook] = await this.db.select().from(webhooks).where(eq(webhooks.id, id));
+    return webhook;
+  }
+  
+  async createWebhook(insertWebhook: InsertWebhook): Promise<Webhook> {
+    const [webhook] = await this.db.insert(webhooks).values(insertWebhook).returning();
+    return webhook;
+  }
+  
+  async updateWebhook(id: number, webhookUpdate: Partial<Webhook>): Promise<Webhook | undefined> {
+    const { id: _id, ...update } = webhookUpdate;
+    if (Object.keys(update).length === 0) return this.getWebhook(id);
+    const [webhook] = await this.db.update(webhooks).set(update).where(eq(webhooks.id, id)).returning();
+    return webhook;
+  }
+  
+  async deleteWebhook(id: number): Promise<boolean> {
+    // Deliveries go with it through ON DELETE CASCADE
+    const deleted = await this.db.delete(webhooks).where(eq(webhooks.id, id)).returning({ id: webhooks.id });
+    return deleted.length > 0;
+  }
+  
+  // Webhook delivery methods
+  async getWebhookDeliveries(webhookId: number, beforeId: number | undefined, limit: number): Promise<WebhookDelivery[]> {
+    const conditions: SQL[] = [eq(webhookDeliveries.webhookId, webhookId)];
+    if (beforeId !== undefined) conditions.push(lt(webhookDeliveries.id, beforeId));
+    
+    return await this.db.select().from(webhookDeliveries)
+      .where(and(...conditions))
+      .orderBy(desc(webhookDeliveries.id))
+      .limit(limit);
+  }
+  
+  async getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    return await this.db.select().from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, now)))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt), asc(webhookDeliveries.id))
+      .limit(limit);
+  }
+  
+  async createWebhookDelivery(insertDelivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const [delivery] = await this.db.insert(webhookDeliveries).values(insertDelivery).returning();
+    return delivery;
+  }
+  
+  async updateWebhookDelivery(id: number, deliveryUpdate: Partial<WebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const { id: _id, ...update } = deliveryUpdate;
+    if (Object.keys(update).length === 0) return undefined;
+    const [delivery] = await this.db.update(webhookDeliveries)
+      .set(update)
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return delivery;
+  }
+}
+
+// Pick the storage backend from STORAGE_DRIVER ("mongodb" by default, "postgres",
+// or "memory" for development). Only the chosen database is connected to, and
+// startup fails if it is unreachable
+export class StorageFactory {
+  private static instance: Promise<IStorage> | undefined;
+
+  static getStorage(): Promise<IStorage> {
     if (!this.instance) {
-      try {
-        const conn = await connectToDatabase();
-        if (conn) {
-          const dbStorage = new DatabaseStorage();
-          try {
-            await dbStorage.initialize();
-            this.instance = dbStorage;
-            log("Using MongoDB for storage", "storage");
-          } catch (initError) {
-            log(`Error initializing MongoDB storage: ${initError}, using in-memory storage`, "storage");
-            const memStorage = new MemStorage();
-            await memStorage.initialize();
-            this.instance = memStorage;
-          }
-        } else {
-          this.instance = new MemStorage();
-          await this.instance.initialize();
-          log("Using in-memory storage as fallback", "storage");
-        }
-      } catch (error) {
-        log(`Error initializing storage: ${error}, using in-memory storage`, "storage");
-        this.instance = new MemStorage();
-        await this.instance.initialize();
+      switch (process.env.STORAGE_DRIVER) {
+        case "postgres":
+          this.instance = this.getPostgresStorage();
+          break;
+        case "memory":
+          this.instance = this.getMemStorage();
+          break;
+        default:
+          this.instance = this.getMongoStorage();
       }
     }
     return this.instance;
   }
+
+  private static async getMemStorage(): Promise<IStorage> {
+    const memStorage = new MemStorage();
+    await memStorage.initialize();
+    log("Using in-memory storage, nothing is kept across restarts", "storage");
+    return memStorage;
+  }
+
+  private static async getMongoStorage(): Promise<IStorage> {
+    const conn = await connectToDatabase();
+    if (!conn) {
+      throw new Error("Cannot connect to MongoDB, check MONGODB_URI");
+    }
+    const dbStorage = new DatabaseStorage();
+    await dbStorage.initialize();
+    log("Using MongoDB for storage", "storage");
+    return dbStorage;
+  }
+
+  private static async getPostgresStorage(): Promise<IStorage> {
+    const pool = await connectToPostgres();
+    if (!pool) {
+      throw new Error("Cannot connect to PostgreSQL, check DATABASE_URL");
+    }
+    const pgStorage = new PostgresStorage(pool);
+    await pgStorage.initialize();
+    log("Using PostgreSQL for storage", "storage");
+    return pgStorage;
+  }
 }
 
 // MemStorage implementation for fallback
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private projects: Map<number, Project>;
+  private workflows: Map<number, Workflow>;
   private tasks: Map<number, Task>;
+  private taskRecurrences: Map<number, TaskRecurrence>;
+  private taskReminders: Map<number, TaskReminder>;
+  private taskTemplates: Map<number, TaskTemplate>;
+  private taskTemplateBundles: Map<number, TaskTemplateBundle>;
   private taskAssignees: Map<number, TaskAssignee>;
+  private taskDependencies: Map<number, TaskDependency>;
+  private labels: Map<number, Label>;
+  private taskLabels: Map<number, TaskLabel>;
   private comments: Map<number, Comment>;
   private attachments: Map<number, Attachment>;
   private timeEntries: Map<number, TimeEntry>;
   private notifications: Map<number, Notification>;
+  private taskEvents: Map<number, TaskEvent>;
+  private invitations: Map<number, Invitation>;
+  private passwordResetTokens: Map<number, PasswordResetToken>;
+  private apiTokens: Map<number, ApiToken>;
+  private calendarFeeds: Map<number, CalendarFeed>;
+  private webhooks: Map<number, Webhook>;
+  private webhookDeliveries: Map<number, WebhookDelivery>;
+  private appSettings: Map<string, unknown>;
+  private notificationPreferences: Map<number, Partial<NotificationPreferences>>;
+  private digestSettings: Map<number, DigestSettings>;
+  
+  // Counters for IDs
+  private userId: number;
+  private projectId: number;
+  private workflowId: number;
+  private taskId: number;
+  private taskRecurrenceId: number;
+  private taskReminderId: number;
+  private taskTemplateId: number;
+  private taskTemplateBundleId: number;
+  private assigneeId: number;
+  private dependencyId: number;
+  private labelId: number;
+  private taskLabelId: number;
+  private commentId: number;
+  private attachmentId: number;
+  private timeEntryId: number;
+  private notificationId: number;
+  private taskEventId: number;
+  private invitationId: number;
+  private passwordResetTokenId: number;
+  private apiTokenId: number;
+  private calendarFeedId: number;
+  private webhookId: number;
+  private webhookDeliveryId: number;
+  
+  // Session store
+  sessionStore: any;
+
+  constructor() {
+    this.users = new Map();
+    this.projects = new Map();
+    this.workflows = new Map();
+    this.tasks = new Map();
+    this.taskRecurrences = new Map();
+    this.taskReminders = new Map();
+    this.taskTemplates = new Map();
+    this.taskTemplateBundles = new Map();
+    this.taskAssignees = new Map();
+    this.taskDependencies = new Map();
+    this.labels = new Map();
+    this.taskLabels = new Map();
+    this.comments = new Map();
+    this.attachments = new Map();
+    this.timeEntries = new Map();
+    this.notifications = new Map();
+    this.taskEvents = new Map();
+    this.invitations = new Map();
+    this.passwordResetTokens = new Map();
+    this.apiTokens = new Map();
+    this.calendarFeeds = new Map();
+    this.webhooks = new Map();
+    this.webhookDeliveries = new Map();
+    this.appSettings = new Map();
+    this.notificationPreferences = new Map();
+    this.digestSettings = new Map();
+    
+    this.userId = 1;
+    this.projectId = 1;
+    this.workflowId = 1;
+    this.taskId = 1;
+    this.taskRecurrenceId = 1;
+    this.taskReminderId = 1;
+    this.taskTemplateId = 1;
+    this.taskTemplateBundleId = 1;
+    this.assigneeId = 1;
+    this.dependencyId = 1;
+    this.labelId = 1;
+    this.taskLabelId = 1;
+    this.commentId = 1;
+    this.attachmentId = 1;
+    this.timeEntryId = 1;
+    this.notificationId = 1;
+    this.taskEventId = 1;
+    this.invitationId = 1;
+    this.passwordResetTokenId = 1;
+    this.apiTokenId = 1;
+    this.calendarFeedId = 1;
+    this.webhookId = 1;
+    this.webhookDeliveryId = 1;
+    
+    // Create in-memory session store
+    const MemoryStore = createMemoryStore(session);
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // 24 hours
+    });
+  }
+
+  async initialize(): Promise<void> {
+    // Create a default admin user
+    const adminUser = await this.getUserByUsername("admin");
+    if (!adminUser) {
+      log("Creating default admin user in memory storage...", "storage");
+      await this.createUser({
+        username: "admin",
+        password: await hashPassword("admin123"), // Change after the first login
+        email: "admin@taskflow.com",
+        fullName: "Admin User",
+        role: "admin",
+        avatar: "",
+      });
+    }
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.username === username,
+    );
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.email.toLowerCase() === email.toLowerCase(),
+    );
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const id = this.userId++;
+    // Cast to proper type and ensure default values
+    const user: User = { 
+      ...insertUser, 
+      id, 
+      role: insertUser.role as "admin" | "manager" | "employee", 
+      avatar: insertUser.avatar || null,
+      totpSecret: null,
+      totpEnabled: false,
+      recoveryCodeHashes: [],
+      totpLastStep: null,
+      passwordChangedAt: null
+    };
+    this.users.set(id, user);
+    return user;
+  }
+  
+  async updateUser(id: number, userUpdate: Partial<User>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    
+    const updatedUser = { ...user, ...userUpdate };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+  
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+  
+  // Invitation methods
+  async getInvitations(): Promise<Invitation[]> {
+    return Array.from(this.invitations.values());
+  }
+  
+  async getInvitationByTokenHash(tokenHash: string): Promise<Invitation | undefined> {
+    return Array.from(this.invitations.values()).find(
+      (invitation) => invitation.tokenHash === tokenHash
+    );
+  }
+  
+  async createInvitation(insertInvitation: InsertInvitation): Promise<Invitation> {
+    const id = this.invitationId++;
+    const invitation: Invitation = {
+      ...insertInvitation,
+      id,
+      role: insertInvitation.role as "admin" | "manager" | "employee",
+      acceptedAt: null,
+      createdAt: new Date()
+    };
+    this.invitations.set(id, invitation);
+    return invitation;
+  }
+  
+  async acceptInvitation(id: number): Promise<boolean> {
+    const invitation = this.invitations.get(id);
+    if (!invitation || invitation.acceptedAt) return false;
+    this.invitations.set(id, { ...invitation, acceptedAt: new Date() });
+    return true;
+  }
+  
+  async deleteInvitation(id: number): Promise<boolean> {
+    return this.invitations.delete(id);
+  }
+  
+  // Password reset token methods
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    return Array.from(this.passwordResetTokens.values()).find(
+      (token) => token.tokenHash === tokenHash
+    );
+  }
+  
+  async createPasswordResetToken(insertToken: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const id = this.passwordResetTokenId++;
+    const token: PasswordResetToken = {
+      ...insertToken,
+      id,
+      usedAt: null,
+      createdAt: new Date()
+    };
+    this.passwordResetTokens.set(id, token);
+    return token;
+  }
+  
+  async usePasswordResetToken(id: number): Promise<boolean> {
+    const token = this.passwordResetTokens.get(id);
+    if (!token || token.usedAt) return false;
+    this.passwordResetTokens.set(id, { ...token, usedAt: new Date() });
+    return true;
+  }
+  
+  async deletePasswordResetTokensByUserId(userId: number): Promise<void> {
+    for (const token of Array.from(this.passwordResetTokens.values())) {
+      if (token.userId === userId) this.passwordResetTokens.delete(token.id);
+    }
+  }
+  
+  // API token methods
+  async getApiTokensByUserId(userId: number): Promise<ApiToken[]> {
+    return Array.from(this.apiTokens.values()).filter(token => token.userId === userId);
+  }
+  
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return Array.from(this.apiTokens.values()).find(
+      (token) => token.tokenHash === tokenHash
+    );
+  }
+  
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const id = this.apiTokenId++;
+    const token: ApiToken = {
+      ...insertToken,
+      id,
+      expiresAt: insertToken.expiresAt ?? null,
+      lastUsedAt: null,
+      createdAt: new Date()
+    };
+    this.apiTokens.set(id, token);
+    return token;
+  }
+  
+  async markApiTokenUsed(id: number, usedAt: Date): Promise<void> {
+    const token = this.apiTokens.get(id);
+    if (token) this.apiTokens.set(id, { ...token, lastUsedAt: usedAt });
+  }
+  
+  async deleteApiToken(id: number): Promise<boolean> {
+    return this.apiTokens.delete(id);
+  }
+  
+  async deleteApiTokensByUserId(userId: number): Promise<void> {
+    for (const token of Array.from(this.apiTokens.values())) {
+      if (token.userId === userId) this.apiTokens.delete(token.id);
+    }
+  }
+  
+  // Calendar feed methods
+  async getCalendarFeedsByUserId(userId: number): Promise<CalendarFeed[]> {
+    return Array.from(this.calendarFeeds.values()).filter(feed => feed.userId === userId);
+  }
+  
+  async getCalendarFeedByHash(tokenHash: string): Promise<CalendarFeed | undefined> {
+    return Array.from(this.calendarFeeds.values()).find(
+      (feed) => feed.tokenHash === tokenHash
+    );
+  }
+  
+  async createCalendarFeed(insertFeed: InsertCalendarFeed): Promise<CalendarFeed> {
+    const id = this.calendarFeedId++;
+    const feed: CalendarFeed = {
+      ...insertFeed,
+      id,
+      projectId: insertFeed.projectId ?? null,
+      lastUsedAt: null,
+      createdAt: new Date()
+    };
+    this.calendarFeeds.set(id, feed);
+    return feed;
+  }
+  
+  async markCalendarFeedUsed(id: number, usedAt: Date): Promise<void> {
+    const feed = this.calendarFeeds.get(id);
+    if (feed) this.calendarFeeds.set(id, { ...feed, lastUsedAt: usedAt });
+  }
+  
+  async deleteCalendarFeed(id: number): Promise<boolean> {
+    return this.calendarFeeds.delete(id);
+  }
+  
+  // Recovery code methods
+  async useRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const user = this.users.get(userId);
+    if (!user || !user.recoveryCodeHashes.includes(codeHash)) return false;
+    this.users.set(userId, {
+      ...user,
+      recoveryCodeHashes: user.recoveryCodeHashes.filter(hash => hash !== codeHash)
+    });
+    return true;
+  }
+  
+  async useTotpStep(userId: number, step: number): Promise<boolean> {
+    const user = this.users.get(userId);
+    if (!user || (user.totpLastStep !== null && user.totpLastStep >= step)) return false;
+    this.users.set(userId, { ...user, totpLastStep: step });
+    return true;
+  }
   
-  // Counters for IDs
-  private userId: number;
-  private taskId: number;
-  private assigneeId: number;
-  private commentId: number;
-  private attachmentId: number;
-  private timeEntryId: number;
-  private notificationId: number;
+  // App setting methods
+  async getSetting(key: string): Promise<unknown> {
+    return this.appSettings.get(key);
+  }
   
-  // Session store
-  sessionStore: any;
-
-  constructor() {
-    this.users = new Map();
-    this.tasks = new Map();
-    this.taskAssignees = new Map();
-    this.comments = new Map();
-    this.attachments = new Map();
-    this.timeEntries = new Map();
-    this.notifications = new Map();
+  async setSetting(key: string, value: unknown): Promise<void> {
+    this.appSettings.set(key, value);
+  }
+  
+  // Project methods
+  async getProjects(): Promise<Project[]> {
+    return Array.from(this.projects.values())
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  async getProject(id: number): Promise<Project | undefined> {
+    return this.projects.get(id);
+  }
+  
+  async createProject(insertProject: InsertProject): Promise<Project> {
+    const id = this.projectId++;
+    const project: Project = {
+      id,
+      name: insertProject.name,
+      description: insertProject.description ?? null,
+      color: insertProject.color ?? null,
+      createdById: insertProject.createdById,
+      createdAt: new Date()
+    };
+    this.projects.set(id, project);
+    return project;
+  }
+  
+  async updateProject(id: number, projectUpdate: Partial<Project>): Promise<Project | undefined> {
+    const project = this.projects.get(id);
+    if (!project) return undefined;
     
-    this.userId = 1;
-    this.taskId = 1;
-    this.assigneeId = 1;
-    this.commentId = 1;
-    this.attachmentId = 1;
-    this.timeEntryId = 1;
-    this.notificationId = 1;
+    const updatedProject = { ...project, ...projectUpdate };
+    this.projects.set(id, updatedProject);
+    return updatedProject;
+  }
+  
+  async deleteProject(id: number): Promise<boolean> {
+    if (!this.projects.delete(id)) return false;
     
-    // Create in-memory session store
-    const MemoryStore = createMemoryStore(session);
-    this.sessionStore = new MemoryStore({
-      checkPeriod: 86400000, // 24 hours
+    // Tasks outlive their project; they simply become unscoped
+    this.tasks.forEach((task, taskId) => {
+      if (task.projectId === id) {
+        this.tasks.set(taskId, { ...task, projectId: null });
+      }
     });
+    this.taskRecurrences.forEach((recurrence, recurrenceId) => {
+      if (recurrence.projectId === id) {
+        this.taskRecurrences.set(recurrenceId, { ...recurrence, projectId: null });
+      }
+    });
+    this.taskTemplates.forEach((template, templateId) => {
+      if (template.projectId === id) {
+        this.taskTemplates.set(templateId, { ...template, projectId: null });
+      }
+    });
+    await this.deleteWorkflow(id);
+    this.calendarFeeds.forEach((feed, feedId) => {
+      if (feed.projectId === id) this.calendarFeeds.delete(feedId);
+    });
+    return true;
   }
-
-  async initialize(): Promise<void> {
-    // Create a default admin user
-    const adminUser = await this.getUserByUsername("admin");
-    if (!adminUser) {
-      log("Creating default admin user in memory storage...", "storage");
-      await this.createUser({
-        username: "admin",
-        password: "admin123", // This will be hashed in the auth layer
-        email: "admin@taskflow.com",
-        fullName: "Admin User",
-        role: "admin",
-        avatar: "",
-      });
-    }
-  }
-
-  // User methods
-  async getUser(id: number): Promise<User | undefined> {
-    return this.users.get(id);
+  
+  // Workflow methods
+  async getWorkflows(): Promise<Workflow[]> {
+    return Array.from(this.workflows.values());
   }
-
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(
-      (user) => user.username === username,
+  
+  async getWorkflowByProjectId(projectId: number): Promise<Workflow | undefined> {
+    return Array.from(this.workflows.values()).find(
+      (workflow) => workflow.projectId === projectId
     );
   }
-
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const id = this.userId++;
-    // Cast to proper type and ensure default values
-    const user: User = { 
-      ...insertUser, 
-      id, 
-      role: insertUser.role as "admin" | "manager" | "employee", 
-      avatar: insertUser.avatar || null 
-    };
-    this.users.set(id, user);
-    return user;
+  
+  async saveWorkflow(workflow: Omit<Workflow, "id">): Promise<Workflow> {
+    const existing = await this.getWorkflowByProjectId(workflow.projectId);
+    const id = existing ? existing.id : this.workflowId++;
+    const savedWorkflow: Workflow = { ...workflow, id };
+    this.workflows.set(id, savedWorkflow);
+    return savedWorkflow;
   }
   
-  async getUsers(): Promise<User[]> {
-    return Array.from(this.users.values());
+  async deleteWorkflow(projectId: number): Promise<boolean> {
+    const workflow = await this.getWorkflowByProjectId(projectId);
+    if (!workflow) return false;
+    return this.workflows.delete(workflow.id);
   }
   
   // Task methods
@@ -462,10 +2757,68 @@ export class MemStorage implements IStorage {
     return Array.from(this.tasks.values());
   }
   
+  async getTasksByProjectId(projectId: number): Promise<Task[]> {
+    return Array.from(this.tasks.values()).filter(
+      (task) => task.projectId === projectId
+    );
+  }
+  
+  async queryTasks(query: TaskQuery): Promise<TaskPage> {
+    const assignedTaskIds = query.assigneeId !== undefined
+      ? new Set(Array.from(this.taskAssignees.values())
+          .filter((assignee) => assignee.userId === query.assigneeId)
+          .map((assignee) => assignee.taskId))
+      : undefined;
+    const labelledTaskIds = query.labelIds
+      ? new Set(await this.getTaskIdsByLabelIds(query.labelIds))
+      : undefined;
+    const search = query.search?.toLowerCase();
+    
+    // Same ordering as the Mongo implementation: sort value (nulls first), then id
+    const direction = query.sortDirection === 'asc' ? 1 : -1;
+    const compare = (a: TaskCursor, b: TaskCursor) =>
+      (compareSortValues(a.value, b.value) || a.id - b.id) * direction;
+    
+    const tasks = Array.from(this.tasks.values())
+      .filter((task) => {
+        if (query.ids && !query.ids.includes(task.id)) return false;
+        if (query.projectId !== undefined && task.projectId !== query.projectId) return false;
+        if (query.parentIds === null && task.parentId !== null) return false;
+        if (query.parentIds && (task.parentId === null || !query.parentIds.includes(task.parentId))) return false;
+        if (query.status && !query.status.includes(task.status)) return false;
+        if (query.priority && !query.priority.includes(task.priority)) return false;
+        if (query.createdById !== undefined && task.createdById !== query.createdById) return false;
+        if (assignedTaskIds && !assignedTaskIds.has(task.id)) return false;
+        if (labelledTaskIds && !labelledTaskIds.has(task.id)) return false;
+        if (query.dueFrom && (!task.dueDate || task.dueDate < query.dueFrom)) return false;
+        if (query.dueTo && (!task.dueDate || task.dueDate > query.dueTo)) return false;
+        if (query.createdFrom && task.createdAt < query.createdFrom) return false;
+        if (query.createdTo && task.createdAt > query.createdTo) return false;
+        if (
+          search &&
+          !task.title.toLowerCase().includes(search) &&
+          !task.description?.toLowerCase().includes(search)
+        ) {
+          return false;
+        }
+        if (query.cursor && compare(getCursorForTask(task, query.sortBy), query.cursor) <= 0) return false;
+        return true;
+      })
+      .sort((a, b) => compare(getCursorForTask(a, query.sortBy), getCursorForTask(b, query.sortBy)));
+    
+    return toTaskPage(query.limit !== undefined ? tasks.slice(0, query.limit + 1) : tasks, query);
+  }
+  
   async getTask(id: number): Promise<Task | undefined> {
     return this.tasks.get(id);
   }
   
+  async getSubtasks(parentId: number): Promise<Task[]> {
+    return Array.from(this.tasks.values())
+      .filter((task) => task.parentId === parentId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+  
   async createTask(insertTask: InsertTask): Promise<Task> {
     const id = this.taskId++;
     const now = new Date();
@@ -474,13 +2827,16 @@ export class MemStorage implements IStorage {
     const task: Task = {
       id,
       title: insertTask.title,
-      status: insertTask.status as "todo" | "inProgress" | "completed",
+      status: insertTask.status,
       priority: insertTask.priority as "low" | "medium" | "high",
       createdAt: now,
       createdById: insertTask.createdById,
       description: insertTask.description ?? null,
       dueDate: insertTask.dueDate ?? null,
-      estimatedHours: insertTask.estimatedHours ?? null
+      estimatedHours: insertTask.estimatedHours ?? null,
+      projectId: insertTask.projectId ?? null,
+      parentId: insertTask.parentId ?? null,
+      recurrenceId: insertTask.recurrenceId ?? null
     };
     
     this.tasks.set(id, task);
@@ -507,7 +2863,161 @@ export class MemStorage implements IStorage {
   }
   
   async deleteTask(id: number): Promise<boolean> {
-    return this.tasks.delete(id);
+    if (!this.tasks.delete(id)) return false;
+    
+    for (const dependency of await this.getTaskDependenciesByTaskId(id)) {
+      this.taskDependencies.delete(dependency.id);
+    }
+    this.taskLabels.forEach((taskLabel, taskLabelId) => {
+      if (taskLabel.taskId === id) this.taskLabels.delete(taskLabelId);
+    });
+    this.attachments.forEach((attachment, attachmentId) => {
+      if (attachment.taskId === id) this.attachments.delete(attachmentId);
+    });
+    this.taskReminders.forEach((reminder, reminderId) => {
+      if (reminder.taskId === id) this.taskReminders.delete(reminderId);
+    });
+    
+    // Subtasks cannot exist without their parent
+    for (const subtask of await this.getSubtasks(id)) {
+      await this.deleteTask(subtask.id);
+    }
+    return true;
+  }
+  
+  // Task recurrence methods
+  async getTaskRecurrence(id: number): Promise<TaskRecurrence | undefined> {
+    return this.taskRecurrences.get(id);
+  }
+  
+  async getDueTaskRecurrences(now: Date): Promise<TaskRecurrence[]> {
+    return Array.from(this.taskRecurrences.values())
+      .filter(recurrence => recurrence.endedAt === null && recurrence.currentDueDate <= now)
+      .sort((a, b) => a.currentDueDate.getTime() - b.currentDueDate.getTime());
+  }
+  
+  async createTaskRecurrence(insertRecurrence: InsertTaskRecurrence): Promise<TaskRecurrence> {
+    const id = this.taskRecurrenceId++;
+    const recurrence: TaskRecurrence = {
+      ...insertRecurrence,
+      id,
+      description: insertRecurrence.description ?? null,
+      estimatedHours: insertRecurrence.estimatedHours ?? null,
+      projectId: insertRecurrence.projectId ?? null,
+      currentTaskId: insertRecurrence.currentTaskId ?? null,
+      occurrenceCount: insertRecurrence.occurrenceCount ?? 1,
+      endedAt: null,
+      createdAt: new Date()
+    };
+    this.taskRecurrences.set(id, recurrence);
+    return recurrence;
+  }
+  
+  async updateTaskRecurrence(id: number, recurrenceUpdate: Partial<TaskRecurrence>): Promise<TaskRecurrence | undefined> {
+    const recurrence = this.taskRecurrences.get(id);
+    if (!recurrence) return undefined;
+    const updatedRecurrence = { ...recurrence, ...recurrenceUpdate };
+    this.taskRecurrences.set(id, updatedRecurrence);
+    return updatedRecurrence;
+  }
+  
+  // Task reminder methods
+  async getTaskReminders(taskIds: number[]): Promise<TaskReminder[]> {
+    return Array.from(this.taskReminders.values())
+      .filter(reminder => taskIds.includes(reminder.taskId));
+  }
+  
+  async createTaskReminder(insertReminder: InsertTaskReminder): Promise<TaskReminder> {
+    const id = this.taskReminderId++;
+    const reminder: TaskReminder = {
+      ...insertReminder,
+      id,
+      leadMinutes: insertReminder.leadMinutes ?? 0,
+      sentAt: new Date()
+    };
+    this.taskReminders.set(id, reminder);
+    return reminder;
+  }
+  
+  // Task template methods
+  async getTaskTemplates(): Promise<TaskTemplate[]> {
+    return Array.from(this.taskTemplates.values())
+      .sort((a, b) => a.name.localeCompare(b.name) || a.id - b.id);
+  }
+  
+  async getTaskTemplate(id: number): Promise<TaskTemplate | undefined> {
+    return this.taskTemplates.get(id);
+  }
+  
+  async createTaskTemplate(insertTemplate: InsertTaskTemplate): Promise<TaskTemplate> {
+    const id = this.taskTemplateId++;
+    const template: TaskTemplate = {
+      ...insertTemplate,
+      id,
+      description: insertTemplate.description ?? null,
+      estimatedHours: insertTemplate.estimatedHours ?? null,
+      projectId: insertTemplate.projectId ?? null,
+      assigneeIds: insertTemplate.assigneeIds ?? [],
+      checklist: insertTemplate.checklist ?? [],
+      dueOffsetDays: insertTemplate.dueOffsetDays ?? null,
+      createdAt: new Date()
+    };
+    this.taskTemplates.set(id, template);
+    return template;
+  }
+  
+  async updateTaskTemplate(id: number, templateUpdate: Partial<TaskTemplate>): Promise<TaskTemplate | undefined> {
+    const template = this.taskTemplates.get(id);
+    if (!template) return undefined;
+    const updatedTemplate = { ...template, ...templateUpdate };
+    this.taskTemplates.set(id, updatedTemplate);
+    return updatedTemplate;
+  }
+  
+  async deleteTaskTemplate(id: number): Promise<boolean> {
+    this.taskTemplateBundles.forEach((bundle, bundleId) => {
+      if (bundle.templateIds.includes(id)) {
+        this.taskTemplateBundles.set(bundleId, {
+          ...bundle,
+          templateIds: bundle.templateIds.filter(templateId => templateId !== id)
+        });
+      }
+    });
+    return this.taskTemplates.delete(id);
+  }
+  
+  // Task template bundle methods
+  async getTaskTemplateBundles(): Promise<TaskTemplateBundle[]> {
+    return Array.from(this.taskTemplateBundles.values())
+      .sort((a, b) => a.name.localeCompare(b.name) || a.id - b.id);
+  }
+  
+  async getTaskTemplateBundle(id: number): Promise<TaskTemplateBundle | undefined> {
+    return this.taskTemplateBundles.get(id);
+  }
+  
+  async createTaskTemplateBundle(insertBundle: InsertTaskTemplateBundle): Promise<TaskTemplateBundle> {
+    const id = this.taskTemplateBundleId++;
+    const bundle: TaskTemplateBundle = {
+      ...insertBundle,
+      id,
+      description: insertBundle.description ?? null,
+      createdAt: new Date()
+    };
+    this.taskTemplateBundles.set(id, bundle);
+    return bundle;
+  }
+  
+  async updateTaskTemplateBundle(id: number, bundleUpdate: Partial<TaskTemplateBundle>): Promise<TaskTemplateBundle | undefined> {
+    const bundle = this.taskTemplateBundles.get(id);
+    if (!bundle) return undefined;
+    const updatedBundle = { ...bundle, ...bundleUpdate };
+    this.taskTemplateBundles.set(id, updatedBundle);
+    return updatedBundle;
+  }
+  
+  async deleteTaskTemplateBundle(id: number): Promise<boolean> {
+    return this.taskTemplateBundles.delete(id);
   }
   
   // Task Assignee methods
@@ -533,6 +3043,111 @@ export class MemStorage implements IStorage {
     return this.taskAssignees.delete(assignee.id);
   }
   
+  // Label methods
+  async getLabels(): Promise<Label[]> {
+    return Array.from(this.labels.values())
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  async getLabel(id: number): Promise<Label | undefined> {
+    return this.labels.get(id);
+  }
+  
+  async getLabelByName(name: string): Promise<Label | undefined> {
+    // Label names are matched case-insensitively
+    return Array.from(this.labels.values()).find(
+      (label) => label.name.toLowerCase() === name.toLowerCase()
+    );
+  }
+  
+  async createLabel(insertLabel: InsertLabel): Promise<Label> {
+    const id = this.labelId++;
+    const label: Label = { ...insertLabel, id };
+    this.labels.set(id, label);
+    return label;
+  }
+  
+  async updateLabel(id: number, labelUpdate: Partial<Label>): Promise<Label | undefined> {
+    const label = this.labels.get(id);
+    if (!label) return undefined;
+    
+    const updatedLabel = { ...label, ...labelUpdate };
+    this.labels.set(id, updatedLabel);
+    return updatedLabel;
+  }
+  
+  async deleteLabel(id: number): Promise<boolean> {
+    if (!this.labels.delete(id)) return false;
+    
+    this.taskLabels.forEach((taskLabel, taskLabelId) => {
+      if (taskLabel.labelId === id) this.taskLabels.delete(taskLabelId);
+    });
+    return true;
+  }
+  
+  // Task Label methods
+  async getTaskLabels(): Promise<TaskLabel[]> {
+    return Array.from(this.taskLabels.values());
+  }
+  
+  async getLabelsByTaskId(taskId: number): Promise<Label[]> {
+    return Array.from(this.taskLabels.values())
+      .filter((taskLabel) => taskLabel.taskId === taskId)
+      .map((taskLabel) => this.labels.get(taskLabel.labelId))
+      .filter((label): label is Label => !!label)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  async getTaskIdsByLabelIds(labelIds: number[]): Promise<number[]> {
+    const taskIds = Array.from(this.taskLabels.values())
+      .filter((taskLabel) => labelIds.includes(taskLabel.labelId))
+      .map((taskLabel) => taskLabel.taskId);
+    return Array.from(new Set(taskIds));
+  }
+  
+  async addLabelToTask(taskId: number, labelId: number): Promise<TaskLabel> {
+    const id = this.taskLabelId++;
+    const taskLabel: TaskLabel = { id, taskId, labelId };
+    this.taskLabels.set(id, taskLabel);
+    return taskLabel;
+  }
+  
+  async removeLabelFromTask(taskId: number, labelId: number): Promise<boolean> {
+    const taskLabel = Array.from(this.taskLabels.values()).find(
+      (t) => t.taskId === taskId && t.labelId === labelId
+    );
+    
+    if (!taskLabel) return false;
+    return this.taskLabels.delete(taskLabel.id);
+  }
+  
+  // Task Dependency methods
+  async getTaskDependencies(): Promise<TaskDependency[]> {
+    return Array.from(this.taskDependencies.values());
+  }
+  
+  async getTaskDependenciesByTaskId(taskId: number): Promise<TaskDependency[]> {
+    return Array.from(this.taskDependencies.values()).filter(
+      (dependency) => dependency.blockingTaskId === taskId || dependency.blockedTaskId === taskId
+    );
+  }
+  
+  async createTaskDependency(insertDependency: InsertTaskDependency): Promise<TaskDependency> {
+    const id = this.dependencyId++;
+    const dependency: TaskDependency = { ...insertDependency, id };
+    this.taskDependencies.set(id, dependency);
+    return dependency;
+  }
+  
+  async deleteTaskDependency(blockingTaskId: number, blockedTaskId: number): Promise<boolean> {
+    const dependency = Array.from(this.taskDependencies.values()).find(
+      (d) => d.blockingTaskId === blockingTaskId && d.blockedTaskId === blockedTaskId
+    );
+    
+    if (!dependency) return false;
+    return this.taskDependencies.delete(dependency.id);
+  }
+  
   // Comment methods
   async getCommentsByTaskId(taskId: number): Promise<Comment[]> {
     return Array.from(this.comments.values())
@@ -555,14 +3170,27 @@ export class MemStorage implements IStorage {
       .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
   }
   
+  async getAttachment(id: number): Promise<Attachment | undefined> {
+    return this.attachments.get(id);
+  }
+  
   async createAttachment(insertAttachment: InsertAttachment): Promise<Attachment> {
     const id = this.attachmentId++;
     const now = new Date();
-    const attachment: Attachment = { ...insertAttachment, id, createdAt: now };
+    const attachment: Attachment = {
+      ...insertAttachment,
+      id,
+      thumbnailKey: insertAttachment.thumbnailKey ?? null,
+      createdAt: now
+    };
     this.attachments.set(id, attachment);
     return attachment;
   }
   
+  async deleteAttachment(id: number): Promise<boolean> {
+    return this.attachments.delete(id);
+  }
+  
   // Time Entry methods
   async getTimeEntriesByTaskId(taskId: number): Promise<TimeEntry[]> {
     return Array.from(this.timeEntries.values())
@@ -597,6 +3225,28 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()); // Newest first
   }
   
+  async getNotification(id: number): Promise<Notification | undefined> {
+    return this.notifications.get(id);
+  }
+  
+  async queryNotifications(query: NotificationQuery): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter((notification) =>
+        notification.userId === query.userId &&
+        (!query.types || query.types.includes(notification.type as NotificationType)) &&
+        (query.isRead === undefined || notification.isRead === query.isRead) &&
+        (query.beforeId === undefined || notification.id < query.beforeId)
+      )
+      .sort((a, b) => b.id - a.id)
+      .slice(0, query.limit);
+  }
+  
+  async countUnreadNotifications(userId: number): Promise<number> {
+    return Array.from(this.notifications.values())
+      .filter((notification) => notification.userId === userId && !notification.isRead)
+      .length;
+  }
+  
   async createNotification(insertNotification: InsertNotification): Promise<Notification> {
     const id = this.notificationId++;
     const now = new Date();
@@ -619,6 +3269,182 @@ export class MemStorage implements IStorage {
     this.notifications.set(id, updatedNotification);
     return updatedNotification;
   }
+  
+  async markAllNotificationsAsRead(userId: number): Promise<number> {
+    let updated = 0;
+    for (const notification of Array.from(this.notifications.values())) {
+      if (notification.userId === userId && !notification.isRead) {
+        this.notifications.set(notification.id, { ...notification, isRead: true });
+        updated++;
+      }
+    }
+    return updated;
+  }
+  
+  async deleteNotifications(userId: number, ids: number[]): Promise<number> {
+    let deleted = 0;
+    for (const id of ids) {
+      if (this.notifications.get(id)?.userId === userId) {
+        this.notifications.delete(id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+  
+  async getNotificationPreferences(userId: number): Promise<Partial<NotificationPreferences>> {
+    return this.notificationPreferences.get(userId) ?? {};
+  }
+  
+  async setNotificationPreferences(userId: number, preferences: Partial<NotificationPreferences>): Promise<void> {
+    this.notificationPreferences.set(userId, preferences);
+  }
+  
+  async getDigestSettings(userId: number): Promise<DigestSettings | undefined> {
+    return this.digestSettings.get(userId);
+  }
+  
+  async setDigestSettings(userId: number, { frequency, timeZone }: Pick<DigestSettings, "frequency" | "timeZone">): Promise<DigestSettings> {
+    const settings: DigestSettings = {
+      userId,
+      lastSentAt: null,
+      ...this.digestSettings.get(userId),
+      frequency,
+      timeZone,
+      updatedAt: new Date()
+    };
+    this.digestSettings.set(userId, settings);
+    return settings;
+  }
+  
+  async markDigestSent(userId: number, sentAt: Date): Promise<void> {
+    const settings: DigestSettings = this.digestSettings.get(userId)
+      ?? { userId, frequency: "daily", timeZone: "UTC", lastSentAt: null, updatedAt: new Date() };
+    this.digestSettings.set(userId, { ...settings, lastSentAt: sentAt });
+  }
+  
+  // Task Event methods
+  async getTaskEvents(taskId: number): Promise<TaskEvent[]> {
+    return Array.from(this.taskEvents.values())
+      .filter((event) => event.taskId === taskId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id); // Oldest first
+  }
+  
+  async createTaskEvent(insertEvent: InsertTaskEvent): Promise<TaskEvent> {
+    const id = this.taskEventId++;
+    const event: TaskEvent = {
+      ...insertEvent,
+      id,
+      projectId: insertEvent.projectId ?? null,
+      changes: insertEvent.changes ?? null,
+      details: insertEvent.details ?? null,
+      createdAt: new Date()
+    };
+    this.taskEvents.set(id, event);
+    return event;
+  }
+  
+  async getActivity(query: ActivityQuery): Promise<TaskEvent[]> {
+    return Array.from(this.taskEvents.values())
+      .filter((event) =>
+        (query.projectId === undefined || event.projectId === query.projectId) &&
+        (query.userId === undefined || event.userId === query.userId) &&
+        (!query.types || query.types.includes(event.type)) &&
+        (query.since === undefined || event.createdAt >= query.since) &&
+        (query.beforeId === undefined || event.id < query.beforeId)
+      )
+      .sort((a, b) => b.id - a.id)
+      .slice(0, query.limit);
+  }
+  
+  // Webhook methods
+  async getWebhooks(): Promise<Webhook[]> {
+    return Array.from(this.webhooks.values());
+  }
+  
+  async getWebhook(id: number): Promise<Webhook | undefined> {
+    return this.webhooks.get(id);
+  }
+  
+  async createWebhook(insertWebhook: InsertWebhook): Promise<Webhook> {
+    const id = this.webhookId++;
+    const webhook: Webhook = {
+      ...insertWebhook,
+      id,
+      description: insertWebhook.description ?? null,
+      active: insertWebhook.active ?? true,
+      createdAt: new Date()
+    };
+    this.webhooks.set(id, webhook);
+    return webhook;
+  }
+  
+  async updateWebhook(id: number, webhookUpdate: Partial<Webhook>): Promise<Webhook | undefined> {
+    const webhook = this.webhooks.get(id);
+    if (!webhook) return undefined;
+    
+    const updatedWebhook = { ...webhook, ...webhookUpdate };
+    this.webhooks.set(id, updatedWebhook);
+    return updatedWebhook;
+  }
+  
+  async deleteWebhook(id: number): Promise<boolean> {
+    for (const [deliveryId, delivery] of Array.from(this.webhookDeliveries.entries())) {
+      if (delivery.webhookId === id) this.webhookDeliveries.delete(deliveryId);
+    }
+    return this.webhooks.delete(id);
+  }
+  
+  // Webhook delivery methods
+  async getWebhookDeliveries(webhookId: number, beforeId: number | undefined, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter((delivery) =>
+        delivery.webhookId === webhookId &&
+        (beforeId === undefined || delivery.id < beforeId)
+      )
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+  
+  async getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter((delivery) =>
+        delivery.status === "pending" &&
+        delivery.nextAttemptAt !== null &&
+        new Date(delivery.nextAttemptAt).getTime() <= now.getTime()
+      )
+      .sort((a, b) => new Date(a.nextAttemptAt!).getTime() - new Date(b.nextAttemptAt!).getTime() || a.id - b.id)
+      .slice(0, limit);
+  }
+  
+  async createWebhookDelivery(insertDelivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const id = this.webhookDeliveryId++;
+    const delivery: WebhookDelivery = {
+      id,
+      webhookId: insertDelivery.webhookId,
+      event: insertDelivery.event,
+      payload: insertDelivery.payload,
+      status: insertDelivery.status ?? "pending",
+      attempts: insertDelivery.attempts ?? 0,
+      nextAttemptAt: insertDelivery.nextAttemptAt ?? null,
+      lastAttemptAt: insertDelivery.lastAttemptAt ?? null,
+      responseStatus: insertDelivery.responseStatus ?? null,
+      responseBody: insertDelivery.responseBody ?? null,
+      error: insertDelivery.error ?? null,
+      createdAt: new Date()
+    };
+    this.webhookDeliveries.set(id, delivery);
+    return delivery;
+  }
+  
+  async updateWebhookDelivery(id: number, deliveryUpdate: Partial<WebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const delivery = this.webhookDeliveries.get(id);
+    if (!delivery) return undefined;
+    
+    const updatedDelivery = { ...delivery, ...deliveryUpdate };
+    this.webhookDeliveries.set(id, updatedDelivery);
+    return updatedDelivery;
+  }
 }
 
 // Export a placeholder storage object that will be initialized correctly
@@ -630,8 +3456,9 @@ export let storage: IStorage = new MemStorage();
   try {
     storage = await StorageFactory.getStorage();
   } catch (error) {
-    log(`Failed to initialize storage: ${error}, using default in-memory storage`, "storage");
-    // storage is already set to MemStorage
+    // Startup awaits the same StorageFactory call and exits on this error;
+    // until then requests are served from memory
+    log(`Failed to initialize storage: ${error}`, "storage");
   }
 })().catch(error => {
   log(`Unhandled error in storage initialization: ${error}`, "storage");
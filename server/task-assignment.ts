@@ -0,0 +1,31 @@
+import { TaskAssignee } from "@shared/schema";
+import { storage } from "./storage";
+import { recordTaskEvent } from "./task-events";
+import { broadcastMessage } from "./websocket";
+import { emitWebhookEvent } from "./webhooks";
+import { notify } from "./notifications";
+
+// Assigns a task and tells the assignee and everyone else about it
+export async function assignTask(taskId: number, userId: number, actorId: number): Promise<TaskAssignee> {
+  const assignee = await storage.assignTaskToUser(taskId, userId);
+  await recordTaskEvent(taskId, actorId, "assigned", { details: { assigneeId: userId } });
+  const task = await storage.getTask(taskId);
+  
+  if (task) {
+    await notify([userId], {
+      type: 'task_assigned',
+      title: 'New Task Assignment',
+      message: `You have been assigned to task: ${task.title}`,
+      relatedId: taskId
+    });
+    
+    // Broadcast assignment to all clients
+    broadcastMessage({
+      type: 'task_assigned',
+      payload: { taskId, userId, task }
+    });
+    emitWebhookEvent("task.assigned", { taskId, userId, task });
+  }
+  
+  return assignee;
+}
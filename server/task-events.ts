@@ -0,0 +1,140 @@
+import { ActivityItem, Task, TaskEvent, TaskEventType, TaskFieldChange, taskEventTypes } from "@shared/schema";
+import { storage } from "./storage";
+import { broadcastMessage } from "./websocket";
+
+export const DEFAULT_ACTIVITY_PAGE_SIZE = 20;
+export const MAX_ACTIVITY_PAGE_SIZE = 100;
+
+export interface ActivityQuery {
+  projectId?: number;
+  // Actor of the event
+  userId?: number;
+  types?: TaskEventType[];
+  // Only events at or after this time
+  since?: Date;
+  // Id of the last event on the previous page
+  beforeId?: number;
+  limit: number;
+}
+
+// Read GET /api/activity query parameters. The cursor is the id of the last
+// event already shown.
+export function parseActivityQuery(params: Record<string, unknown>): { query: ActivityQuery } | { error: string } {
+  const query: ActivityQuery = { limit: DEFAULT_ACTIVITY_PAGE_SIZE };
+
+  for (const field of ["projectId", "userId"] as const) {
+    if (params[field] !== undefined) {
+      const id = parseInt(params[field] as string);
+      if (isNaN(id)) return { error: `${field} must be a number` };
+      query[field] = id;
+    }
+  }
+
+  if (params.type !== undefined) {
+    const types = String(params.type).split(",").filter(type => type.length > 0);
+    if (!types.every(type => (taskEventTypes as readonly string[]).includes(type))) {
+      return { error: `type must be one of: ${taskEventTypes.join(", ")}` };
+    }
+    query.types = types as TaskEventType[];
+  }
+
+  if (params.cursor !== undefined) {
+    const beforeId = parseInt(params.cursor as string);
+    if (isNaN(beforeId)) return { error: "Invalid cursor" };
+    query.beforeId = beforeId;
+  }
+
+  if (params.limit !== undefined) {
+    const limit = parseInt(params.limit as string);
+    if (isNaN(limit) || limit < 1 || limit > MAX_ACTIVITY_PAGE_SIZE) {
+      return { error: `limit must be between 1 and ${MAX_ACTIVITY_PAGE_SIZE}` };
+    }
+    query.limit = limit;
+  }
+
+  return { query };
+}
+
+// Task fields whose changes show up in "updated" events
+const trackedTaskFields = [
+  "title",
+  "description",
+  "status",
+  "priority",
+  "dueDate",
+  "estimatedHours",
+  "projectId",
+  "parentId",
+] as const;
+
+function toHistoryValue(value: unknown): string | number | null {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  return value as string | number;
+}
+
+// Field-level before/after values between two versions of a task
+export function diffTask(before: Task, after: Task): TaskFieldChange[] {
+  const changes: TaskFieldChange[] = [];
+  for (const field of trackedTaskFields) {
+    const from = toHistoryValue(before[field]);
+    const to = toHistoryValue(after[field]);
+    if (from !== to) {
+      changes.push({ field, from, to });
+    }
+  }
+  return changes;
+}
+
+// Attach task titles to events. Deleted tasks fall back to the title kept
+// in their "deleted" event.
+export async function toActivityItems(events: TaskEvent[]): Promise<ActivityItem[]> {
+  const taskIds = Array.from(new Set(events.map(event => event.taskId)));
+  const { tasks } = taskIds.length > 0
+    ? await storage.queryTasks({ ids: taskIds, sortBy: "createdAt", sortDirection: "asc" })
+    : { tasks: [] as Task[] };
+  const titles = new Map<number, string | null>(tasks.map(task => [task.id, task.title]));
+
+  for (const taskId of taskIds) {
+    if (titles.has(taskId)) continue;
+    const history = await storage.getTaskEvents(taskId);
+    const title = history.find(event => event.type === "deleted")?.details?.title;
+    titles.set(taskId, typeof title === "string" ? title : null);
+  }
+
+  return events.map(event => ({ ...event, taskTitle: titles.get(event.taskId) ?? null }));
+}
+
+// Append an entry to a task's history and push it to the activity feed.
+// The mutation it describes has already happened, so a failed write is
+// logged rather than failing the request. projectId defaults to the task's
+// current project; pass it when the task or its project is already gone.
+export async function recordTaskEvent(
+  taskId: number,
+  userId: number,
+  type: TaskEventType,
+  options: { changes?: TaskFieldChange[]; details?: Record<string, unknown>; projectId?: number | null } = {}
+): Promise<TaskEvent | undefined> {
+  if (type === "updated" && !options.changes?.length) return undefined;
+
+  try {
+    const projectId = options.projectId !== undefined
+      ? options.projectId
+      : (await storage.getTask(taskId))?.projectId ?? null;
+    const event = await storage.createTaskEvent({
+      taskId,
+      projectId,
+      userId,
+      type,
+      changes: options.changes ?? null,
+      details: options.details ?? null,
+    });
+
+    const [item] = await toActivityItems([event]);
+    broadcastMessage({ type: 'activity', payload: item });
+    return event;
+  } catch (error) {
+    console.error(`Error recording ${type} event for task ${taskId}:`, error);
+    return undefined;
+  }
+}
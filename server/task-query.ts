@@ -0,0 +1,200 @@
+import { Task, TaskPriority, taskPriority } from "@shared/schema";
+
+// Fields GET /api/tasks can be sorted by; ties are always broken by id
+export const taskSortFields = ["createdAt", "dueDate", "title"] as const;
+export type TaskSortField = typeof taskSortFields[number];
+export type SortDirection = "asc" | "desc";
+
+// Position of the last task on a page: its sort value and id
+export type TaskCursor = {
+  value: string | number | null;
+  id: number;
+};
+
+export interface TaskQuery {
+  ids?: number[];
+  projectId?: number;
+  // null selects top-level tasks only
+  parentIds?: number[] | null;
+  status?: string[];
+  priority?: TaskPriority[];
+  assigneeId?: number;
+  createdById?: number;
+  dueFrom?: Date;
+  dueTo?: Date;
+  createdFrom?: Date;
+  createdTo?: Date;
+  search?: string;
+  // Tasks carrying any of these labels
+  labelIds?: number[];
+  sortBy: TaskSortField;
+  sortDirection: SortDirection;
+  cursor?: TaskCursor;
+  // Omitted means "everything after the cursor"
+  limit?: number;
+}
+
+export interface TaskPage {
+  tasks: Task[];
+  nextCursor: string | null;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+// Cursors are opaque to clients: base64url-encoded JSON
+export function encodeCursor(cursor: TaskCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeCursor(encoded: string): TaskCursor | undefined {
+  try {
+    const cursor = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+    if (typeof cursor?.id !== "number") return undefined;
+    if (cursor.value !== null && !["string", "number"].includes(typeof cursor.value)) return undefined;
+    return { value: cursor.value, id: cursor.id };
+  } catch {
+    return undefined;
+  }
+}
+
+// The value a task is sorted by, in the form stored in cursors (dates as epoch ms)
+export function getSortValue(task: Task, field: TaskSortField): string | number | null {
+  const value = task[field];
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.getTime();
+  if (field === "dueDate" || field === "createdAt") return new Date(value as any).getTime();
+  return value as string;
+}
+
+// Orders sort values the way MongoDB does for a single type: null first, then ascending
+export function compareSortValues(a: string | number | null, b: string | number | null): number {
+  if (a === null && b === null) return 0;
+  if (a === null) return -1;
+  if (b === null) return 1;
+  if (a < b) return -1;
+  if (a > b) return 1;
+  return 0;
+}
+
+export function getCursorForTask(task: Task, field: TaskSortField): TaskCursor {
+  return { value: getSortValue(task, field), id: task.id };
+}
+
+// Trim a result fetched with one extra row to the page size and
+// derive the cursor for the following page
+export function toTaskPage(tasks: Task[], query: TaskQuery): TaskPage {
+  if (query.limit === undefined || tasks.length <= query.limit) {
+    return { tasks, nextCursor: null };
+  }
+  const page = tasks.slice(0, query.limit);
+  return {
+    tasks: page,
+    nextCursor: encodeCursor(getCursorForTask(page[page.length - 1], query.sortBy)),
+  };
+}
+
+function parseIdList(value: unknown): number[] | undefined {
+  const ids = String(value)
+    .split(",")
+    .map(part => part.trim())
+    .filter(part => part.length > 0)
+    .map(part => Number(part));
+  return ids.every(id => Number.isInteger(id)) ? ids : undefined;
+}
+
+function parseDate(value: unknown): Date | undefined {
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+// Turn GET /api/tasks query parameters into a TaskQuery.
+// Labels are resolved separately since that needs storage lookups.
+export function parseTaskQuery(params: Record<string, unknown>): { query: TaskQuery } | { error: string } {
+  const query: TaskQuery = { sortBy: "createdAt", sortDirection: "asc" };
+
+  if (params.id !== undefined) {
+    const ids = parseIdList(params.id);
+    if (!ids) return { error: "id must be a comma-separated list of numbers" };
+    query.ids = ids;
+  }
+
+  if (params.projectId !== undefined) {
+    const projectId = parseInt(params.projectId as string);
+    if (isNaN(projectId)) return { error: "projectId must be a number" };
+    query.projectId = projectId;
+  }
+
+  if (params.parentId !== undefined) {
+    if (params.parentId === "none") {
+      query.parentIds = null;
+    } else {
+      const parentIds = parseIdList(params.parentId);
+      if (!parentIds) return { error: "parentId must be \"none\" or a comma-separated list of numbers" };
+      query.parentIds = parentIds;
+    }
+  }
+
+  if (params.status !== undefined) {
+    query.status = String(params.status).split(",").filter(status => status.length > 0);
+  }
+
+  if (params.priority !== undefined) {
+    const priorities = String(params.priority).split(",").filter(priority => priority.length > 0);
+    if (!priorities.every(priority => (taskPriority as readonly string[]).includes(priority))) {
+      return { error: "Priority must be one of: low, medium, high" };
+    }
+    query.priority = priorities as TaskPriority[];
+  }
+
+  for (const field of ["assigneeId", "createdById"] as const) {
+    if (params[field] !== undefined) {
+      const id = parseInt(params[field] as string);
+      if (isNaN(id)) return { error: `${field} must be a number` };
+      query[field] = id;
+    }
+  }
+
+  for (const field of ["dueFrom", "dueTo", "createdFrom", "createdTo"] as const) {
+    if (params[field] !== undefined) {
+      const date = parseDate(params[field]);
+      if (!date) return { error: `Invalid date format for ${field}` };
+      query[field] = date;
+    }
+  }
+
+  if (typeof params.search === "string" && params.search.trim()) {
+    query.search = params.search.trim();
+  }
+
+  if (params.sort !== undefined) {
+    if (!(taskSortFields as readonly string[]).includes(params.sort as string)) {
+      return { error: `sort must be one of: ${taskSortFields.join(", ")}` };
+    }
+    query.sortBy = params.sort as TaskSortField;
+  }
+
+  if (params.order !== undefined) {
+    if (params.order !== "asc" && params.order !== "desc") {
+      return { error: "order must be asc or desc" };
+    }
+    query.sortDirection = params.order;
+  }
+
+  if (params.cursor !== undefined) {
+    const cursor = decodeCursor(String(params.cursor));
+    if (!cursor) return { error: "Invalid cursor" };
+    query.cursor = cursor;
+    query.limit = DEFAULT_PAGE_SIZE;
+  }
+
+  if (params.limit !== undefined) {
+    const limit = parseInt(params.limit as string);
+    if (isNaN(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return { error: `limit must be between 1 and ${MAX_PAGE_SIZE}` };
+    }
+    query.limit = limit;
+  }
+
+  return { query };
+}
@@ -0,0 +1,107 @@
+import { InsertTaskTemplate, Task, TaskTemplate } from "@shared/schema";
+import { defaultWorkflow, getInitialStatus } from "@shared/workflow";
+import { storage } from "./storage";
+import { recordTaskEvent } from "./task-events";
+import { assignTask } from "./task-assignment";
+import { broadcastMessage } from "./websocket";
+import { emitWebhookEvent } from "./webhooks";
+
+// Projects and assignees a template refers to must exist
+export async function checkTemplateReferences(
+  template: Partial<Pick<InsertTaskTemplate, "projectId" | "assigneeIds">>
+): Promise<string | undefined> {
+  if (template.projectId !== null && template.projectId !== undefined) {
+    if (!(await storage.getProject(template.projectId))) {
+      return "projectId does not reference an existing project";
+    }
+  }
+  for (const userId of template.assigneeIds ?? []) {
+    if (!(await storage.getUser(userId))) {
+      return `User ${userId} does not exist`;
+    }
+  }
+  return undefined;
+}
+
+// The templates of a bundle in their order, or an error when one is gone
+// or listed twice
+export async function getBundleTemplates(templateIds: number[]): Promise<{ templates: TaskTemplate[] } | { error: string }> {
+  const templates: TaskTemplate[] = [];
+  for (const templateId of templateIds) {
+    if (templates.some(template => template.id === templateId)) {
+      return { error: `Template ${templateId} is in the bundle twice` };
+    }
+    const template = await storage.getTaskTemplate(templateId);
+    if (!template) return { error: `Template ${templateId} does not exist` };
+    templates.push(template);
+  }
+  return { templates };
+}
+
+// Due offsets count whole days from the start date
+function getDueDate(template: TaskTemplate, startDate: Date): Date | null {
+  if (template.dueOffsetDays === null) return null;
+  const dueDate = new Date(startDate);
+  dueDate.setUTCDate(dueDate.getUTCDate() + template.dueOffsetDays);
+  return dueDate;
+}
+
+async function publishCreatedTask(task: Task, userId: number, templateId: number): Promise<void> {
+  await recordTaskEvent(task.id, userId, "created", { details: { reason: "template", templateId } });
+  broadcastMessage({
+    type: 'task_update',
+    payload: { action: 'created', task }
+  });
+  emitWebhookEvent("task.created", { task });
+}
+
+// Creates a task from the template, its checklist as subtasks due with it,
+// and assigns the template's assignees. Without a projectId the template's
+// own project is used. Returns the task followed by its subtasks.
+export async function createTasksFromTemplate(
+  template: TaskTemplate,
+  options: { projectId?: number | null; startDate: Date },
+  userId: number
+): Promise<Task[]> {
+  const projectId = options.projectId !== undefined ? options.projectId : template.projectId;
+  const workflow = projectId !== null
+    ? (await storage.getWorkflowByProjectId(projectId)) ?? defaultWorkflow
+    : defaultWorkflow;
+  const status = getInitialStatus(workflow).key;
+  const dueDate = getDueDate(template, options.startDate);
+
+  const task = await storage.createTask({
+    title: template.title,
+    description: template.description,
+    status,
+    priority: template.priority,
+    dueDate,
+    estimatedHours: template.estimatedHours,
+    createdById: userId,
+    projectId,
+    parentId: null,
+  });
+  await publishCreatedTask(task, userId, template.id);
+
+  const created = [task];
+  for (const item of template.checklist) {
+    const subtask = await storage.createTask({
+      title: item,
+      description: null,
+      status,
+      priority: template.priority,
+      dueDate,
+      estimatedHours: null,
+      createdById: userId,
+      projectId,
+      parentId: task.id,
+    });
+    await publishCreatedTask(subtask, userId, template.id);
+    created.push(subtask);
+  }
+
+  for (const assigneeId of template.assigneeIds) {
+    await assignTask(task.id, assigneeId, userId);
+  }
+  return created;
+}
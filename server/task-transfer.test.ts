@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { ExportedTask, User } from "@shared/schema";
+import { ImportRow, parseImportFile, parseImportedTask, resolveAssignees, toTasksCsv } from "./task-transfer";
+
+function csvFile(text: string): Express.Multer.File {
+  return { buffer: Buffer.from(text), originalname: "tasks.csv", mimetype: "text/csv" } as Express.Multer.File;
+}
+
+function rowsOf(text: string): ImportRow[] {
+  const parsed = parseImportFile(csvFile(text));
+  if ("error" in parsed) throw new Error(parsed.error);
+  return parsed.rows;
+}
+
+describe("task CSV export and import", () => {
+  const exported: ExportedTask = {
+    id: 12,
+    title: "=HYPERLINK(\"http://evil.example\",\"Click\")",
+    description: "Steps:\n1. Open, then check \"all\"\n2. -Close",
+    status: "inProgress",
+    priority: "high",
+    dueDate: new Date("2026-03-10T09:00:00Z"),
+    createdAt: new Date("2026-03-01T08:00:00Z"),
+    estimatedHours: 4,
+    createdById: 1,
+    projectId: 3,
+    parentId: null,
+    recurrenceId: null,
+    assignees: ["alice", "bob"],
+  };
+  const users = [
+    { id: 5, username: "alice", email: "alice@example.com" },
+    { id: 6, username: "bob", email: "bob@example.com" },
+  ] as User[];
+
+  it("escapes formulas in the exported file", () => {
+    const csv = toTasksCsv([exported]);
+    expect(csv.split("\r\n")[1]).toMatch(/^12,"'=HYPERLINK\(/);
+  });
+
+  it("imports the exported fields unchanged", () => {
+    const [row] = rowsOf(toTasksCsv([exported]));
+
+    expect(parseImportedTask(row)).toEqual({
+      task: {
+        title: exported.title,
+        description: exported.description,
+        status: "inProgress",
+        priority: "high",
+        dueDate: exported.dueDate,
+        estimatedHours: 4,
+        projectId: 3,
+      },
+    });
+    expect(resolveAssignees(row, users)).toEqual({ userIds: [5, 6] });
+  });
+
+  it("explains what is wrong with a row", () => {
+    const rows = rowsOf("title,dueDate,estimatedHours,assignees\n,,,\nPlan,someday,,\nPlan,,many,\nPlan,,,carol\n");
+
+    expect(rows.map(row => {
+      const task = parseImportedTask(row);
+      if ("error" in task) return task.error;
+      const assignees = resolveAssignees(row, users);
+      return "error" in assignees ? assignees.error : "ok";
+    })).toEqual([
+      "title: Required",
+      "dueDate: Invalid date",
+      "estimatedHours: Expected number, received nan",
+      "Unknown assignee: carol",
+    ]);
+  });
+});
+
+describe("iCalendar import", () => {
+  it("takes due dates from all-day events and zoned to-dos", () => {
+    const ics = [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VEVENT",
+      "SUMMARY:Company holiday",
+      "DTSTART;VALUE=DATE:20260406",
+      "END:VEVENT",
+      "BEGIN:VTODO",
+      "SUMMARY:Send the invoices",
+      "DTSTART;TZID=America/New_York:20260401T090000",
+      "DUE;TZID=America/New_York:20260403T170000",
+      "PRIORITY:1",
+      "END:VTODO",
+      "END:VCALENDAR",
+    ].join("\r\n");
+    const file = { buffer: Buffer.from(ics), originalname: "calendar.ics", mimetype: "text/calendar" } as Express.Multer.File;
+
+    expect(parseImportFile(file)).toEqual({
+      rows: [
+        { title: "Company holiday", dueDate: new Date("2026-04-06T00:00:00Z") },
+        { title: "Send the invoices", dueDate: new Date("2026-04-03T21:00:00Z"), priority: "high" },
+      ],
+    });
+  });
+});
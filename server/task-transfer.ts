@@ -0,0 +1,211 @@
+import path from "path";
+import type { RequestHandler } from "express";
+import multer from "multer";
+import { z } from "zod";
+import { ExportedTask, Task, User, insertTaskSchema } from "@shared/schema";
+import { storage } from "./storage";
+import { parseCsv, toCsv, unescapeFormula } from "./csv";
+import { ICalComponent, getProperty, parseDateValue, parseICalendar, unescapeText } from "./ical";
+import { fromICalPriority } from "./calendar-feeds";
+
+export const MAX_IMPORT_SIZE = 5 * 1024 * 1024;
+export const MAX_IMPORT_ROWS = 1000;
+
+// CSV columns in export order. Import reads the task fields and assignees;
+// id, createdById and createdAt are informational.
+const exportColumns = [
+  "id",
+  "title",
+  "description",
+  "status",
+  "priority",
+  "dueDate",
+  "estimatedHours",
+  "projectId",
+  "parentId",
+  "assignees",
+  "createdById",
+  "createdAt",
+] as const satisfies readonly (keyof ExportedTask)[];
+
+// What an imported row may set. The importer becomes the creator, and status
+// and priority fall back to the same defaults as POST /api/tasks. Imported
+// tasks do not repeat.
+export const importedTaskSchema = insertTaskSchema
+  .omit({ createdById: true, recurrenceId: true })
+  .partial({ status: true, priority: true });
+
+export type ImportedTask = z.infer<typeof importedTaskSchema>;
+
+// One row of an import file, still untyped
+export type ImportRow = Record<string, unknown>;
+
+export async function toExportedTasks(tasks: Task[]): Promise<ExportedTask[]> {
+  const users = new Map((await storage.getUsers()).map(user => [user.id, user.username]));
+  const exported: ExportedTask[] = [];
+  for (const task of tasks) {
+    const assignees = await storage.getTaskAssignees(task.id);
+    exported.push({
+      ...task,
+      assignees: assignees
+        .map(assignee => users.get(assignee.userId))
+        .filter((username): username is string => username !== undefined),
+    });
+  }
+  return exported;
+}
+
+function formatCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.join(";");
+  return String(value);
+}
+
+export function toTasksCsv(tasks: ExportedTask[]): string {
+  return toCsv([
+    [...exportColumns],
+    ...tasks.map(task => exportColumns.map(column => formatCsvValue(task[column]))),
+  ]);
+}
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMPORT_SIZE, files: 1 },
+});
+
+// Parse a multipart request carrying the import file in the "file" field
+export const receiveTaskImport: RequestHandler = (req, res, next) => {
+  upload.single("file")(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      if (error.code === "LIMIT_FILE_SIZE") {
+        return res.status(413).json({ message: `File is too large, the limit is ${MAX_IMPORT_SIZE / 1024 / 1024} MB` });
+      }
+      return res.status(400).json({ message: error.message });
+    }
+    if (error) return next(error);
+    if (!req.file) {
+      return res.status(400).json({ message: "Upload a CSV, JSON or iCalendar file in the \"file\" field" });
+    }
+    next();
+  });
+};
+
+function isJsonFile(file: Express.Multer.File): boolean {
+  return file.mimetype === "application/json" || path.extname(file.originalname).toLowerCase() === ".json";
+}
+
+function isICalendarFile(file: Express.Multer.File): boolean {
+  return file.mimetype === "text/calendar" || path.extname(file.originalname).toLowerCase() === ".ics";
+}
+
+// An event or to-do as an import row: its summary becomes the title and its
+// start (events) or due date (to-dos) the due date
+function toImportRow(component: ICalComponent): ImportRow {
+  const row: ImportRow = {};
+  const summary = getProperty(component, "SUMMARY");
+  if (summary) row.title = unescapeText(summary.value).trim();
+  const description = getProperty(component, "DESCRIPTION");
+  if (description) row.description = unescapeText(description.value);
+
+  const date = component.type === "VTODO"
+    ? getProperty(component, "DUE") ?? getProperty(component, "DTSTART")
+    : getProperty(component, "DTSTART");
+  if (date) row.dueDate = parseDateValue(date.value, date.params?.TZID) ?? new Date(NaN);
+
+  const priority = getProperty(component, "PRIORITY");
+  if (priority) {
+    const mapped = fromICalPriority(parseInt(priority.value));
+    if (mapped) row.priority = mapped;
+  }
+  return row;
+}
+
+// Rows of a CSV file (with a header line), a JSON array of task objects or
+// the events and to-dos of an iCalendar file
+export function parseImportFile(file: Express.Multer.File): { rows: ImportRow[] } | { error: string } {
+  const text = file.buffer.toString("utf8");
+  let rows: ImportRow[];
+
+  if (isICalendarFile(file)) {
+    const parsed = parseICalendar(text, ["VEVENT", "VTODO"]);
+    if ("error" in parsed) return parsed;
+    rows = parsed.components.map(toImportRow);
+  } else if (isJsonFile(file)) {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      return { error: "The file is not valid JSON" };
+    }
+    if (!Array.isArray(data)) return { error: "The JSON file must contain an array of tasks" };
+    const invalidIndex = data.findIndex(item => typeof item !== "object" || item === null || Array.isArray(item));
+    if (invalidIndex !== -1) return { error: `Row ${invalidIndex + 1} is not an object` };
+    rows = data;
+  } else {
+    const parsed = parseCsv(text);
+    if ("error" in parsed) return parsed;
+    const [header, ...lines] = parsed.rows;
+    if (!header || !header.map(column => column.trim()).includes("title")) {
+      return { error: "The CSV file needs a header line with at least a \"title\" column" };
+    }
+    const columns = header.map(column => column.trim());
+    rows = lines.map(line => Object.fromEntries(
+      columns.map((column, index) => [column, unescapeFormula(line[index] ?? "")])
+    ));
+  }
+
+  if (rows.length === 0) return { error: "The file contains no tasks" };
+  if (rows.length > MAX_IMPORT_ROWS) return { error: `At most ${MAX_IMPORT_ROWS} tasks can be imported at once` };
+  return { rows };
+}
+
+// CSV cells are all strings, so turn them into the types insertTaskSchema
+// expects. Empty cells count as missing.
+function coerceRow(row: ImportRow): Record<string, unknown> {
+  const task: Record<string, unknown> = {};
+  for (const field of ["title", "description", "status", "priority"] as const) {
+    if (row[field] !== "" && row[field] !== undefined) task[field] = row[field];
+  }
+  for (const field of ["estimatedHours", "projectId", "parentId"] as const) {
+    const value = row[field];
+    if (value === "" || value === undefined) continue;
+    task[field] = typeof value === "string" ? Number(value.trim()) : value;
+  }
+  const dueDate = row.dueDate;
+  if (dueDate !== "" && dueDate !== undefined) {
+    task.dueDate = typeof dueDate === "string" || typeof dueDate === "number" ? new Date(dueDate) : dueDate;
+  }
+  return task;
+}
+
+export function parseImportedTask(row: ImportRow): { task: ImportedTask } | { error: string } {
+  const parsed = importedTaskSchema.safeParse(coerceRow(row));
+  if (!parsed.success) {
+    const issue = parsed.error.errors[0];
+    return { error: issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message };
+  }
+  return { task: parsed.data };
+}
+
+// Assignees are given by username or email, as a list or separated by
+// commas or semicolons
+export function resolveAssignees(row: ImportRow, users: User[]): { userIds: number[] } | { error: string } {
+  const value = row.assignees;
+  if (value === undefined || value === null || value === "") return { userIds: [] };
+
+  const names = (Array.isArray(value) ? value.map(String) : String(value).split(/[;,]/))
+    .map(name => name.trim())
+    .filter(name => name.length > 0);
+
+  const userIds: number[] = [];
+  for (const name of names) {
+    const lower = name.toLowerCase();
+    const user = users.find(candidate =>
+      candidate.username.toLowerCase() === lower || candidate.email.toLowerCase() === lower
+    );
+    if (!user) return { error: `Unknown assignee: ${name}` };
+    if (!userIds.includes(user.id)) userIds.push(user.id);
+  }
+  return { userIds };
+}
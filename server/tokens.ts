@@ -0,0 +1,12 @@
+import { createHash, randomBytes } from "crypto";
+
+// Single-use secrets sent to users (invite links, password resets). Only
+// the hash is stored, so a database leak does not expose working links.
+export function createToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashToken(token) };
+}
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
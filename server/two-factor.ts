@@ -0,0 +1,96 @@
+import { randomBytes } from "crypto";
+import { Secret, TOTP } from "otpauth";
+import QRCode from "qrcode";
+import { SecurityPolicy, User, securityPolicySchema } from "@shared/schema";
+import { storage } from "./storage";
+import { hashToken } from "./tokens";
+
+export const TOTP_ISSUER = "TaskFlow";
+export const RECOVERY_CODE_COUNT = 10;
+
+const SECURITY_POLICY_KEY = "securityPolicy";
+const defaultSecurityPolicy: SecurityPolicy = { twoFactorRequiredRoles: [] };
+
+export type TwoFactorSetup = {
+  secret: string;
+  otpauthUrl: string;
+  // PNG data URL of the otpauth URL, for authenticator apps to scan
+  qrCode: string;
+};
+
+function getTotp(user: Pick<User, "username">, secret: string): TOTP {
+  return new TOTP({
+    issuer: TOTP_ISSUER,
+    label: user.username,
+    algorithm: "SHA1",
+    digits: 6,
+    period: 30,
+    secret: Secret.fromBase32(secret),
+  });
+}
+
+// Codes from the previous and next 30 second step also pass, to allow for
+// clock drift between the server and the user's device. Each step's code is
+// only accepted once, so a code seen over someone's shoulder cannot be
+// replayed while it is still valid.
+export async function verifyTotp(user: Pick<User, "id" | "username">, secret: string, code: string): Promise<boolean> {
+  const token = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(token)) return false;
+  const totp = getTotp(user, secret);
+  const delta = totp.validate({ token, window: 1 });
+  if (delta === null) return false;
+  return storage.useTotpStep(user.id, TOTP.counter({ period: totp.period }) + delta);
+}
+
+// Give the user a new secret to scan. It only takes effect once a code from
+// it is confirmed, so restarting enrolment replaces any unconfirmed secret.
+export async function startTwoFactorSetup(user: User): Promise<TwoFactorSetup> {
+  const secret = new Secret({ size: 20 }).base32;
+  await storage.updateUser(user.id, { totpSecret: secret });
+
+  const otpauthUrl = getTotp(user, secret).toString();
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+}
+
+// Recovery codes are compared without case, spaces or dashes
+function hashRecoveryCode(code: string): string {
+  return hashToken(code.replace(/[\s-]/g, "").toLowerCase());
+}
+
+// Fresh one-time codes for signing in without the authenticator. The
+// plain codes are shown once; only their hashes are stored.
+export async function replaceRecoveryCodes(userId: number): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  await storage.updateUser(userId, { recoveryCodeHashes: codes.map(hashRecoveryCode) });
+  return codes;
+}
+
+// Check the second login step: a current TOTP code, or an unused recovery
+// code, which is used up by this
+export async function verifySecondFactor(user: User, code: string): Promise<boolean> {
+  if (!user.totpEnabled || !user.totpSecret) return false;
+  if (await verifyTotp(user, user.totpSecret, code)) return true;
+  return storage.useRecoveryCode(user.id, hashRecoveryCode(code));
+}
+
+export async function getSecurityPolicy(): Promise<SecurityPolicy> {
+  const parsed = securityPolicySchema.safeParse(await storage.getSetting(SECURITY_POLICY_KEY));
+  return parsed.success ? parsed.data : defaultSecurityPolicy;
+}
+
+export async function setSecurityPolicy(policy: SecurityPolicy): Promise<void> {
+  await storage.setSetting(SECURITY_POLICY_KEY, policy);
+}
+
+export async function isTwoFactorRequired(user: Pick<User, "role">): Promise<boolean> {
+  const policy = await getSecurityPolicy();
+  return policy.twoFactorRequiredRoles.includes(user.role);
+}
+
+// Users the policy covers who have not turned on 2FA yet
+export async function needsTwoFactorSetup(user: User): Promise<boolean> {
+  return !user.totpEnabled && (await isTwoFactorRequired(user));
+}
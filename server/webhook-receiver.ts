@@ -0,0 +1,40 @@
+// Local endpoint for trying out webhooks: logs every delivery and whether
+// its signature checks out.
+//
+//   WEBHOOK_SECRET=whsec_... npm run webhooks:receive
+//
+// then point a webhook at http://localhost:4100/. Set WEBHOOK_RECEIVER_STATUS
+// to answer with another status code, e.g. 500 to watch the retries.
+import { createServer } from "http";
+import { verifyWebhookSignature } from "./webhook-signature";
+
+const port = parseInt(process.env.WEBHOOK_RECEIVER_PORT || "4100");
+const secret = process.env.WEBHOOK_SECRET;
+const status = parseInt(process.env.WEBHOOK_RECEIVER_STATUS || "200");
+
+const server = createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on("data", (chunk: Buffer) => chunks.push(chunk));
+  req.on("end", () => {
+    const body = Buffer.concat(chunks).toString("utf8");
+    const signature = String(req.headers["x-taskflow-signature"] ?? "");
+    const timestamp = parseInt(String(req.headers["x-taskflow-timestamp"] ?? ""));
+
+    let verdict = "not checked, WEBHOOK_SECRET is not set";
+    if (secret) {
+      verdict = verifyWebhookSignature(secret, signature, timestamp, body) ? "valid" : "INVALID";
+    }
+
+    console.log(`${req.method} ${req.url} ${req.headers["x-taskflow-event"]} #${req.headers["x-taskflow-delivery"]}`);
+    console.log(`signature: ${verdict}`);
+    console.log(body);
+    console.log();
+
+    res.writeHead(secret && verdict !== "valid" ? 401 : status, { "Content-Type": "text/plain" });
+    res.end(verdict);
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}/`);
+});
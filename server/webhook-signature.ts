@@ -0,0 +1,23 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// Receivers reject signatures older than this, which stops replays
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+// Hex HMAC-SHA256 of "<timestamp>.<body>", sent as "sha256=<hex>"
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return "sha256=" + createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+// Checks a delivery the way a receiver should: signature first, then age
+export function verifyWebhookSignature(
+  secret: string,
+  signature: string,
+  timestamp: number,
+  body: string,
+  now = Date.now()
+): boolean {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return false;
+  return Math.abs(now / 1000 - timestamp) <= WEBHOOK_SIGNATURE_TOLERANCE_SECONDS;
+}
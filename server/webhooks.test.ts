@@ -0,0 +1,113 @@
+import { createHmac } from "crypto";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { Webhook } from "@shared/schema";
+import { StorageFactory, storage } from "./storage";
+import { MAX_WEBHOOK_ATTEMPTS, createWebhookSecret, sendTestEvent, webhookDeliveryJob } from "./webhooks";
+import { WEBHOOK_SIGNATURE_TOLERANCE_SECONDS, signWebhookPayload, verifyWebhookSignature } from "./webhook-signature";
+
+describe("webhook signatures", () => {
+  const secret = "whsec_test";
+  const body = JSON.stringify({ id: 1, event: "task.created", data: { task: { id: 7 } } });
+  const timestamp = 1_773_144_000;
+  const now = timestamp * 1000;
+
+  it("signs the timestamp and body with HMAC-SHA256", () => {
+    const expected = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+    expect(signWebhookPayload(secret, timestamp, body)).toBe(`sha256=${expected}`);
+  });
+
+  it("accepts a fresh, untouched delivery", () => {
+    expect(verifyWebhookSignature(secret, signWebhookPayload(secret, timestamp, body), timestamp, body, now)).toBe(true);
+  });
+
+  it("rejects a changed body, timestamp or secret", () => {
+    const signature = signWebhookPayload(secret, timestamp, body);
+    expect(verifyWebhookSignature(secret, signature, timestamp, body.replace("7", "8"), now)).toBe(false);
+    expect(verifyWebhookSignature(secret, signature, timestamp + 1, body, now)).toBe(false);
+    expect(verifyWebhookSignature("whsec_other", signature, timestamp, body, now)).toBe(false);
+    expect(verifyWebhookSignature(secret, "sha256=abc", timestamp, body, now)).toBe(false);
+  });
+
+  it("rejects signatures older than the tolerance", () => {
+    const signature = signWebhookPayload(secret, timestamp, body);
+    const limit = now + WEBHOOK_SIGNATURE_TOLERANCE_SECONDS * 1000;
+    expect(verifyWebhookSignature(secret, signature, timestamp, body, limit)).toBe(true);
+    expect(verifyWebhookSignature(secret, signature, timestamp, body, limit + 1000)).toBe(false);
+  });
+});
+
+describe("webhook deliveries", () => {
+  let webhook: Webhook;
+
+  beforeAll(async () => {
+    await StorageFactory.getStorage();
+    const user = await storage.createUser({
+      username: "webhook-admin",
+      password: "unused",
+      email: "webhook-admin@example.com",
+      fullName: "Webhook Admin",
+      role: "admin",
+    });
+    webhook = await storage.createWebhook({
+      url: "https://receiver.example.com/hooks",
+      description: null,
+      secret: createWebhookSecret(),
+      events: ["task.created"],
+      active: true,
+      createdById: user.id,
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it("sends a signature the receiver can verify", async () => {
+    const fetchMock = vi.spyOn(globalThis, "fetch").mockImplementation(async () => new Response("ok"));
+
+    const delivery = await sendTestEvent(webhook);
+
+    expect(delivery.status).toBe("succeeded");
+    const [url, init] = fetchMock.mock.calls[0];
+    const headers = init!.headers as Record<string, string>;
+    expect(url).toBe(webhook.url);
+    expect(verifyWebhookSignature(
+      webhook.secret,
+      headers["X-TaskFlow-Signature"],
+      parseInt(headers["X-TaskFlow-Timestamp"]),
+      init!.body as string
+    )).toBe(true);
+  });
+
+  it("retries with doubling delays and gives up after the last attempt", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-03-10T12:00:00Z"));
+    vi.spyOn(globalThis, "fetch").mockImplementation(async () => new Response("down", { status: 503 }));
+    let delivery = await storage.createWebhookDelivery({
+      webhookId: webhook.id,
+      event: "task.created",
+      payload: { task: { id: 7 } },
+      nextAttemptAt: new Date(),
+    });
+
+    const delaysInSeconds: number[] = [];
+    for (let attempt = 1; attempt <= MAX_WEBHOOK_ATTEMPTS; attempt++) {
+      await webhookDeliveryJob.run();
+      [delivery] = await storage.getWebhookDeliveries(webhook.id, delivery.id + 1, 1);
+      expect(delivery.attempts).toBe(attempt);
+      if (delivery.nextAttemptAt) {
+        delaysInSeconds.push((delivery.nextAttemptAt.getTime() - Date.now()) / 1000);
+        vi.setSystemTime(delivery.nextAttemptAt);
+      }
+    }
+
+    expect(delaysInSeconds).toEqual([30, 60, 120, 240, 480, 960, 1920]);
+    expect(delivery).toMatchObject({
+      status: "failed",
+      nextAttemptAt: null,
+      responseStatus: 503,
+      error: "Receiver responded with 503",
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { PublicWebhook, Webhook, WebhookDelivery, WebhookEvent } from "@shared/schema";
+import { storage } from "./storage";
+import { createToken } from "./tokens";
+import { Job, runJob } from "./jobs";
+import { signWebhookPayload } from "./webhook-signature";
+import { log } from "./vite";
+
+export const WEBHOOK_SECRET_PREFIX = "whsec_";
+// A delivery is given up after this many attempts, roughly an hour after the
+// first one with the backoff below
+export const MAX_WEBHOOK_ATTEMPTS = 8;
+const FIRST_RETRY_DELAY_MS = 30 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// Enough of the receiver's answer to debug with, without storing whole pages
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+const DELIVERIES_PER_RUN = 50;
+
+export function createWebhookSecret(): string {
+  return WEBHOOK_SECRET_PREFIX + createToken().token;
+}
+
+export function toPublicWebhook(webhook: Webhook): PublicWebhook {
+  const { secret, ...publicWebhook } = webhook;
+  return publicWebhook;
+}
+
+// Queues an event for every active webhook subscribed to it. Called next to
+// broadcastMessage; failures are logged so they never fail the request.
+export function emitWebhookEvent(event: Exclude<WebhookEvent, "ping">, data: Record<string, unknown>) {
+  void queueWebhookEvent(event, data).catch((error) => {
+    log(`Failed to queue ${event}: ${error instanceof Error ? error.message : error}`, "webhooks");
+  });
+}
+
+async function queueWebhookEvent(event: Exclude<WebhookEvent, "ping">, data: Record<string, unknown>) {
+  const subscribers = (await storage.getWebhooks())
+    .filter(webhook => webhook.active && webhook.events.includes(event));
+  if (subscribers.length === 0) return;
+
+  // Round-trip through JSON so stored payloads hold what is sent (dates as strings)
+  const payload = JSON.parse(JSON.stringify(data));
+  const now = new Date();
+  for (const webhook of subscribers) {
+    await storage.createWebhookDelivery({ webhookId: webhook.id, event, payload, nextAttemptAt: now });
+  }
+  void runJob(webhookDeliveryJob);
+}
+
+// Sends a "ping" right away so admins can check the receiver from the UI
+export async function sendTestEvent(webhook: Webhook): Promise<WebhookDelivery> {
+  const delivery = await storage.createWebhookDelivery({
+    webhookId: webhook.id,
+    event: "ping",
+    payload: { webhookId: webhook.id, url: webhook.url },
+    // Left out of the queue so the job cannot send it a second time
+    nextAttemptAt: null,
+  });
+  return await attemptDelivery(webhook, delivery);
+}
+
+// The request body; the delivery id lets receivers ignore retries they
+// already processed
+function serializeDelivery(delivery: WebhookDelivery): string {
+  return JSON.stringify({
+    id: delivery.id,
+    event: delivery.event,
+    createdAt: delivery.createdAt,
+    data: delivery.payload,
+  });
+}
+
+function getRetryDelay(attempts: number): number {
+  return FIRST_RETRY_DELAY_MS * 2 ** (attempts - 1);
+}
+
+async function attemptDelivery(webhook: Webhook, delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const body = serializeDelivery(delivery);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attempts = delivery.attempts + 1;
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+  try {
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "TaskFlow-Webhooks",
+        "X-TaskFlow-Event": delivery.event,
+        "X-TaskFlow-Delivery": String(delivery.id),
+        "X-TaskFlow-Timestamp": String(timestamp),
+        "X-TaskFlow-Signature": signWebhookPayload(webhook.secret, timestamp, body),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY_LENGTH);
+    if (!response.ok) error = `Receiver responded with ${response.status}`;
+  } catch (err) {
+    // fetch reports network errors as "fetch failed" with the reason as cause
+    const cause = err instanceof Error && err.cause instanceof Error ? `: ${err.cause.message}` : "";
+    error = (err instanceof Error ? err.message : String(err)) + cause;
+  }
+
+  const succeeded = error === null;
+  const retry = !succeeded && attempts < MAX_WEBHOOK_ATTEMPTS;
+  const updated = await storage.updateWebhookDelivery(delivery.id, {
+    status: succeeded ? "succeeded" : retry ? "pending" : "failed",
+    attempts,
+    lastAttemptAt: new Date(),
+    nextAttemptAt: retry ? new Date(Date.now() + getRetryDelay(attempts)) : null,
+    responseStatus,
+    responseBody,
+    error,
+  });
+  return updated ?? delivery;
+}
+
+// Works through deliveries that are due, including retries
+export const webhookDeliveryJob: Job = {
+  name: "webhook-delivery",
+  intervalMs: 15 * 1000,
+  async run() {
+    const due = await storage.getDueWebhookDeliveries(new Date(), DELIVERIES_PER_RUN);
+    for (const delivery of due) {
+      const webhook = await storage.getWebhook(delivery.webhookId);
+      if (!webhook) continue;
+      if (!webhook.active) {
+        await storage.updateWebhookDelivery(delivery.id, {
+          status: "failed",
+          nextAttemptAt: null,
+          error: "Webhook was disabled",
+        });
+        continue;
+      }
+      await attemptDelivery(webhook, delivery);
+    }
+  },
+};
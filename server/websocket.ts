@@ -0,0 +1,95 @@
+import type { Request, RequestHandler, Response } from "express";
+import type { Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import { storage } from "./storage";
+import { isSessionCurrent } from "./auth";
+
+// WebSocket clients map
+type WebSocketClient = {
+  userId: number;
+  socket: WebSocket;
+};
+
+// Global variable to hold WebSocket clients
+const wsClients: WebSocketClient[] = [];
+
+// WebSocket message types
+export type WebSocketMessage = {
+  type: 'task_update' | 'comment_added' | 'notification' | 'unread_count' | 'task_assigned' | 'time_entry_added' | 'activity';
+  payload: any;
+};
+
+// Function to broadcast message to all connected clients
+export function broadcastMessage(message: WebSocketMessage, excludeUserId?: number) {
+  const messageStr = JSON.stringify(message);
+  wsClients.forEach((client) => {
+    if (client.socket.readyState === WebSocket.OPEN && (!excludeUserId || client.userId !== excludeUserId)) {
+      client.socket.send(messageStr);
+    }
+  });
+}
+
+// Function to send a message to a specific user
+export function sendMessageToUser(userId: number, message: WebSocketMessage) {
+  const messageStr = JSON.stringify(message);
+  const userClients = wsClients.filter(client => client.userId === userId);
+  
+  userClients.forEach(client => {
+    if (client.socket.readyState === WebSocket.OPEN) {
+      client.socket.send(messageStr);
+    }
+  });
+}
+
+// Accept authenticated socket connections on /ws
+export function setupWebSocketServer(httpServer: Server, sessionMiddleware: RequestHandler) {
+  // Setup WebSocket server on a different path to avoid conflict with Vite HMR
+  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
+  
+  wss.on('connection', (ws, req) => {
+    let userId: number | undefined;
+    
+    // Load the session the way HTTP requests do, so the cookie's signature is
+    // checked against the session secret before the store is read
+    const request = req as Request;
+    sessionMiddleware(request, {} as Response, async (err?: unknown) => {
+      const sessionUserId = err ? undefined : request.session?.passport?.user;
+      const user = sessionUserId ? await storage.getUser(sessionUserId).catch(() => undefined) : undefined;
+      if (!user || !isSessionCurrent(request.session, user)) {
+        ws.close(1008, 'Unauthorized');
+        return;
+      }
+      userId = user.id;
+      // The socket may have closed while the session was loading
+      if (ws.readyState !== WebSocket.OPEN) {
+        return;
+      }
+      
+      // Register the authenticated client
+      wsClients.push({ userId, socket: ws });
+      
+      // Send initial connection confirmation
+      ws.send(JSON.stringify({ type: 'connected', payload: { userId } }));
+    });
+    
+    // The socket only pushes updates; actions go through the HTTP routes,
+    // where permissions are checked
+    ws.on('message', () => {
+      ws.close(1003, 'Messages are not accepted');
+    });
+    
+    // Handle disconnection
+    ws.on('close', () => {
+      if (userId) {
+        // Remove client from the clients list
+        const index = wsClients.findIndex(client => 
+          client.userId === userId && client.socket === ws
+        );
+        
+        if (index !== -1) {
+          wsClients.splice(index, 1);
+        }
+      }
+    });
+  });
+}
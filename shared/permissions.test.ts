@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { Role, roles } from "./schema";
+import { Permission, can, permissions } from "./permissions";
+
+// The roles each permission is granted to outright, spelled out so a change
+// to the rules has to be made here as well
+const matrix: Record<Permission, Role[]> = {
+  "projects:manage": ["admin", "manager"],
+  "workflows:manage": ["admin", "manager"],
+  "labels:manage": ["admin", "manager"],
+  "templates:manage": ["admin", "manager"],
+  "tasks:create": ["admin", "manager", "employee"],
+  "tasks:update": ["admin", "manager"],
+  "tasks:delete": ["admin", "manager"],
+  "tasks:assign": ["admin", "manager"],
+  "tasks:comment": ["admin", "manager", "employee"],
+  "tasks:logTime": ["admin", "manager"],
+  "attachments:delete": ["admin", "manager"],
+  "users:changeRole": ["admin"],
+  "users:invite": ["admin"],
+  "security:manage": ["admin"],
+  "reminders:manage": ["admin"],
+  "webhooks:manage": ["admin"],
+};
+
+describe("can", () => {
+  it("covers every permission", () => {
+    expect(Object.keys(matrix).sort()).toEqual(Object.keys(permissions).sort());
+  });
+
+  describe.each(roles)("%s", (role) => {
+    it.each(Object.entries(matrix) as [Permission, Role[]][])("%s", (permission, allowed) => {
+      expect(can({ role }, permission)).toBe(allowed.includes(role));
+    });
+  });
+
+  it("lets creators and assignees act on their own tasks", () => {
+    const employee = { role: "employee" } as const;
+
+    expect(can(employee, "tasks:update", ["creator"])).toBe(true);
+    expect(can(employee, "tasks:update", ["assignee"])).toBe(true);
+    expect(can(employee, "tasks:logTime", ["assignee"])).toBe(true);
+    expect(can(employee, "tasks:delete", ["creator"])).toBe(true);
+    expect(can(employee, "tasks:assign", ["creator"])).toBe(true);
+    expect(can(employee, "attachments:delete", ["creator"])).toBe(true);
+
+    expect(can(employee, "tasks:delete", ["assignee"])).toBe(false);
+    expect(can(employee, "tasks:assign", ["assignee"])).toBe(false);
+  });
+
+  it("never grants role-only permissions through a relation", () => {
+    expect(can({ role: "employee" }, "projects:manage", ["creator", "assignee"])).toBe(false);
+    expect(can({ role: "manager" }, "users:changeRole", ["creator", "assignee"])).toBe(false);
+  });
+
+  it("denies anonymous users", () => {
+    expect(can(null, "tasks:create")).toBe(false);
+    expect(can(undefined, "tasks:comment")).toBe(false);
+  });
+});
@@ -0,0 +1,48 @@
+import { Role, User } from "./schema";
+
+// How a user relates to the resource an action targets. For attachments
+// the creator is the uploader.
+export type Relation = "creator" | "assignee";
+
+type PermissionRule = {
+  // Roles allowed the action on any resource
+  roles: readonly Role[];
+  // Relations that grant the action to any other role
+  relations?: readonly Relation[];
+};
+
+const everyone: readonly Role[] = ["admin", "manager", "employee"];
+const managers: readonly Role[] = ["admin", "manager"];
+
+// Who may do what. Reading is open to every signed-in user.
+export const permissions = {
+  "projects:manage": { roles: managers },
+  "workflows:manage": { roles: managers },
+  "labels:manage": { roles: managers },
+  "templates:manage": { roles: managers },
+  "tasks:create": { roles: everyone },
+  "tasks:update": { roles: managers, relations: ["creator", "assignee"] },
+  "tasks:delete": { roles: managers, relations: ["creator"] },
+  "tasks:assign": { roles: managers, relations: ["creator"] },
+  "tasks:comment": { roles: everyone },
+  "tasks:logTime": { roles: managers, relations: ["creator", "assignee"] },
+  "attachments:delete": { roles: managers, relations: ["creator"] },
+  "users:changeRole": { roles: ["admin"] },
+  "users:invite": { roles: ["admin"] },
+  "security:manage": { roles: ["admin"] },
+  "reminders:manage": { roles: ["admin"] },
+  "webhooks:manage": { roles: ["admin"] },
+} satisfies Record<string, PermissionRule>;
+
+export type Permission = keyof typeof permissions;
+
+export function can(
+  user: Pick<User, "role"> | null | undefined,
+  permission: Permission,
+  relations: readonly Relation[] = []
+): boolean {
+  if (!user) return false;
+  const rule: PermissionRule = permissions[permission];
+  return rule.roles.includes(user.role)
+    || relations.some(relation => rule.relations?.includes(relation));
+}
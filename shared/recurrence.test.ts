@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { RecurrenceRule, getNextOccurrence, parseRecurrenceRule } from "./recurrence";
+
+function parse(text: string): RecurrenceRule {
+  const parsed = parseRecurrenceRule(text);
+  if ("error" in parsed) throw new Error(parsed.error);
+  return parsed.rule;
+}
+
+// The first `count` occurrences after the start
+function occurrences(text: string, start: string, timeZone: string, count: number): string[] {
+  const rule = parse(text);
+  const dates: string[] = [];
+  let after = new Date(start);
+  while (dates.length < count) {
+    const next = getNextOccurrence(rule, new Date(start), after, timeZone);
+    if (!next) break;
+    dates.push(next.toISOString());
+    after = next;
+  }
+  return dates;
+}
+
+describe("parseRecurrenceRule", () => {
+  it("reads numbered weekdays for monthly rules", () => {
+    expect(parse("RRULE:FREQ=MONTHLY;BYDAY=-1FR")).toEqual({
+      frequency: "MONTHLY",
+      interval: 1,
+      byDay: [{ weekday: "FR", ordinal: -1 }],
+    });
+  });
+
+  it("rejects numbered weekdays for other frequencies", () => {
+    expect(parseRecurrenceRule("FREQ=WEEKLY;BYDAY=-1FR")).toEqual({ error: "Numbered weekdays in BYDAY need FREQ=MONTHLY" });
+  });
+
+  it("reads COUNT and UNTIL but not both", () => {
+    expect(parse("FREQ=DAILY;COUNT=3").count).toBe(3);
+    expect(parse("FREQ=DAILY;UNTIL=20260305").until).toEqual(new Date("2026-03-05T00:00:00Z"));
+    expect(parseRecurrenceRule("FREQ=DAILY;COUNT=3;UNTIL=20260305"))
+      .toEqual({ error: "A recurrence rule can end by COUNT or UNTIL, not both" });
+    expect(parseRecurrenceRule("FREQ=DAILY;UNTIL=20260230")).toEqual({ error: "UNTIL must be a date like 20261231" });
+  });
+});
+
+describe("getNextOccurrence", () => {
+  it("finds the last Friday of each month", () => {
+    // 2026-01-30 is the last Friday of January
+    expect(occurrences("FREQ=MONTHLY;BYDAY=-1FR", "2026-01-30T09:00:00Z", "UTC", 4)).toEqual([
+      "2026-02-27T09:00:00.000Z",
+      "2026-03-27T09:00:00.000Z",
+      "2026-04-24T09:00:00.000Z",
+      "2026-05-29T09:00:00.000Z",
+    ]);
+  });
+
+  it("keeps the wall clock time across daylight saving changes", () => {
+    // New York moves to daylight saving time on 2026-03-08
+    expect(occurrences("FREQ=WEEKLY;BYDAY=MO", "2026-03-02T14:00:00Z", "America/New_York", 2)).toEqual([
+      "2026-03-09T13:00:00.000Z",
+      "2026-03-16T13:00:00.000Z",
+    ]);
+    // Berlin leaves it on 2026-10-25
+    expect(occurrences("FREQ=DAILY", "2026-10-24T07:00:00Z", "Europe/Berlin", 2)).toEqual([
+      "2026-10-25T08:00:00.000Z",
+      "2026-10-26T08:00:00.000Z",
+    ]);
+  });
+
+  it("stops after the UNTIL day", () => {
+    expect(occurrences("FREQ=DAILY;UNTIL=20260305", "2026-03-03T09:00:00Z", "UTC", 5)).toEqual([
+      "2026-03-04T09:00:00.000Z",
+      "2026-03-05T09:00:00.000Z",
+    ]);
+  });
+
+  it("leaves COUNT to the caller", () => {
+    expect(occurrences("FREQ=DAILY;COUNT=2", "2026-03-03T09:00:00Z", "UTC", 3)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,295 @@
+// Recurrence rules for repeating tasks: the subset of iCalendar RRULEs
+// (RFC 5545) with FREQ, INTERVAL, BYDAY, BYMONTHDAY, COUNT and UNTIL.
+// Dates are worked out in the series' time zone so a task due on Mondays
+// stays on Mondays across daylight saving changes.
+
+export const recurrenceFrequencies = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"] as const;
+export type RecurrenceFrequency = typeof recurrenceFrequencies[number];
+
+// Indexed like Date.getUTCDay()
+export const weekdays = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"] as const;
+export type Weekday = typeof weekdays[number];
+
+export const MAX_RECURRENCE_INTERVAL = 99;
+
+export type RecurrenceDay = {
+  weekday: Weekday;
+  // Only with MONTHLY: 1 is the first such weekday of the month, -1 the last
+  ordinal?: number;
+};
+
+export type RecurrenceRule = {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byDay?: RecurrenceDay[];
+  // Only with MONTHLY; negative days count from the end of the month
+  byMonthDay?: number[];
+  // Ends after this many occurrences, or after the last one on or before `until`
+  count?: number;
+  // A calendar day, kept as midnight UTC
+  until?: Date;
+};
+
+// How a task repeats, as sent with task requests
+export type RepeatSetting = {
+  rule: string;
+  timeZone: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDay(value: string): RecurrenceDay | undefined {
+  const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(value);
+  if (!match) return undefined;
+  const day: RecurrenceDay = { weekday: match[2] as Weekday };
+  if (match[1] !== undefined) {
+    const ordinal = parseInt(match[1]);
+    if (ordinal === 0 || Math.abs(ordinal) > 5) return undefined;
+    day.ordinal = ordinal;
+  }
+  return day;
+}
+
+function parseUntil(value: string): Date | undefined {
+  const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(value);
+  if (!match) return undefined;
+  const date = new Date(Date.UTC(+match[1], +match[2] - 1, +match[3]));
+  return date.getUTCDate() === +match[3] ? date : undefined;
+}
+
+function parsePositiveInteger(value: string): number | undefined {
+  return /^\d+$/.test(value) && parseInt(value) > 0 ? parseInt(value) : undefined;
+}
+
+// Reads "FREQ=WEEKLY;BYDAY=MO,TH", with or without a leading "RRULE:"
+export function parseRecurrenceRule(text: string): { rule: RecurrenceRule } | { error: string } {
+  const parts = new Map<string, string>();
+  for (const part of text.trim().replace(/^RRULE:/i, "").split(";").filter(part => part.length > 0)) {
+    const [name, value = ""] = part.split("=");
+    parts.set(name.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  const frequency = parts.get("FREQ");
+  if (!frequency || !(recurrenceFrequencies as readonly string[]).includes(frequency)) {
+    return { error: `FREQ must be one of: ${recurrenceFrequencies.join(", ")}` };
+  }
+  const rule: RecurrenceRule = { frequency: frequency as RecurrenceFrequency, interval: 1 };
+
+  for (const [name, value] of Array.from(parts)) {
+    switch (name) {
+      case "FREQ":
+        break;
+      case "INTERVAL": {
+        const interval = parsePositiveInteger(value);
+        if (!interval || interval > MAX_RECURRENCE_INTERVAL) {
+          return { error: `INTERVAL must be between 1 and ${MAX_RECURRENCE_INTERVAL}` };
+        }
+        rule.interval = interval;
+        break;
+      }
+      case "BYDAY": {
+        const days = value.split(",").map(parseDay);
+        if (days.some(day => day === undefined)) return { error: `Invalid BYDAY: ${value}` };
+        if (rule.frequency !== "MONTHLY" && days.some(day => day!.ordinal !== undefined)) {
+          return { error: "Numbered weekdays in BYDAY need FREQ=MONTHLY" };
+        }
+        if (rule.frequency === "YEARLY") return { error: "BYDAY is not supported with FREQ=YEARLY" };
+        rule.byDay = days as RecurrenceDay[];
+        break;
+      }
+      case "BYMONTHDAY": {
+        const days = value.split(",").map(day => /^-?\d{1,2}$/.test(day) ? parseInt(day) : NaN);
+        if (days.some(day => isNaN(day) || day === 0 || Math.abs(day) > 31)) {
+          return { error: `Invalid BYMONTHDAY: ${value}` };
+        }
+        if (rule.frequency !== "MONTHLY") return { error: "BYMONTHDAY needs FREQ=MONTHLY" };
+        rule.byMonthDay = days;
+        break;
+      }
+      case "COUNT": {
+        const count = parsePositiveInteger(value);
+        if (!count) return { error: "COUNT must be a positive number" };
+        rule.count = count;
+        break;
+      }
+      case "UNTIL": {
+        const until = parseUntil(value);
+        if (!until) return { error: "UNTIL must be a date like 20261231" };
+        rule.until = until;
+        break;
+      }
+      default:
+        return { error: `${name} is not supported in recurrence rules` };
+    }
+  }
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    return { error: "A recurrence rule can end by COUNT or UNTIL, not both" };
+  }
+  return { rule };
+}
+
+function formatDay(day: RecurrenceDay): string {
+  return `${day.ordinal ?? ""}${day.weekday}`;
+}
+
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map(formatDay).join(",")}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.toISOString().slice(0, 10).replace(/-/g, "")}`);
+  return parts.join(";");
+}
+
+const weekdayNames: Record<Weekday, string> = {
+  SU: "Sunday", MO: "Monday", TU: "Tuesday", WE: "Wednesday", TH: "Thursday", FR: "Friday", SA: "Saturday",
+};
+
+const frequencyUnits: Record<RecurrenceFrequency, string> = {
+  DAILY: "day", WEEKLY: "week", MONTHLY: "month", YEARLY: "year",
+};
+
+function describeOrdinal(ordinal: number): string {
+  if (ordinal === -1) return "last";
+  if (ordinal < 0) return `${describeOrdinal(-ordinal)} to last`;
+  return ["first", "second", "third", "fourth", "fifth"][ordinal - 1];
+}
+
+// "Monday" or "the last Friday"
+export function describeRecurrenceDay(day: RecurrenceDay): string {
+  return day.ordinal !== undefined
+    ? `the ${describeOrdinal(day.ordinal)} ${weekdayNames[day.weekday]}`
+    : weekdayNames[day.weekday];
+}
+
+// "Every 2 weeks on Monday, Thursday, 10 times"
+export function describeRecurrenceRule(rule: RecurrenceRule): string {
+  const unit = frequencyUnits[rule.frequency];
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.byDay?.length) text += " on " + rule.byDay.map(describeRecurrenceDay).join(", ");
+  if (rule.byMonthDay?.length) {
+    text += " on day " + rule.byMonthDay.map(day => day < 0 ? `${-day} from the end` : String(day)).join(", ");
+  }
+  if (rule.count !== undefined) text += rule.count === 1 ? ", once" : `, ${rule.count} times`;
+  if (rule.until) text += `, until ${rule.until.toISOString().slice(0, 10)}`;
+  return text;
+}
+
+const zonedFormats = new Map<string, Intl.DateTimeFormat>();
+
+function getZonedFormat(timeZone: string): Intl.DateTimeFormat {
+  let zonedFormat = zonedFormats.get(timeZone);
+  if (!zonedFormat) {
+    zonedFormat = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    zonedFormats.set(timeZone, zonedFormat);
+  }
+  return zonedFormat;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getZonedFormat(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The wall clock time of `date` in the time zone, as if it were UTC
+export function toWallClock(date: Date, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of getZonedFormat(timeZone).formatToParts(date)) {
+    if (part.type !== "literal") parts[part.type] = parseInt(part.value);
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+// The moment the time zone's clocks show `wallClock`
+export function fromWallClock(wallClock: number, timeZone: string): Date {
+  const offset = toWallClock(new Date(wallClock), timeZone) - wallClock;
+  let time = wallClock - offset;
+  const correctedOffset = toWallClock(new Date(time), timeZone) - time;
+  if (correctedOffset !== offset) time = wallClock - correctedOffset;
+  return new Date(time);
+}
+
+function startOfDay(wallClock: number): number {
+  return Math.floor(wallClock / DAY_MS) * DAY_MS;
+}
+
+function daysInMonth(day: Date): number {
+  return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0)).getUTCDate();
+}
+
+// Whole weeks between the Monday-based weeks of two days
+function weeksBetween(from: number, to: number): number {
+  const monday = (day: number) => day - ((new Date(day).getUTCDay() + 6) % 7) * DAY_MS;
+  return Math.round((monday(to) - monday(from)) / (7 * DAY_MS));
+}
+
+function matchesDay(rule: RecurrenceRule, day: Date, start: Date): boolean {
+  const weekday = weekdays[day.getUTCDay()];
+  const date = day.getUTCDate();
+
+  switch (rule.frequency) {
+    case "DAILY":
+      if (Math.round((day.getTime() - start.getTime()) / DAY_MS) % rule.interval !== 0) return false;
+      return !rule.byDay || rule.byDay.some(byDay => byDay.weekday === weekday);
+    case "WEEKLY":
+      if (weeksBetween(start.getTime(), day.getTime()) % rule.interval !== 0) return false;
+      return rule.byDay
+        ? rule.byDay.some(byDay => byDay.weekday === weekday)
+        : day.getUTCDay() === start.getUTCDay();
+    case "MONTHLY": {
+      const months = (day.getUTCFullYear() - start.getUTCFullYear()) * 12 + day.getUTCMonth() - start.getUTCMonth();
+      if (months % rule.interval !== 0) return false;
+      const length = daysInMonth(day);
+      if (rule.byMonthDay && !rule.byMonthDay.some(byMonthDay => (byMonthDay > 0 ? byMonthDay : length + byMonthDay + 1) === date)) {
+        return false;
+      }
+      if (rule.byDay && !rule.byDay.some(byDay => byDay.weekday === weekday && (
+        byDay.ordinal === undefined ||
+        (byDay.ordinal > 0 ? Math.ceil(date / 7) : -Math.ceil((length - date + 1) / 7)) === byDay.ordinal
+      ))) {
+        return false;
+      }
+      return rule.byMonthDay !== undefined || rule.byDay !== undefined || date === start.getUTCDate();
+    }
+    case "YEARLY":
+      return (day.getUTCFullYear() - start.getUTCFullYear()) % rule.interval === 0 &&
+        day.getUTCMonth() === start.getUTCMonth() &&
+        date === start.getUTCDate();
+  }
+}
+
+// The first occurrence after `after` of a series that started at `start`,
+// at the same time of day as the start. Undefined once the rule has ended
+// by UNTIL; COUNT is left to the caller, which knows how many occurred.
+export function getNextOccurrence(rule: RecurrenceRule, start: Date, after: Date, timeZone: string): Date | undefined {
+  const startWallClock = toWallClock(start, timeZone);
+  const startDay = startOfDay(startWallClock);
+  const timeOfDay = startWallClock - startDay;
+
+  // Long enough to find a 29 February every four years at the largest interval
+  const searchDays = 366 * 4 * rule.interval + 7;
+  let day = Math.max(startDay, startOfDay(toWallClock(after, timeZone)));
+  for (let i = 0; i < searchDays; i++, day += DAY_MS) {
+    if (rule.until && day > rule.until.getTime()) return undefined;
+    if (!matchesDay(rule, new Date(day), new Date(startDay))) continue;
+    const occurrence = fromWallClock(day + timeOfDay, timeZone);
+    if (occurrence > after) return occurrence;
+  }
+  return undefined;
+}
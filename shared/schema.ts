@@ -1,16 +1,107 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 export const roles = ["admin", "manager", "employee"] as const;
 export type Role = typeof roles[number];
 
+// Statuses of the default workflow, used by projects without a custom one
 export const taskStatus = ["todo", "inProgress", "completed"] as const;
 export type TaskStatus = typeof taskStatus[number];
 
+// What a personal API token may be used for. "admin" covers every other
+// endpoint; the owner's role still limits what any token can do.
+export const apiTokenScopes = ["tasks:read", "tasks:write", "timeEntries:read", "timeEntries:write", "admin"] as const;
+export type ApiTokenScope = typeof apiTokenScopes[number];
+
+export const statusCategories = ["notStarted", "active", "done"] as const;
+export type StatusCategory = typeof statusCategories[number];
+
+export type WorkflowStatus = {
+  key: string;
+  name: string;
+  category: StatusCategory;
+  position: number;
+};
+
+export type WorkflowTransition = {
+  from: string;
+  to: string;
+};
+
 export const taskPriority = ["low", "medium", "high"] as const;
 export type TaskPriority = typeof taskPriority[number];
 
+export const MAX_REMINDER_LEAD_MINUTES = 14 * 24 * 60;
+export const MAX_ESCALATION_HOURS = 30 * 24;
+
+export const MAX_TEMPLATE_CHECKLIST_ITEMS = 50;
+export const MAX_TEMPLATE_DUE_OFFSET_DAYS = 365;
+
+export const taskEventTypes = [
+  "created",
+  "updated",
+  "deleted",
+  "assigned",
+  "unassigned",
+  "commented",
+  "timeLogged",
+  "labelAdded",
+  "labelRemoved",
+  "dependencyAdded",
+  "dependencyRemoved",
+  "attachmentAdded",
+  "attachmentRemoved",
+] as const;
+export type TaskEventType = typeof taskEventTypes[number];
+
+// Events delivered to webhook subscriptions; "ping" is only sent as a test
+export const webhookEvents = [
+  "task.created",
+  "task.updated",
+  "task.deleted",
+  "task.assigned",
+  "comment.created",
+  "timeEntry.created",
+  "attachment.created",
+] as const;
+export type WebhookEvent = typeof webhookEvents[number] | "ping";
+
+// Due date reminders: ahead of the due date, once overdue, and to the
+// creator and the project's manager once overdue past the escalation delay
+export const taskReminderKinds = ["dueSoon", "overdue", "escalated"] as const;
+export type TaskReminderKind = typeof taskReminderKinds[number];
+
+// What users are notified about; each type goes out on the channels the user picked
+export const notificationTypes = [
+  "task_assigned",
+  "comment_added",
+  "time_tracked",
+  "task_due_soon",
+  "task_overdue",
+  "task_escalated",
+] as const;
+export type NotificationType = typeof notificationTypes[number];
+
+// inApp keeps the notification for the bell menu. toast pushes that stored
+// notification over /ws and the digest lists unread ones, so both need inApp.
+export const notificationChannels = ["inApp", "toast", "email", "digest"] as const;
+export type NotificationChannel = typeof notificationChannels[number];
+
+// How often a user gets the email digest
+export const digestFrequencies = ["off", "daily", "weekly"] as const;
+export type DigestFrequency = typeof digestFrequencies[number];
+
+export const webhookDeliveryStatus = ["pending", "succeeded", "failed"] as const;
+export type WebhookDeliveryStatus = typeof webhookDeliveryStatus[number];
+
+// Before/after values of one task field; dates are stored as ISO strings
+export type TaskFieldChange = {
+  field: string;
+  from: string | number | null;
+  to: string | number | null;
+};
+
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
@@ -19,26 +110,212 @@ export const users = pgTable("users", {
   fullName: text("full_name").notNull(),
   role: text("role").notNull().$type<Role>(),
   avatar: text("avatar"),
+  // Base32 TOTP secret; set while enrolling, but only checked at login once
+  // totpEnabled is true
+  totpSecret: text("totp_secret"),
+  totpEnabled: boolean("totp_enabled").notNull().default(false),
+  // Hashes of the unused one-time recovery codes
+  recoveryCodeHashes: jsonb("recovery_code_hashes").$type<string[]>().notNull().default([]),
+  // The 30 second step of the last TOTP code accepted; codes for it and
+  // earlier steps are refused so a code cannot be used twice
+  totpLastStep: integer("totp_last_step"),
+  // Sessions signed in before this no longer count as signed in
+  passwordChangedAt: timestamp("password_changed_at"),
+});
+
+// Registration is by invitation; the invitee's account gets the invited
+// email and role. Only a hash of the emailed token is kept.
+export const invitations = pgTable("invitations", {
+  id: serial("id").primaryKey(),
+  email: text("email").notNull(),
+  role: text("role").notNull().$type<Role>(),
+  tokenHash: text("token_hash").notNull().unique(),
+  invitedById: integer("invited_by_id").notNull().references(() => users.id),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Single-use password reset links; like invitations only the token hash is kept
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Bearer tokens for scripts and integrations, acting as their owner.
+// Only the hash is kept; the prefix identifies a token in listings.
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  tokenPrefix: text("token_prefix").notNull(),
+  scopes: jsonb("scopes").$type<ApiTokenScope[]>().notNull(),
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("api_tokens_user_id_idx").on(table.userId),
+]);
+
+// Instance-wide settings changed by admins, one JSON value per key
+export const appSettings = pgTable("app_settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const projects = pgTable("projects", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  color: text("color"),
+  createdById: integer("created_by_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const workflows = pgTable("workflows", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().unique().references(() => projects.id),
+  statuses: jsonb("statuses").notNull().$type<WorkflowStatus[]>(),
+  transitions: jsonb("transitions").notNull().$type<WorkflowTransition[]>(),
 });
 
 export const tasks = pgTable("tasks", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
   description: text("description"),
-  status: text("status").notNull().$type<TaskStatus>(),
+  status: text("status").notNull(),
   priority: text("priority").notNull().$type<TaskPriority>(),
   dueDate: timestamp("due_date"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   estimatedHours: integer("estimated_hours"),
   createdById: integer("created_by_id").notNull().references(() => users.id),
+  projectId: integer("project_id").references(() => projects.id),
+  parentId: integer("parent_id").references((): AnyPgColumn => tasks.id),
+  // The series this task is an occurrence of, if it repeats
+  recurrenceId: integer("recurrence_id").references((): AnyPgColumn => taskRecurrences.id),
+}, (table) => [
+  index("tasks_status_idx").on(table.status),
+  index("tasks_priority_idx").on(table.priority),
+  index("tasks_created_by_id_idx").on(table.createdById),
+  index("tasks_parent_id_idx").on(table.parentId),
+  index("tasks_created_at_id_idx").on(table.createdAt, table.id),
+  index("tasks_due_date_id_idx").on(table.dueDate, table.id),
+  index("tasks_title_id_idx").on(table.title, table.id),
+  index("tasks_project_id_created_at_id_idx").on(table.projectId, table.createdAt, table.id),
+  index("tasks_recurrence_id_idx").on(table.recurrenceId),
+]);
+
+// A repeating task. Occurrences are tasks copied from the fields kept here;
+// the next one is created when the current one is done or once its
+// scheduled date has passed.
+export const taskRecurrences = pgTable("task_recurrences", {
+  id: serial("id").primaryKey(),
+  // RRULE subset, see shared/recurrence.ts
+  rule: text("rule").notNull(),
+  // IANA time zone the rule's days are counted in
+  timeZone: text("time_zone").notNull(),
+  // First occurrence of the rule, which INTERVAL counts from
+  startDate: timestamp("start_date").notNull(),
+  title: text("title").notNull(),
+  description: text("description"),
+  priority: text("priority").notNull().$type<TaskPriority>(),
+  estimatedHours: integer("estimated_hours"),
+  projectId: integer("project_id").references(() => projects.id),
+  createdById: integer("created_by_id").notNull().references(() => users.id),
+  // Latest occurrence and the date it was scheduled for. No foreign key, the
+  // series carries on when that task is deleted.
+  currentTaskId: integer("current_task_id"),
+  currentDueDate: timestamp("current_due_date").notNull(),
+  occurrenceCount: integer("occurrence_count").notNull().default(1),
+  // Set once the rule runs out or repeating is turned off
+  endedAt: timestamp("ended_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("task_recurrences_ended_at_current_due_date_idx").on(table.endedAt, table.currentDueDate),
+]);
+
+// Reminders already sent, so each goes out once however often the tasks are
+// scanned. They are kept per due date: moving the due date arms them again.
+export const taskReminders = pgTable("task_reminders", {
+  id: serial("id").primaryKey(),
+  taskId: integer("task_id").notNull().references(() => tasks.id),
+  kind: text("kind").notNull().$type<TaskReminderKind>(),
+  // Lead time of a dueSoon reminder, 0 for the other kinds
+  leadMinutes: integer("lead_minutes").notNull().default(0),
+  dueDate: timestamp("due_date").notNull(),
+  sentAt: timestamp("sent_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("task_reminders_task_id_kind_lead_minutes_due_date_idx").on(table.taskId, table.kind, table.leadMinutes, table.dueDate),
+]);
+
+// A reusable blueprint for a task. Checklist items become subtasks of each
+// task made from it.
+export const taskTemplates = pgTable("task_templates", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  title: text("title").notNull(),
+  description: text("description"),
+  priority: text("priority").notNull().$type<TaskPriority>(),
+  estimatedHours: integer("estimated_hours"),
+  projectId: integer("project_id").references(() => projects.id),
+  assigneeIds: jsonb("assignee_ids").$type<number[]>().notNull().default([]),
+  checklist: jsonb("checklist").$type<string[]>().notNull().default([]),
+  // Days from the day the template is used to the due date; no due date when null
+  dueOffsetDays: integer("due_offset_days"),
+  createdById: integer("created_by_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Templates used together, e.g. all tasks of onboarding someone
+export const taskTemplateBundles = pgTable("task_template_bundles", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  templateIds: jsonb("template_ids").$type<number[]>().notNull(),
+  createdById: integer("created_by_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const taskAssignees = pgTable("task_assignees", {
   id: serial("id").primaryKey(),
   taskId: integer("task_id").notNull().references(() => tasks.id),
   userId: integer("user_id").notNull().references(() => users.id),
+}, (table) => [
+  index("task_assignees_task_id_idx").on(table.taskId),
+  index("task_assignees_user_id_idx").on(table.userId),
+]);
+
+export const labels = pgTable("labels", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  color: text("color").notNull(),
+  createdById: integer("created_by_id").notNull().references(() => users.id),
 });
 
+export const taskLabels = pgTable("task_labels", {
+  id: serial("id").primaryKey(),
+  taskId: integer("task_id").notNull().references(() => tasks.id),
+  labelId: integer("label_id").notNull().references(() => labels.id),
+}, (table) => [
+  uniqueIndex("task_labels_task_id_label_id_idx").on(table.taskId, table.labelId),
+  index("task_labels_label_id_idx").on(table.labelId),
+]);
+
+export const taskDependencies = pgTable("task_dependencies", {
+  id: serial("id").primaryKey(),
+  blockingTaskId: integer("blocking_task_id").notNull().references(() => tasks.id),
+  blockedTaskId: integer("blocked_task_id").notNull().references(() => tasks.id),
+}, (table) => [
+  uniqueIndex("task_dependencies_blocking_blocked_idx").on(table.blockingTaskId, table.blockedTaskId),
+  index("task_dependencies_blocked_task_id_idx").on(table.blockedTaskId),
+]);
+
 export const comments = pgTable("comments", {
   id: serial("id").primaryKey(),
   taskId: integer("task_id").notNull().references(() => tasks.id),
@@ -53,6 +330,9 @@ export const attachments = pgTable("attachments", {
   fileName: text("file_name").notNull(),
   fileType: text("file_type").notNull(),
   fileSize: integer("file_size").notNull(),
+  // Blob store keys for the file and, for images, its thumbnail
+  storageKey: text("storage_key").notNull(),
+  thumbnailKey: text("thumbnail_key"),
   userId: integer("user_id").notNull().references(() => users.id),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
@@ -78,9 +358,165 @@ export const notifications = pgTable("notifications", {
   relatedId: integer("related_id"),
 });
 
+// One row per user who changed their notification settings; types missing
+// from preferences use the defaults
+export const notificationPreferences = pgTable("notification_preferences", {
+  userId: integer("user_id").primaryKey().references(() => users.id),
+  preferences: jsonb("preferences").$type<Partial<NotificationPreferences>>().notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Email digest schedule of users who changed it or got a digest; users
+// without a row get daily digests
+export const digestSettings = pgTable("digest_settings", {
+  userId: integer("user_id").primaryKey().references(() => users.id),
+  frequency: text("frequency").notNull().$type<DigestFrequency>().default("daily"),
+  // IANA time zone whose clock decides when the digest is due
+  timeZone: text("time_zone").notNull().default("UTC"),
+  lastSentAt: timestamp("last_sent_at"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Append-only task history. taskId and projectId have no foreign keys so
+// history outlives deleted tasks and projects.
+export const taskEvents = pgTable("task_events", {
+  id: serial("id").primaryKey(),
+  taskId: integer("task_id").notNull(),
+  // The task's project when the event happened, for the activity feed
+  projectId: integer("project_id"),
+  userId: integer("user_id").notNull().references(() => users.id),
+  type: text("type").notNull().$type<TaskEventType>(),
+  changes: jsonb("changes").$type<TaskFieldChange[]>(),
+  // Event specific references, e.g. the assigned user or the new comment
+  details: jsonb("details").$type<Record<string, unknown>>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("task_events_task_id_created_at_idx").on(table.taskId, table.createdAt),
+  index("task_events_project_id_id_idx").on(table.projectId, table.id),
+  index("task_events_user_id_id_idx").on(table.userId, table.id),
+]);
+
+// Outgoing HTTP callbacks. The secret signs payloads, so unlike tokens it
+// has to be kept as is.
+export const webhooks = pgTable("webhooks", {
+  id: serial("id").primaryKey(),
+  url: text("url").notNull(),
+  description: text("description"),
+  secret: text("secret").notNull(),
+  events: jsonb("events").$type<(typeof webhookEvents[number])[]>().notNull(),
+  active: boolean("active").notNull().default(true),
+  createdById: integer("created_by_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// One event sent to one webhook, doubling as the retry queue: pending
+// deliveries are (re)tried once nextAttemptAt has passed
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  webhookId: integer("webhook_id").notNull().references(() => webhooks.id, { onDelete: "cascade" }),
+  event: text("event").notNull().$type<WebhookEvent>(),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+  status: text("status").notNull().$type<WebhookDeliveryStatus>().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  // Outcome of the latest attempt
+  responseStatus: integer("response_status"),
+  responseBody: text("response_body"),
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("webhook_deliveries_status_next_attempt_at_idx").on(table.status, table.nextAttemptAt),
+  index("webhook_deliveries_webhook_id_id_idx").on(table.webhookId, table.id),
+]);
+
+// Secret URLs calendar apps subscribe to. Without a project the feed has
+// the owner's assigned tasks, with one it has all of the project's tasks.
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("calendar_feeds_user_id_idx").on(table.userId),
+]);
+
 // Insert Schemas
+// Two-factor fields are only changed through enrolment
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
+  totpSecret: true,
+  totpEnabled: true,
+  recoveryCodeHashes: true,
+  totpLastStep: true,
+  passwordChangedAt: true,
+});
+
+export const insertInvitationSchema = createInsertSchema(invitations).omit({
+  id: true,
+  acceptedAt: true,
+  createdAt: true,
+});
+
+export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens).omit({
+  id: true,
+  usedAt: true,
+  createdAt: true,
+});
+
+export const insertApiTokenSchema = createInsertSchema(apiTokens, {
+  scopes: z.array(z.enum(apiTokenScopes)).min(1),
+}).omit({
+  id: true,
+  lastUsedAt: true,
+  createdAt: true,
+});
+
+export const insertCalendarFeedSchema = createInsertSchema(calendarFeeds).omit({
+  id: true,
+  lastUsedAt: true,
+  createdAt: true,
+});
+
+export const insertWebhookSchema = createInsertSchema(webhooks, {
+  url: z.string().url("A valid URL is required").refine(
+    url => /^https?:\/\//.test(url),
+    "The URL must use http or https"
+  ),
+  events: z.array(z.enum(webhookEvents)).min(1, "Pick at least one event"),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries, {
+  event: z.enum([...webhookEvents, "ping"]),
+  payload: z.record(z.unknown()),
+  status: z.enum(webhookDeliveryStatus).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertProjectSchema = createInsertSchema(projects).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertWorkflowSchema = z.object({
+  statuses: z.array(z.object({
+    key: z.string().trim().min(1),
+    name: z.string().trim().min(1),
+    category: z.enum(statusCategories),
+    position: z.number().int(),
+  })).min(1),
+  // Omitted transitions allow moving between any two statuses
+  transitions: z.array(z.object({
+    from: z.string(),
+    to: z.string(),
+  })).optional(),
 });
 
 export const insertTaskSchema = createInsertSchema(tasks).omit({
@@ -88,10 +524,58 @@ export const insertTaskSchema = createInsertSchema(tasks).omit({
   createdAt: true,
 });
 
+export const insertTaskRecurrenceSchema = createInsertSchema(taskRecurrences, {
+  priority: z.enum(taskPriority),
+}).omit({
+  id: true,
+  endedAt: true,
+  createdAt: true,
+});
+
+export const insertTaskTemplateSchema = createInsertSchema(taskTemplates, {
+  name: z.string({ required_error: "A name is required" }).trim().min(1, "A name is required").max(100),
+  title: z.string({ required_error: "A title is required" }).trim().min(1, "A title is required"),
+  priority: z.enum(taskPriority),
+  estimatedHours: z.number().int().min(0).nullable().optional(),
+  assigneeIds: z.array(z.number().int()).optional(),
+  checklist: z.array(z.string().trim().min(1, "Checklist items cannot be empty")).max(MAX_TEMPLATE_CHECKLIST_ITEMS).optional(),
+  dueOffsetDays: z.number().int().min(0).max(MAX_TEMPLATE_DUE_OFFSET_DAYS).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTaskTemplateBundleSchema = createInsertSchema(taskTemplateBundles, {
+  name: z.string({ required_error: "A name is required" }).trim().min(1, "A name is required").max(100),
+  templateIds: z.array(z.number().int()).min(1, "Pick at least one template"),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTaskReminderSchema = createInsertSchema(taskReminders, {
+  kind: z.enum(taskReminderKinds),
+}).omit({
+  id: true,
+  sentAt: true,
+});
+
 export const insertTaskAssigneeSchema = createInsertSchema(taskAssignees).omit({
   id: true,
 });
 
+export const insertLabelSchema = createInsertSchema(labels).omit({
+  id: true,
+});
+
+export const insertTaskLabelSchema = createInsertSchema(taskLabels).omit({
+  id: true,
+});
+
+export const insertTaskDependencySchema = createInsertSchema(taskDependencies).omit({
+  id: true,
+});
+
 export const insertCommentSchema = createInsertSchema(comments).omit({
   id: true,
   createdAt: true,
@@ -112,16 +596,172 @@ export const insertNotificationSchema = createInsertSchema(notifications).omit({
   isRead: true,
 });
 
+const taskFieldValueSchema = z.union([z.string(), z.number(), z.null()]);
+
+export const insertTaskEventSchema = createInsertSchema(taskEvents, {
+  type: z.enum(taskEventTypes),
+  changes: z.array(z.object({
+    field: z.string(),
+    from: taskFieldValueSchema,
+    to: taskFieldValueSchema,
+  })).nullable().optional(),
+  details: z.record(z.unknown()).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Admin-controlled security settings, kept in the "securityPolicy" app setting
+export const securityPolicySchema = z.object({
+  // Users with these roles must turn on two-factor authentication
+  twoFactorRequiredRoles: z.array(z.enum(roles)),
+});
+
+// Admin-controlled due date reminders, kept in the "reminderPolicy" app setting
+export const reminderPolicySchema = z.object({
+  // How long before the due date assignees are reminded
+  leadMinutes: z.array(z.number().int()
+    .min(1, "Reminders need a lead time")
+    .max(MAX_REMINDER_LEAD_MINUTES, "Reminders can be at most 14 days ahead"))
+    .max(5, "At most 5 reminders")
+    .refine(leads => new Set(leads).size === leads.length, "Each reminder time can only be used once"),
+  // How long a task may be overdue before its creator and the project's
+  // manager are told; null turns escalation off
+  escalationHours: z.number().int()
+    .min(1, "Escalate after at least an hour")
+    .max(MAX_ESCALATION_HOURS, "Escalate within 30 days")
+    .nullable(),
+});
+
+export const notificationChannelSettingsSchema = z.object({
+  inApp: z.boolean(),
+  toast: z.boolean(),
+  email: z.boolean(),
+  digest: z.boolean(),
+});
+
+// Settings by notification type; types left out keep what they had
+export const notificationPreferencesSchema = z.record(z.enum(notificationTypes), notificationChannelSettingsSchema);
+
+export const digestSettingsSchema = z.object({
+  frequency: z.enum(digestFrequencies),
+  timeZone: z.string().default("UTC"),
+});
+
+export const defaultNotificationChannels: NotificationChannelSettings = {
+  inApp: true,
+  toast: true,
+  email: false,
+  digest: true,
+};
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+// A user as returned by the API, without the password hash or 2FA secrets
+export type PublicUser = Omit<User, "password" | "totpSecret" | "recoveryCodeHashes" | "totpLastStep">;
+// The signed-in user as returned by /api/user and the login routes
+export type CurrentUser = PublicUser & {
+  // The security policy requires 2FA for the user's role but it is not set up
+  twoFactorSetupRequired: boolean;
+};
+export type TwoFactorStatus = {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+};
+
+export type Invitation = typeof invitations.$inferSelect;
+export type InsertInvitation = z.infer<typeof insertInvitationSchema>;
+// An invitation as returned by the API, without the token hash
+export type PublicInvitation = Omit<Invitation, "tokenHash">;
+
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+// An API token as returned by the API, without the token hash
+export type PublicApiToken = Omit<ApiToken, "tokenHash">;
+
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+export type InsertCalendarFeed = z.infer<typeof insertCalendarFeedSchema>;
+// A calendar feed as returned by the API, without the token hash
+export type PublicCalendarFeed = Omit<CalendarFeed, "tokenHash">;
+
+export type Webhook = typeof webhooks.$inferSelect;
+export type InsertWebhook = z.infer<typeof insertWebhookSchema>;
+// A webhook as returned by the API; the secret is only shown on creation
+export type PublicWebhook = Omit<Webhook, "secret">;
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+
+export type AppSetting = typeof appSettings.$inferSelect;
+export type StoredNotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type DigestSettings = typeof digestSettings.$inferSelect;
+export type SecurityPolicy = z.infer<typeof securityPolicySchema>;
+export type ReminderPolicy = z.infer<typeof reminderPolicySchema>;
+
+export type Project = typeof projects.$inferSelect;
+export type InsertProject = z.infer<typeof insertProjectSchema>;
+
+export type Workflow = typeof workflows.$inferSelect;
+export type InsertWorkflow = z.infer<typeof insertWorkflowSchema>;
 
 export type Task = typeof tasks.$inferSelect;
 export type InsertTask = z.infer<typeof insertTaskSchema>;
 
+export const taskExportFormats = ["csv", "json"] as const;
+export type TaskExportFormat = typeof taskExportFormats[number];
+
+// A task as exported, with assignees by username
+export type ExportedTask = Task & { assignees: string[] };
+
+// Problem with one imported row; rows are numbered from 1, not counting the CSV header
+export type TaskImportError = {
+  row: number;
+  message: string;
+};
+
+// Outcome of POST /api/tasks/import. Nothing is created when there are
+// errors or on a dry run.
+export type TaskImportResult = {
+  dryRun: boolean;
+  rowCount: number;
+  errors: TaskImportError[];
+  tasks: Task[];
+};
+
+export type TaskRecurrence = typeof taskRecurrences.$inferSelect;
+export type InsertTaskRecurrence = z.infer<typeof insertTaskRecurrenceSchema>;
+
+// How an edit of one occurrence of a repeating task applies: to that task
+// only, or also to the occurrences still to come
+export const recurrenceScopes = ["occurrence", "future"] as const;
+export type RecurrenceScope = typeof recurrenceScopes[number];
+
+export type TaskReminder = typeof taskReminders.$inferSelect;
+export type InsertTaskReminder = z.infer<typeof insertTaskReminderSchema>;
+
+export type TaskTemplate = typeof taskTemplates.$inferSelect;
+export type InsertTaskTemplate = z.infer<typeof insertTaskTemplateSchema>;
+
+export type TaskTemplateBundle = typeof taskTemplateBundles.$inferSelect;
+export type InsertTaskTemplateBundle = z.infer<typeof insertTaskTemplateBundleSchema>;
+
 export type TaskAssignee = typeof taskAssignees.$inferSelect;
 export type InsertTaskAssignee = z.infer<typeof insertTaskAssigneeSchema>;
 
+export type Label = typeof labels.$inferSelect;
+export type InsertLabel = z.infer<typeof insertLabelSchema>;
+
+export type TaskLabel = typeof taskLabels.$inferSelect;
+export type InsertTaskLabel = z.infer<typeof insertTaskLabelSchema>;
+
+export type TaskDependency = typeof taskDependencies.$inferSelect;
+export type InsertTaskDependency = z.infer<typeof insertTaskDependencySchema>;
+
 export type Comment = typeof comments.$inferSelect;
 export type InsertComment = z.infer<typeof insertCommentSchema>;
 
@@ -133,3 +773,12 @@ export type InsertTimeEntry = z.infer<typeof insertTimeEntrySchema>;
 
 export type Notification = typeof notifications.$inferSelect;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type NotificationChannelSettings = z.infer<typeof notificationChannelSettingsSchema>;
+// Settings for every notification type, as returned by the API
+export type NotificationPreferences = Record<NotificationType, NotificationChannelSettings>;
+
+export type TaskEvent = typeof taskEvents.$inferSelect;
+export type InsertTaskEvent = z.infer<typeof insertTaskEventSchema>;
+
+// A task event as shown in the activity feed, with the title of its task
+export type ActivityItem = TaskEvent & { taskTitle: string | null };
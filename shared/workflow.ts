@@ -0,0 +1,120 @@
+import {
+  Workflow,
+  WorkflowStatus,
+  WorkflowTransition,
+  StatusCategory,
+  InsertWorkflow,
+} from "./schema";
+
+// The parts of a workflow that decide how tasks move, without the owning project
+export type WorkflowDefinition = Pick<Workflow, "statuses" | "transitions">;
+
+export const statusCategoryLabels: Record<StatusCategory, string> = {
+  notStarted: "Not Started",
+  active: "Active",
+  done: "Done",
+};
+
+// Every ordered pair of distinct statuses, i.e. an unrestricted workflow
+export function allTransitions(statuses: WorkflowStatus[]): WorkflowTransition[] {
+  return statuses.flatMap(from =>
+    statuses
+      .filter(to => to.key !== from.key)
+      .map(to => ({ from: from.key, to: to.key }))
+  );
+}
+
+const defaultStatuses: WorkflowStatus[] = [
+  { key: "todo", name: "To Do", category: "notStarted", position: 0 },
+  { key: "inProgress", name: "In Progress", category: "active", position: 1 },
+  { key: "completed", name: "Completed", category: "done", position: 2 },
+];
+
+// Used by tasks without a project and by projects that never customized their workflow
+export const defaultWorkflow: WorkflowDefinition = {
+  statuses: defaultStatuses,
+  transitions: allTransitions(defaultStatuses),
+};
+
+export function getOrderedStatuses(workflow: WorkflowDefinition): WorkflowStatus[] {
+  return [...workflow.statuses].sort((a, b) => a.position - b.position);
+}
+
+export function getWorkflowStatus(workflow: WorkflowDefinition, key: string): WorkflowStatus | undefined {
+  return workflow.statuses.find(status => status.key === key);
+}
+
+// The first status (by position) in the given category
+export function getFirstStatusInCategory(
+  workflow: WorkflowDefinition,
+  category: StatusCategory
+): WorkflowStatus | undefined {
+  return getOrderedStatuses(workflow).find(status => status.category === category);
+}
+
+// Status given to new tasks when none is specified
+export function getInitialStatus(workflow: WorkflowDefinition): WorkflowStatus {
+  return getFirstStatusInCategory(workflow, "notStarted") ?? getOrderedStatuses(workflow)[0];
+}
+
+export function isDoneStatus(workflow: WorkflowDefinition, key: string): boolean {
+  return getWorkflowStatus(workflow, key)?.category === "done";
+}
+
+export function isTransitionAllowed(workflow: WorkflowDefinition, from: string, to: string): boolean {
+  if (from === to) return true;
+  return workflow.transitions.some(transition => transition.from === from && transition.to === to);
+}
+
+// Statuses a task currently in `from` may move to, including staying put
+export function getAllowedTargetStatuses(workflow: WorkflowDefinition, from: string): WorkflowStatus[] {
+  return getOrderedStatuses(workflow).filter(status => isTransitionAllowed(workflow, from, status.key));
+}
+
+// Finds the status in `workflow` closest to `key` from another workflow:
+// the same key if it exists, otherwise the first status of the same category
+export function mapStatusToWorkflow(
+  workflow: WorkflowDefinition,
+  key: string,
+  category: StatusCategory | undefined
+): WorkflowStatus {
+  return getWorkflowStatus(workflow, key)
+    ?? (category && getFirstStatusInCategory(workflow, category))
+    ?? getInitialStatus(workflow);
+}
+
+// Checks a submitted workflow and fills in defaults.
+// Returns an error message when the definition is unusable.
+export function normalizeWorkflow(input: InsertWorkflow): { workflow: WorkflowDefinition } | { error: string } {
+  const keys = new Set<string>();
+  for (const status of input.statuses) {
+    if (keys.has(status.key)) {
+      return { error: `Duplicate status key "${status.key}"` };
+    }
+    keys.add(status.key);
+  }
+
+  if (!input.statuses.some(status => status.category === "done")) {
+    return { error: "Workflow needs at least one status in the done category" };
+  }
+
+  const transitions = input.transitions ?? allTransitions(input.statuses);
+  for (const transition of transitions) {
+    if (!keys.has(transition.from) || !keys.has(transition.to)) {
+      return { error: `Transition ${transition.from} -> ${transition.to} refers to an unknown status` };
+    }
+  }
+
+  // Drop self-transitions and duplicates, they carry no meaning
+  const uniqueTransitions = transitions.filter((transition, index) =>
+    transition.from !== transition.to &&
+    transitions.findIndex(other => other.from === transition.from && other.to === transition.to) === index
+  );
+
+  return {
+    workflow: {
+      statuses: input.statuses,
+      transitions: uniqueTransitions,
+    },
+  };
+}